@@ -5,6 +5,7 @@ import { GeistMono } from "geist/font/mono"
 import { Analytics } from "@vercel/analytics/next"
 import { ThemeProvider } from "@/components/theme-provider"
 import { ConvexClientProvider } from "@/lib/convex-provider"
+import { SettingsProvider } from "@/components/settings-provider"
 import { Suspense } from "react"
 import "./globals.css"
 
@@ -27,7 +28,7 @@ export default function RootLayout({
         <Suspense fallback={null}>
           <ConvexClientProvider>
             <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-              {children}
+              <SettingsProvider>{children}</SettingsProvider>
             </ThemeProvider>
           </ConvexClientProvider>
         </Suspense>
@@ -5,7 +5,8 @@ import { useQuery, useMutation } from "convex/react"
 import { authClient } from "@/lib/auth-client"
 import { loadLocalNotes, saveLocalNotes, Note, addDeletedNote, removeDeletedNote, getDeletedNotes } from "@/lib/local-storage"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { SignInDialog } from "@/components/sign-in-dialog"
+import { AuthButton } from "@/components/auth-button"
+import { useSettings } from "@/components/settings-provider"
 import { Button } from "@/components/ui/button"
 import { Trash2, ZoomIn, ZoomOut, RotateCcw } from "lucide-react"
 import { StickyNote } from "../components/sticky-note"
@@ -53,13 +54,9 @@ export default function Home() {
   const [isReconnecting, setIsReconnecting] = useState(false)
   const [deletedNotesQueue, setDeletedNotesQueue] = useState<Array<{note: Note, timeoutId: NodeJS.Timeout}>>([])
 
-  // Focus mode state
-  const [isFocusMode, setIsFocusMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('focusMode') === 'true'
-    }
-    return false
-  })
+  // Focus mode is a synced setting
+  const { settings, updateSettings } = useSettings()
+  const isFocusMode = settings.general.focusMode
   
   const canvasRef = useRef<HTMLDivElement>(null)
   const lastPanRef = useRef({ x: 0, y: 0 })
@@ -70,22 +67,17 @@ export default function Home() {
   // Toast hook
   const { toast } = useToast()
 
-  // Focus mode persistence
-  useEffect(() => {
-    localStorage.setItem('focusMode', isFocusMode.toString())
-  }, [isFocusMode])
-
   // Focus mode keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
-        setIsFocusMode(prev => !prev)
+        updateSettings({ general: { focusMode: !isFocusMode } })
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isFocusMode, updateSettings])
   
   // Convex queries and mutations (only available when Convex is configured)
   let convexNotes: any[] | undefined = undefined
@@ -537,23 +529,7 @@ export default function Home() {
               Add note
             </Button>
             <div className="flex items-center gap-2">
-              {session?.user ? (
-                <div className="flex items-center gap-2">
-                  <span className="font-mono text-sm text-muted-foreground">{session.user.email}</span>
-                  <button
-                    onClick={() => authClient.signOut()}
-                    className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm"
-                  >
-                    Sign out
-                  </button>
-                </div>
-              ) : (
-                <SignInDialog>
-                  <button className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm">
-                    Sign in
-                  </button>
-                </SignInDialog>
-              )}
+              <AuthButton />
               <ThemeToggle />
             </div>
           </div>
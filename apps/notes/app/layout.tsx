@@ -5,6 +5,7 @@ import { GeistMono } from "geist/font/mono"
 import { Analytics } from "@vercel/analytics/next"
 import { ThemeProvider } from "@/components/theme-provider"
 import { Providers } from "@/components/providers"
+import { SettingsProvider } from "@/components/settings-provider"
 import { Suspense } from "react"
 import "./globals.css"
 
@@ -30,7 +31,7 @@ export default function RootLayout({
         <Suspense fallback={null}>
           <Providers>
             <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-              {children}
+              <SettingsProvider>{children}</SettingsProvider>
             </ThemeProvider>
           </Providers>
         </Suspense>
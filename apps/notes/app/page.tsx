@@ -1,93 +1,75 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
-import { Plus, Eye, Trash2, ChevronLeft } from "lucide-react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { Plus, Eye, Trash2, ChevronLeft, Search, X, History, Pin, PinOff, Folder, CalendarDays } from "lucide-react"
 import { AnimatePresence } from "framer-motion"
 import { useMutation } from "convex/react"
 import { api } from "@/convex/_generated/api"
 import { Id } from "@/convex/_generated/dataModel"
 import { useSession } from "@/lib/auth-client"
-import { useJournalNotes } from "@/lib/convex-query-adapter"
-import { loadLocalNotes, saveLocalNotes, addDeletedNote, removeDeletedNote, getDeletedNotes, saveCurrentNoteId, loadCurrentNoteId, type Note } from "@/lib/local-storage"
+import { fromConvexNote, useJournalAttachments, useJournalNotebooks, useJournalNotes, useJournalNoteSearch, useNoteRevisions } from "@/lib/convex-query-adapter"
+import { loadLocalNotes, saveLocalNotes, addDeletedNote, removeDeletedNote, getDeletedNotes, saveCurrentNoteId, loadCurrentNoteId, loadLocalNotebooks, saveLocalNotebooks, type Note, type Notebook, type NoteRevision } from "@/lib/local-storage"
+import { getNotebookIdsWithin, getNotebookPath, getNotebookTree, removeNotebook, sortPinnedFirst } from "@/lib/notebooks"
+import { findEntry, formatEntryTitle, getDateKey } from "@/lib/daily-notes"
+import { getBacklinks, remapNoteLinks, renameNoteLinks } from "@/lib/note-links"
+import { getAttachmentError, getAttachmentIds, type Attachment, type AttachmentPreview } from "@/lib/attachments"
+import {
+  deleteLocalAttachments,
+  deleteUnreferencedLocalAttachments,
+  loadLocalAttachments,
+  saveLocalAttachment,
+  type LocalAttachment,
+} from "@/lib/attachment-store"
+import { deleteLocalRevisions, getLocalRevisions, recordLocalRevision, REVISION_INTERVAL_MS } from "@/lib/note-revisions"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { AuthButton } from "@/components/auth-button"
+import { useSettings } from "@/components/settings-provider"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Toaster } from "@/components/ui/toaster"
 import { useToast } from "@/components/ui/use-toast"
 import { ToastAction } from "@/components/ui/toast"
-
-// Helper functions for list creation
-const createUnorderedList = (divElement: HTMLElement) => {
-  // Clear the trigger characters from the div first
-  divElement.textContent = ''
-  
-  const ul = document.createElement('ul')
-  const li = document.createElement('li')
-  li.textContent = ''
-  ul.appendChild(li)
-  
-  // Replace the div with the ul
-  divElement.parentNode?.replaceChild(ul, divElement)
-  
-  // Set cursor in the new list item
-  const range = document.createRange()
-  const selection = window.getSelection()
-  range.setStart(li, 0)
-  range.setEnd(li, 0)
-  selection?.removeAllRanges()
-  selection?.addRange(range)
-  
-  // Focus the contentEditable to ensure cursor is visible
-  if (ul.parentElement) {
-    (ul.parentElement as HTMLElement).focus()
-  }
-}
-
-const createOrderedList = (divElement: HTMLElement, startNumber: number) => {
-  // Clear the trigger characters from the div first
-  divElement.textContent = ''
-  
-  const ol = document.createElement('ol')
-  ol.setAttribute('start', startNumber.toString())
-  const li = document.createElement('li')
-  li.textContent = ''
-  ol.appendChild(li)
-  
-  // Replace the div with the ol
-  divElement.parentNode?.replaceChild(ol, divElement)
-  
-  // Set cursor in the new list item
-  const range = document.createRange()
-  const selection = window.getSelection()
-  range.setStart(li, 0)
-  range.setEnd(li, 0)
-  selection?.removeAllRanges()
-  selection?.addRange(range)
-  
-  // Focus the contentEditable to ensure cursor is visible
-  if (ol.parentElement) {
-    (ol.parentElement as HTMLElement).focus()
-  }
-}
+import { BlockEditor, type BlockEditorHandle } from "@/components/block-editor"
+import { Highlight } from "@/components/highlight"
+import { RevisionHistory } from "@/components/revision-history"
+import { NotebooksDialog } from "@/components/notebooks-dialog"
+import { JournalCalendar } from "@/components/journal-calendar"
+import { Backlinks } from "@/components/backlinks"
+import { getNoteMarkdown, getNotePreview, getNoteText } from "@/lib/legacy-html"
+import { buildNoteSearchIndex, getSearchSnippet, searchNoteIndex } from "@/lib/note-search"
 
 export default function Home() {
   const [notes, setNotes] = useState<Note[]>([])
   const [currentNote, setCurrentNote] = useState<Note | null>(null)
   const [showHistory, setShowHistory] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("")
+  const [showRevisions, setShowRevisions] = useState(false)
+  const [localRevisions, setLocalRevisions] = useState<NoteRevision[]>([])
+  const [notebooks, setNotebooks] = useState<Notebook[]>([])
+  const [selectedNotebookId, setSelectedNotebookId] = useState<string | null>(null)
+  const [localAttachments, setLocalAttachments] = useState<LocalAttachment[]>([])
+  const [localAttachmentUrls, setLocalAttachmentUrls] = useState<Record<string, string>>({})
+  // The viewer's local date, for daily entries
+  const [today, setToday] = useState(() => getDateKey())
   const [formData, setFormData] = useState({ title: "", content: "" })
   const [hasInitialized, setHasInitialized] = useState(false)
   const [deletedNotesQueue, setDeletedNotesQueue] = useState<Array<{note: Note, timeoutId: NodeJS.Timeout}>>([])
-  const contentRef = useRef<HTMLDivElement>(null)
+  // Bumped whenever another note is loaded, so the editor remounts with its content
+  const [editorKey, setEditorKey] = useState(0)
+  const editorRef = useRef<BlockEditorHandle>(null)
+  // Edits since the last revision, so leaving the editor only snapshots real changes
+  const hasUnsnapshottedEditsRef = useRef(false)
   const prevNotesSerializedRef = useRef<string>("")
+  const formDataRef = useRef(formData)
+  useEffect(() => {
+    formDataRef.current = formData
+  }, [formData])
 
-  // Focus mode state
-  const [isFocusMode, setIsFocusMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('focusMode') === 'true'
-    }
-    return false
-  })
+  // Focus mode is a synced setting
+  const { settings, updateSettings } = useSettings()
+  const isFocusMode = settings.general.focusMode
+  const isDailyNotesMode = settings.journal.dailyNotes
 
   // Auth state - using Better Auth session
   const { data: session, isPending } = useSession()
@@ -105,31 +87,158 @@ export default function Home() {
     notesFromAdapterRef.current = notesFromAdapter
   }, [notesFromAdapter])
 
+  // Search: the local index answers straight away, and signed-in users get the server's
+  // results once they arrive
+  const trimmedSearchQuery = searchQuery.trim()
+  const isSearching = showHistory && trimmedSearchQuery !== ""
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearchQuery(trimmedSearchQuery), 200)
+    return () => clearTimeout(timeoutId)
+  }, [trimmedSearchQuery])
+  const searchIndex = useMemo(() => (isSearching ? buildNoteSearchIndex(notes) : null), [isSearching, notes])
+  const serverSearchResults = useJournalNoteSearch(debouncedSearchQuery, isAuthenticated && showHistory)
+  const searchResults = useMemo(() => {
+    if (!searchIndex) return null
+    if (serverSearchResults && debouncedSearchQuery === trimmedSearchQuery) {
+      // Prefer the local copy, which may have unsynced edits
+      return serverSearchResults.map((result) => searchIndex.notes.get(result.id) ?? result)
+    }
+    return searchNoteIndex(searchIndex, trimmedSearchQuery)
+  }, [searchIndex, serverSearchResults, debouncedSearchQuery, trimmedSearchQuery])
+
+  // Signed-in users see the server's notebooks; the local copy fills in until they load
+  const serverNotebooks = useJournalNotebooks(isAuthenticated)
+  const visibleNotebooks = (isAuthenticated ? serverNotebooks : undefined) ?? notebooks
+  const notebookTree = useMemo(() => getNotebookTree(visibleNotebooks), [visibleNotebooks])
+  const notebookFilter = useMemo(
+    () => (selectedNotebookId ? getNotebookIdsWithin(visibleNotebooks, selectedNotebookId) : null),
+    [selectedNotebookId, visibleNotebooks]
+  )
+  // Search results stay in order of relevance, and the plain list has pinned notes first
+  const visibleNotes = useMemo(() => {
+    const list = searchResults ?? sortPinnedFirst(notes)
+    return notebookFilter ? list.filter((note) => note.notebookId && notebookFilter.has(note.notebookId)) : list
+  }, [searchResults, notes, notebookFilter])
+
+  // Keep the local copy in step with the server, as with notes
+  useEffect(() => {
+    if (!serverNotebooks) return
+    setNotebooks(serverNotebooks)
+    saveLocalNotebooks(serverNotebooks)
+  }, [serverNotebooks])
+
+  // Attachments from this device and, for signed-in users, from Convex storage
+  const serverAttachments = useJournalAttachments(isAuthenticated)
+  useEffect(() => {
+    const urls = Object.fromEntries(
+      localAttachments.map((attachment) => [attachment.id, URL.createObjectURL(attachment.blob)])
+    )
+    setLocalAttachmentUrls(urls)
+    return () => Object.values(urls).forEach((url) => URL.revokeObjectURL(url))
+  }, [localAttachments])
+  const attachments = useMemo(() => {
+    if (isAuthenticated && !serverAttachments) return undefined
+    const previews: Record<string, AttachmentPreview> = {}
+    for (const attachment of localAttachments) {
+      previews[attachment.id] = {
+        id: attachment.id,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+        url: localAttachmentUrls[attachment.id] ?? null,
+      }
+    }
+    for (const attachment of serverAttachments ?? []) {
+      previews[attachment.id] = attachment
+    }
+    return previews
+  }, [isAuthenticated, serverAttachments, localAttachments, localAttachmentUrls])
+
+  const entryDates = useMemo(
+    () => new Set(notes.flatMap((note) => (note.entryDate ? [note.entryDate] : []))),
+    [notes]
+  )
+
+  // Pick up a new day when coming back to the tab. Not while it's in view, so writing past
+  // midnight doesn't move to the next day's entry.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") setToday(getDateKey())
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }, [])
+
+  // Stop filtering by a notebook that was deleted, here or on another device
+  useEffect(() => {
+    if (selectedNotebookId && !visibleNotebooks.some((notebook) => notebook.id === selectedNotebookId)) {
+      setSelectedNotebookId(null)
+    }
+  }, [selectedNotebookId, visibleNotebooks])
+
+  // Revisions of synced notes live in Convex, and the others on this device
+  const isCurrentNoteSynced = Boolean(currentNote) && isAuthenticated && notesFromAdapter.some(n => n.id === currentNote?.id)
+  const serverRevisions = useNoteRevisions(showRevisions && isCurrentNoteSynced && currentNote ? currentNote.id : null)
+  const revisions = isCurrentNoteSynced ? serverRevisions : localRevisions
+
   // Convex mutations
   const addNoteMutation = useMutation(api.journalNotes.addJournalNote)
   const updateNoteMutation = useMutation(api.journalNotes.updateJournalNote)
   const deleteNoteMutation = useMutation(api.journalNotes.deleteJournalNote)
+  const restoreNoteMutation = useMutation(api.journalNotes.restoreJournalNote)
   const syncLocalNotesMutation = useMutation(api.journalNotes.syncLocalJournalNotes)
+  const saveRevisionMutation = useMutation(api.journalNoteRevisions.saveRevision)
+  const moveNoteMutation = useMutation(api.journalNotes.moveJournalNote)
+  const setNotePinnedMutation = useMutation(api.journalNotes.setJournalNotePinned)
+  const addNotebookMutation = useMutation(api.journalNotebooks.addNotebook)
+  const renameNotebookMutation = useMutation(api.journalNotebooks.renameNotebook)
+  const deleteNotebookMutation = useMutation(api.journalNotebooks.deleteNotebook)
+  const syncLocalNotebooksMutation = useMutation(api.journalNotebooks.syncLocalNotebooks)
+  const openJournalEntryMutation = useMutation(api.journalNotes.openJournalEntry)
+  const generateAttachmentUploadUrlMutation = useMutation(api.journalAttachments.generateAttachmentUploadUrl)
+  const saveAttachmentMutation = useMutation(api.journalAttachments.saveAttachment)
+
+  // Upload one file to Convex storage and record it as an attachment
+  const uploadAttachment = useCallback(async (attachment: Attachment, blob: Blob) => {
+    const uploadUrl = await generateAttachmentUploadUrlMutation({
+      contentType: attachment.contentType,
+      size: attachment.size,
+    })
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": attachment.contentType },
+      body: blob,
+    })
+    if (!response.ok) {
+      throw new Error(`Upload failed with status ${response.status}`)
+    }
+    const { storageId } = await response.json()
+    const saved = await saveAttachmentMutation({
+      clientId: attachment.id,
+      storageId,
+      name: attachment.name,
+      createdAt: attachment.createdAt,
+    })
+    if (!saved) {
+      throw new Error("The file can't be attached")
+    }
+  }, [generateAttachmentUploadUrlMutation, saveAttachmentMutation])
   
   // Toast hook
   const { toast } = useToast()
 
-  // Focus mode persistence
-  useEffect(() => {
-    localStorage.setItem('focusMode', isFocusMode.toString())
-  }, [isFocusMode])
-
   // Focus mode keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
-        setIsFocusMode(prev => !prev)
+        updateSettings({ general: { focusMode: !isFocusMode } })
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isFocusMode, updateSettings])
 
   // Update notes when adapter data changes (handles both cached and live data)
   useEffect(() => {
@@ -144,6 +253,10 @@ export default function Home() {
           id: n.id,
           title: n.title,
           content: n.content,
+          format: n.format,
+          notebookId: n.notebookId,
+          pinned: n.pinned,
+          entryDate: n.entryDate,
           createdAt: n.createdAt,
           updatedAt: n.updatedAt,
         }))
@@ -169,6 +282,10 @@ export default function Home() {
     // Only initialize after auth state is determined
     if (isLoading) return // Wait for auth to load
     
+    // Notebooks are replaced by the server's once they load
+    setNotebooks(loadLocalNotebooks())
+    loadLocalAttachments().then(setLocalAttachments)
+
     // Only load local notes if not authenticated (to avoid overriding Convex data)
     if (!isAuthenticated) {
       const localNotes = loadLocalNotes()
@@ -180,12 +297,8 @@ export default function Home() {
         const noteToRestore = localNotes.find(note => note.id === currentNoteId)
         if (noteToRestore) {
           setCurrentNote(noteToRestore)
-          setFormData({ title: noteToRestore.title, content: noteToRestore.content })
-          
-          // Set content in contentEditable div
-          if (contentRef.current) {
-            contentRef.current.innerHTML = noteToRestore.content
-          }
+          setFormData({ title: noteToRestore.title, content: getNoteMarkdown(noteToRestore) })
+          setEditorKey((key) => key + 1)
         }
       }
     }
@@ -193,6 +306,38 @@ export default function Home() {
     setHasInitialized(true)
   }, [hasInitialized, isAuthenticated, isLoading])
 
+  // Upload the attachments saved on this device every time the user signs in. Uploaded
+  // ones are removed from IndexedDB; the rest are tried again next time.
+  useEffect(() => {
+    if (!isAuthenticated || isLoading || !sessionIdentifier) return
+
+    let cancelled = false
+
+    const syncAttachments = async () => {
+      const pending = await loadLocalAttachments()
+      const uploaded: string[] = []
+      for (const { blob, ...attachment } of pending) {
+        if (cancelled) break
+        try {
+          await uploadAttachment(attachment, blob)
+          uploaded.push(attachment.id)
+        } catch (error) {
+          console.error("Failed to upload attachment:", error)
+        }
+      }
+      await deleteLocalAttachments(uploaded)
+      if (uploaded.length > 0) {
+        setLocalAttachments((prev) => prev.filter((attachment) => !uploaded.includes(attachment.id)))
+      }
+    }
+
+    syncAttachments()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isAuthenticated, isLoading, sessionIdentifier, uploadAttachment])
+
   // Trigger a local-to-cloud sync every time the user signs in
   useEffect(() => {
     if (!isAuthenticated || isLoading || !sessionIdentifier) return
@@ -201,16 +346,29 @@ export default function Home() {
 
     const syncNotes = async () => {
       const localNotes = loadLocalNotes()
-      if (localNotes.length === 0) {
+      const localNotebooks = loadLocalNotebooks()
+      if (localNotes.length === 0 && localNotebooks.length === 0) {
         return
       }
 
       try {
+        // Notebooks go first so notes can be filed into them
+        if (localNotebooks.length > 0) {
+          await syncLocalNotebooksMutation({
+            notebooks: localNotebooks.map(({ id, ...notebook }) => ({ clientId: id, ...notebook })),
+          })
+        }
+        if (cancelled || localNotes.length === 0) return
+
         const idMapping = await syncLocalNotesMutation({
           notes: localNotes.map((note) => ({
             id: note.id,
             title: note.title,
             content: note.content,
+            format: note.format,
+            notebookId: note.notebookId,
+            pinned: note.pinned,
+            entryDate: note.entryDate,
             createdAt: note.createdAt,
             updatedAt: note.updatedAt,
           })),
@@ -218,10 +376,12 @@ export default function Home() {
 
         if (cancelled) return
 
+        // Links between notes follow them to their new ids
         const remappedLocalNotes = localNotes.map((note) => {
           const convexId = idMapping[note.id]
-          if (convexId && note.id !== convexId) {
-            return { ...note, id: convexId }
+          const content = remapNoteLinks(note.content, idMapping)
+          if ((convexId && note.id !== convexId) || content !== note.content) {
+            return { ...note, id: convexId ?? note.id, content }
           }
           return note
         })
@@ -236,9 +396,10 @@ export default function Home() {
           let hasChanges = false
           const updatedNotes = prevNotes.map((note) => {
             const convexId = idMapping[note.id]
-            if (convexId && note.id !== convexId) {
+            const content = remapNoteLinks(note.content, idMapping)
+            if ((convexId && note.id !== convexId) || content !== note.content) {
               hasChanges = true
-              return { ...note, id: convexId }
+              return { ...note, id: convexId ?? note.id, content }
             }
             return note
           })
@@ -256,6 +417,13 @@ export default function Home() {
           }
           return prev
         })
+
+        // The editor has its own copy of the open note, which would save the old ids back
+        const editorContent = formDataRef.current.content
+        if (remapNoteLinks(editorContent, idMapping) !== editorContent) {
+          setFormData((prev) => ({ ...prev, content: remapNoteLinks(prev.content, idMapping) }))
+          setEditorKey((key) => key + 1)
+        }
       } catch (error) {
         console.error("Failed to sync local notes", error)
         toast({
@@ -271,7 +439,7 @@ export default function Home() {
     return () => {
       cancelled = true
     }
-  }, [isAuthenticated, isLoading, sessionIdentifier, syncLocalNotesMutation, toast])
+  }, [isAuthenticated, isLoading, sessionIdentifier, syncLocalNotesMutation, syncLocalNotebooksMutation, toast])
 
   // Auto-save function
   const autoSave = useCallback(async () => {
@@ -280,17 +448,27 @@ export default function Home() {
     const noteData = {
       title: formData.title.trim() || "Untitled",
       content: formData.content.trim(),
+      format: "markdown" as const, // Saving converts notes from the old HTML editor
       updatedAt: Date.now(),
     }
 
     if (currentNote) {
       // Update existing note
       const updatedNote = { ...currentNote, ...noteData }
+
+      // Synced notes keep their history on the server, in updateJournalNote
+      const isSynced = isAuthenticated && notesFromAdapterRef.current.some(n => n.id === currentNote.id)
+      if (!isSynced && (currentNote.title !== updatedNote.title || currentNote.content !== updatedNote.content)) {
+        recordLocalRevision(currentNote.id, currentNote, REVISION_INTERVAL_MS)
+      }
       setCurrentNote(updatedNote)
       
-      const updatedNotes = notes.map((note) => 
-        note.id === currentNote.id ? updatedNote : note
-      )
+      // Links to a renamed note show its new title; updateJournalNote does the same on the server
+      const isRenamed = currentNote.title !== updatedNote.title
+      const updatedNotes = notes.map((note) => {
+        if (note.id === currentNote.id) return updatedNote
+        return isRenamed ? { ...note, content: renameNoteLinks(note.content, currentNote.id, updatedNote.title) } : note
+      })
       setNotes(updatedNotes)
       saveLocalNotes(updatedNotes)
       
@@ -307,6 +485,7 @@ export default function Home() {
               id: currentNote.id as Id<"journalNotes">,
               title: updatedNote.title,
               content: updatedNote.content,
+              format: updatedNote.format,
               updatedAt: updatedNote.updatedAt,
             })
           } catch (error) {
@@ -319,6 +498,7 @@ export default function Home() {
       const newNote: Note = {
         id: crypto.randomUUID(),
         ...noteData,
+        notebookId: selectedNotebookId ?? undefined, // Filed into the notebook being browsed
         createdAt: Date.now(),
       }
       
@@ -336,6 +516,8 @@ export default function Home() {
           const convexId = await addNoteMutation({
             title: newNote.title,
             content: newNote.content,
+            format: newNote.format,
+            notebookId: newNote.notebookId,
             clientId: newNote.id, // Store local UUID as clientId for future reference
             createdAt: newNote.createdAt,
             updatedAt: newNote.updatedAt,
@@ -354,7 +536,7 @@ export default function Home() {
         }
       }
     }
-  }, [formData, currentNote, notes, isAuthenticated, addNoteMutation, updateNoteMutation])
+  }, [formData, currentNote, notes, selectedNotebookId, isAuthenticated, addNoteMutation, updateNoteMutation])
 
   // Auto-save on every change
   useEffect(() => {
@@ -365,6 +547,38 @@ export default function Home() {
     return () => clearTimeout(timeoutId)
   }, [formData, autoSave])
 
+  // Snapshot the editor's version as a revision, whatever the time since the last one
+  const snapshotCurrentNote = useCallback(async () => {
+    if (!currentNote) return
+    hasUnsnapshottedEditsRef.current = false
+    const snapshot = {
+      title: formData.title.trim() || "Untitled",
+      content: formData.content.trim(),
+      format: "markdown" as const,
+    }
+
+    if (isAuthenticated && notesFromAdapterRef.current.some(n => n.id === currentNote.id)) {
+      try {
+        await saveRevisionMutation({ noteId: currentNote.id as Id<"journalNotes">, snapshot })
+      } catch (error) {
+        console.error("Failed to save note revision:", error)
+      }
+    } else {
+      recordLocalRevision(currentNote.id, snapshot, 0)
+    }
+  }, [currentNote, formData, isAuthenticated, saveRevisionMutation])
+
+  // Leaving the page counts as leaving the editor
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && hasUnsnapshottedEditsRef.current) {
+        snapshotCurrentNote()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [snapshotCurrentNote])
+
   // Update browser tab title based on current note
   useEffect(() => {
     if (currentNote && currentNote.title && currentNote.title !== "Untitled") {
@@ -387,27 +601,130 @@ export default function Home() {
     
     // Clear current note ID from localStorage
     saveCurrentNoteId(null)
-    
-    // Clear contentEditable div
-    if (contentRef.current) {
-      contentRef.current.innerHTML = ""
-    }
+    setEditorKey((key) => key + 1)
   }
 
-  const openNote = (note: Note) => {
+  const backlinks = useMemo(
+    () => (currentNote ? getBacklinks(notes, currentNote.id) : []),
+    [notes, currentNote]
+  )
+
+  const openNote = useCallback((note: Note) => {
     setCurrentNote(note)
-    setFormData({ title: note.title, content: note.content })
+    setFormData({ title: note.title, content: getNoteMarkdown(note) })
     setShowHistory(false)
     
     // Save current note ID
     saveCurrentNoteId(note.id)
-    
-    // Set content in contentEditable div
-    if (contentRef.current) {
-      contentRef.current.innerHTML = note.content
+    setEditorKey((key) => key + 1)
+  }, [])
+
+  // Store pasted or dropped files: in Convex storage for signed-in users, otherwise in
+  // IndexedDB until they sign in
+  const attachFiles = async (files: File[]): Promise<Attachment[]> => {
+    let usedBytes = Object.values(attachments ?? {}).reduce((total, attachment) => total + attachment.size, 0)
+    const attached: Attachment[] = []
+    for (const file of files) {
+      const error = getAttachmentError(file, usedBytes)
+      if (error) {
+        toast({ title: "Couldn't attach file", description: `${file.name}: ${error}`, variant: "destructive" })
+        continue
+      }
+
+      const attachment: Attachment = {
+        id: crypto.randomUUID(),
+        name: file.name,
+        contentType: file.type,
+        size: file.size,
+        createdAt: Date.now(),
+      }
+      try {
+        if (isAuthenticated) {
+          await uploadAttachment(attachment, file)
+        } else {
+          await saveLocalAttachment({ ...attachment, blob: file })
+          setLocalAttachments((prev) => [...prev, { ...attachment, blob: file }])
+        }
+        attached.push(attachment)
+        usedBytes += file.size
+      } catch (error) {
+        console.error("Failed to attach file:", error)
+        toast({
+          title: "Couldn't attach file",
+          description: `${file.name}: ${error instanceof Error ? error.message : "Please try again."}`,
+          variant: "destructive",
+        })
+      }
+    }
+    return attached
+  }
+
+  // Following a link saves the note it's in first, as starting a new note does
+  const openLinkedNote = (id: string) => {
+    const note = notes.find((candidate) => candidate.id === id)
+    if (!note) return
+    if (currentNote && (formData.title.trim() || formData.content.trim())) {
+      autoSave()
     }
+    openNote(note)
   }
 
+  // Open the daily entry for a date, creating it if there isn't one
+  const openEntry = useCallback(async (date: string) => {
+    const existing = findEntry(isAuthenticated ? notesFromAdapterRef.current : notes, date)
+    if (existing) {
+      openNote(existing)
+      return
+    }
+
+    const now = Date.now()
+    let entry: Note = {
+      id: crypto.randomUUID(),
+      title: formatEntryTitle(date),
+      content: "",
+      format: "markdown",
+      entryDate: date,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    // The server hands back the entry another device already started, if there is one
+    if (isAuthenticated) {
+      try {
+        const doc = await openJournalEntryMutation({
+          entryDate: date,
+          title: entry.title,
+          clientId: entry.id,
+          createdAt: now,
+        })
+        entry = fromConvexNote(doc)
+      } catch (error) {
+        console.error("Failed to open entry in Convex:", error)
+      }
+    }
+
+    setNotes((prev) => {
+      const updatedNotes = prev.some((note) => note.id === entry.id) ? prev : [entry, ...prev]
+      saveLocalNotes(updatedNotes)
+      return updatedNotes
+    })
+    openNote(entry)
+  }, [isAuthenticated, notes, openJournalEntryMutation, openNote])
+
+  // Daily notes mode starts on today's entry, once the server's notes are in for signed-in
+  // users, and again when the day changes
+  const openedEntryDateRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!isDailyNotesMode || !hasInitialized || isLoading) return
+    if (isAuthenticated && !isRealtime) return
+    if (openedEntryDateRef.current === today) return
+    openedEntryDateRef.current = today
+    openEntry(today)
+  }, [isDailyNotesMode, hasInitialized, isLoading, isAuthenticated, isRealtime, today, openEntry])
+
+  const isNoteInConvex = (noteId: string) =>
+    isAuthenticated && notesFromAdapterRef.current.some(n => n.id === noteId)
+
   const deleteNote = async (noteId: string) => {
     const noteToDelete = notes.find(n => n.id === noteId)
     if (!noteToDelete) return
@@ -426,21 +743,23 @@ export default function Home() {
     
     // Delete from Convex if authenticated
     // Check if note exists in Convex by checking if it's in the adapter notes
-    if (isAuthenticated) {
-      const noteInConvex = notesFromAdapterRef.current.find(n => n.id === noteId)
-      if (noteInConvex) {
-        try {
-          await deleteNoteMutation({ id: noteId as Id<"journalNotes"> })
-        } catch (error) {
-          console.error("Failed to delete note from Convex:", error)
-        }
+    const isInConvex = isNoteInConvex(noteId)
+    if (isInConvex) {
+      try {
+        await deleteNoteMutation({ id: noteId as Id<"journalNotes"> })
+      } catch (error) {
+        console.error("Failed to delete note from Convex:", error)
       }
     }
     
     // Set 60s timeout for permanent deletion from deleted notes
-    const timeoutId = setTimeout(() => {
+    const timeoutId = setTimeout(async () => {
       // Remove from deleted notes localStorage
       removeDeletedNote(noteId)
+      deleteLocalRevisions(noteId)
+      // Convex purges its copies once its own restore window is over
+      await deleteUnreferencedLocalAttachments(getAttachmentIds(noteToDelete.content))
+      setLocalAttachments(await loadLocalAttachments())
     }, 60000)
     
     // Add to deleted queue for timeout management
@@ -450,7 +769,7 @@ export default function Home() {
     toast({
       title: "Note deleted",
       description: noteToDelete.title,
-      action: <ToastAction altText="Restore" onClick={() => restoreNote(noteId)}>Restore</ToastAction>,
+      action: <ToastAction altText="Restore" onClick={() => restoreNote(noteId, isInConvex)}>Restore</ToastAction>,
       duration: 60000
     })
     
@@ -458,13 +777,11 @@ export default function Home() {
     if (currentNote?.id === noteId) {
       setCurrentNote(null)
       setFormData({ title: "", content: "" })
-      if (contentRef.current) {
-        contentRef.current.innerHTML = ""
-      }
+      setEditorKey((key) => key + 1)
     }
   }
 
-  const restoreNote = (noteId: string) => {
+  const restoreNote = async (noteId: string, isInConvex: boolean) => {
     console.log("Attempting to restore note:", noteId)
     
     // Check if note is already in localStorage to prevent duplicates
@@ -503,6 +820,21 @@ export default function Home() {
     // Restore note to list by reloading from localStorage to ensure consistency
     const restoredLocalNotes = loadLocalNotes()
     setNotes(restoredLocalNotes)
+
+    // Convex still has the note until its restore window is over
+    if (isInConvex) {
+      try {
+        await restoreNoteMutation({ id: noteId as Id<"journalNotes"> })
+      } catch (error) {
+        console.error("Failed to restore note in Convex:", error)
+        toast({
+          title: "Restore Error",
+          description: "Failed to restore note from cloud.",
+          variant: "destructive",
+        })
+        return
+      }
+    }
     
     // Show success toast
     toast({
@@ -512,6 +844,85 @@ export default function Home() {
     })
   }
 
+  // Apply a change to one note in the list, the open note and localStorage
+  const updateNoteLocally = (noteId: string, changes: Partial<Note>) => {
+    const updatedNotes = notes.map((note) => (note.id === noteId ? { ...note, ...changes } : note))
+    setNotes(updatedNotes)
+    saveLocalNotes(updatedNotes)
+    if (currentNote?.id === noteId) {
+      setCurrentNote({ ...currentNote, ...changes })
+    }
+  }
+
+  const moveNote = async (noteId: string, notebookId: string | undefined) => {
+    updateNoteLocally(noteId, { notebookId })
+    if (isNoteInConvex(noteId)) {
+      try {
+        await moveNoteMutation({ id: noteId as Id<"journalNotes">, notebookId })
+      } catch (error) {
+        console.error("Failed to move note in Convex:", error)
+      }
+    }
+  }
+
+  const togglePinned = async (note: Note) => {
+    const pinned = !note.pinned
+    updateNoteLocally(note.id, { pinned })
+    if (isNoteInConvex(note.id)) {
+      try {
+        await setNotePinnedMutation({ id: note.id as Id<"journalNotes">, pinned })
+      } catch (error) {
+        console.error("Failed to pin note in Convex:", error)
+      }
+    }
+  }
+
+  const updateNotebooksLocally = (updatedNotebooks: Notebook[]) => {
+    setNotebooks(updatedNotebooks)
+    saveLocalNotebooks(updatedNotebooks)
+  }
+
+  const addNotebook = async (name: string, parentId?: string) => {
+    const notebook: Notebook = { id: crypto.randomUUID(), name, parentId, createdAt: Date.now() }
+    updateNotebooksLocally([...visibleNotebooks, notebook])
+    if (isAuthenticated) {
+      try {
+        const { id, ...rest } = notebook
+        await addNotebookMutation({ clientId: id, ...rest })
+      } catch (error) {
+        console.error("Failed to add notebook to Convex:", error)
+      }
+    }
+  }
+
+  const renameNotebook = async (id: string, name: string) => {
+    updateNotebooksLocally(visibleNotebooks.map((notebook) => (notebook.id === id ? { ...notebook, name } : notebook)))
+    if (isAuthenticated) {
+      try {
+        await renameNotebookMutation({ clientId: id, name })
+      } catch (error) {
+        console.error("Failed to rename notebook in Convex:", error)
+      }
+    }
+  }
+
+  const deleteNotebook = async (id: string) => {
+    const removed = removeNotebook(visibleNotebooks, notes, id)
+    updateNotebooksLocally(removed.notebooks)
+    setNotes(removed.notes)
+    saveLocalNotes(removed.notes)
+    if (currentNote) {
+      setCurrentNote(removed.notes.find((note) => note.id === currentNote.id) ?? currentNote)
+    }
+    if (isAuthenticated) {
+      try {
+        await deleteNotebookMutation({ clientId: id })
+      } catch (error) {
+        console.error("Failed to delete notebook from Convex:", error)
+      }
+    }
+  }
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString("en-US", {
       month: "short",
@@ -522,40 +933,51 @@ export default function Home() {
     })
   }
 
-  const truncateContent = (content: string, maxLength: number = 150) => {
-    if (typeof window === 'undefined') {
-      // Server-side: simple regex strip
-      const textContent = content.replace(/<[^>]*>/g, '').replace(/&[^;]+;/g, ' ')
-      const cleaned = textContent.replace(/\s+/g, ' ').trim()
-      if (cleaned.length <= maxLength) return cleaned
-      return cleaned.substring(0, maxLength) + "..."
-    }
-    
-    // Client-side: use DOM parsing for better accuracy
-    const tempDiv = document.createElement('div')
-    tempDiv.innerHTML = content
-    const textContent = tempDiv.textContent || tempDiv.innerText || ''
-    // Clean up any remaining HTML entities and normalize whitespace
-    const cleaned = textContent.replace(/\s+/g, ' ').trim()
-    if (cleaned.length <= maxLength) return cleaned
-    return cleaned.substring(0, maxLength) + "..."
+  const openRevisions = () => {
+    if (!currentNote) return
+    setLocalRevisions(getLocalRevisions(currentNote.id))
+    setShowRevisions(true)
+  }
+
+  const restoreRevision = async (revision: NoteRevision) => {
+    // The version being replaced stays in the history
+    await snapshotCurrentNote()
+    setFormData({ title: revision.title, content: getNoteMarkdown(revision) })
+    setEditorKey((key) => key + 1)
+    setShowRevisions(false)
+    toast({
+      title: "Version restored",
+      description: formatDate(revision.createdAt),
+      duration: 3000
+    })
   }
 
   return (
     <main className="min-h-screen bg-background p-8 pb-24">
       {/* Main writing area */}
       <div className="max-w-2xl mx-auto">
-        <div className="space-y-6">
+        <div
+          className="space-y-6"
+          onBlur={(e) => {
+            // Focus leaving the title and editor altogether
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null) && hasUnsnapshottedEditsRef.current) {
+              snapshotCurrentNote()
+            }
+          }}
+        >
           {/* Title input with theme toggle */}
           <div className="flex items-center justify-between">
             <div className="relative flex-1">
               <Input
                 value={formData.title}
-                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                onChange={(e) => {
+                  hasUnsnapshottedEditsRef.current = true
+                  setFormData(prev => ({ ...prev, title: e.target.value }))
+                }}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
                     e.preventDefault()
-                    contentRef.current?.focus()
+                    editorRef.current?.focus()
                   }
                 }}
                 className="font-mono text-2xl font-bold tracking-tight text-balance border-none bg-transparent px-0 focus-visible:ring-0 placeholder:text-muted-foreground"
@@ -572,132 +994,26 @@ export default function Home() {
             </div>
           </div>
           
-          {/* Content textarea */}
-          <div
-            ref={contentRef}
-            contentEditable
-            onInput={(e) => {
-              const content = e.currentTarget.innerHTML
+          {/* Content editor */}
+          <BlockEditor
+            key={editorKey}
+            ref={editorRef}
+            initialValue={formData.content}
+            onChange={(content) => {
+              hasUnsnapshottedEditsRef.current = true
               setFormData(prev => ({ ...prev, content }))
-              
-              // Check for list patterns after input with a small delay
-              setTimeout(() => {
-                const selection = window.getSelection()
-                if (!selection || selection.rangeCount === 0) return
-                
-                const range = selection.getRangeAt(0)
-                const node = range.startContainer
-                
-                // Get the current div element
-                let divElement: HTMLElement | null = null
-                if (node.nodeType === Node.TEXT_NODE) {
-                  divElement = node.parentElement as HTMLElement
-                } else if (node.nodeType === Node.ELEMENT_NODE) {
-                  divElement = node as HTMLElement
-                }
-                
-                // Check if we're in a div at the root level (not inside a list)
-                if (divElement?.tagName === 'DIV' && 
-                    divElement.parentElement === contentRef.current) {
-                  
-                  const text = divElement.textContent || ''
-                  
-                  // Check for bullet patterns: "* " or "- " (with space)
-                  const bulletMatch = text.match(/^[\*\-]\s$/)
-                  if (bulletMatch) {
-                    createUnorderedList(divElement)
-                    return
-                  }
-                  
-                  // Check for numbered pattern: "number. " (with space)
-                  const numberedMatch = text.match(/^(\d+)\.\s$/)
-                  if (numberedMatch) {
-                    const startNumber = parseInt(numberedMatch[1])
-                    createOrderedList(divElement, startNumber)
-                    return
-                  }
-                }
-              }, 10) // Small delay to ensure DOM is updated
-            }}
-            onKeyDown={(e) => {
-              // Handle formatting shortcuts
-              if (e.metaKey || e.ctrlKey) {
-                switch (e.key) {
-                  case 'b':
-                    e.preventDefault()
-                    document.execCommand('bold')
-                    break
-                  case 'i':
-                    e.preventDefault()
-                    document.execCommand('italic')
-                    break
-                  case 'u':
-                    e.preventDefault()
-                    document.execCommand('underline')
-                    break
-                }
-              }
-              
-              // Handle list shortcuts
-              if ((e.metaKey || e.ctrlKey) && e.shiftKey) {
-                switch (e.key) {
-                  case '8':
-                    e.preventDefault()
-                    document.execCommand('insertUnorderedList')
-                    break
-                  case '7':
-                    e.preventDefault()
-                    document.execCommand('insertOrderedList')
-                    break
-                }
-              }
-
-
-
-
-              // Handle Enter key for list continuation and exit
-              if (e.key === 'Enter') {
-                const selection = window.getSelection()
-                if (!selection || selection.rangeCount === 0) return
-                
-                const range = selection.getRangeAt(0)
-                let listItem: Node | null = range.commonAncestorContainer
-                
-                // Find the LI element
-                while (listItem && listItem.nodeName !== 'LI') {
-                  listItem = listItem.parentElement
-                }
-                
-                // If in an empty list item, exit the list
-                if (listItem && listItem.textContent?.trim() === '') {
-                  e.preventDefault()
-                  document.execCommand('outdent')
-                  document.execCommand('formatBlock', false, 'div')
-                }
-                // If not in a list, let the default behavior create a new div
-              }
-
-              // Handle Escape key to exit lists
-              if (e.key === 'Escape') {
-                const selection = window.getSelection()
-                if (selection && selection.rangeCount > 0) {
-                  const range = selection.getRangeAt(0)
-                  const isInList = range.commonAncestorContainer.parentElement?.tagName === 'LI'
-                  
-                  if (isInList) {
-                    e.preventDefault()
-                    // Exit the list by inserting a paragraph
-                    document.execCommand('insertParagraph')
-                  }
-                }
-              }
             }}
-            className="min-h-[calc(100vh-300px)] font-mono text-base leading-relaxed border-none bg-transparent resize-none focus-visible:ring-0 p-0 placeholder:text-muted-foreground"
-            style={{ outline: 'none' }}
-            data-placeholder="Start writing your note..."
-            suppressContentEditableWarning={true}
+            placeholder="Start writing your note..."
+            linkableNotes={notes}
+            onOpenNote={openLinkedNote}
+            attachments={attachments}
+            onAttachFiles={attachFiles}
           />
         </div>
+
+        {currentNote && (
+          <Backlinks noteId={currentNote.id} notes={backlinks} onOpen={(note) => openLinkedNote(note.id)} />
+        )}
       </div>
 
       {/* History panel */}
@@ -709,25 +1025,130 @@ export default function Home() {
                 <h2 className="text-2xl font-bold tracking-tight text-balance font-mono">Saved Notes</h2>
                 <ThemeToggle />
               </div>
+
+              <div className="relative mb-8">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape' && searchQuery) {
+                      e.preventDefault()
+                      setSearchQuery("")
+                    }
+                  }}
+                  placeholder="Search notes"
+                  aria-label="Search notes"
+                  className="font-mono pl-9 pr-9"
+                  autoFocus
+                />
+                {searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery("")}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                    aria-label="Clear search"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+
+              <div className="mb-6">
+                <JournalCalendar
+                  today={today}
+                  entryDates={entryDates}
+                  selectedDate={currentNote?.entryDate ?? null}
+                  onSelect={openEntry}
+                />
+              </div>
+
+              <div className="flex items-center gap-2 mb-8">
+                <div className="flex flex-1 gap-2 overflow-x-auto pb-2">
+                  <button
+                    onClick={() => setSelectedNotebookId(null)}
+                    className={`flex-shrink-0 rounded-lg border px-3 py-1.5 font-mono text-xs transition-colors ${
+                      selectedNotebookId === null ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                    }`}
+                  >
+                    All notes
+                  </button>
+                  {notebookTree.map(({ notebook }) => (
+                    <button
+                      key={notebook.id}
+                      onClick={() => setSelectedNotebookId(notebook.id)}
+                      className={`flex-shrink-0 rounded-lg border px-3 py-1.5 font-mono text-xs transition-colors ${
+                        selectedNotebookId === notebook.id ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                      }`}
+                    >
+                      {getNotebookPath(visibleNotebooks, notebook.id)}
+                    </button>
+                  ))}
+                </div>
+                <NotebooksDialog
+                  notebooks={visibleNotebooks}
+                  onAdd={addNotebook}
+                  onRename={renameNotebook}
+                  onDelete={deleteNotebook}
+                >
+                  <Button variant="ghost" size="sm" className="font-mono flex-shrink-0 mb-2">
+                    <Folder className="h-4 w-4 mr-2" />
+                    Notebooks
+                  </Button>
+                </NotebooksDialog>
+              </div>
               
               <div className="space-y-8">
                 {notes.length === 0 ? (
                   <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
                     <p className="font-mono text-sm text-muted-foreground">No saved notes yet.</p>
                   </div>
+                ) : visibleNotes.length === 0 ? (
+                  <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
+                    <p className="font-mono text-sm text-muted-foreground">
+                      {isSearching ? <>No notes match &ldquo;{trimmedSearchQuery}&rdquo;.</> : "No notes in this notebook."}
+                    </p>
+                  </div>
                 ) : (
-                  notes.map((note, index) => (
+                  visibleNotes.map((note, index) => (
                     <div
                       key={note.id}
-                      className={`note-item cursor-pointer group pb-5 ${index < notes.length - 1 ? 'border-b border-border' : ''}`}
+                      className={`note-item cursor-pointer group pb-5 ${index < visibleNotes.length - 1 ? 'border-b border-border' : ''}`}
                       onClick={() => openNote(note)}
                     >
                       <div className="space-y-2">
                         <div className="flex items-start justify-between">
                           <h3 className="font-mono text-lg font-semibold leading-tight">
-                            {note.title}
+                            <Highlight text={note.title} query={trimmedSearchQuery} />
                           </h3>
-                          <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                            {visibleNotebooks.length > 0 && (
+                              <select
+                                value={note.notebookId ?? ""}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => moveNote(note.id, e.target.value || undefined)}
+                                className="h-9 rounded-md border border-input bg-background px-2 font-mono text-xs"
+                                aria-label="Move to notebook"
+                              >
+                                <option value="">No notebook</option>
+                                {notebookTree.map(({ notebook }) => (
+                                  <option key={notebook.id} value={notebook.id}>
+                                    {getNotebookPath(visibleNotebooks, notebook.id)}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                togglePinned(note)
+                              }}
+                              className="font-mono"
+                              aria-label={note.pinned ? "Unpin note" : "Pin note"}
+                            >
+                              {note.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -743,10 +1164,26 @@ export default function Home() {
                         </div>
                         
                         <div className="font-mono text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap line-clamp-3">
-                          {truncateContent(note.content)}
+                          {isSearching ? (
+                            <Highlight text={getSearchSnippet(getNoteText(note), trimmedSearchQuery)} query={trimmedSearchQuery} />
+                          ) : (
+                            getNotePreview(note)
+                          )}
                         </div>
                         
-                        <div className="mt-4 text-xs text-muted-foreground font-mono">
+                        <div className="mt-4 flex items-center gap-3 text-xs text-muted-foreground font-mono">
+                          {note.pinned && (
+                            <span className="flex items-center gap-1">
+                              <Pin className="h-3 w-3" />
+                              Pinned
+                            </span>
+                          )}
+                          {note.notebookId && getNotebookPath(visibleNotebooks, note.notebookId) && (
+                            <span className="flex items-center gap-1">
+                              <Folder className="h-3 w-3" />
+                              {getNotebookPath(visibleNotebooks, note.notebookId)}
+                            </span>
+                          )}
                           <span>Updated {formatDate(note.updatedAt)}</span>
                         </div>
                       </div>
@@ -778,6 +1215,26 @@ export default function Home() {
                 <Plus className="h-4 w-4 mr-2" />
                 New note
               </Button>
+              {isDailyNotesMode && currentNote?.entryDate !== today && (
+                <Button
+                  variant="ghost"
+                  onClick={() => openEntry(today)}
+                  className="font-mono"
+                >
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Today
+                </Button>
+              )}
+              {currentNote && (
+                <Button
+                  variant="ghost"
+                  onClick={openRevisions}
+                  className="font-mono"
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Button>
+              )}
             </div>
             <div className="flex items-center gap-3">
               <button
@@ -804,6 +1261,14 @@ export default function Home() {
         </div>
       </div>
 
+      <RevisionHistory
+        isOpen={showRevisions}
+        onClose={() => setShowRevisions(false)}
+        revisions={revisions}
+        current={formData}
+        onRestore={restoreRevision}
+      />
+
       {/* Toast Container */}
       <Toaster />
     </main>
@@ -0,0 +1,59 @@
+"use client"
+
+import { FileWarning, Paperclip } from "lucide-react"
+import { formatFileSize, type AttachmentPreview, type AttachmentRef } from "@/lib/attachments"
+
+interface AttachmentPreviewsProps {
+  refs: AttachmentRef[] // The attachments a block refers to
+  attachments: Record<string, AttachmentPreview>
+}
+
+// Images shown under the block that embeds them, and other files as links to open them
+export function AttachmentPreviews({ refs, attachments }: AttachmentPreviewsProps) {
+  return (
+    <div className="space-y-2 pb-1">
+      {refs.map((ref, index) => {
+        const attachment = attachments[ref.id]
+        if (!attachment?.url) {
+          return (
+            <span
+              key={index}
+              title="The file was deleted or hasn't finished uploading"
+              className="flex w-fit items-center gap-1 rounded border border-dashed border-border px-1.5 py-0.5 text-xs text-muted-foreground"
+            >
+              <FileWarning className="h-3 w-3" />
+              {ref.name || "Attachment"} unavailable
+            </span>
+          )
+        }
+        if (ref.isImage) {
+          return (
+            <a key={index} href={attachment.url} target="_blank" rel="noreferrer" className="block w-fit">
+              {/* Storage and object URLs aren't known to next/image */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={attachment.url}
+                alt={ref.name}
+                className="max-h-96 max-w-full rounded-md border border-border"
+              />
+            </a>
+          )
+        }
+        return (
+          <a
+            key={index}
+            href={attachment.url}
+            target="_blank"
+            rel="noreferrer"
+            download={attachment.name}
+            className="flex w-fit items-center gap-1 rounded border border-border px-1.5 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+          >
+            <Paperclip className="h-3 w-3" />
+            {attachment.name}
+            <span className="opacity-70">{formatFileSize(attachment.size)}</span>
+          </a>
+        )
+      })}
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useState } from "react";
 import { useSession, signOut } from "@/lib/auth-client";
 import { SignInDialog } from "@/components/sign-in-dialog";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { Settings } from "lucide-react";
 
 export function AuthButton() {
   const { data: session, isPending } = useSession();
@@ -28,24 +30,32 @@ export function AuthButton() {
     );
   }
 
-  if (session?.user) {
-    return (
-      <button
-        onClick={handleSignOut}
-        disabled={isSigningOut}
-        className="inline-flex h-10 items-center rounded-lg border border-border px-4 font-mono text-sm transition-colors hover:bg-accent"
-      >
-        {isSigningOut ? "..." : "Sign out"}
-      </button>
-    );
-  }
-
   return (
-    <SignInDialog>
-      <button className="inline-flex h-10 items-center rounded-lg border border-border px-4 font-mono text-sm transition-colors hover:bg-accent">
-        Sign in
-      </button>
-    </SignInDialog>
+    <div className="flex items-center gap-2">
+      {session?.user ? (
+        <button
+          onClick={handleSignOut}
+          disabled={isSigningOut}
+          className="inline-flex h-10 items-center rounded-lg border border-border px-4 font-mono text-sm transition-colors hover:bg-accent"
+        >
+          {isSigningOut ? "..." : "Sign out"}
+        </button>
+      ) : (
+        <SignInDialog>
+          <button className="inline-flex h-10 items-center rounded-lg border border-border px-4 font-mono text-sm transition-colors hover:bg-accent">
+            Sign in
+          </button>
+        </SignInDialog>
+      )}
+      <SettingsDialog>
+        <button
+          className="inline-flex h-10 w-10 items-center justify-center rounded-lg border border-border transition-colors hover:bg-accent"
+          aria-label="Settings"
+        >
+          <Settings className="h-5 w-5" />
+        </button>
+      </SettingsDialog>
+    </div>
   );
 }
 
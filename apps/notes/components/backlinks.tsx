@@ -0,0 +1,45 @@
+"use client"
+
+import { Link2 } from "lucide-react"
+import { stripMarkdown } from "@/lib/blocks"
+import type { Note } from "@/lib/local-storage"
+
+interface BacklinksProps {
+  noteId: string
+  notes: Note[] // Notes linking to this one
+  onOpen: (note: Note) => void
+}
+
+// The line of the linking note where the link is
+function getLinkContext(note: Note, noteId: string): string {
+  const line = note.content.split("\n").find((candidate) => candidate.includes(`(note:${noteId})`))
+  return line ? stripMarkdown(line) : ""
+}
+
+export function Backlinks({ noteId, notes, onOpen }: BacklinksProps) {
+  return (
+    <section className="mt-12 border-t border-border pt-6 font-mono">
+      <h2 className="mb-4 flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+        <Link2 className="h-4 w-4" />
+        Backlinks
+      </h2>
+      {notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No notes link here yet. Type [[ in another note to link it.</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => (
+            <li key={note.id}>
+              <button
+                onClick={() => onOpen(note)}
+                className="w-full rounded-lg p-2 -mx-2 text-left transition-colors hover:bg-accent"
+              >
+                <p className="text-sm font-semibold">{note.title || "Untitled"}</p>
+                <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">{getLinkContext(note, noteId)}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,663 @@
+"use client"
+
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from "react"
+import { ArrowUpRight, Check, Unlink } from "lucide-react"
+import { SlashMenu } from "@/components/slash-menu"
+import { NoteLinkMenu } from "@/components/note-link-menu"
+import { AttachmentPreviews } from "@/components/attachment-previews"
+import {
+  createBlock,
+  filterSlashCommands,
+  matchShortcut,
+  parseMarkdown,
+  serializeBlocks,
+  type Block,
+  type BlockType,
+  type SlashCommand,
+} from "@/lib/blocks"
+import { createNoteLink, filterLinkTargets, getNoteLinks } from "@/lib/note-links"
+import { createAttachmentMarkdown, getAttachmentRefs, type Attachment, type AttachmentPreview } from "@/lib/attachments"
+
+export interface BlockEditorHandle {
+  focus: () => void
+}
+
+interface BlockEditorProps {
+  initialValue: string // Markdown. Remount the editor with a new key to load another note.
+  onChange: (markdown: string) => void
+  placeholder?: string
+  linkableNotes?: Array<{ id: string; title: string }> // Notes "[[" can link to; without them links are off
+  onOpenNote?: (id: string) => void
+  attachments?: Record<string, AttachmentPreview> // Undefined while loading
+  onAttachFiles?: (files: File[]) => Promise<Attachment[]> // Stores pasted or dropped files; without it they're ignored
+}
+
+interface LinkMenuState {
+  blockId: string
+  start: number // Where the "[[" begins
+  query: string
+  index: number
+}
+
+interface FocusRequest {
+  id: string
+  start: number
+  end?: number
+}
+
+const LINK_PLACEHOLDER = "link text"
+
+// Enter on one of these starts another block of the same kind
+const CONTINUED_TYPES = new Set<BlockType>(["bullet", "numbered", "todo", "quote"])
+
+const BLOCK_CLASSES: Record<BlockType, string> = {
+  paragraph: "text-base",
+  heading1: "text-2xl font-bold tracking-tight",
+  heading2: "text-xl font-bold tracking-tight",
+  heading3: "text-lg font-semibold",
+  bullet: "text-base",
+  numbered: "text-base",
+  todo: "text-base",
+  quote: "text-base italic text-muted-foreground",
+  code: "text-sm",
+  divider: "",
+}
+
+const EMPTY_PLACEHOLDERS: Partial<Record<BlockType, string>> = {
+  heading1: "Heading 1",
+  heading2: "Heading 2",
+  heading3: "Heading 3",
+  bullet: "List",
+  numbered: "List",
+  todo: "To-do",
+  quote: "Quote",
+  code: "Code",
+}
+
+const SLASH_QUERY = /^\/([^\s/]*)$/
+// "[[" and what's been typed after it, just before the caret
+const LINK_QUERY = /\[\[([^[\]]*)$/
+
+// The caret can move to the neighbouring block when it's on the textarea's first or last line
+function isOnEdgeLine(el: HTMLTextAreaElement, edge: "first" | "last"): boolean {
+  if (el.selectionStart !== el.selectionEnd) return false
+  const { value, selectionStart } = el
+  if (edge === "first" ? selectionStart === 0 : selectionStart === value.length) return true
+  if (edge === "first" ? value.slice(0, selectionStart).includes("\n") : value.slice(selectionStart).includes("\n")) return false
+  const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 24
+  return el.scrollHeight < lineHeight * 1.5
+}
+
+function resize(el: HTMLTextAreaElement): void {
+  el.style.height = "auto"
+  el.style.height = `${el.scrollHeight}px`
+}
+
+export const BlockEditor = forwardRef<BlockEditorHandle, BlockEditorProps>(function BlockEditor(
+  { initialValue, onChange, placeholder, linkableNotes, onOpenNote, attachments, onAttachFiles },
+  ref
+) {
+  const [blocks, setBlocks] = useState<Block[]>(() => parseMarkdown(initialValue))
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [slashMenu, setSlashMenu] = useState<{ blockId: string; index: number } | null>(null)
+  const [linkMenu, setLinkMenu] = useState<LinkMenuState | null>(null)
+  const elementRefs = useRef(new Map<string, HTMLElement>())
+  const focusRequestRef = useRef<FocusRequest | null>(null)
+  // For inserting attachments once their upload finishes
+  const blocksRef = useRef(blocks)
+  const isMountedRef = useRef(true)
+
+  const commit = (next: Block[], focus?: FocusRequest) => {
+    focusRequestRef.current = focus ?? null
+    setBlocks(next)
+    onChange(serializeBlocks(next))
+  }
+
+  const focusBlock = useCallback((request: FocusRequest) => {
+    const el = elementRefs.current.get(request.id)
+    if (!el) return
+    el.focus()
+    if (el instanceof HTMLTextAreaElement) {
+      el.setSelectionRange(request.start, request.end ?? request.start)
+    }
+  }, [])
+
+  useImperativeHandle(ref, () => ({
+    focus: () => focusBlock({ id: blocks[0].id, start: 0 }),
+  }), [blocks, focusBlock])
+
+  // Size every textarea to its content and apply any focus change from the last edit
+  useLayoutEffect(() => {
+    blocksRef.current = blocks
+    elementRefs.current.forEach((el) => {
+      if (el instanceof HTMLTextAreaElement) resize(el)
+    })
+    if (focusRequestRef.current) {
+      focusBlock(focusRequestRef.current)
+      focusRequestRef.current = null
+    }
+  }, [blocks, focusBlock])
+
+  useEffect(() => {
+    isMountedRef.current = true
+    return () => {
+      isMountedRef.current = false
+    }
+  }, [])
+
+  // Wrapping changes with the page width
+  useEffect(() => {
+    const handleResize = () => {
+      elementRefs.current.forEach((el) => {
+        if (el instanceof HTMLTextAreaElement) resize(el)
+      })
+    }
+    window.addEventListener("resize", handleResize)
+    return () => window.removeEventListener("resize", handleResize)
+  }, [])
+
+  const setElementRef = (id: string) => (el: HTMLElement | null) => {
+    if (el) {
+      elementRefs.current.set(id, el)
+    } else {
+      elementRefs.current.delete(id)
+    }
+  }
+
+  const replaceAt = (index: number, count: number, ...replacements: Block[]): Block[] => [
+    ...blocks.slice(0, index),
+    ...replacements,
+    ...blocks.slice(index + count),
+  ]
+
+  // Dividers aren't editable, so the cursor moves on to a paragraph after them
+  const insertDivider = (index: number, text: string) => {
+    const paragraph = createBlock("paragraph", text)
+    commit(replaceAt(index, 1, createBlock("divider"), paragraph), { id: paragraph.id, start: 0 })
+  }
+
+  const changeType = (index: number, type: BlockType, text: string) => {
+    const block = blocks[index]
+    if (type === "divider") {
+      insertDivider(index, text)
+      return
+    }
+    const next: Block = { id: block.id, type, text, ...(type === "todo" ? { checked: false } : {}) }
+    commit(replaceAt(index, 1, next), { id: block.id, start: 0 })
+  }
+
+  const applySlashCommand = (index: number, command: SlashCommand) => {
+    const block = blocks[index]
+    setSlashMenu(null)
+    if (command.type) {
+      changeType(index, command.type, "")
+      return
+    }
+    // Link: a template with the text selected, ready to type over
+    commit(replaceAt(index, 1, { ...block, text: `[${LINK_PLACEHOLDER}](https://)` }), {
+      id: block.id,
+      start: 1,
+      end: 1 + LINK_PLACEHOLDER.length,
+    })
+  }
+
+  // Swap the "[[query" for a link to the chosen note
+  const applyNoteLink = (index: number, note: { id: string; title: string }) => {
+    const block = blocks[index]
+    if (!linkMenu) return
+    setLinkMenu(null)
+    const before = block.text.slice(0, linkMenu.start)
+    const link = createNoteLink(note)
+    const after = block.text.slice(linkMenu.start + 2 + linkMenu.query.length)
+    commit(replaceAt(index, 1, { ...block, text: before + link + after }), {
+      id: block.id,
+      start: before.length + link.length,
+    })
+  }
+
+  const handleTextChange = (index: number, e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const block = blocks[index]
+    const value = block.type === "code" ? e.target.value : e.target.value.replace(/\n/g, " ")
+    const caret = e.target.selectionStart
+
+    // Markdown shortcuts apply when the marker has just been typed at the start of the block
+    const shortcut = matchShortcut(block.type, value)
+    if (shortcut && caret === value.length - shortcut.text.length) {
+      setSlashMenu(null)
+      changeType(index, shortcut.type, shortcut.text)
+      return
+    }
+
+    const slashQuery = block.type !== "code" ? value.match(SLASH_QUERY) : null
+    if (slashQuery) {
+      const previousQuery = block.text.match(SLASH_QUERY)?.[1]
+      setSlashMenu((current) =>
+        current?.blockId === block.id && previousQuery === slashQuery[1] ? current : { blockId: block.id, index: 0 }
+      )
+    } else if (slashMenu?.blockId === block.id) {
+      setSlashMenu(null)
+    }
+
+    const linkQuery = linkableNotes && block.type !== "code" ? value.slice(0, caret).match(LINK_QUERY) : null
+    if (linkQuery) {
+      setLinkMenu((current) => ({
+        blockId: block.id,
+        start: caret - linkQuery[0].length,
+        query: linkQuery[1],
+        index: current?.blockId === block.id && current.query === linkQuery[1] ? current.index : 0,
+      }))
+    } else if (linkMenu?.blockId === block.id) {
+      setLinkMenu(null)
+    }
+
+    commit(replaceAt(index, 1, { ...block, text: value }))
+  }
+
+  // Toggles a markdown marker such as ** around the selection
+  const toggleInlineMarker = (index: number, el: HTMLTextAreaElement, marker: string) => {
+    const block = blocks[index]
+    const { selectionStart: start, selectionEnd: end, value } = el
+    const isWrapped =
+      value.slice(start - marker.length, start) === marker && value.slice(end, end + marker.length) === marker
+    if (isWrapped) {
+      const text = value.slice(0, start - marker.length) + value.slice(start, end) + value.slice(end + marker.length)
+      commit(replaceAt(index, 1, { ...block, text }), { id: block.id, start: start - marker.length, end: end - marker.length })
+      return
+    }
+    const text = value.slice(0, start) + marker + value.slice(start, end) + marker + value.slice(end)
+    commit(replaceAt(index, 1, { ...block, text }), { id: block.id, start: start + marker.length, end: end + marker.length })
+  }
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const block = blocks[index]
+    const el = e.currentTarget
+    const { selectionStart, selectionEnd, value } = el
+    const hasSelection = selectionStart !== selectionEnd
+
+    if (slashMenu?.blockId === block.id) {
+      const commands = filterSlashCommands(value.slice(1))
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        if (commands.length === 0) return
+        const offset = e.key === "ArrowDown" ? 1 : -1
+        setSlashMenu({ blockId: block.id, index: (slashMenu.index + offset + commands.length) % commands.length })
+        return
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && commands.length > 0) {
+        e.preventDefault()
+        applySlashCommand(index, commands[Math.min(slashMenu.index, commands.length - 1)])
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setSlashMenu(null)
+        return
+      }
+    }
+
+    if (linkMenu?.blockId === block.id && linkableNotes) {
+      const targets = filterLinkTargets(linkableNotes, linkMenu.query)
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        if (targets.length === 0) return
+        const offset = e.key === "ArrowDown" ? 1 : -1
+        setLinkMenu({ ...linkMenu, index: (linkMenu.index + offset + targets.length) % targets.length })
+        return
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && targets.length > 0) {
+        e.preventDefault()
+        applyNoteLink(index, targets[Math.min(linkMenu.index, targets.length - 1)])
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setLinkMenu(null)
+        return
+      }
+    }
+
+    if ((e.metaKey || e.ctrlKey) && !e.shiftKey && !e.altKey && block.type !== "code") {
+      const marker = { b: "**", i: "*", e: "`" }[e.key.toLowerCase()]
+      if (marker) {
+        e.preventDefault()
+        toggleInlineMarker(index, el, marker)
+        return
+      }
+    }
+
+    // Cmd+Shift+8 and Cmd+Shift+7 toggle bulleted and numbered lists
+    if ((e.metaKey || e.ctrlKey) && e.shiftKey && (e.code === "Digit8" || e.code === "Digit7") && block.type !== "code") {
+      e.preventDefault()
+      const listType = e.code === "Digit8" ? "bullet" : "numbered"
+      changeType(index, block.type === listType ? "paragraph" : listType, value)
+      return
+    }
+
+    if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+      if (block.type === "code") {
+        // Enter on an empty last line leaves the code block
+        if (selectionEnd === value.length && value.endsWith("\n") && !hasSelection) {
+          e.preventDefault()
+          const paragraph = createBlock()
+          commit(replaceAt(index, 1, { ...block, text: value.slice(0, -1) }, paragraph), { id: paragraph.id, start: 0 })
+        }
+        return
+      }
+
+      e.preventDefault()
+      if (!value && block.type !== "paragraph") {
+        changeType(index, "paragraph", "")
+        return
+      }
+      const nextType = CONTINUED_TYPES.has(block.type) ? block.type : "paragraph"
+      // At the very start the new line goes above, so a heading keeps its text
+      if (selectionEnd === 0) {
+        commit(replaceAt(index, 0, createBlock(nextType)), { id: block.id, start: 0 })
+        return
+      }
+      const nextBlock = createBlock(nextType, value.slice(selectionEnd))
+      commit(replaceAt(index, 1, { ...block, text: value.slice(0, selectionStart) }, nextBlock), {
+        id: nextBlock.id,
+        start: 0,
+      })
+      return
+    }
+
+    if (e.key === "Backspace" && selectionEnd === 0) {
+      if (block.type !== "paragraph" && (block.type !== "code" || !value)) {
+        e.preventDefault()
+        changeType(index, "paragraph", value)
+        return
+      }
+      const previous = blocks[index - 1]
+      if (!previous || block.type === "code") return
+      e.preventDefault()
+      if (previous.type === "divider") {
+        commit(replaceAt(index - 1, 1), { id: block.id, start: 0 })
+        return
+      }
+      commit(replaceAt(index - 1, 2, { ...previous, text: previous.text + value }), {
+        id: previous.id,
+        start: previous.text.length,
+      })
+      return
+    }
+
+    if (e.key === "Delete" && selectionStart === value.length && !hasSelection) {
+      const next = blocks[index + 1]
+      if (!next || block.type === "code" || next.type === "code") return
+      e.preventDefault()
+      const merged = next.type === "divider" ? [block] : [{ ...block, text: value + next.text }]
+      commit(replaceAt(index, 2, ...merged), { id: block.id, start: value.length })
+      return
+    }
+
+    if (e.key === "ArrowUp" && index > 0 && isOnEdgeLine(el, "first")) {
+      e.preventDefault()
+      const previous = blocks[index - 1]
+      focusBlock({ id: previous.id, start: previous.text.length })
+      return
+    }
+
+    if (e.key === "ArrowDown" && index < blocks.length - 1 && isOnEdgeLine(el, "last")) {
+      e.preventDefault()
+      focusBlock({ id: blocks[index + 1].id, start: 0 })
+    }
+  }
+
+  // Each file goes in its own block after the given one, or replaces it when it's empty
+  const attachFiles = async (blockId: string | null, files: File[]) => {
+    if (!onAttachFiles) return
+    const attached = await onAttachFiles(files)
+    // Another note may have been opened in the meantime
+    if (attached.length === 0 || !isMountedRef.current) return
+
+    const current = blocksRef.current
+    const index = blockId ? current.findIndex((block) => block.id === blockId) : -1
+    const target = index === -1 ? current.length - 1 : index
+    const inserted = attached.map((attachment) => createBlock("paragraph", createAttachmentMarkdown(attachment)))
+    const replacesTarget = current[target].type === "paragraph" && !current[target].text
+    const paragraph = createBlock()
+    const next = [
+      ...current.slice(0, replacesTarget ? target : target + 1),
+      ...inserted,
+      paragraph,
+      ...current.slice(target + 1),
+    ]
+    commit(next, { id: paragraph.id, start: 0 })
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (onAttachFiles && e.dataTransfer.types.includes("Files")) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "copy"
+    }
+  }
+
+  // Files dropped anywhere on the editor go after the block they're dropped on
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!onAttachFiles || e.dataTransfer.files.length === 0) return
+    e.preventDefault()
+    const blockElement = (e.target as HTMLElement).closest<HTMLElement>("[data-block-id]")
+    attachFiles(blockElement?.dataset.blockId ?? null, Array.from(e.dataTransfer.files))
+  }
+
+  // Multi-line text is split into blocks; a URL pasted over a selection becomes a link
+  const handlePaste = (index: number, e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const block = blocks[index]
+    if (onAttachFiles && e.clipboardData.files.length > 0) {
+      e.preventDefault()
+      attachFiles(block.id, Array.from(e.clipboardData.files))
+      return
+    }
+    if (block.type === "code") return
+    const pasted = e.clipboardData.getData("text/plain")
+    const { selectionStart, selectionEnd, value } = e.currentTarget
+    const before = value.slice(0, selectionStart)
+    const after = value.slice(selectionEnd)
+
+    if (selectionStart !== selectionEnd && /^https?:\/\/\S+$/.test(pasted.trim())) {
+      e.preventDefault()
+      const link = `[${value.slice(selectionStart, selectionEnd)}](${pasted.trim()})`
+      commit(replaceAt(index, 1, { ...block, text: before + link + after }), {
+        id: block.id,
+        start: before.length + link.length,
+      })
+      return
+    }
+
+    if (!pasted.includes("\n")) return
+    e.preventDefault()
+    const parsed = parseMarkdown(pasted)
+    const head = parsed[0].type === "paragraph" ? { ...block, text: before + parsed[0].text } : { ...block, text: before }
+    const rest = parsed[0].type === "paragraph" ? parsed.slice(1) : parsed
+    const inserted = [head, ...rest]
+    let last = inserted[inserted.length - 1]
+    if (last.type === "divider" || last.type === "code") {
+      last = createBlock()
+      inserted.push(last)
+    }
+    const caret = last.text.length
+    inserted[inserted.length - 1] = { ...last, text: last.text + after }
+    commit(replaceAt(index, 1, ...inserted), { id: last.id, start: caret })
+  }
+
+  const handleDividerKeyDown = (index: number, e: React.KeyboardEvent<HTMLDivElement>) => {
+    const previous = blocks[index - 1]
+    const next = blocks[index + 1]
+    if (e.key === "Backspace" || e.key === "Delete") {
+      e.preventDefault()
+      const target = previous ?? next
+      const remaining = replaceAt(index, 1)
+      if (remaining.length === 0) {
+        const paragraph = createBlock()
+        commit([paragraph], { id: paragraph.id, start: 0 })
+        return
+      }
+      commit(remaining, target && { id: target.id, start: target === previous ? target.text.length : 0 })
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      const paragraph = createBlock()
+      commit(replaceAt(index + 1, 0, paragraph), { id: paragraph.id, start: 0 })
+    } else if (e.key === "ArrowUp" && previous) {
+      e.preventDefault()
+      focusBlock({ id: previous.id, start: previous.text.length })
+    } else if (e.key === "ArrowDown" && next) {
+      e.preventDefault()
+      focusBlock({ id: next.id, start: 0 })
+    }
+  }
+
+  const toggleTodo = (index: number) => {
+    const block = blocks[index]
+    commit(replaceAt(index, 1, { ...block, checked: !block.checked }))
+  }
+
+  // Clicking below the last block puts the cursor at the end of the note
+  const handleBackgroundClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return
+    const last = blocks[blocks.length - 1]
+    if (last.type === "paragraph" && !last.text) {
+      focusBlock({ id: last.id, start: 0 })
+      return
+    }
+    const paragraph = createBlock()
+    commit([...blocks, paragraph], { id: paragraph.id, start: 0 })
+  }
+
+  const isEmpty = blocks.length === 1 && blocks[0].type === "paragraph" && !blocks[0].text
+  let listNumber = 0
+
+  return (
+    <div
+      className="min-h-[calc(100vh-300px)] space-y-1 font-mono leading-relaxed"
+      onClick={handleBackgroundClick}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {blocks.map((block, index) => {
+        listNumber = block.type === "numbered" ? listNumber + 1 : 0
+
+        if (block.type === "divider") {
+          return (
+            <div
+              key={block.id}
+              ref={setElementRef(block.id)}
+              data-block-id={block.id}
+              tabIndex={0}
+              role="separator"
+              onKeyDown={(e) => handleDividerKeyDown(index, e)}
+              className="rounded py-3 outline-none focus:bg-accent"
+            >
+              <hr className="border-border" />
+            </div>
+          )
+        }
+
+        const noteLinks = linkableNotes && block.type !== "code" ? getNoteLinks(block.text) : []
+        const attachmentRefs = attachments && block.type !== "code" ? getAttachmentRefs(block.text) : []
+
+        const blockPlaceholder = isEmpty
+          ? placeholder
+          : EMPTY_PLACEHOLDERS[block.type] ?? (focusedId === block.id ? "Type / for commands" : undefined)
+
+        return (
+          <div
+            key={block.id}
+            data-block-id={block.id}
+            className={`relative flex items-start gap-2 ${
+              block.type === "quote" ? "border-l-2 border-border pl-4" : ""
+            } ${block.type === "code" ? "rounded-md bg-muted p-3" : ""}`}
+          >
+            {block.type === "bullet" && <span className="select-none text-muted-foreground">•</span>}
+            {block.type === "numbered" && (
+              <span className="select-none text-muted-foreground">{listNumber}.</span>
+            )}
+            {block.type === "todo" && (
+              <button
+                type="button"
+                role="checkbox"
+                aria-checked={Boolean(block.checked)}
+                aria-label={block.checked ? "Mark as not done" : "Mark as done"}
+                onClick={() => toggleTodo(index)}
+                className={`mt-1.5 flex h-4 w-4 flex-shrink-0 items-center justify-center rounded border transition-colors ${
+                  block.checked ? "border-foreground bg-foreground text-background" : "border-border hover:bg-accent"
+                }`}
+              >
+                {block.checked && <Check className="h-3 w-3" />}
+              </button>
+            )}
+            <div className="min-w-0 flex-1">
+              <textarea
+                ref={setElementRef(block.id)}
+                value={block.text}
+                rows={1}
+                spellCheck={block.type !== "code"}
+                placeholder={blockPlaceholder}
+                onChange={(e) => handleTextChange(index, e)}
+                onKeyDown={(e) => handleKeyDown(index, e)}
+                onPaste={(e) => handlePaste(index, e)}
+                onFocus={() => setFocusedId(block.id)}
+                onBlur={() => {
+                  setFocusedId((current) => (current === block.id ? null : current))
+                  setSlashMenu((current) => (current?.blockId === block.id ? null : current))
+                  setLinkMenu((current) => (current?.blockId === block.id ? null : current))
+                }}
+                className={`w-full resize-none overflow-hidden border-none bg-transparent p-0 font-mono outline-none placeholder:text-muted-foreground ${
+                  BLOCK_CLASSES[block.type]
+                } ${block.checked ? "line-through text-muted-foreground" : ""}`}
+              />
+              {attachments && attachmentRefs.length > 0 && (
+                <AttachmentPreviews refs={attachmentRefs} attachments={attachments} />
+              )}
+              {/* The linked notes, to follow them; a link to a deleted note stays, marked broken */}
+              {noteLinks.length > 0 && (
+                <div className="flex flex-wrap gap-2 pb-1">
+                  {noteLinks.map((link, linkIndex) => {
+                    const target = linkableNotes?.find((note) => note.id === link.id)
+                    return target ? (
+                      <button
+                        key={linkIndex}
+                        type="button"
+                        onClick={() => onOpenNote?.(target.id)}
+                        className="flex items-center gap-1 rounded border border-border px-1.5 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                      >
+                        <ArrowUpRight className="h-3 w-3" />
+                        {target.title || "Untitled"}
+                      </button>
+                    ) : (
+                      <span
+                        key={linkIndex}
+                        title="The linked note was deleted"
+                        className="flex items-center gap-1 rounded border border-dashed border-destructive px-1.5 py-0.5 text-xs text-destructive"
+                      >
+                        <Unlink className="h-3 w-3" />
+                        <span className="line-through">{link.title}</span>
+                      </span>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+            {slashMenu?.blockId === block.id && (
+              <SlashMenu
+                commands={filterSlashCommands(block.text.slice(1))}
+                selectedIndex={slashMenu.index}
+                onSelect={(command) => applySlashCommand(index, command)}
+                onHover={(hovered) => setSlashMenu({ blockId: block.id, index: hovered })}
+              />
+            )}
+            {linkMenu?.blockId === block.id && linkableNotes && (
+              <NoteLinkMenu
+                notes={filterLinkTargets(linkableNotes, linkMenu.query)}
+                selectedIndex={linkMenu.index}
+                onSelect={(note) => applyNoteLink(index, note)}
+                onHover={(hovered) => setLinkMenu({ ...linkMenu, index: hovered })}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+})
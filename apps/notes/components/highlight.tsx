@@ -0,0 +1,23 @@
+import { getHighlightParts } from "@/lib/note-search"
+
+interface HighlightProps {
+  text: string
+  query: string
+}
+
+// Text with the words matching a search query marked
+export function Highlight({ text, query }: HighlightProps) {
+  return (
+    <>
+      {getHighlightParts(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-accent text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  )
+}
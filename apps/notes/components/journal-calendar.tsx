@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { addMonths, getCalendarMonth, getMonthWeeks, parseDateKey } from "@/lib/daily-notes"
+
+interface JournalCalendarProps {
+  today: string // Date key of the viewer's today
+  entryDates: Set<string> // Days that have an entry
+  selectedDate: string | null // Day of the open entry
+  onSelect: (date: string) => void
+}
+
+const WEEKDAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"]
+
+export function JournalCalendar({ today, entryDates, selectedDate, onSelect }: JournalCalendarProps) {
+  const [month, setMonth] = useState(() => getCalendarMonth(selectedDate ?? today))
+  const weeks = getMonthWeeks(month)
+  const todayMonth = getCalendarMonth(today)
+  const isCurrentMonth = month.year === todayMonth.year && month.month === todayMonth.month
+  const label = new Date(month.year, month.month, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" })
+
+  return (
+    <div className="rounded-lg border border-border p-4 font-mono">
+      <div className="flex items-center justify-between mb-3">
+        <Button variant="ghost" size="sm" onClick={() => setMonth(addMonths(month, -1))} aria-label="Previous month">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <p className="text-sm font-semibold">{label}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth(addMonths(month, 1))}
+          disabled={isCurrentMonth}
+          aria-label="Next month"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="py-1 text-muted-foreground">
+            {weekday}
+          </div>
+        ))}
+        {weeks.flat().map((date, index) =>
+          date === null ? (
+            <div key={`empty-${index}`} />
+          ) : (
+            <button
+              key={date}
+              onClick={() => onSelect(date)}
+              disabled={date > today} // Date keys sort like the dates they name
+              className={`relative rounded-md py-1.5 transition-colors disabled:opacity-30 disabled:hover:bg-transparent ${
+                date === selectedDate ? "bg-accent font-semibold" : "hover:bg-accent"
+              } ${date === today ? "ring-1 ring-foreground" : ""}`}
+              aria-label={`${parseDateKey(date).toLocaleDateString("en-US", { dateStyle: "full" })}${
+                entryDates.has(date) ? ", has an entry" : ""
+              }`}
+              aria-pressed={date === selectedDate}
+            >
+              {parseDateKey(date).getDate()}
+              {entryDates.has(date) && (
+                <span className="absolute bottom-0.5 left-1/2 h-1 w-1 -translate-x-1/2 rounded-full bg-foreground" />
+              )}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
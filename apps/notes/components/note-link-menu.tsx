@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { FileText } from "lucide-react"
+
+interface NoteLinkMenuProps {
+  notes: Array<{ id: string; title: string }>
+  selectedIndex: number
+  onSelect: (note: { id: string; title: string }) => void
+  onHover: (index: number) => void
+}
+
+// The notes offered after typing "[[", laid out like the slash menu
+export function NoteLinkMenu({ notes, selectedIndex, onSelect, onHover }: NoteLinkMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as HTMLElement | undefined
+    item?.scrollIntoView({ block: "nearest" })
+  }, [selectedIndex])
+
+  if (notes.length === 0) {
+    return (
+      <div className="absolute left-0 top-full z-40 mt-1 w-64 rounded-lg border border-border bg-background p-3 shadow-md">
+        <p className="font-mono text-xs text-muted-foreground">No matching notes</p>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      className="absolute left-0 top-full z-40 mt-1 max-h-72 w-64 overflow-y-auto rounded-lg border border-border bg-background p-1 shadow-md"
+    >
+      {notes.map((note, index) => (
+        <button
+          key={note.id}
+          type="button"
+          role="option"
+          aria-selected={index === selectedIndex}
+          // Keep focus in the block so typing can keep filtering
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(note)}
+          onMouseEnter={() => onHover(index)}
+          className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left font-mono text-sm transition-colors ${
+            index === selectedIndex ? "bg-accent" : "hover:bg-accent"
+          }`}
+        >
+          <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="truncate">{note.title || "Untitled"}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
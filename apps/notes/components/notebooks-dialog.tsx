@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { getNotebookTree, MAX_NOTEBOOK_NAME_LENGTH } from "@/lib/notebooks"
+import type { Notebook } from "@/lib/local-storage"
+
+interface NotebooksDialogProps {
+  notebooks: Notebook[]
+  onAdd: (name: string, parentId?: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  children: React.ReactNode
+}
+
+export function NotebooksDialog({ notebooks, onAdd, onRename, onDelete, children }: NotebooksDialogProps) {
+  const [name, setName] = useState("")
+  const [parentId, setParentId] = useState("")
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+
+  const tree = getNotebookTree(notebooks)
+  // Notebooks nest one level, so only top-level ones can hold others
+  const parentOptions = tree.filter((entry) => entry.depth === 0).map((entry) => entry.notebook)
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    onAdd(name.trim(), parentOptions.some((notebook) => notebook.id === parentId) ? parentId : undefined)
+    setName("")
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing || !editing.name.trim()) return
+    onRename(editing.id, editing.name.trim())
+    setEditing(null)
+  }
+
+  return (
+    <Dialog onOpenChange={() => setEditing(null)}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Notebooks</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Deleting a notebook keeps its notes and moves them out of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 font-mono text-sm">
+          {tree.length === 0 ? (
+            <p className="rounded-lg border-2 border-dashed border-border p-4 text-center text-muted-foreground">
+              No notebooks yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {tree.map(({ notebook, depth }) => (
+                <li
+                  key={notebook.id}
+                  className={`flex items-center gap-2 rounded-lg border border-border p-2 ${depth === 1 ? "ml-6" : ""}`}
+                >
+                  {editing?.id === notebook.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                      <Input
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: notebook.id, name: e.target.value })}
+                        maxLength={MAX_NOTEBOOK_NAME_LENGTH}
+                        className="h-8 flex-1 font-mono"
+                        aria-label="Notebook name"
+                        autoFocus
+                      />
+                      <button type="submit" className="rounded p-0.5 hover:bg-accent" aria-label="Save name">
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="rounded p-0.5 hover:bg-accent"
+                        aria-label="Cancel renaming"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <span className="flex-1 truncate">{notebook.name}</span>
+                      <button
+                        onClick={() => setEditing({ id: notebook.id, name: notebook.name })}
+                        className="rounded p-0.5 hover:bg-accent"
+                        aria-label={`Rename ${notebook.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(notebook.id)}
+                        className="rounded p-0.5 hover:bg-accent"
+                        aria-label={`Delete ${notebook.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <p className="text-xs text-muted-foreground">New notebook</p>
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+                maxLength={MAX_NOTEBOOK_NAME_LENGTH}
+                className="font-mono flex-1"
+              />
+              <Button type="submit" variant="outline" size="icon" disabled={!name.trim()} aria-label="Add notebook">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {parentOptions.length > 0 && (
+              <select
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className="h-10 w-full rounded-md border border-input bg-background px-3 font-mono text-sm"
+                aria-label="Inside notebook"
+              >
+                <option value="">Top level</option>
+                {parentOptions.map((notebook) => (
+                  <option key={notebook.id} value={notebook.id}>
+                    Inside {notebook.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
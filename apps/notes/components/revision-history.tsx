@@ -0,0 +1,138 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ChevronLeft, RotateCcw } from "lucide-react"
+import { AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { diffLines } from "@/lib/diff"
+import { getNoteMarkdown } from "@/lib/legacy-html"
+import type { NoteRevision } from "@/lib/local-storage"
+
+interface RevisionHistoryProps {
+  isOpen: boolean
+  onClose: () => void
+  revisions: NoteRevision[] | undefined // Newest first; undefined while loading
+  current: { title: string; content: string } // The editor's version, as markdown
+  onRestore: (revision: NoteRevision) => void
+}
+
+const DIFF_LINE_CLASSES = {
+  same: "text-muted-foreground",
+  added: "bg-accent text-foreground",
+  removed: "text-muted-foreground line-through opacity-70",
+}
+
+const DIFF_LINE_MARKERS = { same: " ", added: "+", removed: "-" }
+
+function formatRevisionDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+export function RevisionHistory({ isOpen, onClose, revisions, current, onRestore }: RevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = revisions?.find((revision) => revision.id === selectedId) ?? revisions?.[0] ?? null
+
+  // What changed from the selected version to the one being edited
+  const diff = useMemo(
+    () => (isOpen && selected ? diffLines(getNoteMarkdown(selected), current.content) : []),
+    [isOpen, selected, current.content]
+  )
+  const hasChanges = diff.some((line) => line.type !== "same")
+  const titleChanged = selected !== null && selected.title !== (current.title.trim() || "Untitled")
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 bg-background/95 backdrop-blur-sm z-50 overflow-y-auto">
+          <div className="max-w-2xl mx-auto py-8 pb-[200px] px-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold tracking-tight text-balance font-mono">Version History</h2>
+              <ThemeToggle />
+            </div>
+
+            {revisions === undefined ? (
+              <p className="font-mono text-sm text-muted-foreground">Loading versions...</p>
+            ) : revisions.length === 0 || !selected ? (
+              <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
+                <p className="font-mono text-sm text-muted-foreground">
+                  No earlier versions yet. They&apos;re saved every few minutes while you write.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex gap-2 overflow-x-auto pb-2">
+                  {revisions.map((revision) => (
+                    <button
+                      key={revision.id}
+                      onClick={() => setSelectedId(revision.id)}
+                      className={`flex-shrink-0 rounded-lg border px-3 py-1.5 font-mono text-xs transition-colors ${
+                        revision.id === selected.id ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                      }`}
+                    >
+                      {formatRevisionDate(revision.createdAt)}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-mono text-sm text-muted-foreground">
+                    Changes since {formatRevisionDate(selected.createdAt)}
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={() => onRestore(selected)}
+                    disabled={!hasChanges && !titleChanged}
+                    className="font-mono"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                </div>
+
+                {titleChanged && (
+                  <p className="font-mono text-sm">
+                    <span className="text-muted-foreground line-through">{selected.title}</span>
+                    {" → "}
+                    {current.title.trim() || "Untitled"}
+                  </p>
+                )}
+
+                {hasChanges ? (
+                  <pre className="overflow-x-auto rounded-lg border border-border p-4 font-mono text-sm leading-relaxed">
+                    {diff.map((line, index) => (
+                      <div key={index} className={`whitespace-pre-wrap ${DIFF_LINE_CLASSES[line.type]}`}>
+                        <span className="select-none pr-3 text-muted-foreground">{DIFF_LINE_MARKERS[line.type]}</span>
+                        {line.text || " "}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="font-mono text-sm text-muted-foreground">
+                    {titleChanged ? "Only the title changed." : "This version matches the current note."}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Back button */}
+          <div className="fixed bottom-0 left-0 right-0 bg-background/95 backdrop-blur-sm border-t border-border py-4 px-8 z-50">
+            <div className="mx-auto max-w-2xl">
+              <Button variant="outline" onClick={onClose} className="font-mono">
+                <ChevronLeft className="h-4 w-4 mr-2" />
+                Back to note
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
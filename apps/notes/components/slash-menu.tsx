@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import {
+  CheckSquare,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  Link,
+  List,
+  ListOrdered,
+  Minus,
+  Quote,
+  Type,
+} from "lucide-react"
+import type { SlashCommand } from "@/lib/blocks"
+
+interface SlashMenuProps {
+  commands: SlashCommand[]
+  selectedIndex: number
+  onSelect: (command: SlashCommand) => void
+  onHover: (index: number) => void
+}
+
+const ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  text: Type,
+  heading1: Heading1,
+  heading2: Heading2,
+  heading3: Heading3,
+  bullet: List,
+  numbered: ListOrdered,
+  todo: CheckSquare,
+  quote: Quote,
+  code: Code,
+  divider: Minus,
+  link: Link,
+}
+
+export function SlashMenu({ commands, selectedIndex, onSelect, onHover }: SlashMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Keep the highlighted command in view while moving through the list with the arrow keys
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as HTMLElement | undefined
+    item?.scrollIntoView({ block: "nearest" })
+  }, [selectedIndex])
+
+  if (commands.length === 0) {
+    return (
+      <div className="absolute left-0 top-full z-40 mt-1 w-56 rounded-lg border border-border bg-background p-3 shadow-md">
+        <p className="font-mono text-xs text-muted-foreground">No matching blocks</p>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      className="absolute left-0 top-full z-40 mt-1 max-h-72 w-56 overflow-y-auto rounded-lg border border-border bg-background p-1 shadow-md"
+    >
+      {commands.map((command, index) => {
+        const Icon = ICONS[command.id] ?? Type
+        return (
+          <button
+            key={command.id}
+            type="button"
+            role="option"
+            aria-selected={index === selectedIndex}
+            // Keep focus in the block so typing can keep filtering
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(command)}
+            onMouseEnter={() => onHover(index)}
+            className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left font-mono text-sm transition-colors ${
+              index === selectedIndex ? "bg-accent" : "hover:bg-accent"
+            }`}
+          >
+            <Icon className="h-4 w-4 text-muted-foreground" />
+            {command.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
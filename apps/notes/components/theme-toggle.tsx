@@ -3,9 +3,11 @@
 import { Moon, Sun } from "lucide-react"
 import { useTheme } from "next-themes"
 import { useEffect, useState } from "react"
+import { useSettings } from "@/components/settings-provider"
 
 export function ThemeToggle() {
-  const { theme, setTheme } = useTheme()
+  const { theme } = useTheme()
+  const { updateSettings } = useSettings()
   const [mounted, setMounted] = useState(false)
 
   useEffect(() => {
@@ -22,7 +24,7 @@ export function ThemeToggle() {
 
   return (
     <button
-      onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+      onClick={() => updateSettings({ general: { theme: theme === "dark" ? "light" : "dark" } })}
       className="inline-flex h-10 w-10 items-center justify-center rounded-lg border border-border hover:bg-accent transition-colors"
       aria-label="Toggle theme"
     >
@@ -0,0 +1,78 @@
+import { getAttachmentIds, type Attachment } from "@/lib/attachments"
+import { getDeletedNotes, loadLocalNotes } from "@/lib/local-storage"
+
+// Attachments of users who aren't signed in, kept in IndexedDB since localStorage can't
+// hold files. They're uploaded to Convex storage, and removed from here, at the next sign-in.
+
+export interface LocalAttachment extends Attachment {
+  blob: Blob
+}
+
+const DB_NAME = "notes-attachments"
+const STORE_NAME = "attachments"
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request ? request.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function loadLocalAttachments(): Promise<LocalAttachment[]> {
+  if (typeof indexedDB === "undefined") return []
+  try {
+    return (await withStore<LocalAttachment[]>("readonly", (store) => store.getAll())) ?? []
+  } catch (error) {
+    console.error("Failed to load local attachments:", error)
+    return []
+  }
+}
+
+export async function saveLocalAttachment(attachment: LocalAttachment): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.put(attachment)
+  })
+}
+
+export async function deleteLocalAttachments(ids: string[]): Promise<void> {
+  if (typeof indexedDB === "undefined" || ids.length === 0) return
+  try {
+    await withStore("readwrite", (store) => {
+      ids.forEach((id) => store.delete(id))
+    })
+  } catch (error) {
+    console.error("Failed to delete local attachments:", error)
+  }
+}
+
+/**
+ * Local version of deleteNoteAttachments in convex/journalAttachments.ts: once a note is
+ * gone for good, delete the attachments it used that no other note refers to, including
+ * notes that can still be restored.
+ */
+export async function deleteUnreferencedLocalAttachments(ids: string[]): Promise<void> {
+  const notes = [...loadLocalNotes(), ...getDeletedNotes().map((deleted) => deleted.note)]
+  const referenced = new Set(notes.flatMap((note) => getAttachmentIds(note.content)))
+  await deleteLocalAttachments(ids.filter((id) => !referenced.has(id)))
+}
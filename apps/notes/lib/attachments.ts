@@ -0,0 +1,80 @@
+// Files pasted or dropped into a note. The note refers to them as "attachment:<id>" in
+// markdown images and links; the id is the same for the copy in IndexedDB on this device
+// and the one in Convex storage.
+
+// Mirrors the limits in convex/journalAttachments.ts
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+export const MAX_ATTACHMENT_BYTES_PER_USER = 200 * 1024 * 1024
+const ATTACHMENT_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+])
+
+export interface Attachment {
+  id: string
+  name: string
+  contentType: string
+  size: number // Bytes
+  createdAt: number
+}
+
+// An attachment with somewhere to load it from: a Convex storage URL or an object URL
+export interface AttachmentPreview extends Attachment {
+  url: string | null
+}
+
+export interface AttachmentRef {
+  id: string
+  name: string
+  isImage: boolean
+}
+
+const ATTACHMENT_REF = /(!?)\[([^\]]*)\]\(attachment:([^)\s]+)\)/g
+
+export function isImageType(contentType: string): boolean {
+  return contentType.startsWith("image/")
+}
+
+// Why a file can't be attached, or null when it can
+export function getAttachmentError(file: File, usedBytes: number): string | null {
+  if (!ATTACHMENT_TYPES.has(file.type)) {
+    return "Only images, PDFs and text files can be attached"
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Attachments can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+  }
+  if (usedBytes + file.size > MAX_ATTACHMENT_BYTES_PER_USER) {
+    return `Attachment storage is full. You can store up to ${formatFileSize(MAX_ATTACHMENT_BYTES_PER_USER)} of attachments.`
+  }
+  return null
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`
+}
+
+// Images show inline, other files as a link to download them
+export function createAttachmentMarkdown(attachment: Attachment): string {
+  const name = attachment.name.replace(/[[\]]/g, "").trim() || "Attachment"
+  return `${isImageType(attachment.contentType) ? "!" : ""}[${name}](attachment:${attachment.id})`
+}
+
+export function getAttachmentRefs(text: string): AttachmentRef[] {
+  return Array.from(text.matchAll(ATTACHMENT_REF), (match) => ({
+    id: match[3],
+    name: match[2],
+    isImage: match[1] === "!",
+  }))
+}
+
+export function getAttachmentIds(text: string): string[] {
+  return getAttachmentRefs(text).map((ref) => ref.id)
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import { createBlock, parseMarkdown, serializeBlocks, stripMarkdown, type Block } from "@/lib/blocks"
+
+// Blocks without their ids, which are new on every parse
+function withoutId(block: Block): Omit<Block, "id"> {
+  const rest: Partial<Block> = { ...block }
+  delete rest.id
+  return rest as Omit<Block, "id">
+}
+
+function parse(markdown: string): Array<Omit<Block, "id">> {
+  return parseMarkdown(markdown).map(withoutId)
+}
+
+function block(type: Block["type"], text = "", checked?: boolean): Block {
+  return { ...createBlock(type, text), ...(checked !== undefined ? { checked } : {}) }
+}
+
+const EVERY_BLOCK_TYPE = [
+  "# Heading 1",
+  "## Heading 2",
+  "### Heading 3",
+  "A paragraph with **bold**, *italic*, `code` and a [link](https://example.com)",
+  "",
+  "- Bullet",
+  "- \\[ ] Bullet that starts like a todo",
+  "1. First",
+  "2. Second",
+  "- [ ] Open todo",
+  "- [x] Done todo",
+  "> Quote",
+  "```",
+  "const a = 1",
+  "",
+  "  indented()",
+  "```",
+  "---",
+  "Last line",
+].join("\n")
+
+describe("parseMarkdown and serializeBlocks", () => {
+  it("round-trip every block type unchanged", () => {
+    expect(serializeBlocks(parseMarkdown(EVERY_BLOCK_TYPE))).toBe(EVERY_BLOCK_TYPE)
+  })
+
+  it("parse every block type", () => {
+    expect(parse(EVERY_BLOCK_TYPE)).toEqual([
+      { type: "heading1", text: "Heading 1" },
+      { type: "heading2", text: "Heading 2" },
+      { type: "heading3", text: "Heading 3" },
+      { type: "paragraph", text: "A paragraph with **bold**, *italic*, `code` and a [link](https://example.com)" },
+      { type: "paragraph", text: "" },
+      { type: "bullet", text: "Bullet" },
+      { type: "bullet", text: "[ ] Bullet that starts like a todo" },
+      { type: "numbered", text: "First" },
+      { type: "numbered", text: "Second" },
+      { type: "todo", text: "Open todo", checked: false },
+      { type: "todo", text: "Done todo", checked: true },
+      { type: "quote", text: "Quote" },
+      { type: "code", text: "const a = 1\n\n  indented()" },
+      { type: "divider", text: "" },
+      { type: "paragraph", text: "Last line" },
+    ])
+  })
+
+  it("read back every block they write", () => {
+    const blocks = [
+      block("heading1", "Title"),
+      block("paragraph", "# Not a heading"),
+      block("paragraph", "- Not a bullet"),
+      block("paragraph", "1. Not a list"),
+      block("paragraph", "> Not a quote"),
+      block("paragraph", "---"),
+      block("paragraph", "***"),
+      block("paragraph", "\\ starts with a backslash"),
+      block("todo", "Checked", true),
+      block("todo", "[x] Unchecked, with a bracket", false),
+      block("bullet", "[x] Not a todo"),
+      block("code", "```js"),
+    ]
+    expect(parse(serializeBlocks(blocks))).toEqual(blocks.map(withoutId))
+  })
+
+  it("keep lists that follow each other apart and restart their numbering", () => {
+    const markdown = ["1. One", "2. Two", "- Bullet", "1. One again", "", "1. After a blank line"].join("\n")
+    expect(serializeBlocks(parseMarkdown(markdown))).toBe(markdown)
+  })
+
+  it("keep indented list items as they were typed", () => {
+    // Blocks don't nest, so an indented item is a paragraph that still reads the same
+    const markdown = ["- Parent", "  - Child", "    1. Grandchild", "- [x] Done", "  - [ ] Nested todo"].join("\n")
+    expect(serializeBlocks(parseMarkdown(markdown))).toBe(markdown)
+    expect(parse(markdown).map(({ type }) => type)).toEqual(["bullet", "paragraph", "paragraph", "todo", "paragraph"])
+  })
+
+  it("accept the other markers and write the usual ones", () => {
+    expect(serializeBlocks(parseMarkdown(["* Star", "* [X] Done", "3. Third", "***"].join("\n")))).toBe(
+      ["- Star", "- [x] Done", "1. Third", "---"].join("\n")
+    )
+  })
+
+  it("drop trailing empty paragraphs and give an empty note one block", () => {
+    expect(serializeBlocks([block("paragraph", "Text"), block("paragraph"), block("paragraph")])).toBe("Text")
+    expect(parse("")).toEqual([{ type: "paragraph", text: "" }])
+  })
+})
+
+describe("stripMarkdown", () => {
+  it("keeps only the text", () => {
+    expect(stripMarkdown(EVERY_BLOCK_TYPE)).toBe(
+      "Heading 1 Heading 2 Heading 3 A paragraph with bold, italic, code and a link Bullet [ ] Bullet that starts like a todo First Second Open todo Done todo Quote const a = 1 indented() Last line"
+    )
+  })
+})
@@ -0,0 +1,174 @@
+// The journal editor works on a list of blocks, one per line of markdown. Inline formatting
+// (**bold**, *italic*, `code`, [links](url)) stays as markdown inside each block's text.
+
+export type BlockType =
+  | "paragraph"
+  | "heading1"
+  | "heading2"
+  | "heading3"
+  | "bullet"
+  | "numbered"
+  | "todo"
+  | "quote"
+  | "code"
+  | "divider"
+
+export interface Block {
+  id: string
+  type: BlockType
+  text: string // May contain newlines only in code blocks
+  checked?: boolean // Todo blocks only
+}
+
+export interface SlashCommand {
+  id: string
+  label: string
+  keywords: string[]
+  type?: BlockType // Missing for commands that insert text rather than change the block
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { id: "text", label: "Text", keywords: ["paragraph", "plain"], type: "paragraph" },
+  { id: "heading1", label: "Heading 1", keywords: ["h1", "title"], type: "heading1" },
+  { id: "heading2", label: "Heading 2", keywords: ["h2", "subtitle"], type: "heading2" },
+  { id: "heading3", label: "Heading 3", keywords: ["h3"], type: "heading3" },
+  { id: "bullet", label: "Bulleted list", keywords: ["ul", "unordered"], type: "bullet" },
+  { id: "numbered", label: "Numbered list", keywords: ["ol", "ordered"], type: "numbered" },
+  { id: "todo", label: "Checklist", keywords: ["todo", "task", "checkbox"], type: "todo" },
+  { id: "quote", label: "Quote", keywords: ["blockquote"], type: "quote" },
+  { id: "code", label: "Code block", keywords: ["pre", "snippet"], type: "code" },
+  { id: "divider", label: "Divider", keywords: ["hr", "rule", "line"], type: "divider" },
+  { id: "link", label: "Link", keywords: ["url", "href"] },
+]
+
+// Typed at the start of a paragraph, these turn it into another kind of block
+const SHORTCUTS: Array<{ pattern: RegExp; type: BlockType }> = [
+  { pattern: /^# /, type: "heading1" },
+  { pattern: /^## /, type: "heading2" },
+  { pattern: /^### /, type: "heading3" },
+  { pattern: /^\[ ?\] /, type: "todo" },
+  { pattern: /^[-*] /, type: "bullet" },
+  { pattern: /^\d+\. /, type: "numbered" },
+  { pattern: /^> /, type: "quote" },
+  { pattern: /^```$/, type: "code" },
+  { pattern: /^---$/, type: "divider" },
+]
+
+// Lines a paragraph can't start with unescaped, or they'd read back as another block
+const BLOCK_MARKER = /^(#{1,3} |[-*] |\d+\. |> |-{3,}$|\*{3,}$|```|\\)/
+const TODO_MARKER = /^\[[ xX]\] /
+
+export function createBlock(type: BlockType = "paragraph", text = ""): Block {
+  return { id: crypto.randomUUID(), type, text, ...(type === "todo" ? { checked: false } : {}) }
+}
+
+export function matchShortcut(type: BlockType, text: string): { type: BlockType; text: string } | null {
+  if (type !== "paragraph" && type !== "bullet") return null
+  // "- [ ] " types as a bullet first, which then becomes a todo
+  const shortcuts = type === "bullet" ? SHORTCUTS.filter((shortcut) => shortcut.type === "todo") : SHORTCUTS
+  for (const shortcut of shortcuts) {
+    const match = text.match(shortcut.pattern)
+    if (match) return { type: shortcut.type, text: text.slice(match[0].length) }
+  }
+  return null
+}
+
+export function filterSlashCommands(query: string): SlashCommand[] {
+  const search = query.trim().toLowerCase()
+  if (!search) return SLASH_COMMANDS
+  return SLASH_COMMANDS.filter(
+    (command) =>
+      command.label.toLowerCase().split(" ").some((word) => word.startsWith(search)) ||
+      command.keywords.some((keyword) => keyword.startsWith(search))
+  )
+}
+
+export function parseMarkdown(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n")
+  const blocks: Block[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (line.startsWith("```")) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && lines[i] !== "```") {
+        code.push(lines[i])
+        i++
+      }
+      blocks.push(createBlock("code", code.join("\n")))
+      continue
+    }
+
+    let match: RegExpMatchArray | null
+    if (line.startsWith("\\")) {
+      blocks.push(createBlock("paragraph", line.slice(1)))
+    } else if ((match = line.match(/^(#{1,3}) (.*)$/))) {
+      blocks.push(createBlock(`heading${match[1].length}` as BlockType, match[2]))
+    } else if ((match = line.match(/^[-*] \[([ xX])\] (.*)$/))) {
+      blocks.push({ ...createBlock("todo", match[2]), checked: match[1] !== " " })
+    } else if ((match = line.match(/^[-*] (.*)$/))) {
+      blocks.push(createBlock("bullet", match[1].replace(/^\\(?=\[)/, "")))
+    } else if ((match = line.match(/^\d+\. (.*)$/))) {
+      blocks.push(createBlock("numbered", match[1]))
+    } else if ((match = line.match(/^> (.*)$/))) {
+      blocks.push(createBlock("quote", match[1]))
+    } else if (/^(-{3,}|\*{3,})$/.test(line)) {
+      blocks.push(createBlock("divider"))
+    } else {
+      blocks.push(createBlock("paragraph", line))
+    }
+  }
+
+  return blocks.length > 0 ? blocks : [createBlock()]
+}
+
+export function serializeBlocks(blocks: Block[]): string {
+  let number = 0
+  const lines = blocks.map((block) => {
+    number = block.type === "numbered" ? number + 1 : 0
+    switch (block.type) {
+      case "heading1":
+        return `# ${block.text}`
+      case "heading2":
+        return `## ${block.text}`
+      case "heading3":
+        return `### ${block.text}`
+      case "bullet":
+        return `- ${TODO_MARKER.test(block.text) ? "\\" : ""}${block.text}`
+      case "numbered":
+        return `${number}. ${block.text}`
+      case "todo":
+        return `- [${block.checked ? "x" : " "}] ${block.text}`
+      case "quote":
+        return `> ${block.text}`
+      case "code":
+        return `\`\`\`\n${block.text}\n\`\`\``
+      case "divider":
+        return "---"
+      default:
+        return BLOCK_MARKER.test(block.text) ? `\\${block.text}` : block.text
+    }
+  })
+
+  // Trailing empty paragraphs are only where the cursor was left
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop()
+  return lines.join("\n")
+}
+
+// Plain text for previews: block markers and inline formatting removed
+export function stripMarkdown(markdown: string): string {
+  return parseMarkdown(markdown)
+    .filter((block) => block.type !== "divider")
+    .map((block) =>
+      block.text
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/(\*\*|__)(.+?)\1/g, "$2")
+        .replace(/(\*|_)(.+?)\1/g, "$2")
+        .replace(/`([^`]+)`/g, "$1")
+    )
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
@@ -3,9 +3,10 @@
 import { useQuery } from "convex/react"
 import { useQuery as useRQ, useQueryClient } from "@tanstack/react-query"
 import { api } from "@/convex/_generated/api"
-import { Doc } from "@/convex/_generated/dataModel"
+import { Doc, Id } from "@/convex/_generated/dataModel"
 import { useEffect, useMemo } from "react"
-import type { Note } from "@/lib/local-storage"
+import type { Note, Notebook, NoteRevision } from "@/lib/local-storage"
+import type { AttachmentPreview } from "@/lib/attachments"
 
 // Last Known Good cache using localStorage
 const LKG_CACHE_KEY = "notes:journalNotes:lkg"
@@ -41,11 +42,15 @@ function setCachedNotes(notes: Note[]): void {
   }
 }
 
-function fromConvexNote(note: Doc<"journalNotes">): Note {
+export function fromConvexNote(note: Doc<"journalNotes">): Note {
   return {
     id: note._id, // Use Convex ID as the note ID (primary identifier)
     title: note.title,
     content: note.content,
+    format: note.format,
+    notebookId: note.notebookId,
+    pinned: note.pinned,
+    entryDate: note.entryDate,
     createdAt: note.createdAt,
     updatedAt: note.updatedAt,
   }
@@ -106,3 +111,68 @@ export function useJournalNotes() {
   }
 }
 
+
+/**
+ * Server-side search for signed-in users. Undefined while loading or when there's no query,
+ * so callers can show their local results in the meantime.
+ */
+export function useJournalNoteSearch(query: string, enabled: boolean): Note[] | undefined {
+  const search = query.trim()
+  const results = useQuery(
+    api.journalNotes.searchJournalNotes,
+    enabled && search ? { query: search } : "skip"
+  ) as Doc<"journalNotes">[] | undefined
+
+  return useMemo(() => results?.map(fromConvexNote), [results])
+}
+
+/**
+ * Earlier versions of a synced note, newest first. Undefined while loading or when skipped.
+ */
+export function useNoteRevisions(noteId: string | null): NoteRevision[] | undefined {
+  const revisions = useQuery(
+    api.journalNoteRevisions.getRevisions,
+    noteId ? { noteId: noteId as Id<"journalNotes"> } : "skip"
+  ) as Doc<"journalNoteRevisions">[] | undefined
+
+  return useMemo(
+    () =>
+      revisions?.map((revision) => ({
+        id: revision._id,
+        noteId: revision.noteId,
+        title: revision.title,
+        content: revision.content,
+        format: revision.format,
+        createdAt: revision.createdAt,
+      })),
+    [revisions]
+  )
+}
+
+/**
+ * Notebooks of the signed-in user. Undefined while loading or when skipped.
+ */
+export function useJournalNotebooks(enabled: boolean): Notebook[] | undefined {
+  const notebooks = useQuery(api.journalNotebooks.getNotebooks, enabled ? {} : "skip") as
+    | Doc<"journalNotebooks">[]
+    | undefined
+
+  return useMemo(
+    () =>
+      notebooks?.map(({ clientId, name, parentId, createdAt }) => ({ id: clientId, name, parentId, createdAt })),
+    [notebooks]
+  )
+}
+
+/**
+ * Attachments of the signed-in user, with their storage URLs. Undefined while loading or
+ * when skipped.
+ */
+export function useJournalAttachments(enabled: boolean): AttachmentPreview[] | undefined {
+  const attachments = useQuery(api.journalAttachments.getAttachments, enabled ? {} : "skip")
+
+  return useMemo(
+    () => attachments?.map(({ clientId, ...attachment }) => ({ id: clientId, ...attachment })),
+    [attachments]
+  )
+}
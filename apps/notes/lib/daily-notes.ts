@@ -0,0 +1,65 @@
+import type { Note } from "@/lib/local-storage"
+
+// Daily entries are keyed by the local date ("YYYY-MM-DD") they were written for, so an
+// entry written late in the evening belongs to that evening, wherever the server is.
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
+
+// The date key of a moment in the browser's time zone
+export function getDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Local midnight of a date key. Date parses "YYYY-MM-DD" as UTC, which is the day before
+// west of Greenwich, so the parts are passed separately.
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// "Monday, October 19, 2026"
+export function formatEntryTitle(key: string): string {
+  return parseDateKey(key).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+export function findEntry(notes: Note[], key: string): Note | undefined {
+  return notes.find((note) => note.entryDate === key)
+}
+
+export interface CalendarMonth {
+  year: number
+  month: number // 0-11, as in Date
+}
+
+export function getCalendarMonth(key: string): CalendarMonth {
+  const date = parseDateKey(key)
+  return { year: date.getFullYear(), month: date.getMonth() }
+}
+
+export function addMonths({ year, month }: CalendarMonth, count: number): CalendarMonth {
+  const date = new Date(year, month + count, 1)
+  return { year: date.getFullYear(), month: date.getMonth() }
+}
+
+// Weeks of the month from Sunday to Saturday, with null for days of the months either side
+export function getMonthWeeks({ year, month }: CalendarMonth): Array<Array<string | null>> {
+  const daysInMonth = new Date(year, month + 1, 0).getDate()
+  const days: Array<string | null> = Array.from({ length: new Date(year, month, 1).getDay() }, () => null)
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(getDateKey(new Date(year, month, day)))
+  }
+  while (days.length % 7 !== 0) days.push(null)
+
+  const weeks: Array<Array<string | null>> = []
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7))
+  }
+  return weeks
+}
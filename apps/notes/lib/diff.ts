@@ -0,0 +1,65 @@
+export interface DiffLine {
+  type: "same" | "added" | "removed"
+  text: string
+}
+
+// Past this many line pairs the table gets too big, and the whole text shows as replaced
+const MAX_DIFF_CELLS = 1_000_000
+
+// Line diff from before to after, from the longest common subsequence of lines
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : []
+  const b = after ? after.split("\n") : []
+
+  // Common lines at either end don't need the table
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++
+  }
+
+  const head: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: "same", text }))
+  const tail: DiffLine[] = a.slice(a.length - suffix).map((text) => ({ type: "same", text }))
+  const oldLines = a.slice(prefix, a.length - suffix)
+  const newLines = b.slice(prefix, b.length - suffix)
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldLines.map((text): DiffLine => ({ type: "removed", text })),
+      ...newLines.map((text): DiffLine => ({ type: "added", text })),
+      ...tail,
+    ]
+  }
+
+  // lengths[i][j] is the LCS length of oldLines[i:] and newLines[j:]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0))
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const middle: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      middle.push({ type: "same", text: oldLines[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: "removed", text: oldLines[i] })
+      i++
+    } else {
+      middle.push({ type: "added", text: newLines[j] })
+      j++
+    }
+  }
+  while (i < oldLines.length) middle.push({ type: "removed", text: oldLines[i++] })
+  while (j < newLines.length) middle.push({ type: "added", text: newLines[j++] })
+
+  return [...head, ...middle, ...tail]
+}
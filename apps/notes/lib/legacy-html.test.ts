@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import { parseMarkdown, serializeBlocks } from "@/lib/blocks"
+import { getNoteMarkdown, getNotePreview, htmlToMarkdown } from "@/lib/legacy-html"
+
+describe("htmlToMarkdown", () => {
+  it("turns each line of the old editor into a paragraph", () => {
+    expect(htmlToMarkdown("First line<div>Second <b>bold</b> and <i>italic</i></div><div><br></div><div>After a gap</div>")).toBe(
+      "First line\nSecond **bold** and *italic*\n\nAfter a gap"
+    )
+    expect(htmlToMarkdown("<p>One<br>Two</p>")).toBe("One\nTwo")
+  })
+
+  it("converts lists", () => {
+    expect(htmlToMarkdown("<ul><li>One</li><li>Two</li></ul><ol><li>First</li><li><strong>Second</strong></li></ol>")).toBe(
+      "- One\n- Two\n1. First\n2. **Second**"
+    )
+  })
+
+  it("flattens nested lists without losing items", () => {
+    expect(htmlToMarkdown("<ul><li>Parent<ul><li>Child<ol><li>Grandchild</li></ol></li></ul></li><li>Sibling</li></ul>")).toBe(
+      "- Parent\n- Child\n1. Grandchild\n- Sibling"
+    )
+  })
+
+  it("converts headings, keeping the deeper ones as the smallest", () => {
+    expect(htmlToMarkdown("<h1>Title</h1><h2>Part <em>one</em></h2><h3>Section</h3><h5>Deep</h5><p>Text</p>")).toBe(
+      "# Title\n## Part *one*\n### Section\n### Deep\nText"
+    )
+  })
+
+  it("converts links and drops unsafe ones", () => {
+    expect(htmlToMarkdown('<p>See <a href="https://example.com/a?b=c">the site</a> and <a>an anchor</a></p>')).toBe(
+      "See [the site](https://example.com/a?b=c) and an anchor"
+    )
+    expect(htmlToMarkdown('<a href="javascript:alert(1)">Click</a>')).toBe("Click")
+  })
+
+  it("strips scripts and event handlers", () => {
+    expect(
+      htmlToMarkdown('<p onclick="alert(1)">Safe</p><script>alert(1)</script><img src="x" onerror="alert(1)"><iframe src="https://example.com"></iframe>')
+    ).toBe("Safe")
+  })
+
+  it("converts quotes, code, rules and inline code", () => {
+    expect(htmlToMarkdown("<blockquote>Quoted</blockquote><pre>const a = 1\n  b()</pre><hr><p>Use <code>npm test</code></p>")).toBe(
+      "> Quoted\n```\nconst a = 1\n  b()\n```\n---\nUse `npm test`"
+    )
+  })
+
+  it("decodes entities and non-breaking spaces", () => {
+    expect(htmlToMarkdown("<p>Fish&nbsp;&amp;&nbsp;chips &lt;3</p>")).toBe("Fish & chips <3")
+  })
+
+  it("keeps text that looks like markdown as text", () => {
+    const markdown = htmlToMarkdown("<div># Not a heading</div><div>- Not a list</div><div>---</div>")
+    expect(parseMarkdown(markdown).map(({ type, text }) => ({ type, text }))).toEqual([
+      { type: "paragraph", text: "# Not a heading" },
+      { type: "paragraph", text: "- Not a list" },
+      { type: "paragraph", text: "---" },
+    ])
+  })
+
+  it("gives markdown that the block editor saves unchanged", () => {
+    const html =
+      "<h2>Plan</h2><ul><li>Buy <a href=\"https://example.com\">milk</a></li></ul><ol><li>Call</li></ol><blockquote>Note</blockquote><hr><div>End</div>"
+    const markdown = htmlToMarkdown(html)
+    expect(serializeBlocks(parseMarkdown(markdown))).toBe(markdown)
+  })
+
+  it("leaves an empty note empty", () => {
+    expect(htmlToMarkdown("")).toBe("")
+    expect(htmlToMarkdown("  \n ")).toBe("")
+  })
+})
+
+describe("getNoteMarkdown", () => {
+  it("converts legacy notes and leaves markdown notes alone", () => {
+    expect(getNoteMarkdown({ content: "<b>Bold</b>" })).toBe("**Bold**")
+    expect(getNoteMarkdown({ content: "<b>Not HTML</b>", format: "markdown" })).toBe("<b>Not HTML</b>")
+  })
+
+  it("previews a legacy note as plain text", () => {
+    expect(getNotePreview({ content: "<h1>Title</h1><p>Some <b>bold</b> text</p>" }, 15)).toBe("Title Some bold...")
+  })
+})
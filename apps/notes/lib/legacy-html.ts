@@ -0,0 +1,116 @@
+import DOMPurify from "dompurify"
+import { createBlock, serializeBlocks, stripMarkdown, type Block, type BlockType } from "@/lib/blocks"
+import type { Note } from "@/lib/local-storage"
+
+// Notes written before the block editor were stored as the contentEditable's innerHTML.
+// They're converted to markdown when opened and saved back as markdown on the next edit.
+
+const HEADINGS: Record<string, BlockType> = { H1: "heading1", H2: "heading2", H3: "heading3", H4: "heading3", H5: "heading3", H6: "heading3" }
+const BLOCK_TAGS = new Set(["DIV", "P", "UL", "OL", "LI", "H1", "H2", "H3", "H4", "H5", "H6", "BLOCKQUOTE", "PRE", "HR"])
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? "").replace(/\u00a0/g, " ")
+  if (node.nodeType !== Node.ELEMENT_NODE) return ""
+
+  const element = node as HTMLElement
+  const text = Array.from(element.childNodes).map(inlineMarkdown).join("")
+  if (!text.trim()) return text
+
+  switch (element.tagName) {
+    case "B":
+    case "STRONG":
+      return `**${text}**`
+    case "I":
+    case "EM":
+      return `*${text}*`
+    case "CODE":
+      return `\`${text}\``
+    case "A": {
+      const href = element.getAttribute("href")
+      return href ? `[${text}](${href})` : text
+    }
+    default:
+      return text
+  }
+}
+
+function collectBlocks(parent: Node, blocks: Block[], listType?: BlockType): void {
+  let line = ""
+  const flush = (type: BlockType = listType ?? "paragraph") => {
+    if (line.trim() || type === "paragraph") blocks.push(createBlock(type, line.trim()))
+    line = ""
+  }
+
+  for (const child of Array.from(parent.childNodes)) {
+    const element = child.nodeType === Node.ELEMENT_NODE ? (child as HTMLElement) : null
+
+    if (element?.tagName === "BR") {
+      flush()
+      continue
+    }
+    if (!element || !BLOCK_TAGS.has(element.tagName)) {
+      line += inlineMarkdown(child)
+      continue
+    }
+
+    if (line.trim()) flush()
+    line = ""
+
+    switch (element.tagName) {
+      case "UL":
+        collectBlocks(element, blocks, "bullet")
+        break
+      case "OL":
+        collectBlocks(element, blocks, "numbered")
+        break
+      case "BLOCKQUOTE":
+        collectBlocks(element, blocks, "quote")
+        break
+      case "PRE":
+        blocks.push(createBlock("code", element.textContent ?? ""))
+        break
+      case "HR":
+        blocks.push(createBlock("divider"))
+        break
+      default:
+        if (HEADINGS[element.tagName]) {
+          blocks.push(createBlock(HEADINGS[element.tagName], inlineMarkdown(element).trim()))
+        } else {
+          collectBlocks(element, blocks, element.tagName === "LI" ? listType ?? "bullet" : listType)
+        }
+    }
+  }
+
+  if (line.trim()) flush()
+}
+
+export function htmlToMarkdown(html: string): string {
+  if (!html.trim()) return ""
+  const clean = DOMPurify.sanitize(html)
+  const doc = new DOMParser().parseFromString(clean, "text/html")
+  const blocks: Block[] = []
+  collectBlocks(doc.body, blocks)
+  return serializeBlocks(blocks)
+}
+
+export function isLegacyNote(note: Pick<Note, "format">): boolean {
+  return note.format !== "markdown"
+}
+
+// The note's content as markdown, whichever editor saved it
+export function getNoteMarkdown(note: Pick<Note, "content" | "format">): string {
+  if (!isLegacyNote(note)) return note.content
+  if (typeof window === "undefined") return note.content.replace(/<[^>]*>/g, " ")
+  return htmlToMarkdown(note.content)
+}
+
+// The note's content as plain text, for previews and search
+export function getNoteText(note: Pick<Note, "content" | "format">): string {
+  return stripMarkdown(getNoteMarkdown(note))
+}
+
+export function getNotePreview(note: Pick<Note, "content" | "format">, maxLength: number = 150): string {
+  const text = getNoteText(note)
+  if (text.length <= maxLength) return text
+  return text.substring(0, maxLength) + "..."
+}
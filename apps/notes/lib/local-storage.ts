@@ -2,10 +2,31 @@ export interface Note {
   id: string // Convex ID when synced, local UUID otherwise
   title: string
   content: string
+  format?: "markdown" // Missing for HTML saved by the old editor, see lib/legacy-html.ts
+  notebookId?: string // Notebook id; missing when the note isn't in a notebook
+  pinned?: boolean
+  entryDate?: string // Set on daily entries: the local date (YYYY-MM-DD) the entry is for
   createdAt: number
   updatedAt: number
 }
 
+export interface Notebook {
+  id: string // Client-generated UUID, the same on every device
+  name: string
+  parentId?: string // Set for notebooks inside a top-level notebook
+  createdAt: number
+}
+
+// An earlier version of a note, kept on this device for notes that aren't synced
+export interface NoteRevision {
+  id: string
+  noteId: string
+  title: string
+  content: string
+  format?: "markdown"
+  createdAt: number // When the snapshot was taken
+}
+
 export interface DeletedNote {
   note: Note;
   deletedAt: number;
@@ -15,6 +36,8 @@ export interface DeletedNote {
 const STORAGE_KEY = "notes-local";
 const DELETED_NOTES_KEY = "notes-deleted-notes";
 const CURRENT_NOTE_KEY = "notes-current-note";
+const REVISIONS_KEY = "notes-revisions";
+const NOTEBOOKS_KEY = "notes-notebooks";
 
 export function loadLocalNotes(): Note[] {
   if (typeof window === "undefined") return [];
@@ -130,3 +153,43 @@ export function loadCurrentNoteId(): string | null {
   }
 }
 
+
+export function loadLocalRevisions(): NoteRevision[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data = localStorage.getItem(REVISIONS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Failed to load note revisions:", error);
+    return [];
+  }
+}
+
+export function saveLocalRevisions(revisions: NoteRevision[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+  } catch (error) {
+    console.error("Failed to save note revisions:", error);
+  }
+}
+
+export function loadLocalNotebooks(): Notebook[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data = localStorage.getItem(NOTEBOOKS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Failed to load notebooks:", error);
+    return [];
+  }
+}
+
+export function saveLocalNotebooks(notebooks: Notebook[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(NOTEBOOKS_KEY, JSON.stringify(notebooks));
+  } catch (error) {
+    console.error("Failed to save notebooks:", error);
+  }
+}
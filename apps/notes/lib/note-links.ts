@@ -0,0 +1,55 @@
+import type { Note } from "@/lib/local-storage"
+
+// Links between notes are markdown links to "note:<id>", so previews and search read them as
+// their title. The id is what counts: the title in the link is kept up to date on renames.
+// Mirrors the link helpers in convex/journalNotes.ts.
+
+export interface NoteLink {
+  title: string
+  id: string
+}
+
+const NOTE_LINK = /\[([^\]]*)\]\(note:([^)\s]+)\)/g
+
+// Brackets would end the link text early
+function toLinkText(title: string): string {
+  return title.replace(/[[\]]/g, "").trim() || "Untitled"
+}
+
+export function createNoteLink(note: { id: string; title: string }): string {
+  return `[${toLinkText(note.title)}](note:${note.id})`
+}
+
+export function getNoteLinks(text: string): NoteLink[] {
+  return Array.from(text.matchAll(NOTE_LINK), (match) => ({ title: match[1], id: match[2] }))
+}
+
+// Notes other than this one that link to it, most recently updated first
+export function getBacklinks(notes: Note[], id: string): Note[] {
+  return notes
+    .filter((note) => note.id !== id && getNoteLinks(note.content).some((link) => link.id === id))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+// Give links to a renamed note its new title
+export function renameNoteLinks(text: string, id: string, title: string): string {
+  return text.replace(NOTE_LINK, (link, _text: string, target: string) =>
+    target === id ? createNoteLink({ id, title }) : link
+  )
+}
+
+// Point links at the ids notes were given when they synced
+export function remapNoteLinks(text: string, idMapping: Record<string, string>): string {
+  return text.replace(NOTE_LINK, (link, linkText: string, target: string) =>
+    idMapping[target] && idMapping[target] !== target ? `[${linkText}](note:${idMapping[target]})` : link
+  )
+}
+
+// Notes to offer after "[[": titles starting with the query, then titles containing it
+export function filterLinkTargets<T extends { id: string; title: string }>(notes: T[], query: string, limit = 8): T[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return notes.slice(0, limit)
+  const starts = notes.filter((note) => note.title.toLowerCase().startsWith(needle))
+  const contains = notes.filter((note) => !note.title.toLowerCase().startsWith(needle) && note.title.toLowerCase().includes(needle))
+  return [...starts, ...contains].slice(0, limit)
+}
@@ -0,0 +1,44 @@
+import { loadLocalRevisions, saveLocalRevisions, type Note, type NoteRevision } from "@/lib/local-storage"
+
+// Mirrors convex/journalNoteRevisions.ts, which keeps the history of synced notes
+export const REVISION_INTERVAL_MS = 5 * 60 * 1000
+const MAX_REVISIONS_PER_NOTE = 50
+
+export type RevisionSnapshot = Pick<Note, "title" | "content" | "format">
+
+// Newest first
+export function getLocalRevisions(noteId: string): NoteRevision[] {
+  return loadLocalRevisions()
+    .filter((revision) => revision.noteId === noteId)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Store a version of a local note unless it matches the newest revision, or that revision
+ * is younger than minInterval. Older revisions past the per-note cap are pruned.
+ */
+export function recordLocalRevision(noteId: string, snapshot: RevisionSnapshot, minInterval: number): boolean {
+  const now = Date.now()
+  const [latest, ...older] = getLocalRevisions(noteId)
+  if (latest && latest.title === snapshot.title && latest.content === snapshot.content) return false
+  if (latest && now - latest.createdAt < minInterval) return false
+
+  const revision: NoteRevision = {
+    id: crypto.randomUUID(),
+    noteId,
+    title: snapshot.title,
+    content: snapshot.content,
+    format: snapshot.format,
+    createdAt: now,
+  }
+  const kept = [revision, ...(latest ? [latest] : []), ...older].slice(0, MAX_REVISIONS_PER_NOTE)
+  const otherNotes = loadLocalRevisions().filter((stored) => stored.noteId !== noteId)
+  saveLocalRevisions([...otherNotes, ...kept])
+  return true
+}
+
+export function deleteLocalRevisions(noteId: string): void {
+  const revisions = loadLocalRevisions()
+  const remaining = revisions.filter((revision) => revision.noteId !== noteId)
+  if (remaining.length !== revisions.length) saveLocalRevisions(remaining)
+}
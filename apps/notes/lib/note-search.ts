@@ -0,0 +1,112 @@
+import { getNoteText } from "@/lib/legacy-html"
+import type { Note } from "@/lib/local-storage"
+
+// In-browser search for notes that only live in localStorage. Signed-in users search with the
+// Convex search index (searchJournalNotes), which matches the same way: every word has to be in
+// the note, and the last one may be the start of a word so results update while typing.
+
+export interface NoteSearchIndex {
+  notes: Map<string, Note>
+  terms: Map<string, Map<string, number>> // term -> note id -> score
+}
+
+export interface HighlightPart {
+  text: string
+  match: boolean
+}
+
+const WORD = /[\p{L}\p{N}]+/gu
+const TITLE_WEIGHT = 3
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? []
+}
+
+export function buildNoteSearchIndex(notes: Note[]): NoteSearchIndex {
+  const index: NoteSearchIndex = { notes: new Map(), terms: new Map() }
+
+  const addTerm = (term: string, noteId: string, weight: number) => {
+    let postings = index.terms.get(term)
+    if (!postings) {
+      postings = new Map()
+      index.terms.set(term, postings)
+    }
+    postings.set(noteId, (postings.get(noteId) ?? 0) + weight)
+  }
+
+  for (const note of notes) {
+    index.notes.set(note.id, note)
+    for (const term of tokenize(note.title)) addTerm(term, note.id, TITLE_WEIGHT)
+    for (const term of tokenize(getNoteText(note))) addTerm(term, note.id, 1)
+  }
+  return index
+}
+
+// Best matches first, with title matches counting more; ties go to the most recently updated
+export function searchNoteIndex(index: NoteSearchIndex, query: string): Note[] {
+  const queryTerms = tokenize(query)
+  if (queryTerms.length === 0) return []
+
+  let scores: Map<string, number> | null = null
+  for (let i = 0; i < queryTerms.length; i++) {
+    const queryTerm = queryTerms[i]
+    const isLast = i === queryTerms.length - 1
+    const matches = new Map<string, number>()
+    for (const [term, postings] of index.terms) {
+      if (isLast ? !term.startsWith(queryTerm) : term !== queryTerm) continue
+      for (const [noteId, score] of postings) {
+        matches.set(noteId, (matches.get(noteId) ?? 0) + score)
+      }
+    }
+
+    const previous: Map<string, number> | null = scores
+    scores = new Map()
+    for (const [noteId, score] of matches) {
+      if (previous && !previous.has(noteId)) continue
+      scores.set(noteId, score + (previous?.get(noteId) ?? 0))
+    }
+    if (scores.size === 0) return []
+  }
+
+  return Array.from(scores ?? [])
+    .map(([noteId, score]) => ({ note: index.notes.get(noteId)!, score }))
+    .sort((a, b) => b.score - a.score || b.note.updatedAt - a.note.updatedAt)
+    .map(({ note }) => note)
+}
+
+// Marks the start of every word that begins with one of the query's words
+export function getHighlightParts(text: string, query: string): HighlightPart[] {
+  const queryTerms = Array.from(new Set(tokenize(query))).sort((a, b) => b.length - a.length)
+  if (queryTerms.length === 0) return [{ text, match: false }]
+
+  const parts: HighlightPart[] = []
+  let last = 0
+  for (const word of text.matchAll(WORD)) {
+    const lower = word[0].toLowerCase()
+    const term = queryTerms.find((queryTerm) => lower.startsWith(queryTerm))
+    if (!term) continue
+    const start = word.index ?? 0
+    if (start > last) parts.push({ text: text.slice(last, start), match: false })
+    parts.push({ text: text.slice(start, start + term.length), match: true })
+    last = start + term.length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false })
+  return parts
+}
+
+// A preview that starts shortly before the first match, so the match is visible
+export function getSearchSnippet(text: string, query: string, maxLength: number = 150): string {
+  const parts = getHighlightParts(text, query)
+  const first = parts.findIndex((part) => part.match)
+  const matchAt = parts.slice(0, Math.max(first, 0)).reduce((length, part) => length + part.text.length, 0)
+
+  let start = 0
+  if (matchAt > maxLength / 3) {
+    // Back up to the start of a word
+    const from = text.lastIndexOf(" ", matchAt - 40)
+    start = from > 0 ? from + 1 : 0
+  }
+
+  const snippet = text.slice(start, start + maxLength)
+  return `${start > 0 ? "..." : ""}${snippet}${start + maxLength < text.length ? "..." : ""}`
+}
@@ -0,0 +1,68 @@
+import type { Note, Notebook } from "@/lib/local-storage"
+
+// Mirrors MAX_NOTEBOOK_NAME_LENGTH in convex/journalNotebooks.ts
+export const MAX_NOTEBOOK_NAME_LENGTH = 100
+
+export interface NotebookTreeEntry {
+  notebook: Notebook
+  depth: 0 | 1
+}
+
+function byName(a: Notebook, b: Notebook): number {
+  return a.name.localeCompare(b.name) || a.createdAt - b.createdAt
+}
+
+// Top-level notebooks by name, each followed by the notebooks inside it. A notebook whose
+// parent is gone is shown at the top level.
+export function getNotebookTree(notebooks: Notebook[]): NotebookTreeEntry[] {
+  const ids = new Set(notebooks.map((notebook) => notebook.id))
+  const isTopLevel = (notebook: Notebook) => !notebook.parentId || !ids.has(notebook.parentId)
+
+  return notebooks
+    .filter(isTopLevel)
+    .sort(byName)
+    .flatMap((parent) => [
+      { notebook: parent, depth: 0 as const },
+      ...notebooks
+        .filter((child) => !isTopLevel(child) && child.parentId === parent.id)
+        .sort(byName)
+        .map((child) => ({ notebook: child, depth: 1 as const })),
+    ])
+}
+
+// "Parent / Child" for nested notebooks
+export function getNotebookPath(notebooks: Notebook[], id: string): string | undefined {
+  const notebook = notebooks.find((candidate) => candidate.id === id)
+  if (!notebook) return undefined
+  const parent = notebook.parentId ? notebooks.find((candidate) => candidate.id === notebook.parentId) : undefined
+  return parent ? `${parent.name} / ${notebook.name}` : notebook.name
+}
+
+// A notebook and the notebooks inside it
+export function getNotebookIdsWithin(notebooks: Notebook[], id: string): Set<string> {
+  return new Set([id, ...notebooks.filter((notebook) => notebook.parentId === id).map((notebook) => notebook.id)])
+}
+
+// Pinned notes first, otherwise in the order given
+export function sortPinnedFirst(notes: Note[]): Note[] {
+  return [...notes.filter((note) => note.pinned), ...notes.filter((note) => !note.pinned)]
+}
+
+/**
+ * Local version of deleteNotebook in convex/journalNotebooks.ts: the notebook and the ones
+ * inside it go, and their notes move up to its parent or out of any notebook.
+ */
+export function removeNotebook(
+  notebooks: Notebook[],
+  notes: Note[],
+  id: string
+): { notebooks: Notebook[]; notes: Note[] } {
+  const removed = getNotebookIdsWithin(notebooks, id)
+  const parentId = notebooks.find((notebook) => notebook.id === id)?.parentId
+  return {
+    notebooks: notebooks.filter((notebook) => !removed.has(notebook.id)),
+    notes: notes.map((note) =>
+      note.notebookId && removed.has(note.notebookId) ? { ...note, notebookId: parentId } : note
+    ),
+  }
+}
@@ -0,0 +1,94 @@
+export type Theme = "light" | "dark" | "system"
+
+export interface GeneralSettings {
+  theme: Theme
+  focusMode: boolean
+}
+
+export interface JournalSettings {
+  dailyNotes: boolean // Open today's entry when the journal starts
+}
+
+// The sections this app reads; mirrors the userSettings table in convex/schema.ts
+export interface Settings {
+  general: GeneralSettings
+  journal: JournalSettings
+}
+
+export interface SettingsUpdate {
+  general?: Partial<GeneralSettings>
+  journal?: Partial<JournalSettings>
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: { theme: "system", focusMode: false },
+  journal: { dailyNotes: false },
+}
+
+export const THEME_OPTIONS: Array<{ value: Theme; label: string }> = [
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+  { value: "system", label: "System" },
+]
+
+// Mirrors SETTINGS_VERSION in convex/userSettings.ts
+const SETTINGS_VERSION = 1
+const STORAGE_KEY = "settings"
+// Keys used before preferences were grouped into settings
+const LEGACY_FOCUS_MODE_KEY = "focusMode"
+const LEGACY_THEME_KEY = "theme" // Written by next-themes
+
+function isTheme(value: unknown): value is Theme {
+  return THEME_OPTIONS.some((option) => option.value === value)
+}
+
+export function mergeSettings(settings: Settings, update: SettingsUpdate): Settings {
+  return {
+    general: { ...settings.general, ...update.general },
+    journal: { ...settings.journal, ...update.journal },
+  }
+}
+
+/**
+ * Settings saved on this device: the only copy for anonymous users and a cache of the
+ * synced copy for signed-in users.
+ */
+export function loadLocalSettings(): Settings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as SettingsUpdate & { version?: number }
+      return {
+        general: {
+          theme: isTheme(parsed.general?.theme) ? parsed.general.theme : DEFAULT_SETTINGS.general.theme,
+          focusMode: parsed.general?.focusMode ?? DEFAULT_SETTINGS.general.focusMode,
+        },
+        journal: { ...DEFAULT_SETTINGS.journal, ...parsed.journal },
+      }
+    }
+
+    const legacyTheme = localStorage.getItem(LEGACY_THEME_KEY)
+    return {
+      general: {
+        theme: isTheme(legacyTheme) ? legacyTheme : DEFAULT_SETTINGS.general.theme,
+        focusMode: localStorage.getItem(LEGACY_FOCUS_MODE_KEY) === "true",
+      },
+      journal: DEFAULT_SETTINGS.journal,
+    }
+  } catch (error) {
+    console.error("Failed to load settings from localStorage:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveLocalSettings(settings: Settings): void {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }))
+    localStorage.removeItem(LEGACY_FOCUS_MODE_KEY)
+  } catch {
+    // Ignore storage errors
+  }
+}
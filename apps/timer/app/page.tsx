@@ -1,137 +1,439 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
-import { Play, Pause, History, RotateCcw } from "lucide-react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useQuery, useMutation } from "convex/react"
+import { Play, Pause, History, RotateCcw, Repeat, Settings2, ListChecks, X, BarChart3, Flag, Square, Timer as TimerIcon, Bell, ListOrdered } from "lucide-react"
+import { api } from "@/convex/_generated/api"
+import { authClient } from "@/lib/auth-client"
 import { TimerDisplay } from "@/components/timer-display"
 import { TimerCompletionDialog } from "@/components/timer-completion-dialog"
+import { PomodoroSettingsDialog } from "@/components/pomodoro-settings-dialog"
+import { AlertSettingsDialog } from "@/components/alert-settings-dialog"
 import { SessionHistory } from "@/components/session-history"
+import { FocusStats } from "@/components/focus-stats"
+import { LapList } from "@/components/lap-list"
+import { PresetBar } from "@/components/preset-bar"
+import { QueueDialog } from "@/components/queue-dialog"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { AuthButton } from "@/components/auth-button"
+import { SyncStatus } from "@/components/sync-status"
+import { useSettings } from "@/components/settings-provider"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Toaster } from "@/components/ui/toaster"
 import { useToast } from "@/components/ui/use-toast"
 import { ToastAction } from "@/components/ui/toast"
-import { 
-  loadLocalSessions, 
-  saveLocalSessions, 
-  loadCurrentTimer, 
-  saveCurrentTimer, 
-  clearCurrentTimer,
-  addSession,
+import {
+  loadLocalSessions,
+  saveLocalSessions,
+  loadCurrentTimer,
+  saveCurrentTimer,
+  createTimer,
+  getTimeRemaining,
+  formatTime,
+  loadLocalPresets,
+  saveLocalPresets,
   TimerSession,
   CurrentTimer
 } from "@/lib/local-storage"
+import {
+  PHASE_LABELS,
+  advancePomodoro,
+  getPhaseDuration,
+  getPomodoroSettings,
+  isFocusPhase,
+  startPomodoro,
+  type PomodoroPhase,
+  type PomodoroSettings,
+} from "@/lib/pomodoro"
+import { parseTaskLink, type TimerTask } from "@/lib/task-link"
+import { MAX_LAPS, getElapsed, startStopwatch } from "@/lib/stopwatch"
+import { PRESET_SHORTCUT_COUNT, type TimerPreset, type TimerQueueItem } from "@/lib/presets"
+import { playCompletionSound, showCompletionNotification, type AlertSettings } from "@/lib/alerts"
+import { getDefaultPomodoroSettings } from "@/lib/settings"
+
+// What the completion dialog describes once the timer has moved on
+interface CompletedTimer {
+  name: string
+  duration: number
+  phase?: PomodoroPhase
+  task?: TimerTask
+  endedAt?: number // Set when it ended while the tab was in the background
+}
+
+// Completions noticed this long after the end happened while the tab was throttled
+const LATE_COMPLETION_MS = 5000
+
+const PHASE_DURATION_KEYS = {
+  focus: "focusDuration",
+  shortBreak: "shortBreakDuration",
+  longBreak: "longBreakDuration",
+} as const
+
+function toCurrentTimer({ name, duration, remaining, startedAt, pomodoro, task, stopwatch, queue, updatedAt }: CurrentTimer): CurrentTimer {
+  return { name, duration, remaining, startedAt, pomodoro, task, stopwatch, queue, updatedAt }
+}
+
+function createPomodoroTimer(name: string, settings: PomodoroSettings): CurrentTimer {
+  return { ...createTimer(name, settings.focusDuration), pomodoro: startPomodoro(settings) }
+}
 
 export default function Home() {
-  const [timerName, setTimerName] = useState("")
-  const [timeRemaining, setTimeRemaining] = useState(25 * 60 * 1000) // 25 minutes default
-  const [initialTime, setInitialTime] = useState(25 * 60 * 1000)
-  const [isRunning, setIsRunning] = useState(false)
+  const { data: session } = authClient.useSession()
+  const [timer, setTimer] = useState<CurrentTimer>(() => createTimer())
+  const [timeRemaining, setTimeRemaining] = useState(timer.remaining)
+  const [elapsed, setElapsed] = useState(0) // Stopwatch time, counted up
   const [sessions, setSessions] = useState<TimerSession[]>([])
+  const [presets, setPresets] = useState<TimerPreset[]>([])
   const [showHistory, setShowHistory] = useState(false)
+  const [showStats, setShowStats] = useState(false)
   const [showCompletionDialog, setShowCompletionDialog] = useState(false)
+  const [completedTimer, setCompletedTimer] = useState<CompletedTimer | null>(null)
   const [hasInitialized, setHasInitialized] = useState(false)
-  const [startedAt, setStartedAt] = useState<number | null>(null)
-  const [hasBeenStarted, setHasBeenStarted] = useState(false)
+  const [hasSynced, setHasSynced] = useState(false)
+  const [syncStatus, setSyncStatus] = useState<"local-only" | "syncing" | "synced" | "error">("local-only")
+
+  const { settings, updateSettings } = useSettings()
+  const isFocusMode = settings.general.focusMode
+  const { sound, notifications } = settings.timer
+  const alertSettings = useMemo<AlertSettings>(() => ({ sound, notifications }), [sound, notifications])
+
+  // Latest timer for callbacks that outlive a render (interval, keyboard shortcuts)
+  const timerRef = useRef(timer)
+  timerRef.current = timer
+  const nameSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Focus mode state
-  const [isFocusMode, setIsFocusMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('focusMode') === 'true'
-    }
-    return false
-  })
-  
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  
-  // Toast hook
   const { toast } = useToast()
 
-  // Focus mode persistence
-  useEffect(() => {
-    localStorage.setItem('focusMode', isFocusMode.toString())
-  }, [isFocusMode])
+  // Convex queries and mutations
+  const convexSessions = useQuery(api.timers.getSessions, session?.user ? {} : "skip")
+  const convexPresets = useQuery(api.timerPresets.getPresets, session?.user ? {} : "skip")
+  const convexTimer = useQuery(api.timers.getActiveTimer, session?.user ? {} : "skip")
+  const syncLocalSessionsMutation = useMutation(api.timers.syncLocalSessions)
+  const addSessionMutation = useMutation(api.timers.addSession)
+  const deleteSessionMutation = useMutation(api.timers.deleteSession)
+  const saveActiveTimerMutation = useMutation(api.timers.saveActiveTimer)
+  const completeActiveTimerMutation = useMutation(api.timers.completeActiveTimer)
+  const updateTaskMutation = useMutation(api.tasks.updateTask)
+  const addPresetMutation = useMutation(api.timerPresets.addPreset)
+  const deletePresetMutation = useMutation(api.timerPresets.deletePreset)
+  const syncLocalPresetsMutation = useMutation(api.timerPresets.syncLocalPresets)
+
+  const isRunning = timer.startedAt !== undefined
+  const isStopwatch = Boolean(timer.stopwatch)
+  const hasBeenStarted = isRunning || (timer.stopwatch ? timer.stopwatch.elapsed > 0 : timer.remaining !== timer.duration)
+  // Memoized so the stats don't recount on every countdown tick
+  const visibleSessions = useMemo<TimerSession[]>(() => (
+    session?.user
+      ? (convexSessions ?? []).map(({ clientId, ...rest }) => ({ id: clientId, ...rest }))
+      : sessions
+  ), [session?.user, convexSessions, sessions])
+  const visiblePresets = useMemo<TimerPreset[]>(() => (
+    session?.user
+      ? (convexPresets ?? []).map(({ clientId, name, duration, mode, createdAt }) => ({ id: clientId, name, duration, mode, createdAt }))
+      : presets
+  ), [session?.user, convexPresets, presets])
 
   // Focus mode keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
-        setIsFocusMode(prev => !prev)
+        updateSettings({ general: { focusMode: !isFocusMode } })
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isFocusMode, updateSettings])
 
   // Initialize app with local-first logic
   useEffect(() => {
     if (hasInitialized) return
 
-    // Load sessions from localStorage
-    const localSessions = loadLocalSessions()
-    setSessions(localSessions)
-    
-    // Try to restore current timer state
-    const currentTimer = loadCurrentTimer()
+    setSessions(loadLocalSessions())
+    setPresets(loadLocalPresets())
+    let currentTimer = loadCurrentTimer()
+
+    // Opened from a todo task: time that task, keeping the current length and pomodoro
+    const task = parseTaskLink(window.location.search)
+    if (task) {
+      const base = currentTimer ?? createTimer()
+      currentTimer = { ...base, name: task.title, task, updatedAt: Date.now() }
+      saveCurrentTimer(currentTimer)
+      window.history.replaceState(null, "", window.location.pathname)
+    }
+
     if (currentTimer) {
-      setTimerName(currentTimer.name)
-      setTimeRemaining(currentTimer.timeRemaining)
-      setInitialTime(currentTimer.initialTime)
-      setIsRunning(currentTimer.isRunning)
-      setStartedAt(currentTimer.startedAt || null)
+      setTimer(currentTimer)
+      setTimeRemaining(getTimeRemaining(currentTimer, Date.now()))
+      setElapsed(getElapsed(currentTimer, Date.now()))
     }
-    
     setHasInitialized(true)
   }, [hasInitialized])
 
-  // Timer countdown logic
-  useEffect(() => {
-    if (isRunning && startedAt) {
-      intervalRef.current = setInterval(() => {
-        const now = Date.now()
-        const elapsed = now - startedAt
-        const newTimeRemaining = Math.max(0, initialTime - elapsed)
-        
-        setTimeRemaining(newTimeRemaining)
-        
-        if (newTimeRemaining <= 0) {
-          handleTimerComplete()
-        }
-      }, 100) // Update every 100ms for smooth countdown
+  const pushTimer = useCallback((next: CurrentTimer) => {
+    setSyncStatus("syncing")
+    saveActiveTimerMutation(toCurrentTimer(next))
+      .then(() => setSyncStatus("synced"))
+      .catch((error: unknown) => {
+        console.error("Failed to save timer:", error)
+        setSyncStatus("error")
+      })
+  }, [saveActiveTimerMutation])
+
+  /**
+   * Apply a change made on this device: save it locally and, when signed in, on the
+   * server. Name edits are sent after a pause in typing.
+   */
+  const updateTimer = useCallback((changes: Partial<CurrentTimer>, { debounce = false } = {}) => {
+    const next = { ...timerRef.current, ...changes, updatedAt: Date.now() }
+    timerRef.current = next
+    setTimer(next)
+    setTimeRemaining(getTimeRemaining(next, Date.now()))
+    setElapsed(getElapsed(next, Date.now()))
+    saveCurrentTimer(next)
+
+    if (!session?.user) return
+    if (nameSaveTimeoutRef.current) clearTimeout(nameSaveTimeoutRef.current)
+    if (debounce) {
+      nameSaveTimeoutRef.current = setTimeout(() => pushTimer(timerRef.current), 500)
     } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
+      pushTimer(next)
+    }
+  }, [session?.user, pushTimer])
+
+  // First sign-in on this device: upload local sessions, modeled on syncLocalTasks,
+  // and keep whichever timer changed last
+  useEffect(() => {
+    if (!session?.user) {
+      if (hasSynced) {
+        setHasSynced(false)
+        setSyncStatus("local-only")
+      }
+      return
+    }
+    if (hasSynced || !hasInitialized || convexTimer === undefined) return
+    setHasSynced(true)
+    setSyncStatus("syncing")
+
+    const localSessions = loadLocalSessions()
+    const localTimer = timerRef.current
+    const syncs: Promise<unknown>[] = [
+      syncLocalSessionsMutation({
+        sessions: localSessions.map(({ id, ...rest }) => ({ clientId: id, ...rest })),
+      }).then(() => {
+        // Uploaded sessions now live on the server; don't upload them into another account later
+        setSessions([])
+        saveLocalSessions([])
+      }),
+      syncLocalPresetsMutation({
+        presets: loadLocalPresets().map(({ id, ...rest }) => ({ clientId: id, ...rest })),
+      }).then(() => {
+        setPresets([])
+        saveLocalPresets([])
+      }),
+    ]
+    if (!convexTimer || convexTimer.updatedAt < localTimer.updatedAt) {
+      syncs.push(saveActiveTimerMutation(toCurrentTimer(localTimer)))
+    }
+
+    Promise.all(syncs)
+      .then(() => setSyncStatus("synced"))
+      .catch((error) => {
+        console.error("Failed to sync local timer data:", error)
+        setSyncStatus("error")
+      })
+  }, [session?.user, hasSynced, hasInitialized, convexTimer, syncLocalSessionsMutation, syncLocalPresetsMutation, saveActiveTimerMutation])
+
+  // Follow changes made on other devices; our own changes come back with the same updatedAt
+  useEffect(() => {
+    if (!session?.user || !hasSynced || !convexTimer) return
+    if (convexTimer.updatedAt <= timerRef.current.updatedAt) return
+
+    const next = toCurrentTimer(convexTimer)
+    timerRef.current = next
+    setTimer(next)
+    setTimeRemaining(getTimeRemaining(next, Date.now()))
+    setElapsed(getElapsed(next, Date.now()))
+    saveCurrentTimer(next)
+  }, [session?.user, hasSynced, convexTimer])
+
+  // Only synced tasks can be completed from here; local tasks live in the todo app's storage
+  const canMarkTaskDone = useCallback((task: TimerTask | undefined, phase?: PomodoroPhase) => {
+    return Boolean(session?.user && task?.id && isFocusPhase(phase))
+  }, [session?.user])
+
+  const handleMarkTaskDone = useCallback((task: TimerTask) => {
+    if (!task.id) return
+    updateTaskMutation({ taskId: task.id, completed: true })
+      .then(() => {
+        toast({ title: "Task done", description: task.title, duration: 3000 })
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to complete task:", error)
+        toast({ title: "Couldn't mark the task done", description: task.title, duration: 5000 })
+      })
+  }, [updateTaskMutation, toast])
+
+  const handleTimerComplete = useCallback(() => {
+    const completed = timerRef.current
+    if (completed.stopwatch || completed.startedAt === undefined) return
+    // Checked again here: it's reached from a timeout, the interval and the tab coming back
+    const now = Date.now()
+    if (getTimeRemaining(completed, now) > 0) return
+    const sessionId = crypto.randomUUID()
+    // The end on the wall clock, however late a throttled background tab noticed it
+    const completedAt = completed.startedAt + completed.remaining
+    const isLate = now - completedAt > LATE_COMPLETION_MS
+    const phase = completed.pomodoro?.phase
+
+    // Every device ends the countdown locally and moves a pomodoro on the same way as
+    // completeActiveTimer, which records the session only once
+    let next: CurrentTimer = { ...completed, remaining: 0, startedAt: undefined, updatedAt: Date.now() }
+    const [queued, ...queue] = completed.pomodoro ? [] : completed.queue ?? []
+    if (queued) {
+      next = {
+        ...next,
+        name: queued.name,
+        duration: queued.duration,
+        remaining: queued.duration,
+        startedAt: completedAt,
+        task: undefined,
+        queue,
+      }
+    } else if (completed.pomodoro) {
+      const pomodoro = advancePomodoro(completed.pomodoro)
+      const duration = getPhaseDuration(pomodoro, pomodoro.phase)
+      next = {
+        ...next,
+        duration,
+        remaining: duration,
+        startedAt: pomodoro.autoAdvance ? completedAt : undefined,
+        pomodoro,
       }
     }
+    timerRef.current = next
+    setTimer(next)
+    setTimeRemaining(getTimeRemaining(next, Date.now()))
+    saveCurrentTimer(next)
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
+    if (session?.user) {
+      setSyncStatus("syncing")
+      completeActiveTimerMutation({ clientId: sessionId, startedAt: completed.startedAt })
+        .then(() => setSyncStatus("synced"))
+        .catch((error: unknown) => {
+          console.error("Failed to record session:", error)
+          setSyncStatus("error")
+        })
+    } else {
+      const completedSession: TimerSession = {
+        id: sessionId,
+        name: completed.name,
+        duration: completed.duration,
+        completedAt,
+        ...(phase && { phase }),
+        ...(completed.task && { task: completed.task }),
       }
+      setSessions((prev) => {
+        const updatedSessions = [completedSession, ...prev]
+        saveLocalSessions(updatedSessions)
+        return updatedSessions
+      })
+    }
+
+    // A catch-up after the tab was away stays quiet; it's only news once the tab is seen again
+    if (!isLate) {
+      playCompletionSound(alertSettings.sound)
+    }
+    if (alertSettings.notifications) {
+      showCompletionNotification(
+        phase ? `${PHASE_LABELS[phase]} complete` : "Timer complete",
+        queued
+          ? `${queued.name || "Next timer"} started`
+          : next.pomodoro?.autoAdvance && next.startedAt !== undefined
+            ? `${PHASE_LABELS[next.pomodoro.phase]} started`
+            : completed.name || "Time's up",
+      )
+    }
+
+    if (queued) {
+      const { task } = completed
+      toast({
+        title: `${completed.name || "Timer"} complete`,
+        description: `${queued.name || "Next timer"} started`,
+        duration: 5000,
+        ...(task && canMarkTaskDone(task) && {
+          action: <ToastAction altText="Mark task done" onClick={() => handleMarkTaskDone(task)}>Mark task done</ToastAction>,
+        }),
+      })
+      return
     }
-  }, [isRunning, startedAt, initialTime])
+    if (phase && next.pomodoro?.autoAdvance) {
+      const { task } = completed
+      toast({
+        title: `${PHASE_LABELS[phase]} complete`,
+        description: `${PHASE_LABELS[next.pomodoro.phase]} started`,
+        duration: 5000,
+        ...(task && canMarkTaskDone(task, phase) && {
+          action: <ToastAction altText="Mark task done" onClick={() => handleMarkTaskDone(task)}>Mark task done</ToastAction>,
+        }),
+      })
+      return
+    }
+    setCompletedTimer({
+      name: completed.name,
+      duration: completed.duration,
+      phase,
+      task: completed.task,
+      ...(isLate && { endedAt: completedAt }),
+    })
+    setShowCompletionDialog(true)
+  }, [session?.user, alertSettings, completeActiveTimerMutation, canMarkTaskDone, handleMarkTaskDone, toast])
+
+  // Timer countdown logic
+  useEffect(() => {
+    if (!isRunning) return
+
+    const interval = setInterval(() => {
+      if (timerRef.current.stopwatch) {
+        setElapsed(getElapsed(timerRef.current, Date.now()))
+        return
+      }
+      const newTimeRemaining = getTimeRemaining(timerRef.current, Date.now())
+      setTimeRemaining(newTimeRemaining)
+      if (newTimeRemaining <= 0) {
+        handleTimerComplete()
+      }
+    }, 100) // Update every 100ms for smooth countdown
+
+    return () => clearInterval(interval)
+  }, [isRunning, timer.startedAt, handleTimerComplete])
 
-  // Auto-save timer state
+  // Browsers slow the interval down in background tabs, so also wake up at the end itself.
+  // A chain of auto-advanced phases that all ended while away completes one per run.
   useEffect(() => {
-    if (!hasInitialized) return
-
-    const currentTimer: CurrentTimer = {
-      name: timerName,
-      initialTime,
-      timeRemaining,
-      isRunning,
-      startedAt: startedAt || undefined,
+    if (!isRunning || isStopwatch) return
+
+    const timeout = setTimeout(handleTimerComplete, getTimeRemaining(timerRef.current, Date.now()))
+    return () => clearTimeout(timeout)
+  }, [isRunning, isStopwatch, timer.startedAt, timer.remaining, handleTimerComplete])
+
+  // Catch up as soon as the tab is back, in case its timers were held back entirely
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== "visible") return
+      setTimeRemaining(getTimeRemaining(timerRef.current, Date.now()))
+      handleTimerComplete()
     }
-    saveCurrentTimer(currentTimer)
-  }, [timerName, initialTime, timeRemaining, isRunning, startedAt, hasInitialized])
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }, [handleTimerComplete])
 
   // Update browser tab title
+  const shownTime = isStopwatch ? elapsed : timeRemaining
   useEffect(() => {
-    if (isRunning && timeRemaining > 0) {
-      const totalSeconds = Math.floor(timeRemaining / 1000)
+    if (isRunning && (isStopwatch || shownTime > 0)) {
+      const totalSeconds = Math.floor(shownTime / 1000)
       const hours = Math.floor(totalSeconds / 3600)
       const minutes = Math.floor((totalSeconds % 3600) / 60)
       const seconds = totalSeconds % 60
@@ -143,83 +445,250 @@ export default function Home() {
         timeString = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
       }
       
-      document.title = `${timeString} - ${timerName}`
+      const label = timer.pomodoro ? PHASE_LABELS[timer.pomodoro.phase] : isStopwatch ? "Stopwatch" : "Timer"
+      document.title = `${timeString} - ${timer.name || label}`
+    } else if (showCompletionDialog) {
+      document.title = `Time's up - ${completedTimer?.name || "Timer"}`
     } else {
       document.title = "Timer"
     }
-  }, [isRunning, timeRemaining, timerName])
+  }, [isRunning, isStopwatch, shownTime, timer.name, timer.pomodoro, showCompletionDialog, completedTimer?.name])
 
-  const handleStartStop = () => {
-    if (isRunning) {
-      // Stop timer
-      setIsRunning(false)
-      setStartedAt(null)
-    } else {
-      // Start timer
-      setIsRunning(true)
-      setStartedAt(Date.now())
-      setHasBeenStarted(true)
-    }
+  const handleSaveAlertSettings = (alerts: AlertSettings) => {
+    updateSettings({ timer: alerts })
   }
 
-  const handleReset = () => {
-    setIsRunning(false)
-    setTimeRemaining(initialTime)
-    setStartedAt(null)
-    setHasBeenStarted(false)
-  }
+  const handleStartStop = useCallback(() => {
+    const current = timerRef.current
+    const now = Date.now()
+    if (current.stopwatch) {
+      updateTimer(current.startedAt !== undefined
+        ? { stopwatch: { ...current.stopwatch, elapsed: getElapsed(current, now) }, startedAt: undefined }
+        : { startedAt: now })
+    } else if (current.startedAt !== undefined) {
+      // Pause, keeping the time left
+      updateTimer({ remaining: getTimeRemaining(current, now), startedAt: undefined })
+    } else if (current.remaining > 0) {
+      updateTimer({ startedAt: now })
+    }
+  }, [updateTimer])
 
-  const handleTimeChange = (newTime: number) => {
-    setTimeRemaining(newTime)
-    setInitialTime(newTime)
-    setIsRunning(false)
-    setStartedAt(null)
+  const handleReset = useCallback(() => {
+    if (timerRef.current.stopwatch) {
+      updateTimer({ stopwatch: startStopwatch(), startedAt: undefined })
+      return
+    }
+    updateTimer({ remaining: timerRef.current.duration, startedAt: undefined })
+  }, [updateTimer])
+
+  const handleLap = () => {
+    const { stopwatch } = timer
+    if (!stopwatch || !isRunning || stopwatch.laps.length >= MAX_LAPS) return
+    updateTimer({ stopwatch: { ...stopwatch, laps: [...stopwatch.laps, getElapsed(timer, Date.now())] } })
   }
 
-  const handleTimerComplete = () => {
-    setIsRunning(false)
-    setStartedAt(null)
-    
-    // Save completed session
+  // Stopping a stopwatch records what it counted as a session and starts it over
+  const handleStopStopwatch = () => {
+    if (!timer.stopwatch) return
+    const completedAt = Date.now()
     const completedSession: TimerSession = {
       id: crypto.randomUUID(),
-      name: timerName,
-      duration: initialTime,
-      completedAt: Date.now(),
+      name: timer.name,
+      duration: getElapsed(timer, completedAt),
+      completedAt,
+      ...(timer.task && { task: timer.task }),
+      laps: timer.stopwatch.laps,
     }
-    
-    const updatedSessions = [completedSession, ...sessions]
-    setSessions(updatedSessions)
-    saveLocalSessions(updatedSessions)
-    
-    // Show completion dialog
-    setShowCompletionDialog(true)
+    updateTimer({ stopwatch: startStopwatch(), startedAt: undefined })
+
+    if (session?.user) {
+      const { id, ...rest } = completedSession
+      addSessionMutation({ clientId: id, ...rest }).catch((error: unknown) => {
+        console.error("Failed to record session:", error)
+        setSyncStatus("error")
+      })
+    } else {
+      setSessions((prev) => {
+        const updatedSessions = [completedSession, ...prev]
+        saveLocalSessions(updatedSessions)
+        return updatedSessions
+      })
+    }
+    toast({ title: "Session saved", description: completedSession.name || undefined, duration: 3000 })
+  }
+
+  const handleTimeChange = (newTime: number) => {
+    const { pomodoro } = timer
+    // In a pomodoro, editing the time changes the length of the current kind of phase
+    updateTimer({
+      duration: newTime,
+      remaining: newTime,
+      startedAt: undefined,
+      ...(pomodoro && { pomodoro: { ...pomodoro, [PHASE_DURATION_KEYS[pomodoro.phase]]: newTime } }),
+    })
   }
 
   const handleRestart = () => {
-    setTimeRemaining(initialTime)
-    setIsRunning(false)
-    setStartedAt(null)
+    if (timer.pomodoro) {
+      // The pomodoro already moved on to the next phase; start it
+      updateTimer({ startedAt: Date.now() })
+      return
+    }
+    updateTimer({ remaining: timer.duration, startedAt: undefined })
   }
 
   const handleStartNew = () => {
-    setTimerName("")
-    setTimeRemaining(25 * 60 * 1000)
-    setInitialTime(25 * 60 * 1000)
-    setIsRunning(false)
-    setStartedAt(null)
-    setHasBeenStarted(false)
-    clearCurrentTimer()
+    const next = timer.pomodoro ? createPomodoroTimer("", getPomodoroSettings(timer.pomodoro)) : createTimer()
+    updateTimer({ ...next, task: undefined })
   }
 
-  const handleSessionsChange = (newSessions: TimerSession[]) => {
-    setSessions(newSessions)
-    saveLocalSessions(newSessions)
+  const handleTogglePomodoro = () => {
+    if (timer.pomodoro) {
+      updateSettings({ timer: getPomodoroSettings(timer.pomodoro) })
+      updateTimer({ ...createTimer(timer.name), pomodoro: undefined })
+    } else {
+      updateTimer({ ...createPomodoroTimer(timer.name, getDefaultPomodoroSettings(settings.timer)), stopwatch: undefined, queue: undefined })
+    }
+  }
+
+  const handleToggleStopwatch = () => {
+    if (timer.stopwatch) {
+      updateTimer({ stopwatch: undefined, remaining: timer.duration, startedAt: undefined })
+      return
+    }
+    if (timer.pomodoro) {
+      updateSettings({ timer: getPomodoroSettings(timer.pomodoro) })
+    }
+    updateTimer({ ...createTimer(timer.name), pomodoro: undefined, stopwatch: startStopwatch(), queue: undefined })
+  }
+
+  // Pomodoros and stopwatches don't run a queue, so starting one drops it
+  const handleStartPreset = useCallback((preset: TimerPreset) => {
+    const current = timerRef.current
+    if (current.startedAt !== undefined) return
+    const now = Date.now()
+    const changes: Partial<CurrentTimer> = { task: undefined, startedAt: now }
+    if (preset.mode === "pomodoro") {
+      const pomodoroSettings = { ...(current.pomodoro ? getPomodoroSettings(current.pomodoro) : getDefaultPomodoroSettings(settings.timer)), focusDuration: preset.duration }
+      updateTimer({ ...createPomodoroTimer(preset.name, pomodoroSettings), ...changes, stopwatch: undefined, queue: undefined })
+    } else if (preset.mode === "stopwatch") {
+      updateTimer({ ...createTimer(preset.name), ...changes, pomodoro: undefined, stopwatch: startStopwatch(), queue: undefined })
+    } else {
+      updateTimer({ ...createTimer(preset.name, preset.duration), ...changes, pomodoro: undefined, stopwatch: undefined })
+    }
+  }, [updateTimer, settings.timer])
+
+  const handleSavePreset = () => {
+    const preset: TimerPreset = {
+      id: crypto.randomUUID(),
+      name: timer.name.trim(),
+      duration: timer.pomodoro ? timer.pomodoro.focusDuration : timer.duration,
+      ...(timer.pomodoro && { mode: "pomodoro" as const }),
+      ...(timer.stopwatch && { mode: "stopwatch" as const }),
+      createdAt: Date.now(),
+    }
+    if (session?.user) {
+      const { id, ...rest } = preset
+      addPresetMutation({ clientId: id, ...rest }).catch((error: unknown) => {
+        console.error("Failed to save preset:", error)
+        toast({ title: "Couldn't save the preset", description: error instanceof Error ? error.message : undefined, duration: 5000 })
+      })
+      return
+    }
+    setPresets((prev) => {
+      const updatedPresets = [...prev, preset]
+      saveLocalPresets(updatedPresets)
+      return updatedPresets
+    })
+  }
+
+  const handleDeletePreset = (deleted: TimerPreset) => {
+    if (session?.user) {
+      deletePresetMutation({ clientId: deleted.id }).catch((error: unknown) => {
+        console.error("Failed to delete preset:", error)
+      })
+      return
+    }
+    setPresets((prev) => {
+      const updatedPresets = prev.filter((p) => p.id !== deleted.id)
+      saveLocalPresets(updatedPresets)
+      return updatedPresets
+    })
+  }
+
+  const handleQueueChange = (queue: TimerQueueItem[]) => {
+    updateTimer({ queue })
+  }
+
+  const handleRunQueue = () => {
+    const [first, ...queue] = timer.queue ?? []
+    if (!first || isRunning) return
+    updateTimer({
+      ...createTimer(first.name, first.duration),
+      startedAt: Date.now(),
+      pomodoro: undefined,
+      stopwatch: undefined,
+      task: undefined,
+      queue,
+    })
+  }
+
+  const handleSavePomodoroSettings = (pomodoroSettings: PomodoroSettings) => {
+    const { pomodoro } = timer
+    if (!pomodoro) return
+    updateSettings({ timer: pomodoroSettings })
+
+    const nextPomodoro = { ...pomodoro, ...pomodoroSettings, cycle: Math.min(pomodoro.cycle, pomodoroSettings.longBreakEvery) }
+    if (hasBeenStarted) {
+      updateTimer({ pomodoro: nextPomodoro })
+    } else {
+      const duration = getPhaseDuration(nextPomodoro, nextPomodoro.phase)
+      updateTimer({ pomodoro: nextPomodoro, duration, remaining: duration })
+    }
+  }
+
+  const handleDeleteSession = (deleted: TimerSession) => {
+    if (session?.user) {
+      deleteSessionMutation({ clientId: deleted.id }).catch((error: unknown) => {
+        console.error("Failed to delete session:", error)
+      })
+      return
+    }
+    setSessions((prev) => {
+      const updatedSessions = prev.filter((s) => s.id !== deleted.id)
+      saveLocalSessions(updatedSessions)
+      return updatedSessions
+    })
+  }
+
+  const handleRestoreSession = (restored: TimerSession) => {
+    if (session?.user) {
+      const { id, ...rest } = restored
+      addSessionMutation({ clientId: id, ...rest }).catch((error: unknown) => {
+        console.error("Failed to restore session:", error)
+      })
+      return
+    }
+    setSessions((prev) => {
+      const updatedSessions = [...prev, restored].sort((a, b) => b.completedAt - a.completedAt)
+      saveLocalSessions(updatedSessions)
+      return updatedSessions
+    })
   }
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      const isTyping = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable
+      if (!isTyping && !e.metaKey && !e.ctrlKey && !e.altKey && /^[1-9]$/.test(e.key)) {
+        const preset = visiblePresets[Number(e.key) - 1]
+        if (preset && Number(e.key) <= PRESET_SHORTCUT_COUNT) {
+          e.preventDefault()
+          handleStartPreset(preset)
+        }
+        return
+      }
       if (e.code === 'Space' && !e.repeat) {
         e.preventDefault()
         handleStartStop()
@@ -231,7 +700,7 @@ export default function Home() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [isRunning])
+  }, [handleStartStop, handleReset, handleStartPreset, visiblePresets])
 
   if (!hasInitialized) {
     return (
@@ -248,8 +717,8 @@ export default function Home() {
         <div className="flex items-center justify-between">
           <div className="relative flex-1">
             <Input
-              value={timerName}
-              onChange={(e) => setTimerName(e.target.value)}
+              value={timer.name}
+              onChange={(e) => updateTimer({ name: e.target.value }, { debounce: true })}
               onKeyDown={(e) => {
                 if (e.key === 'Enter') {
                   e.preventDefault()
@@ -265,19 +734,82 @@ export default function Home() {
               isFocusMode ? '-translate-y-[200%]' : 'translate-y-0'
             }`}
           >
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <AuthButton />
+              <AlertSettingsDialog settings={alertSettings} onSave={handleSaveAlertSettings}>
+                <button
+                  className="rounded-lg border border-border p-2 hover:bg-accent transition-colors"
+                  aria-label="Alert settings"
+                >
+                  <Bell className="h-5 w-5" />
+                </button>
+              </AlertSettingsDialog>
+              <ThemeToggle />
+            </div>
           </div>
         </div>
+        {timer.task && (
+          <div className="flex items-center gap-2 pt-1 font-mono text-sm text-muted-foreground">
+            <ListChecks className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">Task: {timer.task.title || "Untitled"}</span>
+            <button
+              onClick={() => updateTimer({ task: undefined })}
+              className="rounded p-0.5 hover:bg-accent hover:text-foreground transition-colors"
+              aria-label="Unlink task"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {session?.user && (
+          <div className="flex items-center justify-center pt-4">
+            <SyncStatus status={syncStatus} />
+          </div>
+        )}
       </div>
 
       {/* Timer display */}
       <div className="flex-1 flex items-center justify-center min-h-0">
         <div className="max-w-2xl mx-auto w-full px-4">
+          <PresetBar
+            presets={visiblePresets}
+            onStart={handleStartPreset}
+            onDelete={handleDeletePreset}
+            onSaveCurrent={handleSavePreset}
+            disabled={isRunning}
+          />
+          {timer.pomodoro && (
+            <div className="flex items-center justify-center gap-2 pb-6 font-mono text-sm text-muted-foreground">
+              <span className="text-foreground">{PHASE_LABELS[timer.pomodoro.phase]}</span>
+              <span>•</span>
+              <span>
+                Cycle {timer.pomodoro.cycle} of {timer.pomodoro.longBreakEvery}
+              </span>
+              <PomodoroSettingsDialog settings={getPomodoroSettings(timer.pomodoro)} onSave={handleSavePomodoroSettings}>
+                <button
+                  className="rounded-lg p-1 hover:bg-accent hover:text-foreground transition-colors"
+                  aria-label="Pomodoro settings"
+                >
+                  <Settings2 className="h-4 w-4" />
+                </button>
+              </PomodoroSettingsDialog>
+            </div>
+          )}
           <TimerDisplay
-            timeRemaining={timeRemaining}
+            timeRemaining={shownTime}
             onTimeChange={handleTimeChange}
             isRunning={isRunning}
+            readOnly={isStopwatch}
           />
+          {!timer.pomodoro && !timer.stopwatch && timer.queue && timer.queue.length > 0 && (
+            <p className="pt-6 text-center font-mono text-sm text-muted-foreground">
+              Up next: {timer.queue[0].name || "Untitled"} · {formatTime(timer.queue[0].duration)}
+              {timer.queue.length > 1 && ` (+${timer.queue.length - 1} more)`}
+            </p>
+          )}
+          {timer.stopwatch && timer.stopwatch.laps.length > 0 && (
+            <LapList laps={timer.stopwatch.laps} className="mx-auto mt-6 max-w-xs max-h-48 overflow-y-auto" />
+          )}
         </div>
       </div>
 
@@ -287,16 +819,32 @@ export default function Home() {
         onClose={() => setShowCompletionDialog(false)}
         onRestart={handleRestart}
         onStartNew={handleStartNew}
-        timerName={timerName}
-        completedDuration={initialTime}
+        timerName={completedTimer?.name ?? timer.name}
+        completedDuration={completedTimer?.duration ?? timer.duration}
+        phase={completedTimer?.phase}
+        nextPhase={completedTimer?.phase ? timer.pomodoro?.phase : undefined}
+        endedAt={completedTimer?.endedAt}
+        onMarkTaskDone={
+          completedTimer?.task && canMarkTaskDone(completedTimer.task, completedTimer.phase)
+            ? () => completedTimer.task && handleMarkTaskDone(completedTimer.task)
+            : undefined
+        }
       />
 
       {/* History panel */}
       <SessionHistory
         isOpen={showHistory}
         onClose={() => setShowHistory(false)}
-        sessions={sessions}
-        onSessionsChange={handleSessionsChange}
+        sessions={visibleSessions}
+        onDeleteSession={handleDeleteSession}
+        onRestoreSession={handleRestoreSession}
+      />
+
+      {/* Stats panel */}
+      <FocusStats
+        isOpen={showStats}
+        onClose={() => setShowStats(false)}
+        sessions={visibleSessions}
       />
 
       {/* Bottom controls */}
@@ -312,7 +860,7 @@ export default function Home() {
                 variant="outline"
                 onClick={handleStartStop}
                 className="font-mono"
-                disabled={timeRemaining <= 0}
+                disabled={!isStopwatch && timeRemaining <= 0}
               >
                 {isRunning ? (
                   <>
@@ -327,6 +875,29 @@ export default function Home() {
                 )}
               </Button>
               
+              {isStopwatch && isRunning && (
+                <Button
+                  variant="ghost"
+                  onClick={handleLap}
+                  className="font-mono"
+                  disabled={(timer.stopwatch?.laps.length ?? 0) >= MAX_LAPS}
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Lap
+                </Button>
+              )}
+
+              {isStopwatch && hasBeenStarted && (
+                <Button
+                  variant="ghost"
+                  onClick={handleStopStopwatch}
+                  className="font-mono"
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              )}
+
               {hasBeenStarted && (
                 <Button
                   variant="ghost"
@@ -341,6 +912,57 @@ export default function Home() {
             </div>
             
             <div className="flex items-center gap-3">
+              <button
+                onClick={handleTogglePomodoro}
+                disabled={isRunning}
+                className={`rounded-lg border p-2 pr-[0.75rem] transition-colors flex items-center gap-2 disabled:opacity-50 ${
+                  timer.pomodoro ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                }`}
+                aria-label="Toggle pomodoro mode"
+                aria-pressed={Boolean(timer.pomodoro)}
+              >
+                <Repeat className="h-4 w-4" />
+                <span className="font-mono text-sm">Pomodoro</span>
+              </button>
+              <button
+                onClick={handleToggleStopwatch}
+                disabled={isRunning}
+                className={`rounded-lg border p-2 pr-[0.75rem] transition-colors flex items-center gap-2 disabled:opacity-50 ${
+                  isStopwatch ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                }`}
+                aria-label="Toggle stopwatch mode"
+                aria-pressed={isStopwatch}
+              >
+                <TimerIcon className="h-4 w-4" />
+                <span className="font-mono text-sm">Stopwatch</span>
+              </button>
+              {!timer.pomodoro && !isStopwatch && (
+                <QueueDialog
+                  queue={timer.queue ?? []}
+                  presets={visiblePresets}
+                  onChange={handleQueueChange}
+                  onRunNow={handleRunQueue}
+                  isRunning={isRunning}
+                >
+                  <button
+                    className={`rounded-lg border p-2 pr-[0.75rem] transition-colors flex items-center gap-2 ${
+                      timer.queue?.length ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+                    }`}
+                    aria-label="Edit queue"
+                  >
+                    <ListOrdered className="h-4 w-4" />
+                    <span className="font-mono text-sm">Queue{timer.queue?.length ? ` (${timer.queue.length})` : ""}</span>
+                  </button>
+                </QueueDialog>
+              )}
+              <button
+                onClick={() => setShowStats(true)}
+                className="rounded-lg border border-border p-2 pr-[0.75rem] hover:bg-accent transition-colors flex items-center gap-2"
+                aria-label="Show focus stats"
+              >
+                <BarChart3 className="h-4 w-4" />
+                <span className="font-mono text-sm">Stats</span>
+              </button>
               <button
                 onClick={() => setShowHistory(!showHistory)}
                 className="rounded-lg border border-border p-2 pr-[0.75rem] hover:bg-accent transition-colors flex items-center gap-2"
@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { Volume2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  COMPLETION_SOUNDS,
+  getNotificationPermission,
+  playCompletionSound,
+  requestNotificationPermission,
+  type AlertSettings,
+} from "@/lib/alerts"
+
+interface AlertSettingsDialogProps {
+  settings: AlertSettings
+  onSave: (settings: AlertSettings) => void
+  children: React.ReactNode
+}
+
+function optionClassName(selected: boolean): string {
+  return `flex-1 rounded-lg border p-2 transition-colors disabled:opacity-50 ${
+    selected ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+  }`
+}
+
+export function AlertSettingsDialog({ settings, onSave, children }: AlertSettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<AlertSettings>(settings)
+  const [permission, setPermission] = useState(getNotificationPermission)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(settings)
+      setPermission(getNotificationPermission())
+    }
+    setOpen(nextOpen)
+  }
+
+  // Turning notifications on asks for the browser's permission first
+  const handleNotificationsChange = async (notifications: boolean) => {
+    if (!notifications) {
+      setDraft({ ...draft, notifications })
+      return
+    }
+    const result = permission === "granted" ? permission : await requestNotificationPermission()
+    setPermission(result)
+    setDraft({ ...draft, notifications: result === "granted" })
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave(draft)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Alerts</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            How the timer tells you it has ended.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-6 font-mono text-sm">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">Sound</p>
+              <button
+                type="button"
+                onClick={() => playCompletionSound(draft.sound)}
+                disabled={draft.sound === "none"}
+                className="flex items-center gap-1 rounded p-1 text-xs text-muted-foreground hover:bg-accent hover:text-foreground transition-colors disabled:opacity-50"
+              >
+                <Volume2 className="h-3 w-3" />
+                Play
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {COMPLETION_SOUNDS.map((sound) => (
+                <button
+                  key={sound.value}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, sound: sound.value })}
+                  className={optionClassName(draft.sound === sound.value)}
+                >
+                  {sound.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Notify me when the tab is in the background</p>
+            <div className="flex gap-2">
+              {[true, false].map((notifications) => (
+                <button
+                  key={String(notifications)}
+                  type="button"
+                  onClick={() => handleNotificationsChange(notifications)}
+                  disabled={notifications && (permission === "denied" || permission === "unsupported")}
+                  className={optionClassName(draft.notifications === notifications)}
+                >
+                  {notifications ? "On" : "Off"}
+                </button>
+              ))}
+            </div>
+            {permission === "denied" && (
+              <p className="text-xs text-muted-foreground">Notifications are blocked for this site in your browser settings.</p>
+            )}
+            {permission === "unsupported" && (
+              <p className="text-xs text-muted-foreground">This browser doesn&apos;t support notifications.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" variant="secondary" className="font-mono">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { authClient } from "@/lib/auth-client";
+import { SignInDialog } from "@/components/sign-in-dialog";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { Settings } from "lucide-react";
+
+export function AuthButton() {
+  const { data: session } = authClient.useSession();
+
+  const handleSignOut = async () => {
+    try {
+      await authClient.signOut();
+    } catch (error) {
+      console.error("Sign out error:", error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {session?.user ? (
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-sm text-muted-foreground">{session.user.email}</span>
+          <button
+            onClick={handleSignOut}
+            className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm"
+          >
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <SignInDialog>
+          <button className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm">
+            Sign in
+          </button>
+        </SignInDialog>
+      )}
+      <SettingsDialog>
+        <button
+          className="rounded-lg border border-border p-2 hover:bg-accent transition-colors"
+          aria-label="Settings"
+        >
+          <Settings className="h-5 w-5" />
+        </button>
+      </SettingsDialog>
+    </div>
+  );
+}
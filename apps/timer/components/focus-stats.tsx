@@ -0,0 +1,147 @@
+"use client"
+
+import { useMemo } from "react"
+import { ChevronLeft } from "lucide-react"
+import { AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { ThemeToggle } from "@/components/theme-toggle"
+import type { TimerSession } from "@/lib/local-storage"
+import { formatFocusDuration, getFocusStats, type DayTotal } from "@/lib/focus-stats"
+
+interface FocusStatsProps {
+  isOpen: boolean
+  onClose: () => void
+  sessions: TimerSession[]
+}
+
+const WEEKDAY_LABELS = ["Mon", "", "Wed", "", "Fri", "", "Sun"]
+const HEATMAP_OPACITY = ["opacity-10", "opacity-30", "opacity-50", "opacity-75", "opacity-100"]
+
+// 0 for an empty day, then 1-4 relative to the busiest day shown
+function getHeatLevel(total: number, max: number): number {
+  if (total <= 0 || max <= 0) return 0
+  return Math.min(4, Math.ceil((total / max) * 4))
+}
+
+function describeDay(entry: DayTotal): string {
+  const [year, month, day] = entry.day.split("-").map(Number)
+  const date = new Date(year, month - 1, day).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+  if (entry.count === 0) return `${date}: no focus time`
+  return `${date}: ${formatFocusDuration(entry.total)} in ${entry.count} session${entry.count === 1 ? "" : "s"}`
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-border p-4">
+      <p className="font-mono text-xs text-muted-foreground">{label}</p>
+      <p className="font-mono text-2xl font-bold mt-1">{value}</p>
+    </div>
+  )
+}
+
+export function FocusStats({ isOpen, onClose, sessions }: FocusStatsProps) {
+  // Counted when the panel opens, so "today" is current
+  const stats = useMemo(() => (isOpen ? getFocusStats(sessions, { now: Date.now() }) : null), [isOpen, sessions])
+  const maxDayTotal = Math.max(0, ...(stats?.heatmap.flat().map((entry) => entry?.total ?? 0) ?? []))
+  const maxNameTotal = stats?.byName[0]?.total ?? 0
+
+  return (
+    <AnimatePresence>
+      {stats && (
+        <div className="fixed inset-0 bg-background/95 backdrop-blur-sm z-50 overflow-y-auto">
+          <div className="max-w-2xl mx-auto px-4 py-8 pb-[200px]">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold tracking-tight text-balance font-mono">
+                Focus Stats
+              </h2>
+              <ThemeToggle />
+            </div>
+
+            {stats.sessionCount === 0 ? (
+              <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
+                <p className="font-mono text-sm text-muted-foreground">
+                  No focus sessions yet.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-8">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  <StatCard label="Today" value={formatFocusDuration(stats.today)} />
+                  <StatCard label="This week" value={formatFocusDuration(stats.thisWeek)} />
+                  <StatCard label="This month" value={formatFocusDuration(stats.thisMonth)} />
+                  <StatCard label="Current streak" value={`${stats.currentStreak} day${stats.currentStreak === 1 ? "" : "s"}`} />
+                  <StatCard label="Longest streak" value={`${stats.longestStreak} day${stats.longestStreak === 1 ? "" : "s"}`} />
+                  <StatCard label="Average session" value={formatFocusDuration(stats.averageLength)} />
+                </div>
+
+                <section className="space-y-3">
+                  <h3 className="font-mono text-sm font-semibold">Last {stats.heatmap.length} weeks</h3>
+                  <div className="flex gap-1 overflow-x-auto">
+                    <div className="flex flex-col gap-1 pr-1">
+                      {WEEKDAY_LABELS.map((label, index) => (
+                        <span key={index} className="h-3 font-mono text-[10px] leading-3 text-muted-foreground">
+                          {label}
+                        </span>
+                      ))}
+                    </div>
+                    {stats.heatmap.map((week, weekIndex) => (
+                      <div key={weekIndex} className="flex flex-col gap-1">
+                        {week.map((entry, dayIndex) =>
+                          entry ? (
+                            <div
+                              key={entry.day}
+                              title={describeDay(entry)}
+                              className={`h-3 w-3 rounded-sm bg-foreground ${HEATMAP_OPACITY[getHeatLevel(entry.total, maxDayTotal)]}`}
+                            />
+                          ) : (
+                            <div key={dayIndex} className="h-3 w-3" />
+                          )
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <section className="space-y-3">
+                  <h3 className="font-mono text-sm font-semibold">By name</h3>
+                  <div className="space-y-2">
+                    {stats.byName.map((entry) => (
+                      <div key={entry.name} className="space-y-1 font-mono text-sm">
+                        <div className="flex items-center justify-between gap-4">
+                          <span className="truncate">{entry.name}</span>
+                          <span className="flex-shrink-0 text-muted-foreground">
+                            {formatFocusDuration(entry.total)} · {entry.count}
+                          </span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-accent">
+                          <div
+                            className="h-full rounded-full bg-foreground"
+                            style={{ width: `${maxNameTotal > 0 ? (entry.total / maxNameTotal) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              </div>
+            )}
+          </div>
+
+          {/* Back button */}
+          <div className="fixed bottom-0 left-0 right-0 bg-background/95 backdrop-blur-sm border-t border-border p-4 z-50">
+            <div className="mx-auto max-w-2xl">
+              <Button
+                variant="outline"
+                onClick={onClose}
+                className="font-mono"
+              >
+                <ChevronLeft className="h-4 w-4 mr-2" />
+                Back to Timer
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import { formatTime } from "@/lib/local-storage"
+import { getLapLengths } from "@/lib/stopwatch"
+
+interface LapListProps {
+  laps: number[] // split times
+  className?: string
+}
+
+// Newest lap first, with its length and the split time it ended at
+export function LapList({ laps, className = "" }: LapListProps) {
+  const lengths = getLapLengths(laps)
+  return (
+    <ol className={`font-mono text-sm space-y-1 ${className}`}>
+      {laps.map((split, index) => ({ split, length: lengths[index], number: index + 1 })).reverse().map((lap) => (
+        <li key={lap.number} className="flex items-center justify-between gap-4 text-muted-foreground">
+          <span>Lap {lap.number}</span>
+          <span className="text-foreground">{formatTime(lap.length)}</span>
+          <span>{formatTime(lap.split)}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
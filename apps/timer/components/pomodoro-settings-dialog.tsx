@@ -0,0 +1,163 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { MAX_LONG_BREAK_EVERY, type PomodoroSettings } from "@/lib/pomodoro"
+
+interface PomodoroSettingsDialogProps {
+  settings: PomodoroSettings
+  onSave: (settings: PomodoroSettings) => void
+  children: React.ReactNode
+}
+
+// Lengths are edited in minutes, as text so they can be cleared while typing
+interface SettingsDraft {
+  focusMinutes: string
+  shortBreakMinutes: string
+  longBreakMinutes: string
+  longBreakEvery: string
+  autoAdvance: boolean
+}
+
+const MINUTE = 60 * 1000
+const MAX_MINUTES = 99 * 60
+
+function toDraft(settings: PomodoroSettings): SettingsDraft {
+  return {
+    focusMinutes: String(settings.focusDuration / MINUTE),
+    shortBreakMinutes: String(settings.shortBreakDuration / MINUTE),
+    longBreakMinutes: String(settings.longBreakDuration / MINUTE),
+    longBreakEvery: String(settings.longBreakEvery),
+    autoAdvance: settings.autoAdvance,
+  }
+}
+
+function optionClassName(selected: boolean): string {
+  return `flex-1 rounded-lg border p-2 transition-colors ${
+    selected ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+  }`
+}
+
+export function PomodoroSettingsDialog({ settings, onSave, children }: PomodoroSettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(settings))
+  const [error, setError] = useState("")
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(toDraft(settings))
+      setError("")
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    const minutes = [draft.focusMinutes, draft.shortBreakMinutes, draft.longBreakMinutes].map(Number)
+    if (minutes.some((value) => !Number.isInteger(value) || value < 1 || value > MAX_MINUTES)) {
+      setError(`Lengths must be whole minutes between 1 and ${MAX_MINUTES}`)
+      return
+    }
+    const longBreakEvery = Number(draft.longBreakEvery)
+    if (!Number.isInteger(longBreakEvery) || longBreakEvery < 1 || longBreakEvery > MAX_LONG_BREAK_EVERY) {
+      setError(`Long breaks must come every 1-${MAX_LONG_BREAK_EVERY} cycles`)
+      return
+    }
+
+    const [focusMinutes, shortBreakMinutes, longBreakMinutes] = minutes
+    onSave({
+      focusDuration: focusMinutes * MINUTE,
+      shortBreakDuration: shortBreakMinutes * MINUTE,
+      longBreakDuration: longBreakMinutes * MINUTE,
+      longBreakEvery,
+      autoAdvance: draft.autoAdvance,
+    })
+    setOpen(false)
+  }
+
+  const minuteFields: Array<{ key: "focusMinutes" | "shortBreakMinutes" | "longBreakMinutes"; label: string }> = [
+    { key: "focusMinutes", label: "Focus (min)" },
+    { key: "shortBreakMinutes", label: "Short break (min)" },
+    { key: "longBreakMinutes", label: "Long break (min)" },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Pomodoro</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Focus and break lengths. A phase that has already started keeps its length.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-6 font-mono text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            {minuteFields.map((field) => (
+              <label key={field.key} className="space-y-2">
+                <span className="block text-xs text-muted-foreground">{field.label}</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_MINUTES}
+                  step={1}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  className="font-mono"
+                />
+              </label>
+            ))}
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Long break every (cycles)</span>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_LONG_BREAK_EVERY}
+                step={1}
+                value={draft.longBreakEvery}
+                onChange={(e) => setDraft({ ...draft, longBreakEvery: e.target.value })}
+                className="font-mono"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">When a phase ends</p>
+            <div className="flex gap-2">
+              {[true, false].map((autoAdvance) => (
+                <button
+                  key={String(autoAdvance)}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, autoAdvance })}
+                  className={optionClassName(draft.autoAdvance === autoAdvance)}
+                >
+                  {autoAdvance ? "Start the next one" : "Ask first"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" variant="secondary" className="font-mono">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { Kbd } from "@/components/ui/kbd"
+import { MAX_PRESETS, PRESET_SHORTCUT_COUNT, describePreset, type TimerPreset } from "@/lib/presets"
+
+interface PresetBarProps {
+  presets: TimerPreset[]
+  onStart: (preset: TimerPreset) => void
+  onDelete: (preset: TimerPreset) => void
+  onSaveCurrent: () => void
+  disabled: boolean // Presets replace the timer, so they wait while it runs
+}
+
+export function PresetBar({ presets, onStart, onDelete, onSaveCurrent, disabled }: PresetBarProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 pb-6">
+      {presets.map((preset, index) => (
+        <div
+          key={preset.id}
+          className="group flex items-center rounded-lg border border-border font-mono text-sm transition-colors hover:bg-accent"
+        >
+          <button
+            onClick={() => onStart(preset)}
+            disabled={disabled}
+            className="flex items-center gap-2 py-1 pl-2 pr-1 disabled:opacity-50"
+            title={describePreset(preset)}
+          >
+            {index < PRESET_SHORTCUT_COUNT && <Kbd>{index + 1}</Kbd>}
+            <span>{preset.name || describePreset(preset)}</span>
+            {preset.name && <span className="text-muted-foreground">{describePreset(preset)}</span>}
+          </button>
+          <button
+            onClick={() => onDelete(preset)}
+            className="mr-1 rounded p-0.5 text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+            aria-label={`Delete preset ${preset.name || describePreset(preset)}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={onSaveCurrent}
+        disabled={presets.length >= MAX_PRESETS}
+        className="flex items-center gap-1 rounded-lg border border-dashed border-border px-2 py-1 font-mono text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:opacity-50"
+      >
+        <Plus className="h-3 w-3" />
+        Save as preset
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp, Play, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { formatTime } from "@/lib/local-storage"
+import { MAX_QUEUE_LENGTH, type TimerPreset, type TimerQueueItem } from "@/lib/presets"
+
+interface QueueDialogProps {
+  queue: TimerQueueItem[]
+  presets: TimerPreset[] // Countdown presets can be queued as they are
+  onChange: (queue: TimerQueueItem[]) => void
+  onRunNow: () => void // Start the first queued timer in place of the current one
+  isRunning: boolean
+  children: React.ReactNode
+}
+
+const MINUTE = 60 * 1000
+const MAX_MINUTES = 99 * 60
+
+export function QueueDialog({ queue, presets, onChange, onRunNow, isRunning, children }: QueueDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [minutes, setMinutes] = useState("25")
+  const [error, setError] = useState("")
+
+  const countdownPresets = presets.filter((preset) => !preset.mode)
+  const isFull = queue.length >= MAX_QUEUE_LENGTH
+
+  const addItem = (item: Omit<TimerQueueItem, "id">) => {
+    if (isFull) return
+    onChange([...queue, { id: crypto.randomUUID(), ...item }])
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = Number(minutes)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_MINUTES) {
+      setError(`Lengths must be whole minutes between 1 and ${MAX_MINUTES}`)
+      return
+    }
+    addItem({ name: name.trim(), duration: value * MINUTE })
+    setName("")
+    setError("")
+  }
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= queue.length) return
+    const next = [...queue]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const handleRunNow = () => {
+    onRunNow()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Queue</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Countdowns that start one after another when the current one ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 font-mono text-sm">
+          {queue.length === 0 ? (
+            <p className="rounded-lg border-2 border-dashed border-border p-4 text-center text-muted-foreground">
+              Nothing queued.
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {queue.map((item, index) => (
+                <li key={item.id} className="flex items-center gap-2 rounded-lg border border-border p-2">
+                  <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                  <span className="flex-1 truncate">{item.name || "Untitled"}</span>
+                  <span className="text-muted-foreground">{formatTime(item.duration)}</span>
+                  <button
+                    onClick={() => moveItem(index, -1)}
+                    disabled={index === 0}
+                    className="rounded p-0.5 hover:bg-accent disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === queue.length - 1}
+                    className="rounded p-0.5 hover:bg-accent disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onChange(queue.filter((queued) => queued.id !== item.id))}
+                    className="rounded p-0.5 hover:bg-accent"
+                    aria-label="Remove from queue"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <p className="text-xs text-muted-foreground">Add a countdown</p>
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+                maxLength={200}
+                className="font-mono flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                max={MAX_MINUTES}
+                step={1}
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+                className="font-mono w-20"
+                aria-label="Minutes"
+              />
+              <Button type="submit" variant="outline" size="icon" disabled={isFull} aria-label="Add to queue">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </form>
+
+          {countdownPresets.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">From presets</p>
+              <div className="flex flex-wrap gap-2">
+                {countdownPresets.map((preset) => (
+                  <button
+                    key={preset.id}
+                    onClick={() => addItem({ name: preset.name, duration: preset.duration })}
+                    disabled={isFull}
+                    className="rounded-lg border border-border px-2 py-1 transition-colors hover:bg-accent disabled:opacity-50"
+                  >
+                    {preset.name || "Untitled"} · {formatTime(preset.duration)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => onChange([])} disabled={queue.length === 0} className="font-mono">
+            Clear
+          </Button>
+          <Button variant="secondary" onClick={handleRunNow} disabled={queue.length === 0 || isRunning} className="font-mono">
+            <Play className="h-4 w-4 mr-2" />
+            Start now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,7 +5,9 @@ import { ChevronLeft, Trash2 } from "lucide-react"
 import { AnimatePresence } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { TimerSession, formatTime, deleteSession, addDeletedSession, removeDeletedSession, getDeletedSessions } from "@/lib/local-storage"
+import { TimerSession, formatTime, addDeletedSession, removeDeletedSession, getDeletedSessions } from "@/lib/local-storage"
+import { PHASE_LABELS } from "@/lib/pomodoro"
+import { LapList } from "@/components/lap-list"
 import { useToast } from "@/components/ui/use-toast"
 import { ToastAction } from "@/components/ui/toast"
 
@@ -13,10 +15,11 @@ interface SessionHistoryProps {
   isOpen: boolean
   onClose: () => void
   sessions: TimerSession[]
-  onSessionsChange: (sessions: TimerSession[]) => void
+  onDeleteSession: (session: TimerSession) => void
+  onRestoreSession: (session: TimerSession) => void
 }
 
-export function SessionHistory({ isOpen, onClose, sessions, onSessionsChange }: SessionHistoryProps) {
+export function SessionHistory({ isOpen, onClose, sessions, onDeleteSession, onRestoreSession }: SessionHistoryProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [deletedSessionsQueue, setDeletedSessionsQueue] = useState<Array<{session: TimerSession, timeoutId: NodeJS.Timeout}>>([])
   
@@ -27,12 +30,8 @@ export function SessionHistory({ isOpen, onClose, sessions, onSessionsChange }:
     const sessionToDelete = sessions.find(s => s.id === sessionId)
     if (!sessionToDelete) return
     
-    // Remove from visible sessions immediately
-    const updatedSessions = sessions.filter(session => session.id !== sessionId)
-    onSessionsChange(updatedSessions)
-    
-    // Remove from localStorage immediately to persist deletion
-    deleteSession(sessionId)
+    // Remove from visible sessions and storage immediately
+    onDeleteSession(sessionToDelete)
     
     // Add to localStorage deleted sessions for restore functionality
     addDeletedSession(sessionToDelete)
@@ -90,9 +89,8 @@ export function SessionHistory({ isOpen, onClose, sessions, onSessionsChange }:
     // Remove from localStorage deleted sessions
     removeDeletedSession(sessionId)
     
-    // Add session back to localStorage since it was removed during deletion
-    const updatedLocalSessions = [...currentLocalSessions, deletedItem.session]
-    onSessionsChange(updatedLocalSessions)
+    // Add the session back since it was removed during deletion
+    onRestoreSession(deletedItem.session)
     
     // Show success toast
     toast({
@@ -159,7 +157,22 @@ export function SessionHistory({ isOpen, onClose, sessions, onSessionsChange }:
                         <div className="flex-1">
                           <h3 className="font-mono text-lg font-semibold leading-tight">
                             {session.name}
+                            {session.phase && (
+                              <span className="ml-2 rounded border border-border px-1.5 py-0.5 align-middle text-xs font-normal text-muted-foreground">
+                                {PHASE_LABELS[session.phase]}
+                              </span>
+                            )}
+                            {session.laps && (
+                              <span className="ml-2 rounded border border-border px-1.5 py-0.5 align-middle text-xs font-normal text-muted-foreground">
+                                Stopwatch{session.laps.length > 0 && ` · ${session.laps.length} lap${session.laps.length === 1 ? "" : "s"}`}
+                              </span>
+                            )}
                           </h3>
+                          {session.task && (
+                            <p className="mt-1 font-mono text-xs text-muted-foreground truncate">
+                              Task: {session.task.title || "Untitled"}
+                            </p>
+                          )}
                           <div className="flex items-center gap-4 mt-2">
                             <div className="font-mono text-2xl font-bold text-foreground">
                               {formatTime(session.duration)}
@@ -168,6 +181,9 @@ export function SessionHistory({ isOpen, onClose, sessions, onSessionsChange }:
                               {formatDuration(session.duration)}
                             </div>
                           </div>
+                          {session.laps && session.laps.length > 0 && (
+                            <LapList laps={session.laps} className="mt-3 max-w-xs" />
+                          )}
                         </div>
                         <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                           <Button
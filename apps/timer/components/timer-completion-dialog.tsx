@@ -1,7 +1,6 @@
 "use client"
 
-import { useEffect } from "react"
-import { Play, RotateCcw } from "lucide-react"
+import { CheckCircle2, Play, RotateCcw } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -11,6 +10,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { formatTime } from "@/lib/local-storage"
+import { PHASE_LABELS, type PomodoroPhase } from "@/lib/pomodoro"
 
 interface TimerCompletionDialogProps {
   isOpen: boolean
@@ -19,6 +19,13 @@ interface TimerCompletionDialogProps {
   onStartNew: () => void
   timerName: string
   completedDuration: number
+  // Set for pomodoros: the phase that ended and the one waiting to start
+  phase?: PomodoroPhase
+  nextPhase?: PomodoroPhase
+  // Set when the timer was started from a todo task that can be marked done
+  onMarkTaskDone?: () => void
+  // Set when the timer ended while the tab was in the background
+  endedAt?: number
 }
 
 export function TimerCompletionDialog({
@@ -28,17 +35,11 @@ export function TimerCompletionDialog({
   onStartNew,
   timerName,
   completedDuration,
+  phase,
+  nextPhase,
+  onMarkTaskDone,
+  endedAt,
 }: TimerCompletionDialogProps) {
-  // Play sound when dialog opens
-  useEffect(() => {
-    if (isOpen) {
-      const audio = new Audio('/alarmclock.mp3')
-      audio.play().catch((error) => {
-        console.warn('Could not play completion sound:', error)
-      })
-    }
-  }, [isOpen])
-
   const handleRestart = () => {
     onRestart()
     onClose()
@@ -49,12 +50,17 @@ export function TimerCompletionDialog({
     onClose()
   }
 
+  const handleMarkTaskDone = () => {
+    onMarkTaskDone?.()
+    onClose()
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="font-mono text-center">
-            Timer Complete! 🎉
+            {phase ? `${PHASE_LABELS[phase]} complete` : "Timer Complete! 🎉"}
           </DialogTitle>
           <DialogDescription className="font-mono text-sm text-center">
             <div className="space-y-2">
@@ -62,18 +68,33 @@ export function TimerCompletionDialog({
               <div className="text-2xl font-bold text-foreground">
                 {formatTime(completedDuration)}
               </div>
+              {endedAt !== undefined && (
+                <div>
+                  Ended at {new Date(endedAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                </div>
+              )}
             </div>
           </DialogDescription>
         </DialogHeader>
         
         <div className="flex flex-col gap-3 mt-6">
+          {onMarkTaskDone && (
+            <Button
+              onClick={handleMarkTaskDone}
+              className="w-full font-mono"
+              variant="secondary"
+            >
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Mark task done
+            </Button>
+          )}
           <Button
             onClick={handleRestart}
             className="w-full font-mono"
             variant="default"
           >
             <RotateCcw className="h-4 w-4 mr-2" />
-            Restart Timer
+            {nextPhase ? `Start ${PHASE_LABELS[nextPhase].toLowerCase()}` : "Restart Timer"}
           </Button>
           <Button
             onClick={handleStartNew}
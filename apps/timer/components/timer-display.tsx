@@ -7,9 +7,10 @@ interface TimerDisplayProps {
   timeRemaining: number
   onTimeChange: (newTime: number) => void
   isRunning: boolean
+  readOnly?: boolean // Shows the time without letting it be edited, as for the stopwatch
 }
 
-export function TimerDisplay({ timeRemaining, onTimeChange, isRunning }: TimerDisplayProps) {
+export function TimerDisplay({ timeRemaining, onTimeChange, isRunning, readOnly = false }: TimerDisplayProps) {
   const [timeFormat, setTimeFormat] = useState<'HH:MM' | 'MM:SS'>('MM:SS')
   const [activeIndex, setActiveIndex] = useState<number | null>(null)
 
@@ -51,7 +52,7 @@ export function TimerDisplay({ timeRemaining, onTimeChange, isRunning }: TimerDi
   }, [timeRemaining, timeFormat])
 
   const handleDigitFocus = (index: number) => {
-    if (isRunning) return
+    if (isRunning || readOnly) return
     setActiveIndex(index)
     setTimeout(() => {
       inputRefs.current[index]?.focus()
@@ -174,6 +175,7 @@ export function TimerDisplay({ timeRemaining, onTimeChange, isRunning }: TimerDi
           defaultValue={digits[index]}
           onKeyDown={(e) => handleKeyDown(index, e)}
           onBlur={() => handleBlur(index)}
+          disabled={readOnly}
         />
       </div>
     )
@@ -188,7 +190,7 @@ export function TimerDisplay({ timeRemaining, onTimeChange, isRunning }: TimerDi
           size="sm"
           onClick={() => handleFormatChange('MM:SS')}
           className="font-mono min-w-[80px] h-8"
-          disabled={isRunning}
+          disabled={isRunning || readOnly}
         >
           MINUTES
         </Button>
@@ -197,7 +199,7 @@ export function TimerDisplay({ timeRemaining, onTimeChange, isRunning }: TimerDi
           size="sm"
           onClick={() => handleFormatChange('HH:MM')}
           className="font-mono min-w-[80px] h-8"
-          disabled={isRunning}
+          disabled={isRunning || readOnly}
         >
           HOURS
         </Button>
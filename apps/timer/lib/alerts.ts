@@ -0,0 +1,94 @@
+export type CompletionSound = "alarm" | "chime" | "beep" | "none"
+
+export interface AlertSettings {
+  sound: CompletionSound
+  notifications: boolean // show a system notification when a timer ends in a hidden tab
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  sound: "alarm",
+  notifications: false,
+}
+
+export const COMPLETION_SOUNDS: Array<{ value: CompletionSound; label: string }> = [
+  { value: "alarm", label: "Alarm clock" },
+  { value: "chime", label: "Chime" },
+  { value: "beep", label: "Beep" },
+  { value: "none", label: "None" },
+]
+
+// Notes for the synthesized sounds: frequency in Hz, start and length in seconds
+const TONES: Record<"chime" | "beep", Array<{ frequency: number; start: number; length: number }>> = {
+  chime: [
+    { frequency: 880, start: 0, length: 0.6 },
+    { frequency: 1175, start: 0.25, length: 0.6 },
+    { frequency: 1568, start: 0.5, length: 0.9 },
+  ],
+  beep: [
+    { frequency: 1000, start: 0, length: 0.15 },
+    { frequency: 1000, start: 0.3, length: 0.15 },
+    { frequency: 1000, start: 0.6, length: 0.15 },
+  ],
+}
+
+function playTones(tones: Array<{ frequency: number; start: number; length: number }>): void {
+  const context = new AudioContext()
+  for (const tone of tones) {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    const startAt = context.currentTime + tone.start
+    oscillator.frequency.value = tone.frequency
+    gain.gain.setValueAtTime(0.2, startAt)
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + tone.length)
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(startAt)
+    oscillator.stop(startAt + tone.length)
+  }
+  const end = Math.max(...tones.map((tone) => tone.start + tone.length))
+  setTimeout(() => void context.close(), (end + 0.1) * 1000)
+}
+
+export function playCompletionSound(sound: CompletionSound): void {
+  try {
+    if (sound === "none") return
+    if (sound === "alarm") {
+      const audio = new Audio("/alarmclock.mp3")
+      audio.play().catch((error) => {
+        console.warn("Could not play completion sound:", error)
+      })
+      return
+    }
+    playTones(TONES[sound])
+  } catch (error) {
+    console.warn("Could not play completion sound:", error)
+  }
+}
+
+export function getNotificationPermission(): NotificationPermission | "unsupported" {
+  if (typeof window === "undefined" || !("Notification" in window)) return "unsupported"
+  return Notification.permission
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+  if (getNotificationPermission() === "unsupported") return "unsupported"
+  try {
+    return await Notification.requestPermission()
+  } catch (error) {
+    console.error("Failed to request notification permission:", error)
+    return Notification.permission
+  }
+}
+
+// Only for hidden tabs: a visible page shows its own dialog or toast
+export function showCompletionNotification(title: string, body: string): void {
+  if (document.visibilityState !== "hidden" || getNotificationPermission() !== "granted") return
+  try {
+    const notification = new Notification(title, { body, tag: "timer-complete", icon: "/timer.jpg" })
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+  } catch (error) {
+    console.error("Failed to show notification:", error)
+  }
+}
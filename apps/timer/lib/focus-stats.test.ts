@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest"
+import { getDayKey, getFocusStats, getStreaks, shiftDay } from "@/lib/focus-stats"
+import type { TimerSession } from "@/lib/local-storage"
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+function session(completedAt: string | number, duration = 25 * MINUTE, overrides: Partial<TimerSession> = {}): TimerSession {
+  const end = typeof completedAt === "number" ? completedAt : Date.parse(completedAt)
+  return { id: String(end), name: "Writing", duration, completedAt: end, ...overrides }
+}
+
+describe("getDayKey", () => {
+  it("uses the viewer's time zone, not UTC", () => {
+    const moment = Date.parse("2026-10-19T23:30:00Z")
+    expect(getDayKey(moment, "UTC")).toBe("2026-10-19")
+    expect(getDayKey(moment, "Asia/Tokyo")).toBe("2026-10-20")
+    expect(getDayKey(moment, "America/Los_Angeles")).toBe("2026-10-19")
+  })
+
+  it("puts the zones furthest apart on different days", () => {
+    const moment = Date.parse("2026-10-19T12:00:00Z")
+    expect(getDayKey(moment, "Pacific/Kiritimati")).toBe("2026-10-20") // UTC+14
+    expect(getDayKey(moment, "Pacific/Pago_Pago")).toBe("2026-10-19") // UTC-11
+  })
+})
+
+describe("shiftDay", () => {
+  it("moves across month, year and leap days", () => {
+    expect(shiftDay("2026-01-31", 1)).toBe("2026-02-01")
+    expect(shiftDay("2026-12-31", 1)).toBe("2027-01-01")
+    expect(shiftDay("2026-03-01", -1)).toBe("2026-02-28")
+    expect(shiftDay("2028-03-01", -1)).toBe("2028-02-29")
+  })
+
+  it("moves one calendar day across DST changes", () => {
+    expect(shiftDay("2026-03-08", 1)).toBe("2026-03-09")
+    expect(shiftDay("2026-11-01", -1)).toBe("2026-10-31")
+  })
+})
+
+describe("sessions that cross local midnight", () => {
+  const timeZone = "America/New_York"
+  // Started at 23:30 on October 19 and ended at 00:30 on October 20, New York time
+  const lateSession = session("2026-10-20T04:30:00Z", HOUR)
+
+  it("count towards the day they ended", () => {
+    const stats = getFocusStats([lateSession], { now: Date.parse("2026-10-20T14:00:00Z"), timeZone })
+    expect(stats.today).toBe(HOUR)
+    expect(stats.currentStreak).toBe(1)
+  })
+
+  it("don't count towards the day they started", () => {
+    const stats = getFocusStats([lateSession], { now: Date.parse("2026-10-20T03:59:00Z"), timeZone })
+    expect(stats.today).toBe(0)
+    expect(stats.currentStreak).toBe(0)
+  })
+
+  it("land on another day for a viewer in another zone", () => {
+    const now = Date.parse("2026-10-20T05:00:00Z")
+    expect(getFocusStats([lateSession], { now, timeZone: "America/Los_Angeles" }).today).toBe(HOUR)
+    expect(getFocusStats([lateSession], { now: Date.parse("2026-10-20T10:00:00Z"), timeZone: "Asia/Tokyo" }).today).toBe(HOUR)
+  })
+})
+
+describe("DST transition days", () => {
+  const timeZone = "America/New_York"
+
+  it("keep the whole 23-hour spring-forward day together", () => {
+    const sessions = [
+      session("2026-03-08T05:30:00Z"), // 00:30 EST
+      session("2026-03-08T07:30:00Z"), // 03:30 EDT, just after the skipped hour
+      session("2026-03-09T03:30:00Z"), // 23:30 EDT
+    ]
+    const stats = getFocusStats(sessions, { now: Date.parse("2026-03-09T03:45:00Z"), timeZone })
+    expect(stats.today).toBe(75 * MINUTE)
+    expect(stats.heatmap.flat().filter((day) => day?.day === "2026-03-08")).toHaveLength(1)
+  })
+
+  it("keep the whole 25-hour fall-back day together", () => {
+    const sessions = [
+      session("2026-11-01T04:30:00Z"), // 00:30 EDT
+      session("2026-11-01T05:30:00Z"), // 01:30 EDT
+      session("2026-11-01T06:30:00Z"), // 01:30 EST, the repeated hour
+      session("2026-11-02T04:30:00Z"), // 23:30 EST
+    ]
+    const stats = getFocusStats(sessions, { now: Date.parse("2026-11-02T04:45:00Z"), timeZone })
+    expect(stats.today).toBe(100 * MINUTE)
+    expect(getDayKey(Date.parse("2026-11-02T05:00:00Z"), timeZone)).toBe("2026-11-02")
+  })
+
+  it("don't break a streak or double a day in the heatmap", () => {
+    const sessions = ["2026-03-07T17:00:00Z", "2026-03-08T17:00:00Z", "2026-03-09T17:00:00Z"].map((end) => session(end))
+    const stats = getFocusStats(sessions, { now: Date.parse("2026-03-09T20:00:00Z"), timeZone, heatmapWeeks: 2 })
+    expect(stats.currentStreak).toBe(3)
+    const days = stats.heatmap.flat().filter((day) => day !== null).map((day) => day.day)
+    expect(new Set(days).size).toBe(days.length)
+    expect(days).toEqual(expect.arrayContaining(["2026-03-07", "2026-03-08", "2026-03-09"]))
+  })
+})
+
+describe("getStreaks", () => {
+  it("counts a streak across a month boundary", () => {
+    expect(getStreaks(["2026-01-30", "2026-01-31", "2026-02-01"], "2026-02-01")).toEqual({ current: 3, longest: 3 })
+  })
+
+  it("counts a streak across a year boundary", () => {
+    expect(getStreaks(["2025-12-30", "2025-12-31", "2026-01-01", "2026-01-02"], "2026-01-02")).toEqual({
+      current: 4,
+      longest: 4,
+    })
+  })
+
+  it("counts a streak across the end of February in common and leap years", () => {
+    expect(getStreaks(["2026-02-27", "2026-02-28", "2026-03-01"], "2026-03-01").current).toBe(3)
+    expect(getStreaks(["2028-02-28", "2028-02-29", "2028-03-01"], "2028-03-01").current).toBe(3)
+    // March 1 doesn't follow February 28 in a leap year
+    expect(getStreaks(["2028-02-28", "2028-03-01"], "2028-03-01")).toEqual({ current: 1, longest: 1 })
+  })
+
+  it("keeps the current streak going until today is over", () => {
+    expect(getStreaks(["2026-10-17", "2026-10-18"], "2026-10-19")).toEqual({ current: 2, longest: 2 })
+    expect(getStreaks(["2026-10-16", "2026-10-17"], "2026-10-19")).toEqual({ current: 0, longest: 2 })
+  })
+
+  it("keeps the longest streak apart from the current one", () => {
+    const days = ["2026-09-01", "2026-09-02", "2026-09-03", "2026-10-18", "2026-10-19"]
+    expect(getStreaks(days, "2026-10-19")).toEqual({ current: 2, longest: 3 })
+  })
+
+  it("ignores days after today and duplicates", () => {
+    expect(getStreaks(["2026-10-19", "2026-10-19", "2026-10-20"], "2026-10-19")).toEqual({ current: 1, longest: 1 })
+  })
+})
+
+describe("getFocusStats", () => {
+  const now = Date.parse("2026-10-21T12:00:00Z") // A Wednesday
+  const timeZone = "UTC"
+
+  it("handles an empty history", () => {
+    const stats = getFocusStats([], { now, timeZone, heatmapWeeks: 4 })
+    expect(stats).toMatchObject({
+      today: 0,
+      thisWeek: 0,
+      thisMonth: 0,
+      sessionCount: 0,
+      averageLength: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      byName: [],
+    })
+    expect(stats.heatmap).toHaveLength(4)
+    expect(stats.heatmap.flat().every((day) => day === null || day.total === 0)).toBe(true)
+  })
+
+  it("handles a single session", () => {
+    const stats = getFocusStats([session("2026-10-21T09:00:00Z")], { now, timeZone, heatmapWeeks: 1 })
+    expect(stats).toMatchObject({
+      today: 25 * MINUTE,
+      thisWeek: 25 * MINUTE,
+      thisMonth: 25 * MINUTE,
+      sessionCount: 1,
+      averageLength: 25 * MINUTE,
+      currentStreak: 1,
+      longestStreak: 1,
+      byName: [{ name: "Writing", total: 25 * MINUTE, count: 1 }],
+    })
+    // Monday to Sunday, with the days after today left empty
+    expect(stats.heatmap[0].map((day) => day?.day ?? null)).toEqual([
+      "2026-10-19",
+      "2026-10-20",
+      "2026-10-21",
+      null,
+      null,
+      null,
+      null,
+    ])
+  })
+
+  it("counts the week from Monday and the month from the 1st", () => {
+    const sessions = [
+      session("2026-10-18T09:00:00Z"), // Sunday of last week
+      session("2026-10-19T09:00:00Z"), // Monday
+      session("2026-09-30T09:00:00Z"), // Last month
+    ]
+    const stats = getFocusStats(sessions, { now, timeZone })
+    expect(stats.thisWeek).toBe(25 * MINUTE)
+    expect(stats.thisMonth).toBe(50 * MINUTE)
+  })
+
+  it("leaves breaks out", () => {
+    const sessions = [session("2026-10-21T09:00:00Z"), session("2026-10-21T09:05:00Z", 5 * MINUTE, { phase: "shortBreak" })]
+    const stats = getFocusStats(sessions, { now, timeZone })
+    expect(stats.today).toBe(25 * MINUTE)
+    expect(stats.sessionCount).toBe(1)
+  })
+})
@@ -0,0 +1,173 @@
+import { isFocusPhase } from "@/lib/pomodoro"
+import type { TimerSession } from "@/lib/local-storage"
+
+// Days are "YYYY-MM-DD" keys in the viewer's time zone, so a session counts towards the
+// day it ended on where it's being looked at, not where it was recorded.
+
+export interface DayTotal {
+  day: string
+  total: number // milliseconds
+  count: number
+}
+
+export interface NameTotal {
+  name: string
+  total: number // milliseconds
+  count: number
+}
+
+export interface FocusStats {
+  today: number // milliseconds
+  thisWeek: number // since Monday
+  thisMonth: number
+  sessionCount: number
+  averageLength: number // milliseconds, 0 without sessions
+  currentStreak: number // days in a row up to today, or up to yesterday if today is still empty
+  longestStreak: number
+  byName: NameTotal[] // most time first
+  heatmap: Array<Array<DayTotal | null>> // weeks oldest first, Monday to Sunday; null after today
+}
+
+export interface FocusStatsOptions {
+  now: number
+  timeZone?: string // IANA name; the browser's zone when missing
+  heatmapWeeks?: number
+}
+
+const DEFAULT_HEATMAP_WEEKS = 26
+const UNTITLED = "Untitled"
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getDayFormatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone ?? ""
+  let formatter = dayFormatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    dayFormatters.set(key, formatter)
+  }
+  return formatter
+}
+
+export function getDayKey(timestamp: number, timeZone?: string): string {
+  const parts = getDayFormatter(timeZone).formatToParts(new Date(timestamp))
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? ""
+  return `${part("year")}-${part("month")}-${part("day")}`
+}
+
+// Day keys are calendar dates, so they're shifted in UTC where every day has 24 hours
+export function shiftDay(day: string, offset: number): string {
+  const [year, month, date] = day.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, date + offset)).toISOString().slice(0, 10)
+}
+
+// 0 for Monday through 6 for Sunday
+export function getWeekday(day: string): number {
+  const [year, month, date] = day.split("-").map(Number)
+  return (new Date(Date.UTC(year, month - 1, date)).getUTCDay() + 6) % 7
+}
+
+// Focus time per day. Breaks don't count, and a session belongs to the day it ended.
+export function getDailyTotals(sessions: TimerSession[], timeZone?: string): Map<string, DayTotal> {
+  const totals = new Map<string, DayTotal>()
+  for (const session of sessions) {
+    if (!isFocusPhase(session.phase)) continue
+    const day = getDayKey(session.completedAt, timeZone)
+    const entry = totals.get(day) ?? { day, total: 0, count: 0 }
+    entry.total += session.duration
+    entry.count++
+    totals.set(day, entry)
+  }
+  return totals
+}
+
+export function getStreaks(days: Iterable<string>, today: string): { current: number; longest: number } {
+  const sorted = Array.from(new Set(days)).filter((day) => day <= today).sort()
+  const active = new Set(sorted)
+
+  let longest = 0
+  let run = 0
+  let previous: string | null = null
+  for (const day of sorted) {
+    run = previous !== null && shiftDay(previous, 1) === day ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  }
+
+  // Today still counts as part of the streak until it's over
+  let current = 0
+  let day = active.has(today) ? today : shiftDay(today, -1)
+  while (active.has(day)) {
+    current++
+    day = shiftDay(day, -1)
+  }
+  return { current, longest }
+}
+
+export function buildHeatmap(totals: Map<string, DayTotal>, today: string, weeks: number): Array<Array<DayTotal | null>> {
+  const firstDay = shiftDay(today, -getWeekday(today) - (weeks - 1) * 7)
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const day = shiftDay(firstDay, week * 7 + weekday)
+      if (day > today) return null
+      return totals.get(day) ?? { day, total: 0, count: 0 }
+    })
+  )
+}
+
+export function getNameTotals(sessions: TimerSession[]): NameTotal[] {
+  const totals = new Map<string, NameTotal>()
+  for (const session of sessions) {
+    if (!isFocusPhase(session.phase)) continue
+    const name = session.name.trim() || UNTITLED
+    const entry = totals.get(name) ?? { name, total: 0, count: 0 }
+    entry.total += session.duration
+    entry.count++
+    totals.set(name, entry)
+  }
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+}
+
+export function getFocusStats(sessions: TimerSession[], { now, timeZone, heatmapWeeks = DEFAULT_HEATMAP_WEEKS }: FocusStatsOptions): FocusStats {
+  const totals = getDailyTotals(sessions, timeZone)
+  const today = getDayKey(now, timeZone)
+  const weekStart = shiftDay(today, -getWeekday(today))
+  const monthPrefix = today.slice(0, 8) // "YYYY-MM-"
+
+  let todayTotal = 0
+  let weekTotal = 0
+  let monthTotal = 0
+  let total = 0
+  let sessionCount = 0
+  for (const entry of totals.values()) {
+    total += entry.total
+    sessionCount += entry.count
+    if (entry.day > today) continue
+    if (entry.day === today) todayTotal += entry.total
+    if (entry.day >= weekStart) weekTotal += entry.total
+    if (entry.day.startsWith(monthPrefix)) monthTotal += entry.total
+  }
+
+  const streaks = getStreaks(totals.keys(), today)
+  return {
+    today: todayTotal,
+    thisWeek: weekTotal,
+    thisMonth: monthTotal,
+    sessionCount,
+    averageLength: sessionCount > 0 ? total / sessionCount : 0,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    byName: getNameTotals(sessions),
+    heatmap: buildHeatmap(totals, today, heatmapWeeks),
+  }
+}
+
+// "2h 5m", "25m" or "40s"
+export function formatFocusDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${totalSeconds}s`
+}
@@ -1,8 +1,16 @@
+import type { Pomodoro, PomodoroPhase } from "@/lib/pomodoro";
+import type { Stopwatch } from "@/lib/stopwatch";
+import type { TimerPreset, TimerQueueItem } from "@/lib/presets";
+import type { TimerTask } from "@/lib/task-link";
+
 export interface TimerSession {
   id: string
   name: string
   duration: number // milliseconds
   completedAt: number // timestamp
+  phase?: PomodoroPhase // missing for plain countdowns
+  task?: TimerTask // missing when not started from a task
+  laps?: number[] // split times, set for stopwatch sessions
 }
 
 export interface DeletedSession {
@@ -11,17 +19,32 @@ export interface DeletedSession {
   timeoutId?: number;
 }
 
+// Mirrors the activeTimers table in convex/schema.ts
 export interface CurrentTimer {
   name: string
-  initialTime: number // milliseconds
-  timeRemaining: number // milliseconds
-  isRunning: boolean
-  startedAt?: number // timestamp when timer was started (for pause/resume)
+  duration: number // milliseconds, full length of the countdown
+  remaining: number // milliseconds left when the timer was last started or paused
+  startedAt?: number // timestamp, set while running
+  pomodoro?: Pomodoro // missing for a plain countdown
+  task?: TimerTask // the todo task this timer is for
+  stopwatch?: Stopwatch // set in stopwatch mode; duration and remaining keep the countdown
+  queue?: TimerQueueItem[] // countdowns that start when this one ends
+  updatedAt: number // timestamp of the last change
+}
+
+// Shape saved before the timer was stored as startedAt + remaining
+interface LegacyCurrentTimer {
+  name: string
+  initialTime: number
+  timeRemaining: number
 }
 
+export const DEFAULT_DURATION = 25 * 60 * 1000; // 25 minutes
+
 const SESSIONS_KEY = "timer-sessions";
 const CURRENT_TIMER_KEY = "timer-current";
 const DELETED_SESSIONS_KEY = "timer-deleted-sessions";
+const PRESETS_KEY = "timer-presets";
 
 export function loadLocalSessions(): TimerSession[] {
   if (typeof window === "undefined") return [];
@@ -59,7 +82,18 @@ export function loadCurrentTimer(): CurrentTimer | null {
   if (typeof window === "undefined") return null;
   try {
     const data = localStorage.getItem(CURRENT_TIMER_KEY);
-    return data ? JSON.parse(data) : null;
+    if (!data) return null;
+    const parsed = JSON.parse(data) as CurrentTimer | LegacyCurrentTimer;
+    if ("initialTime" in parsed) {
+      // The old format kept updating timeRemaining while running, so restore it paused
+      return {
+        name: parsed.name,
+        duration: parsed.initialTime,
+        remaining: parsed.timeRemaining,
+        updatedAt: Date.now(),
+      };
+    }
+    return parsed;
   } catch (error) {
     console.error("Failed to load current timer:", error);
     return null;
@@ -84,6 +118,36 @@ export function clearCurrentTimer(): void {
   }
 }
 
+export function loadLocalPresets(): TimerPreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data = localStorage.getItem(PRESETS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Failed to load local presets:", error);
+    return [];
+  }
+}
+
+export function saveLocalPresets(presets: TimerPreset[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Failed to save local presets:", error);
+  }
+}
+
+export function createTimer(name = "", duration = DEFAULT_DURATION): CurrentTimer {
+  return { name, duration, remaining: duration, updatedAt: Date.now() };
+}
+
+// Time left on the timer at `now`, counting down from startedAt while it runs
+export function getTimeRemaining(timer: CurrentTimer, now: number): number {
+  if (timer.stopwatch || timer.startedAt === undefined) return timer.remaining;
+  return Math.max(0, timer.remaining - (now - timer.startedAt));
+}
+
 // Helper function to format time for display
 export function formatTime(ms: number): string {
   const totalSeconds = Math.floor(ms / 1000);
@@ -0,0 +1,62 @@
+// Mirrors pomodoroPhaseValidator in convex/schema.ts
+export type PomodoroPhase = "focus" | "shortBreak" | "longBreak"
+
+export interface PomodoroSettings {
+  focusDuration: number // milliseconds
+  shortBreakDuration: number // milliseconds
+  longBreakDuration: number // milliseconds
+  longBreakEvery: number // focus phases before each long break
+  autoAdvance: boolean // start the next phase without asking
+}
+
+// Mirrors pomodoroValidator in convex/schema.ts
+export interface Pomodoro extends PomodoroSettings {
+  phase: PomodoroPhase
+  cycle: number // 1-based focus phase within the current set
+}
+
+// Mirrors MAX_LONG_BREAK_EVERY in convex/timers.ts
+export const MAX_LONG_BREAK_EVERY = 12
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusDuration: 25 * 60 * 1000,
+  shortBreakDuration: 5 * 60 * 1000,
+  longBreakDuration: 15 * 60 * 1000,
+  longBreakEvery: 4,
+  autoAdvance: true,
+}
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+}
+
+// Plain countdowns count as focus time too; only breaks don't
+export function isFocusPhase(phase?: PomodoroPhase): boolean {
+  return !phase || phase === "focus"
+}
+
+export function startPomodoro(settings: PomodoroSettings): Pomodoro {
+  return { ...settings, phase: "focus", cycle: 1 }
+}
+
+export function getPomodoroSettings({ phase: _phase, cycle: _cycle, ...settings }: Pomodoro): PomodoroSettings {
+  return settings
+}
+
+export function getPhaseDuration(settings: PomodoroSettings, phase: PomodoroPhase): number {
+  if (phase === "focus") return settings.focusDuration
+  return phase === "shortBreak" ? settings.shortBreakDuration : settings.longBreakDuration
+}
+
+/**
+ * The phase after the current one. Mirrors advancePomodoro in convex/timers.ts: a break
+ * after each focus phase, long after the last one of a set, then the next focus phase.
+ */
+export function advancePomodoro(pomodoro: Pomodoro): Pomodoro {
+  if (pomodoro.phase === "focus") {
+    return { ...pomodoro, phase: pomodoro.cycle >= pomodoro.longBreakEvery ? "longBreak" : "shortBreak" }
+  }
+  return { ...pomodoro, phase: "focus", cycle: pomodoro.phase === "longBreak" ? 1 : pomodoro.cycle + 1 }
+}
@@ -0,0 +1,32 @@
+import { formatTime } from "@/lib/local-storage"
+
+// Mirrors timerPresetModeValidator in convex/schema.ts
+export type TimerPresetMode = "pomodoro" | "stopwatch"
+
+export interface TimerPreset {
+  id: string
+  name: string
+  duration: number // milliseconds; the focus length for a pomodoro
+  mode?: TimerPresetMode // missing for a plain countdown
+  createdAt: number
+}
+
+// Mirrors timerQueueItemValidator in convex/schema.ts
+export interface TimerQueueItem {
+  id: string
+  name: string
+  duration: number // milliseconds
+}
+
+// Mirrors MAX_PRESETS_PER_USER in convex/timerPresets.ts and MAX_QUEUE_LENGTH in convex/timers.ts
+export const MAX_PRESETS = 50
+export const MAX_QUEUE_LENGTH = 50
+
+// Presets 1-9 can be started with their number key
+export const PRESET_SHORTCUT_COUNT = 9
+
+export function describePreset(preset: TimerPreset): string {
+  if (preset.mode === "stopwatch") return "Stopwatch"
+  const length = formatTime(preset.duration)
+  return preset.mode === "pomodoro" ? `${length} pomodoro` : length
+}
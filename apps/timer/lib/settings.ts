@@ -0,0 +1,115 @@
+import { DEFAULT_POMODORO_SETTINGS, type PomodoroSettings } from "@/lib/pomodoro"
+import { DEFAULT_ALERT_SETTINGS, type AlertSettings } from "@/lib/alerts"
+
+export type Theme = "light" | "dark" | "system"
+
+export interface GeneralSettings {
+  theme: Theme
+  focusMode: boolean
+}
+
+// What a new pomodoro starts with and how a finished timer is announced
+export type TimerSettings = PomodoroSettings & AlertSettings
+
+// The sections this app reads; mirrors the userSettings table in convex/schema.ts
+export interface Settings {
+  general: GeneralSettings
+  timer: TimerSettings
+}
+
+export interface SettingsUpdate {
+  general?: Partial<GeneralSettings>
+  timer?: Partial<TimerSettings>
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: { theme: "system", focusMode: false },
+  timer: { ...DEFAULT_POMODORO_SETTINGS, ...DEFAULT_ALERT_SETTINGS },
+}
+
+export const THEME_OPTIONS: Array<{ value: Theme; label: string }> = [
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+  { value: "system", label: "System" },
+]
+
+// Mirrors SETTINGS_VERSION in convex/userSettings.ts
+const SETTINGS_VERSION = 1
+const STORAGE_KEY = "settings"
+// Keys used before preferences were grouped into settings
+const LEGACY_FOCUS_MODE_KEY = "focusMode"
+const LEGACY_THEME_KEY = "theme" // Written by next-themes
+const LEGACY_POMODORO_SETTINGS_KEY = "timer-pomodoro-settings"
+const LEGACY_ALERT_SETTINGS_KEY = "timer-alert-settings"
+
+function isTheme(value: unknown): value is Theme {
+  return THEME_OPTIONS.some((option) => option.value === value)
+}
+
+export function mergeSettings(settings: Settings, update: SettingsUpdate): Settings {
+  return {
+    general: { ...settings.general, ...update.general },
+    timer: { ...settings.timer, ...update.timer },
+  }
+}
+
+export function getDefaultPomodoroSettings(settings: TimerSettings): PomodoroSettings {
+  const { focusDuration, shortBreakDuration, longBreakDuration, longBreakEvery, autoAdvance } = settings
+  return { focusDuration, shortBreakDuration, longBreakDuration, longBreakEvery, autoAdvance }
+}
+
+function loadLegacyTimerSettings(): TimerSettings {
+  const pomodoro = localStorage.getItem(LEGACY_POMODORO_SETTINGS_KEY)
+  const alerts = localStorage.getItem(LEGACY_ALERT_SETTINGS_KEY)
+  return {
+    ...DEFAULT_SETTINGS.timer,
+    ...(pomodoro ? JSON.parse(pomodoro) : {}),
+    ...(alerts ? JSON.parse(alerts) : {}),
+  }
+}
+
+/**
+ * Settings saved on this device: the only copy for anonymous users and a cache of the
+ * synced copy for signed-in users.
+ */
+export function loadLocalSettings(): Settings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as SettingsUpdate & { version?: number }
+      return {
+        general: {
+          theme: isTheme(parsed.general?.theme) ? parsed.general.theme : DEFAULT_SETTINGS.general.theme,
+          focusMode: parsed.general?.focusMode ?? DEFAULT_SETTINGS.general.focusMode,
+        },
+        timer: parsed.timer ? { ...DEFAULT_SETTINGS.timer, ...parsed.timer } : loadLegacyTimerSettings(),
+      }
+    }
+
+    const legacyTheme = localStorage.getItem(LEGACY_THEME_KEY)
+    return {
+      general: {
+        theme: isTheme(legacyTheme) ? legacyTheme : DEFAULT_SETTINGS.general.theme,
+        focusMode: localStorage.getItem(LEGACY_FOCUS_MODE_KEY) === "true",
+      },
+      timer: loadLegacyTimerSettings(),
+    }
+  } catch (error) {
+    console.error("Failed to load settings from localStorage:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveLocalSettings(settings: Settings): void {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }))
+    localStorage.removeItem(LEGACY_FOCUS_MODE_KEY)
+    localStorage.removeItem(LEGACY_POMODORO_SETTINGS_KEY)
+    localStorage.removeItem(LEGACY_ALERT_SETTINGS_KEY)
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,26 @@
+import type { CurrentTimer } from "@/lib/local-storage"
+
+// Mirrors stopwatchValidator in convex/schema.ts
+export interface Stopwatch {
+  elapsed: number // milliseconds counted when last started or paused
+  laps: number[] // split times, milliseconds since the stopwatch started
+}
+
+// Mirrors MAX_LAPS in convex/timers.ts
+export const MAX_LAPS = 99
+
+export function startStopwatch(): Stopwatch {
+  return { elapsed: 0, laps: [] }
+}
+
+// Time counted at `now`, counting up from startedAt while it runs
+export function getElapsed(timer: CurrentTimer, now: number): number {
+  if (!timer.stopwatch) return 0
+  if (timer.startedAt === undefined) return timer.stopwatch.elapsed
+  return timer.stopwatch.elapsed + Math.max(0, now - timer.startedAt)
+}
+
+// Length of each lap from its split times
+export function getLapLengths(laps: number[]): number[] {
+  return laps.map((split, index) => split - (index > 0 ? laps[index - 1] : 0))
+}
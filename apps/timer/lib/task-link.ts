@@ -0,0 +1,25 @@
+import type { Id } from "@/convex/_generated/dataModel"
+
+// Mirrors timerTaskValidator in convex/schema.ts
+export interface TimerTask {
+  clientId: string // Task clientId, the same on every device
+  id?: Id<"tasks"> // Convex task id, set when the task is synced
+  title: string
+}
+
+/**
+ * The todo task in a link from the todo app (`?task=<clientId>&taskId=<id>&title=<title>`),
+ * or null when the page was opened without one.
+ */
+export function parseTaskLink(search: string): TimerTask | null {
+  const params = new URLSearchParams(search)
+  const clientId = params.get("task")
+  if (!clientId) return null
+
+  const id = params.get("taskId")
+  return {
+    clientId,
+    ...(id && { id: id as Id<"tasks"> }),
+    title: (params.get("title") ?? "").slice(0, 200),
+  }
+}
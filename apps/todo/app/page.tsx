@@ -1,13 +1,13 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { ChevronDown, Eye, EyeOff, Plus, Trash2, X, Square } from "lucide-react"
 import { AnimatePresence } from "framer-motion"
-import { useMutation } from "convex/react"
+import { useMutation, useQuery } from "convex/react"
 import { api } from "@/convex/_generated/api"
-import { useSession, signOut } from "@/lib/auth-client"
+import { useSession } from "@/lib/auth-client"
 import { Doc, Id } from "@/convex/_generated/dataModel"
-import { useTasks, clearCachedTasks } from "@/lib/convex-query-adapter"
+import { useTasks, useTags, clearCachedTasks } from "@/lib/convex-query-adapter"
 import { TasksSkeleton } from "@/components/tasks-skeleton"
 import {
   loadLocalTasks,
@@ -17,18 +17,46 @@ import {
   removeDeletedTask,
   clearLocalTasks,
   ensureLocalTask,
+  loadLocalTags,
+  saveLocalTags,
+  clearLocalTags,
 } from "@/lib/local-storage";
+import { buildNextOccurrence, projectUpcomingOccurrences, type RecurrenceRule } from "@/lib/recurrence"
+import { compareTaskOrder, generateOrderKeyBetween, getTaskOrderKey } from "@/convex/ordering"
+import {
+  EMPTY_TASK_FILTER,
+  matchesTaskFilter,
+  resolveLocalTags,
+  type Tag,
+  type TaskFilter,
+} from "@/lib/tags"
 import { TaskForm } from "@/components/task-form"
 import { TaskSection } from "@/components/task-section"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { SignInDialog } from "@/components/sign-in-dialog"
+import { AuthButton } from "@/components/auth-button"
+import { useSettings } from "@/components/settings-provider"
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog"
 import { Toaster } from "@/components/ui/toaster"
 import { useToast } from "@/components/ui/use-toast"
 import { ToastAction } from "@/components/ui/toast"
 import { ColorPicker } from "@/components/color-picker"
+import { TaskFilterMenu } from "@/components/task-filter-menu"
+import { OverduePolicyMenu } from "@/components/overdue-policy-menu"
+import {
+  isOverdue,
+  loadLocalOverduePolicy,
+  rolloverLocalTasks,
+  saveLocalOverduePolicy,
+  type OverduePolicy,
+} from "@/lib/overdue"
 import { ErrorBoundary } from "@/components/error-boundary"
 
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
 export interface Task {
   id: string;
   clientId: string;
@@ -40,6 +68,13 @@ export interface Task {
   completed: boolean;
   createdAt: number;
   updatedAt: number;
+  recurrence?: RecurrenceRule;
+  recurrenceSeriesId?: string; // clientId of the first task in the series
+  recurrenceIndex?: number; // 1-based position in the series
+  order?: string; // Fractional order key; derived from createdAt until the task is reordered
+  subtasks?: Subtask[];
+  tagIds?: string[]; // Tag ids: Convex IDs once synced, local clientIds before
+  postponeCount?: number; // Times the task was rolled over from a past day
   section?: string; // Legacy field for older local tasks
 }
 
@@ -92,24 +127,50 @@ function getDayInfo(daysFromNow: number) {
   }
 }
 
+// Manual order first, then completed tasks sink to the bottom of their day
+function sortSectionTasks(sectionTasks: Task[]): Task[] {
+  return sectionTasks
+    .slice()
+    .sort(compareTaskOrder)
+    .sort((a, b) => (a.completed === b.completed ? 0 : a.completed ? 1 : -1));
+}
+
+// Only tags that exist in Convex can be sent to it; local-only tag ids are dropped
+function toConvexTagIds(tagIds: string[] | undefined, tags: Tag[]): Id<"tags">[] | undefined {
+  if (!tagIds) return undefined;
+  return tags
+    .filter((tag) => tag._id && tagIds.includes(tag.id))
+    .map((tag) => tag._id as Id<"tags">);
+}
+
 function createLocalTask(partial: {
   id?: string;
   clientId?: string;
   title: string;
   description: string;
   color: string;
+  dueDate?: string;
+  recurrence?: RecurrenceRule;
+  tagIds?: string[];
 }): Task {
   const now = Date.now();
+  const clientId = partial.clientId ?? crypto.randomUUID();
   return {
     id: partial.id ?? crypto.randomUUID(),
-    clientId: partial.clientId ?? crypto.randomUUID(),
+    clientId,
     title: partial.title,
     description: partial.description,
     color: partial.color,
-    dueDate: formatDate(new Date()), // Default to today
+    dueDate: partial.dueDate ?? formatDate(new Date()), // Default to today
     completed: false,
     createdAt: now,
     updatedAt: now,
+    ...(partial.recurrence && {
+      recurrence: partial.recurrence,
+      recurrenceSeriesId: clientId,
+      recurrenceIndex: 1,
+    }),
+    ...(partial.tagIds && partial.tagIds.length > 0 && { tagIds: partial.tagIds }),
   };
 }
 
@@ -169,7 +230,10 @@ export default function Home() {
   const [draggingTaskSection, setDraggingTaskSection] = useState<string | null>(null)
   const [hoveredSection, setHoveredSection] = useState<string | null>(null)
   const [isFormOpen, setIsFormOpen] = useState(true)
-  const [showCompleted, setShowCompleted] = useState(true)
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(EMPTY_TASK_FILTER)
+  const [localTags, setLocalTags] = useState<Tag[]>([])
+  const [localOverduePolicy, setLocalOverduePolicy] = useState<OverduePolicy>("rollover")
+  const [overduePromptDismissedOn, setOverduePromptDismissedOn] = useState<string | null>(null)
   const [, setSyncStatus] = useState<"local-only" | "syncing" | "synced" | "error">("local-only")
   const [hasInitialized, setHasInitialized] = useState(false)
   const [isMigrating, setIsMigrating] = useState(false)
@@ -185,13 +249,9 @@ export default function Home() {
   const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false)
 
-  // Focus mode state
-  const [isFocusMode, setIsFocusMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('focusMode') === 'true'
-    }
-    return false
-  })
+  // Focus mode is a synced setting
+  const { settings, updateSettings } = useSettings()
+  const isFocusMode = settings.general.focusMode
 
   // Auth state - using Better Auth session
   const { data: session, isPending } = useSession()
@@ -215,6 +275,8 @@ export default function Home() {
 
   // Use the new adapter hook that combines Convex realtime with TanStack Query caching
   const { tasks: tasksFromAdapter, isLoading: isLoadingTasks, isRealtime } = useTasks(sessionUserIdentifier)
+  const { tags: tagsFromAdapter } = useTags(sessionUserIdentifier)
+  const tags = isAuthenticated ? tagsFromAdapter : localTags
 
   // Convex mutations
   const addTaskMutation = useMutation(api.tasks.addTask).withOptimisticUpdate(
@@ -235,6 +297,9 @@ export default function Home() {
         updatedAt: args.updatedAt ?? Date.now(),
         userEmail: "", // Will be set by server
         isDeleted: false,
+        recurrence: args.recurrence,
+        recurrenceSeriesId: args.recurrenceSeriesId,
+        recurrenceIndex: args.recurrenceIndex,
       };
       
       local.setQuery(api.tasks.getTasks, {}, [...tasks, optimisticTask]);
@@ -247,7 +312,12 @@ export default function Home() {
       
       const next = tasks.map((task: Doc<"tasks">) => 
         task._id === args.taskId 
-          ? { ...task, ...args, updatedAt: Date.now() }
+          ? {
+              ...task,
+              ...args,
+              recurrence: args.recurrence === null ? undefined : args.recurrence ?? task.recurrence,
+              updatedAt: Date.now(),
+            }
           : task
       );
       
@@ -263,29 +333,79 @@ export default function Home() {
       local.setQuery(api.tasks.getTasks, {}, next);
     }
   );
+  const reorderTasksMutation = useMutation(api.tasks.reorderTasks).withOptimisticUpdate(
+    (local, args) => {
+      const tasks = local.getQuery(api.tasks.getTasks, {});
+      if (tasks === undefined) return;
+
+      const next = tasks.map((task: Doc<"tasks">) =>
+        task._id === args.taskId
+          ? { ...task, order: args.order, updatedAt: Date.now() }
+          : task
+      );
+
+      local.setQuery(api.tasks.getTasks, {}, next);
+    }
+  );
   const restoreTaskMutation = useMutation(api.tasks.restoreTask);
   const permanentlyDeleteTaskMutation = useMutation(api.tasks.permanentlyDeleteTask)
   const syncLocalTasksMutation = useMutation(api.tasks.syncLocalTasks)
+  const createTagMutation = useMutation(api.tags.createTag)
+  const deleteTagMutation = useMutation(api.tags.deleteTag)
+  const syncLocalTagsMutation = useMutation(api.tags.syncLocalTags)
+  const focusTimes = useQuery(api.timers.getFocusTimeByTask, isAuthenticated ? {} : "skip")
+  const focusTimeByTask = useMemo(
+    () => new Map((focusTimes ?? []).map(({ taskClientId, duration }) => [taskClientId, duration])),
+    [focusTimes]
+  )
+  const userSettings = useQuery(api.userSettings.getSettings)
+  // undefined while loading, null until the todo section has been saved
+  const todoSettings = userSettings === undefined ? undefined : userSettings?.todo ?? null
+  const updateSettingsMutation = useMutation(api.userSettings.updateSettings).withOptimisticUpdate(
+    (local, args) => {
+      const current = local.getQuery(api.userSettings.getSettings, {});
+      if (!current?.todo || !args.todo) return;
+      local.setQuery(api.userSettings.getSettings, {}, {
+        ...current,
+        todo: {
+          overduePolicy: args.todo.overduePolicy ?? current.todo.overduePolicy,
+          timeZone: args.todo.timeZone ?? current.todo.timeZone,
+        },
+      });
+    }
+  );
+  const rolloverOverdueTasksMutation = useMutation(api.overdue.rolloverOverdueTasks).withOptimisticUpdate(
+    (local) => {
+      const tasks = local.getQuery(api.tasks.getTasks, {});
+      if (tasks === undefined) return;
+
+      const today = formatDate(new Date());
+      const next = tasks.map((task: Doc<"tasks">) =>
+        !task.completed && task.dueDate < today
+          ? { ...task, dueDate: today, postponeCount: (task.postponeCount ?? 0) + 1, updatedAt: Date.now() }
+          : task
+      );
+      local.setQuery(api.tasks.getTasks, {}, next);
+    }
+  );
+  const overduePolicy: OverduePolicy = isAuthenticated
+    ? todoSettings?.overduePolicy ?? localOverduePolicy
+    : localOverduePolicy
   
   // Toast hook
   const { toast } = useToast()
 
-  // Focus mode persistence
-  useEffect(() => {
-    localStorage.setItem('focusMode', isFocusMode.toString())
-  }, [isFocusMode])
-
   // Focus mode keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
-        setIsFocusMode(prev => !prev)
+        updateSettings({ general: { focusMode: !isFocusMode } })
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isFocusMode, updateSettings])
 
   // Track previous tasks serialization to detect actual changes
   const prevTasksSerializedRef = useRef<string | null>(null);
@@ -342,6 +462,13 @@ export default function Home() {
           completed: t.completed,
           createdAt: t.createdAt,
           updatedAt: t.updatedAt,
+          recurrence: t.recurrence,
+          recurrenceSeriesId: t.recurrenceSeriesId,
+          recurrenceIndex: t.recurrenceIndex,
+          order: t.order,
+          subtasks: t.subtasks,
+          tagIds: t.tagIds,
+          postponeCount: t.postponeCount,
         }))
       );
         
@@ -371,9 +498,13 @@ export default function Home() {
         saveLocalTasks(normalized);
         setTasks(normalized);
       }
+      if (tagsFromAdapter.length > 0) {
+        saveLocalTags(tagsFromAdapter);
+        setLocalTags(tagsFromAdapter);
+      }
     }
     prevAuthStateRef.current = isAuthenticated;
-  }, [isAuthenticated, tasksFromAdapter, tasks]);
+  }, [isAuthenticated, tasksFromAdapter, tagsFromAdapter, tasks]);
 
   // Initialize app with local-first logic
   useEffect(() => {
@@ -383,7 +514,9 @@ export default function Home() {
     if (isLoading) return // Wait for auth to load
     
     // Only load local tasks if not authenticated (to avoid overriding Convex data)
+    setLocalOverduePolicy(loadLocalOverduePolicy())
     if (!isAuthenticated) {
+      setLocalTags(loadLocalTags())
       const localTasks = loadLocalTasks().map(ensureLocalTask)
       // If no tasks, show onboarding tasks
       if (localTasks.length === 0) {
@@ -405,7 +538,8 @@ export default function Home() {
     }
 
     const localTasks = loadLocalTasks();
-    if (localTasks.length === 0) {
+    const pendingLocalTags = loadLocalTags();
+    if (localTasks.length === 0 && pendingLocalTags.length === 0) {
       setIsMigrating(false);
       setPendingMigrationCount(0);
       setMigrationError(null);
@@ -418,7 +552,7 @@ export default function Home() {
     setPendingMigrationCount(localTasks.length);
     setMigrationError(null);
 
-    const normalizedTasks = localTasks.map((task) => {
+    const normalizeTasks = (tagIdMapping: Record<string, Id<"tags">>) => localTasks.map((task) => {
       let dueDate: string;
       if (task.section && task.section.startsWith("day-")) {
         const daysFromNow = parseInt(task.section.replace("day-", ""));
@@ -438,13 +572,41 @@ export default function Home() {
         completed: task.completed,
         createdAt: task.createdAt,
         updatedAt: task.updatedAt,
+        recurrence: task.recurrence,
+        recurrenceSeriesId: task.recurrenceSeriesId,
+        recurrenceIndex: task.recurrenceIndex,
+        order: task.order,
+        subtasks: task.subtasks,
+        tagIds: task.tagIds
+          ?.map((tagId) => tagIdMapping[tagId])
+          .filter((tagId): tagId is Id<"tags"> => Boolean(tagId)),
+        postponeCount: task.postponeCount,
       };
     });
 
-    syncLocalTasksMutation({ tasks: normalizedTasks })
+    // Tags go first so tasks can be remapped to their Convex tag IDs
+    syncLocalTagsMutation({
+      tags: pendingLocalTags.map((tag) => ({
+        clientId: tag.clientId,
+        name: tag.name,
+        color: tag.color,
+        createdAt: tag.createdAt,
+        updatedAt: tag.updatedAt,
+      })),
+    })
+      .then((clientIdMapping) => {
+        // Tasks reference local tags by id, which may differ from clientId once synced before
+        const tagIdMapping: Record<string, Id<"tags">> = {};
+        for (const tag of pendingLocalTags) {
+          const convexId = clientIdMapping[tag.clientId];
+          if (convexId) tagIdMapping[tag.id] = convexId;
+        }
+        return syncLocalTasksMutation({ tasks: normalizeTasks(tagIdMapping) });
+      })
       .then(() => {
         if (cancelled) return;
         clearLocalTasks();
+        clearLocalTags();
         setIsMigrating(false);
         setPendingMigrationCount(0);
         setSyncStatus("synced");
@@ -471,92 +633,115 @@ export default function Home() {
     hasInitialized,
     sessionUserIdentifier,
     syncLocalTasksMutation,
+    syncLocalTagsMutation,
     toast,
     manualSyncTrigger,
   ]);
 
-  // Overdue task migration - runs when date changes (midnight detection)
+  // Register the user's time zone so the server rolls tasks over at their midnight.
+  // The first time, the policy chosen while signed out comes along.
   useEffect(() => {
-    if (!hasInitialized) return;
-    
-    const checkAndMigrateOverdueTasks = async () => {
-      const today = formatDate(new Date());
-      const lastChecked = localStorage.getItem('lastTaskDateCheck');
-      
-      // Only run if date changed
-      if (lastChecked === today) return;
-      
-      // Find overdue uncompleted tasks
-      const overdueTasks = tasks.filter(t => 
-        !t.completed && t.dueDate < today
-      );
-      
-      if (overdueTasks.length > 0) {
-        const isAuthenticatedUser = isAuthenticated;
-        
-        // Update tasks to today's date
-        const updatedTasks = tasks.map(task => {
-          if (overdueTasks.some(ot => ot.id === task.id)) {
-            return { ...task, dueDate: today, updatedAt: Date.now() };
-          }
-          return task;
+    if (!isAuthenticated || todoSettings === undefined) return;
+
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (todoSettings && todoSettings.timeZone === timeZone) return;
+
+    updateSettingsMutation({
+      todo: {
+        timeZone,
+        ...(todoSettings === null && { overduePolicy: loadLocalOverduePolicy() }),
+      },
+    }).catch((error) => {
+      console.error("Failed to save time zone:", error);
+    });
+  }, [isAuthenticated, todoSettings, updateSettingsMutation]);
+
+  // Signed-out users roll overdue tasks over on this device; signed-in users are handled by the server cron
+  useEffect(() => {
+    if (!hasInitialized || isAuthenticated || overduePolicy !== "rollover") return;
+
+    const rolloverOverdueTasks = () => {
+      const { tasks: updatedTasks, moved } = rolloverLocalTasks(tasks, formatDate(new Date()));
+      if (moved === 0) return;
+
+      setTasks(updatedTasks);
+      saveLocalTasks(updatedTasks);
+      toast({
+        title: "Overdue tasks moved",
+        description: `${moved} overdue task${moved !== 1 ? 's' : ''} moved to today`,
+        duration: 5000
+      });
+    };
+
+    rolloverOverdueTasks();
+
+    // Check on window focus (when user returns to app after midnight)
+    window.addEventListener('focus', rolloverOverdueTasks);
+    return () => window.removeEventListener('focus', rolloverOverdueTasks);
+  }, [hasInitialized, isAuthenticated, overduePolicy, tasks, toast]);
+
+  const changeOverduePolicy = useCallback(async (policy: OverduePolicy) => {
+    setLocalOverduePolicy(policy);
+    saveLocalOverduePolicy(policy);
+
+    if (isAuthenticated) {
+      try {
+        await updateSettingsMutation({
+          todo: {
+            overduePolicy: policy,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
         });
-        
-        setTasks(updatedTasks);
-        
-        // Sync to Convex if authenticated
-        if (isAuthenticatedUser) {
-          try {
-            setSyncStatus("syncing");
-            for (const task of overdueTasks) {
-              if (task._id) {
-                await updateTaskMutation({
-                  taskId: task._id,
-                  dueDate: today,
-                });
-              }
-            }
-            setSyncStatus("synced");
-          } catch (error) {
-            console.error("Failed to sync overdue task migration:", error);
-            setSyncStatus("error");
-            toast({
-              title: "Sync Error",
-              description: "Failed to sync overdue tasks to cloud.",
-              variant: "destructive",
-            });
-          }
-        } else {
-          // Save to localStorage if not authenticated
-          saveLocalTasks(updatedTasks);
-        }
-        
-        // Show notification
+      } catch (error) {
+        console.error("Failed to save overdue policy:", error);
         toast({
-          title: "Overdue tasks moved",
-          description: `${overdueTasks.length} overdue task${overdueTasks.length !== 1 ? 's' : ''} moved to today`,
-          duration: 5000
+          title: "Sync Error",
+          description: "Failed to save overdue setting.",
+          variant: "destructive",
         });
       }
-      
-      // Update last checked date
-      localStorage.setItem('lastTaskDateCheck', today);
-    };
-    
-    checkAndMigrateOverdueTasks();
-    
-    // Check on window focus (when user returns to app after midnight)
-    const handleFocus = () => {
-      checkAndMigrateOverdueTasks();
-    };
-    
-    window.addEventListener('focus', handleFocus);
-    return () => window.removeEventListener('focus', handleFocus);
-  }, [hasInitialized, tasks, isAuthenticated, updateTaskMutation, toast]);
+    }
+  }, [isAuthenticated, updateSettingsMutation, toast])
+
+  const moveOverdueTasksToToday = useCallback(async () => {
+    if (isAuthenticated) {
+      try {
+        // One server call moves every overdue task; optimistic update moves them right away
+        await rolloverOverdueTasksMutation({});
+      } catch (error) {
+        console.error("Failed to move overdue tasks:", error);
+        toast({
+          title: "Sync Error",
+          description: "Failed to move overdue tasks.",
+          variant: "destructive",
+        });
+      }
+    } else {
+      setTasks((prev) => {
+        const { tasks: next } = rolloverLocalTasks(prev, formatDate(new Date()));
+        saveLocalTasks(next);
+        return next;
+      });
+    }
+  }, [isAuthenticated, rolloverOverdueTasksMutation, toast])
 
   const addTask = useCallback(
-    async (task: Omit<Task, "id" | "clientId" | "dueDate" | "completed" | "createdAt" | "updatedAt" | "_id">) => {
-      const localTask = createLocalTask(task);
+    async ({
+      tagNames = [],
+      ...task
+    }: Omit<Task, "id" | "clientId" | "dueDate" | "completed" | "createdAt" | "updatedAt" | "_id"> & {
+      dueDate?: string;
+      tagNames?: string[];
+    }) => {
+      let localTask = createLocalTask(task);
+
+      if (!isAuthenticated && tagNames.length > 0) {
+        // Local-only mode: `#tag` names become local tags
+        const resolved = resolveLocalTags(tagNames, localTags);
+        localTask = { ...localTask, tagIds: resolved.tagIds };
+        setLocalTags(resolved.tags);
+        saveLocalTags(resolved.tags);
+      }
 
       if (isAuthenticated) {
         try {
@@ -570,6 +755,11 @@ export default function Home() {
             completed: localTask.completed,
             createdAt: localTask.createdAt,
             updatedAt: localTask.updatedAt,
+            recurrence: localTask.recurrence,
+            recurrenceSeriesId: localTask.recurrenceSeriesId,
+            recurrenceIndex: localTask.recurrenceIndex,
+            tagIds: toConvexTagIds(localTask.tagIds, tags),
+            tagNames,
           });
           // No need to manually update state - query will update via real-time subscription
         } catch (error) {
@@ -595,12 +785,69 @@ export default function Home() {
         });
       }
     },
-    [isAuthenticated, addTaskMutation, toast]
+    [isAuthenticated, addTaskMutation, toast, localTags, tags]
   );
 
+  const createTag = useCallback(async (name: string): Promise<string | null> => {
+    if (isAuthenticated) {
+      try {
+        return await createTagMutation({ name });
+      } catch (error) {
+        console.error("Failed to create tag:", error);
+        toast({
+          title: "Sync Error",
+          description: error instanceof Error ? error.message : "Failed to create tag.",
+          variant: "destructive",
+        });
+        return null;
+      }
+    }
+
+    const resolved = resolveLocalTags([name], localTags);
+    setLocalTags(resolved.tags);
+    saveLocalTags(resolved.tags);
+    return resolved.tagIds[0] ?? null;
+  }, [isAuthenticated, createTagMutation, localTags, toast])
+
+  const deleteTag = useCallback(async (tagId: string) => {
+    // Deleted tags drop out of the active filter too
+    setTaskFilter((prev) => ({ ...prev, tagIds: prev.tagIds.filter((id) => id !== tagId) }));
+
+    if (isAuthenticated) {
+      const tag = tags.find((candidate) => candidate.id === tagId);
+      if (!tag?._id) return;
+      try {
+        await deleteTagMutation({ tagId: tag._id });
+      } catch (error) {
+        console.error("Failed to delete tag:", error);
+        toast({
+          title: "Sync Error",
+          description: "Failed to delete tag.",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    const nextTags = localTags.filter((tag) => tag.id !== tagId);
+    setLocalTags(nextTags);
+    saveLocalTags(nextTags);
+    setTasks((prev) => {
+      const next = prev.map((task) =>
+        task.tagIds?.includes(tagId)
+          ? { ...task, tagIds: task.tagIds.filter((id) => id !== tagId) }
+          : task
+      );
+      saveLocalTasks(next);
+      return next;
+    });
+  }, [isAuthenticated, deleteTagMutation, localTags, tags, toast])
+
   const updateTaskOrder = useCallback(
     async (dueDate: string, newOrder: Task[]) => {
-      const prevDateTasks = tasks.filter((t) => t.dueDate === dueDate);
+      const prevDateTasks = sortSectionTasks(
+        tasks.filter((t) => t.dueDate === dueDate && newOrder.some((task) => task.id === t.id))
+      );
       const newOrderIds = newOrder.map((task) => task.id);
       const prevIds = prevDateTasks.map((task) => task.id);
 
@@ -612,14 +859,27 @@ export default function Home() {
         return;
       }
 
-      setTasks((prev) => {
-        const otherDateTasks = prev.filter((t) => t.dueDate !== dueDate);
-
-        const reordered = newOrderIds
-          .map((id) => prev.find((task) => task.id === id))
-          .filter((task): task is Task => Boolean(task));
+      // A drag moves one task: it is at one end of the range where the two orders differ
+      const first = newOrderIds.findIndex((id, index) => id !== prevIds[index]);
+      if (first === -1) {
+        return;
+      }
+      let last = newOrderIds.length - 1;
+      while (newOrderIds[last] === prevIds[last]) last--;
+
+      const movedIndex = newOrderIds[last] === prevIds[first] ? last : first;
+      const movedTask = newOrder[movedIndex];
+      const before = newOrder[movedIndex - 1];
+      const after = newOrder[movedIndex + 1];
+      const order = generateOrderKeyBetween(
+        before ? getTaskOrderKey(before) : null,
+        after ? getTaskOrderKey(after) : null,
+      );
 
-        const next = [...otherDateTasks, ...reordered];
+      setTasks((prev) => {
+        const next = prev.map((task) =>
+          task.id === movedTask.id ? { ...task, order, updatedAt: Date.now() } : task
+        );
 
         if (!isAuthenticated) {
           saveLocalTasks(next);
@@ -628,17 +888,13 @@ export default function Home() {
         return next;
       });
 
-      if (isAuthenticated) {
+      if (isAuthenticated && movedTask._id) {
         try {
-          // Optimistic updates happen automatically via withOptimisticUpdate
-          for (const task of newOrder) {
-            if (task._id) {
-              await updateTaskMutation({
-                taskId: task._id,
-                dueDate,
-              });
-            }
-          }
+          // Only the moved task is written; optimistic update keeps the list sorted
+          await reorderTasksMutation({
+            taskId: movedTask._id,
+            order,
+          });
         } catch (error) {
           console.error("Failed to sync task order:", error);
           toast({
@@ -649,10 +905,15 @@ export default function Home() {
         }
       }
     },
-    [isAuthenticated, updateTaskMutation, toast, tasks]
+    [isAuthenticated, reorderTasksMutation, toast, tasks]
   );
 
   const moveTaskToSection = useCallback(async (taskId: string, targetDueDate: string) => {
+    // Only day sections are drop targets; the Overdue section is not a date
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(targetDueDate)) {
+      return;
+    }
+
     // Find the task before updating state to avoid async issues
     const taskToMove = tasks.find(task => task.id === taskId);
     if (!taskToMove) {
@@ -686,6 +947,13 @@ export default function Home() {
           completed: taskToMove.completed,
           createdAt: taskToMove.createdAt,
             updatedAt: Date.now(),
+          recurrence: taskToMove.recurrence,
+          recurrenceSeriesId: taskToMove.recurrenceSeriesId,
+          recurrenceIndex: taskToMove.recurrenceIndex,
+          order: taskToMove.order,
+          subtasks: taskToMove.subtasks,
+          tagIds: toConvexTagIds(taskToMove.tagIds, tags),
+          postponeCount: taskToMove.postponeCount,
           })
         } catch (error) {
           console.error("Failed to sync new task move:", error)
@@ -709,7 +977,7 @@ export default function Home() {
         return next
       })
     }
-  }, [isAuthenticated, updateTaskMutation, toast, addTaskMutation, tasks])
+  }, [isAuthenticated, updateTaskMutation, toast, addTaskMutation, tasks, tags])
 
   const toggleTaskCompletion = useCallback(async (taskId: string) => {
     // Find the task before updating state to avoid async issues
@@ -745,6 +1013,13 @@ export default function Home() {
           completed: !taskToToggle.completed,
           createdAt: taskToToggle.createdAt,
           updatedAt: taskToToggle.updatedAt,
+          recurrence: taskToToggle.recurrence,
+          recurrenceSeriesId: taskToToggle.recurrenceSeriesId,
+          recurrenceIndex: taskToToggle.recurrenceIndex,
+          order: taskToToggle.order,
+          subtasks: taskToToggle.subtasks,
+          tagIds: toConvexTagIds(taskToToggle.tagIds, tags),
+          postponeCount: taskToToggle.postponeCount,
           })
         } catch (error) {
           console.error("Failed to sync local task completion:", error)
@@ -757,6 +1032,8 @@ export default function Home() {
     } else {
       // Unauthenticated: use local state
       const toggledTask: Task = { ...taskToToggle, completed: !taskToToggle.completed };
+      // Completing a recurring task creates its next occurrence, like the server does
+      const nextOccurrence = toggledTask.completed ? buildNextOccurrence(toggledTask) : null;
       setTasks((prev) => {
         const next = prev.map((task) => {
           if (task.id === taskId) {
@@ -764,11 +1041,14 @@ export default function Home() {
           }
           return task
         })
+        if (nextOccurrence && !prev.some((task) => task.clientId === nextOccurrence.clientId)) {
+          next.push(nextOccurrence)
+        }
         saveLocalTasks(next)
         return next
       })
     }
-  }, [isAuthenticated, updateTaskMutation, toast, addTaskMutation, tasks])
+  }, [isAuthenticated, updateTaskMutation, toast, addTaskMutation, tasks, tags])
 
   const updateTask = useCallback(async (taskId: string, updates: Partial<Task>) => {
     const task = tasks.find(t => t.id === taskId)
@@ -777,9 +1057,13 @@ export default function Home() {
     if (isAuthenticated && task._id) {
       try {
         // Optimistic update happens automatically via withOptimisticUpdate
+        const { recurrence, tagIds, ...otherUpdates } = updates
         await updateTaskMutation({
           taskId: task._id,
-          ...updates,
+          ...otherUpdates,
+          ...(tagIds ? { tagIds: toConvexTagIds(tagIds, tags) } : {}),
+          // An explicit undefined recurrence means "stop repeating"
+          ...("recurrence" in updates ? { recurrence: recurrence ?? null } : {}),
         })
       } catch (error) {
         console.error("Failed to sync task update:", error)
@@ -806,6 +1090,13 @@ export default function Home() {
           completed: updatedTask.completed,
           createdAt: updatedTask.createdAt,
           updatedAt: updatedTask.updatedAt,
+          recurrence: updatedTask.recurrence,
+          recurrenceSeriesId: updatedTask.recurrenceSeriesId,
+          recurrenceIndex: updatedTask.recurrenceIndex,
+          order: updatedTask.order,
+          subtasks: updatedTask.subtasks,
+          tagIds: toConvexTagIds(updatedTask.tagIds, tags),
+          postponeCount: updatedTask.postponeCount,
         })
       } catch (error) {
         console.error("Failed to sync local task update:", error)
@@ -828,7 +1119,7 @@ export default function Home() {
         return next
       })
     }
-  }, [tasks, isAuthenticated, updateTaskMutation, toast, addTaskMutation])
+  }, [tasks, tags, isAuthenticated, updateTaskMutation, toast, addTaskMutation])
 
   const restoreTask = useCallback(async (taskId: string) => {
     // Clear timeout from React state
@@ -1310,7 +1601,18 @@ export default function Home() {
     setManualSyncTrigger((prev) => prev + 1);
   }, [])
 
+  const showCompleted = taskFilter.status !== "open"
   const sections = Array.from({ length: 30 }, (_, i) => getDayInfo(i))
+  // Upcoming occurrences of recurring tasks are projected for display only
+  const projectedTasks = projectUpcomingOccurrences(tasks, sections[sections.length - 1].key)
+    .filter((task) => matchesTaskFilter(task, taskFilter))
+  const today = sections[0].key
+  const allOverdueTasks = tasks.filter((task) => isOverdue(task, today))
+  // Oldest first; the cron empties this section for users on the "rollover" policy
+  const overdueTasks = sortSectionTasks(allOverdueTasks.filter((task) => matchesTaskFilter(task, taskFilter)))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+  const showOverduePrompt =
+    overduePolicy === "ask" && allOverdueTasks.length > 0 && overduePromptDismissedOn !== today && !isMigrating
 
   return (
     <ErrorBoundary
@@ -1358,21 +1660,12 @@ export default function Home() {
               }`}
             >
               <div className="flex items-center gap-2">
-                {session?.user ? (
-                    <button
-                      onClick={() => signOut()}
-                      className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm"
-                      disabled={isMigrating}
-                    >
-                      Sign out
-                    </button>
-                ) : (
-                  <SignInDialog>
-                    <button className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm">
-                      Sign in
-                    </button>
-                  </SignInDialog>
-                )}
+                <AuthButton disabled={isMigrating} />
+                <OverduePolicyMenu
+                  policy={overduePolicy}
+                  onChange={changeOverduePolicy}
+                  disabled={isMigrating}
+                />
                 <ThemeToggle />
               </div>
             </div>
@@ -1385,17 +1678,70 @@ export default function Home() {
             <TasksSkeleton />
           )}
 
-          {sections.map((dayInfo) => {
-            let sectionTasks = tasks.filter((t) => t.dueDate === dayInfo.key);
-            sectionTasks = sectionTasks
-              .slice()
-              .sort((a, b) => (a.completed === b.completed ? 0 : a.completed ? 1 : -1));
+          {showOverduePrompt && (
+            <div className="mt-6 rounded-lg border border-border bg-muted/30 p-3 text-sm font-mono flex items-center justify-between gap-3">
+              <span>
+                {allOverdueTasks.length} overdue task{allOverdueTasks.length === 1 ? "" : "s"}. Move to today?
+              </span>
+              <div className="flex items-center gap-3">
+                <button onClick={moveOverdueTasksToToday} className="underline underline-offset-4">
+                  Move to today
+                </button>
+                <button
+                  onClick={() => setOverduePromptDismissedOn(today)}
+                  className="text-muted-foreground underline underline-offset-4"
+                >
+                  Keep
+                </button>
+              </div>
+            </div>
+          )}
 
-            if (!showCompleted) {
-              sectionTasks = sectionTasks.filter((t) => !t.completed);
-            }
+          {overdueTasks.length > 0 && (
+            <TaskSection
+              title="Overdue"
+              tasks={overdueTasks}
+              section="overdue"
+              tags={tags}
+              focusTimeByTask={focusTimeByTask}
+              onCreateTag={createTag}
+              onReorder={() => {}}
+              onDragStart={(taskSection) => {
+                if (!isMigrating) {
+                  setIsDragging(true)
+                  setDraggingTaskSection(taskSection)
+                  setHoveredSection(null)
+                }
+              }}
+              onDragEnd={() => {
+                if (!isMigrating) {
+                  setIsDragging(false)
+                  setDraggingTaskSection(null)
+                  setHoveredSection(null)
+                }
+              }}
+              onMoveToSection={isMigrating ? () => {} : moveTaskToSection}
+              onToggleCompletion={isMigrating ? () => {} : toggleTaskCompletion}
+              onUpdateTask={isMigrating ? () => {} : updateTask}
+              onDelete={isMigrating ? () => {} : deleteTask}
+              shouldShow
+              isDragging={isDragging}
+              draggingTaskSection={draggingTaskSection}
+              hoveredSection={hoveredSection}
+              onSectionHover={setHoveredSection}
+              isSelectMode={isSelectMode}
+              selectedTaskIds={selectedTaskIds}
+              onSelect={handleTaskSelect}
+            />
+          )}
+
+          {sections.map((dayInfo) => {
+            const sectionTasks = sortSectionTasks(
+              tasks.filter((t) => t.dueDate === dayInfo.key && matchesTaskFilter(t, taskFilter))
+            );
+            const upcomingTasks = projectedTasks.filter((t) => t.dueDate === dayInfo.key);
 
-            const hasTasksOrIsTarget = sectionTasks.length > 0;
+            const hasTasksOrIsTarget = sectionTasks.length > 0 || upcomingTasks.length > 0;
             const shouldShow = dayInfo.daysFromNow === 0 || hasTasksOrIsTarget || isDragging;
 
             return (
@@ -1403,7 +1749,11 @@ export default function Home() {
                 key={dayInfo.key}
                 title={dayInfo.title}
                 tasks={sectionTasks}
+                upcomingTasks={upcomingTasks}
                 section={dayInfo.key}
+                tags={tags}
+                focusTimeByTask={focusTimeByTask}
+                onCreateTag={createTag}
                 onReorder={isMigrating ? () => {} : updateTaskOrder}
                 onDragStart={(taskSection) => {
                   if (!isMigrating) {
@@ -1488,17 +1838,27 @@ export default function Home() {
                   </button>
                 )}
               </div>
-              <button
-                onClick={() => setShowCompleted(!showCompleted)}
-                className={`rounded-lg border border-border p-2 pr-[0.75rem] hover:bg-accent transition-colors flex items-center gap-2 ${
-                  isSelectMode ? "hidden md:flex" : ""
-                }`}
-                aria-label="Toggle completed tasks visibility"
-                disabled={isMigrating}
-              >
-                {showCompleted ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
-                <span className="font-mono text-sm">{showCompleted ? "Hide" : "Show"} completed</span>
-              </button>
+              <div className={`flex items-center gap-2 ${isSelectMode ? "hidden md:flex" : ""}`}>
+                <TaskFilterMenu
+                  filter={taskFilter}
+                  tags={tags}
+                  onChange={setTaskFilter}
+                  onDeleteTag={deleteTag}
+                  disabled={isMigrating}
+                />
+                {/* Shortcut for the filter's status: switches between all and open tasks */}
+                <button
+                  onClick={() =>
+                    setTaskFilter((prev) => ({ ...prev, status: showCompleted ? "open" : "all" }))
+                  }
+                  className="rounded-lg border border-border p-2 pr-[0.75rem] hover:bg-accent transition-colors flex items-center gap-2"
+                  aria-label="Toggle completed tasks visibility"
+                  disabled={isMigrating}
+                >
+                  {showCompleted ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  <span className="font-mono text-sm">{showCompleted ? "Hide" : "Show"} completed</span>
+                </button>
+              </div>
             </div>
           </div>
         </div>
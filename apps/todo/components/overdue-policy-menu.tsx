@@ -0,0 +1,47 @@
+"use client"
+
+import { CalendarClock } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { OVERDUE_POLICIES, type OverduePolicy } from "@/lib/overdue"
+
+interface OverduePolicyMenuProps {
+  policy: OverduePolicy
+  onChange: (policy: OverduePolicy) => void
+  disabled?: boolean
+}
+
+export function OverduePolicyMenu({ policy, onChange, disabled = false }: OverduePolicyMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="rounded-lg border border-border p-2 hover:bg-accent transition-colors"
+          aria-label="Overdue tasks"
+          disabled={disabled}
+        >
+          <CalendarClock className="h-5 w-5" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 font-mono">
+        <DropdownMenuLabel className="text-xs">Overdue tasks</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={policy} onValueChange={(value) => onChange(value as OverduePolicy)}>
+          {OVERDUE_POLICIES.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value} className="text-sm">
+              <div>
+                <p>{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
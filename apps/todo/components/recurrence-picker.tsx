@@ -0,0 +1,131 @@
+"use client"
+
+import { Check, Repeat } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { describeRecurrence, getRecurrencePresets, type RecurrenceRule } from "@/lib/recurrence"
+import { cn } from "@/lib/utils"
+
+interface RecurrencePickerProps {
+  value?: RecurrenceRule
+  dueDate: string
+  onChange: (rule: RecurrenceRule | undefined) => void
+  onOpenChange?: (open: boolean) => void
+  align?: "start" | "center" | "end"
+  side?: "top" | "bottom" | "left" | "right"
+  trigger?: React.ReactNode
+  className?: string
+}
+
+function isSameRule(a: RecurrenceRule, b: RecurrenceRule): boolean {
+  return (
+    a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    a.monthDay === b.monthDay &&
+    a.setPosition === b.setPosition &&
+    (a.byWeekday ?? []).join(",") === (b.byWeekday ?? []).join(",")
+  )
+}
+
+export function RecurrencePicker({
+  value,
+  dueDate,
+  onChange,
+  onOpenChange,
+  align = "center",
+  side = "bottom",
+  trigger,
+  className,
+}: RecurrencePickerProps) {
+  const presets = getRecurrencePresets(dueDate)
+
+  // Changing the preset keeps the current end condition
+  const selectPreset = (rule: RecurrenceRule) => {
+    onChange({
+      ...rule,
+      ...(value?.count !== undefined && { count: value.count }),
+      ...(value?.until !== undefined && { until: value.until }),
+    })
+  }
+
+  const updateEnd = (end: { count?: number; until?: string }) => {
+    if (!value) return
+    // A series ends either after a count or on a date, never both
+    const rule: RecurrenceRule = { ...value }
+    delete rule.count
+    delete rule.until
+    onChange({ ...rule, ...end })
+  }
+
+  return (
+    <DropdownMenu onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        {trigger || (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className={cn("font-mono text-xs flex items-center gap-2", className)}
+          >
+            <Repeat className="h-3.5 w-3.5" />
+            {value ? describeRecurrence(value) : "Does not repeat"}
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} side={side} className="w-64 font-mono">
+        <DropdownMenuItem onClick={() => onChange(undefined)} className="text-sm">
+          <span className="flex-1">Does not repeat</span>
+          {!value && <Check className="h-3.5 w-3.5" />}
+        </DropdownMenuItem>
+        {presets.map((preset) => (
+          <DropdownMenuItem key={preset.label} onClick={() => selectPreset(preset.rule)} className="text-sm">
+            <span className="flex-1">{preset.label}</span>
+            {value && isSameRule(value, preset.rule) && <Check className="h-3.5 w-3.5" />}
+          </DropdownMenuItem>
+        ))}
+        {value && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs">Ends</DropdownMenuLabel>
+            {/* Stop key events so the menu's typeahead does not steal input focus */}
+            <div className="space-y-2 px-2 pb-2 text-xs" onKeyDown={(e) => e.stopPropagation()}>
+              <label className="flex items-center justify-between gap-2">
+                <span>After</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={value.count ?? ""}
+                  placeholder="∞"
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value, 10)
+                    updateEnd(Number.isNaN(count) ? {} : { count: Math.min(Math.max(count, 1), 1000) })
+                  }}
+                  className="w-16 rounded border border-border bg-transparent px-1 py-0.5 text-right"
+                />
+                <span>times</span>
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span>On</span>
+                <input
+                  type="date"
+                  min={dueDate}
+                  value={value.until ?? ""}
+                  onChange={(e) => updateEnd(e.target.value ? { until: e.target.value } : {})}
+                  className="rounded border border-border bg-transparent px-1 py-0.5"
+                />
+              </label>
+            </div>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
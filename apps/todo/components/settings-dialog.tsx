@@ -0,0 +1,83 @@
+"use client"
+
+import { useTheme } from "next-themes"
+import { useSession } from "@/lib/auth-client"
+import { THEME_OPTIONS } from "@/lib/settings"
+import { useSettings } from "@/components/settings-provider"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Kbd } from "@/components/ui/kbd"
+
+interface SettingsDialogProps {
+  children: React.ReactNode
+}
+
+function optionClassName(selected: boolean): string {
+  return `flex-1 rounded-lg border p-2 transition-colors ${
+    selected ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+  }`
+}
+
+export function SettingsDialog({ children }: SettingsDialogProps) {
+  const { data: session } = useSession()
+  const { themes } = useTheme()
+  const { settings, updateSettings } = useSettings()
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Settings</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            {session?.user
+              ? "Synced across your devices."
+              : "Saved on this device. Sign in to sync them across devices."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 font-mono text-sm">
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Theme</p>
+            <div className="flex gap-2">
+              {THEME_OPTIONS.filter((option) => themes.includes(option.value)).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateSettings({ general: { theme: option.value } })}
+                  className={optionClassName(settings.general.theme === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Focus mode hides the toolbars. Toggle it anytime with <Kbd>⌘K</Kbd>
+            </p>
+            <div className="flex gap-2">
+              {[false, true].map((focusMode) => (
+                <button
+                  key={String(focusMode)}
+                  type="button"
+                  onClick={() => updateSettings({ general: { focusMode } })}
+                  className={optionClassName(settings.general.focusMode === focusMode)}
+                >
+                  {focusMode ? "On" : "Off"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
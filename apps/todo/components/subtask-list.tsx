@@ -0,0 +1,198 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp, Plus, X } from "lucide-react"
+import { CustomCheckbox } from "@/components/ui/custom-checkbox"
+import type { Subtask } from "@/app/page"
+
+interface SubtaskListProps {
+  subtasks: Subtask[]
+  textColor: string
+  onChange: (subtasks: Subtask[]) => void
+  showAddInput: boolean
+  disabled?: boolean
+}
+
+const MAX_SUBTASKS = 100
+const MAX_SUBTASK_TITLE_LENGTH = 200
+
+export function SubtaskList({ subtasks, textColor, onChange, showAddInput, disabled = false }: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState("")
+  const [isAdding, setIsAdding] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState("")
+
+  const completedCount = subtasks.filter((subtask) => subtask.completed).length
+  const hoverBg = textColor === "#000000" ? "rgba(0,0,0,0.05)" : "rgba(255,255,255,0.1)"
+
+  const addSubtask = () => {
+    const title = newTitle.trim()
+    if (!title || subtasks.length >= MAX_SUBTASKS) return
+    onChange([...subtasks, { id: crypto.randomUUID(), title, completed: false }])
+    setNewTitle("")
+  }
+
+  const toggleSubtask = (id: string) => {
+    onChange(subtasks.map((subtask) => (subtask.id === id ? { ...subtask, completed: !subtask.completed } : subtask)))
+  }
+
+  const moveSubtask = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= subtasks.length) return
+    const next = subtasks.slice()
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeSubtask = (id: string) => {
+    onChange(subtasks.filter((subtask) => subtask.id !== id))
+  }
+
+  const saveEdit = () => {
+    const title = editValue.trim()
+    if (editingId) {
+      // Clearing the title removes the item
+      onChange(
+        title
+          ? subtasks.map((subtask) => (subtask.id === editingId ? { ...subtask, title } : subtask))
+          : subtasks.filter((subtask) => subtask.id !== editingId)
+      )
+    }
+    setEditingId(null)
+    setEditValue("")
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault()
+      saveEdit()
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      setEditingId(null)
+      setEditValue("")
+    }
+  }
+
+  // Keep the add input mounted while it is in use, even if the card loses hover
+  const isAddInputVisible = (showAddInput || isAdding) && !disabled && subtasks.length < MAX_SUBTASKS
+
+  if (subtasks.length === 0 && !isAddInputVisible) return null
+
+  return (
+    <div data-subtasks className="space-y-1.5 font-mono" style={{ color: textColor, marginLeft: "30px" }}>
+      {subtasks.length > 0 && (
+        <div className="flex items-center gap-2 text-xs" style={{ opacity: 0.7 }}>
+          <div className="h-1 flex-1 rounded-full" style={{ backgroundColor: hoverBg }}>
+            <div
+              className="h-1 rounded-full transition-all duration-200"
+              style={{ width: `${(completedCount / subtasks.length) * 100}%`, backgroundColor: textColor }}
+            />
+          </div>
+          <span>
+            {completedCount}/{subtasks.length}
+          </span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {subtasks.map((subtask, index) => (
+          <li key={subtask.id} className="group flex items-center gap-2 text-[16px] sm:text-sm">
+            <CustomCheckbox
+              checked={subtask.completed}
+              onChange={() => !disabled && toggleSubtask(subtask.id)}
+              className="h-3.5 w-3.5"
+            />
+            {editingId === subtask.id ? (
+              <input
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                onBlur={saveEdit}
+                maxLength={MAX_SUBTASK_TITLE_LENGTH}
+                className="flex-1 min-w-0 bg-transparent border-0 outline-none p-0 text-[16px] sm:text-sm"
+                style={{ color: textColor }}
+                autoFocus
+              />
+            ) : (
+              <p
+                className={`flex-1 min-w-0 truncate cursor-pointer rounded px-1 ${subtask.completed ? "line-through opacity-60" : ""}`}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = hoverBg
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = "transparent"
+                }}
+                onClick={() => {
+                  if (disabled) return
+                  setEditingId(subtask.id)
+                  setEditValue(subtask.title)
+                }}
+              >
+                {subtask.title}
+              </p>
+            )}
+            {!disabled && (
+              <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => moveSubtask(index, -1)}
+                  disabled={index === 0}
+                  className="h-4 w-4 flex items-center justify-center disabled:opacity-30"
+                  aria-label="Move subtask up"
+                >
+                  <ChevronUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSubtask(index, 1)}
+                  disabled={index === subtasks.length - 1}
+                  className="h-4 w-4 flex items-center justify-center disabled:opacity-30"
+                  aria-label="Move subtask down"
+                >
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeSubtask(subtask.id)}
+                  className="h-4 w-4 flex items-center justify-center"
+                  aria-label="Remove subtask"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isAddInputVisible && (
+        <div className="flex items-center gap-2 text-[16px] sm:text-sm" style={{ opacity: 0.6 }}>
+          <Plus className="h-3.5 w-3.5 flex-shrink-0" />
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                addSubtask()
+              } else if (e.key === "Escape") {
+                setNewTitle("")
+              }
+            }}
+            onFocus={() => setIsAdding(true)}
+            onBlur={() => {
+              addSubtask()
+              setIsAdding(false)
+            }}
+            placeholder="Add subtask"
+            maxLength={MAX_SUBTASK_TITLE_LENGTH}
+            className="flex-1 min-w-0 bg-transparent border-0 outline-none p-0 text-[16px] sm:text-sm placeholder:italic"
+            style={{ color: textColor }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
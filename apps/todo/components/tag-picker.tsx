@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, Tag as TagIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { Tag } from "@/lib/tags"
+import { cn } from "@/lib/utils"
+
+interface TagPickerProps {
+  tags: Tag[]
+  selectedTagIds: string[]
+  onChange: (tagIds: string[]) => void
+  onCreateTag: (name: string) => Promise<string | null>
+  onOpenChange?: (open: boolean) => void
+  align?: "start" | "center" | "end"
+  side?: "top" | "bottom" | "left" | "right"
+  trigger?: React.ReactNode
+  className?: string
+}
+
+const TAG_NAME_PATTERN = /^[\p{L}\p{N}_-]{1,32}$/u
+
+export function TagPicker({
+  tags,
+  selectedTagIds,
+  onChange,
+  onCreateTag,
+  onOpenChange,
+  align = "center",
+  side = "bottom",
+  trigger,
+  className,
+}: TagPickerProps) {
+  const [newTagName, setNewTagName] = useState("")
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    )
+  }
+
+  const createTag = async () => {
+    const name = newTagName.trim().replace(/^#/, "").toLowerCase()
+    if (!TAG_NAME_PATTERN.test(name)) return
+    setNewTagName("")
+    const tagId = await onCreateTag(name)
+    if (tagId && !selectedTagIds.includes(tagId)) {
+      onChange([...selectedTagIds, tagId])
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        {trigger || (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className={cn("font-mono text-xs flex items-center gap-2", className)}
+          >
+            <TagIcon className="h-3.5 w-3.5" />
+            Tags
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} side={side} className="w-56 font-mono">
+        <DropdownMenuLabel className="text-xs">Tags</DropdownMenuLabel>
+        {tags.length === 0 && (
+          <p className="px-2 pb-1 text-xs text-muted-foreground">No tags yet</p>
+        )}
+        {tags.map((tag) => (
+          <DropdownMenuCheckboxItem
+            key={tag.id}
+            checked={selectedTagIds.includes(tag.id)}
+            onCheckedChange={() => toggleTag(tag.id)}
+            onSelect={(e) => e.preventDefault()}
+            className="text-sm"
+          >
+            <span className="h-2.5 w-2.5 rounded-full border border-border" style={{ backgroundColor: tag.color }} />
+            #{tag.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        {/* Stop key events so the menu's typeahead does not steal input focus */}
+        <div className="flex items-center gap-2 px-2 pb-1 text-xs" onKeyDown={(e) => e.stopPropagation()}>
+          <Plus className="h-3.5 w-3.5 flex-shrink-0" />
+          <input
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                createTag()
+              }
+            }}
+            placeholder="New tag"
+            maxLength={33}
+            className="flex-1 min-w-0 rounded border border-border bg-transparent px-1 py-0.5"
+          />
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
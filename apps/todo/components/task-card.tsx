@@ -2,16 +2,30 @@
 
 import { Reorder, useMotionValue } from "framer-motion"
 import { useEffect, useRef, useState, useCallback, useMemo } from "react"
-import { Trash2 } from "lucide-react"
+import { CalendarClock, Repeat, Tag as TagIcon, Timer, Trash2 } from "lucide-react"
 import { CustomCheckbox } from "@/components/ui/custom-checkbox"
 import { ColorPicker } from "@/components/color-picker"
+import { RecurrencePicker } from "@/components/recurrence-picker"
+import { TagPicker } from "@/components/tag-picker"
+import { SubtaskList } from "@/components/subtask-list"
 import { COLORS } from "@/lib/colors"
+import { describeRecurrence } from "@/lib/recurrence"
+import { formatFocusTime, getTimerLink } from "@/lib/timer-link"
+import type { Tag } from "@/lib/tags"
 import type { Task } from "@/app/page"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 
+function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split("-").map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", { weekday: "short", day: "numeric", month: "short" })
+}
+
 interface TaskCardProps {
   task: Task
+  tags: Tag[]
+  focusTime?: number // Milliseconds focused on this task in the timer app
+  onCreateTag: (name: string) => Promise<string | null>
   onDragStart: () => void
   onDragEnd: () => void
   onMoveToSection: (taskId: string, targetSection: string) => void
@@ -23,7 +37,7 @@ interface TaskCardProps {
   onSelect?: (taskId: string) => void
 }
 
-export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onToggleCompletion, onUpdateTask, onDelete, isSelectMode = false, isSelected = false, onSelect }: TaskCardProps) {
+export function TaskCard({ task, tags, focusTime, onCreateTag, onDragStart, onDragEnd, onMoveToSection, onToggleCompletion, onUpdateTask, onDelete, isSelectMode = false, isSelected = false, onSelect }: TaskCardProps) {
   const y = useMotionValue(0)
   const cardRef = useRef<HTMLLIElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
@@ -42,6 +56,24 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
   // Color picker dropdown state
   const [isColorPickerOpen, setIsColorPickerOpen] = useState(false)
   
+  // Recurrence picker dropdown state
+  const [isRecurrencePickerOpen, setIsRecurrencePickerOpen] = useState(false)
+
+  // Tag picker dropdown state
+  const [isTagPickerOpen, setIsTagPickerOpen] = useState(false)
+  const isMenuOpen = isColorPickerOpen || isRecurrencePickerOpen || isTagPickerOpen
+
+  const isPastDue = useMemo(() => {
+    const now = new Date()
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+    return !task.completed && task.dueDate < today
+  }, [task.completed, task.dueDate])
+
+  const taskTags = useMemo(
+    () => (task.tagIds ?? []).map((tagId) => tags.find((tag) => tag.id === tagId)).filter((tag): tag is Tag => Boolean(tag)),
+    [task.tagIds, tags]
+  )
+  
   // Get text color based on task background color
   const textColor = useMemo(() => {
     const colorConfig = COLORS.find(c => c.value.toLowerCase() === task.color.toLowerCase())
@@ -430,6 +462,9 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
             target.closest('p') || 
             target.closest('button') || 
             target.closest('[data-color-picker]') ||
+            target.closest('[data-recurrence-picker]') ||
+            target.closest('[data-tag-picker]') ||
+            target.closest('[data-subtasks]') ||
             target.closest('input') ||
             target.closest('textarea')
           ) {
@@ -500,8 +535,8 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
                 </h3>
                 {!isSelectMode && (
                   <div 
-                    className={`transition-all duration-200 ease-in-out ${isColorPickerOpen ? "overflow-visible" : "overflow-hidden"} flex items-center gap-2 flex-shrink-0 ml-2 ${
-                      (isHovered || isColorPickerOpen)
+                    className={`transition-all duration-200 ease-in-out ${isMenuOpen ? "overflow-visible" : "overflow-hidden"} flex items-center gap-2 flex-shrink-0 ml-2 ${
+                      (isHovered || isMenuOpen)
                         ? "max-h-6 opacity-100" 
                         : "max-h-0 opacity-0"
                     }`}
@@ -516,6 +551,51 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
                         borderColor={task.color.toLowerCase() === "#000000" ? "white" : "black"}
                       />
                     </div>
+                    <div data-recurrence-picker onClick={(e) => e.stopPropagation()} className="flex items-center justify-center">
+                      <RecurrencePicker
+                        value={task.recurrence}
+                        dueDate={task.dueDate}
+                        onChange={(rule) => onUpdateTask(task.id, { recurrence: rule })}
+                        onOpenChange={setIsRecurrencePickerOpen}
+                        side="bottom"
+                        trigger={
+                          <button
+                            className="h-5 w-5 flex items-center justify-center rounded transition-colors flex-shrink-0"
+                            aria-label="Repeat task"
+                          >
+                            <Repeat className="h-4 w-4" style={{ color: textColor }} />
+                          </button>
+                        }
+                      />
+                    </div>
+                    <div data-tag-picker onClick={(e) => e.stopPropagation()} className="flex items-center justify-center">
+                      <TagPicker
+                        tags={tags}
+                        selectedTagIds={task.tagIds ?? []}
+                        onChange={(tagIds) => onUpdateTask(task.id, { tagIds })}
+                        onCreateTag={onCreateTag}
+                        onOpenChange={setIsTagPickerOpen}
+                        side="bottom"
+                        trigger={
+                          <button
+                            className="h-5 w-5 flex items-center justify-center rounded transition-colors flex-shrink-0"
+                            aria-label="Edit tags"
+                          >
+                            <TagIcon className="h-4 w-4" style={{ color: textColor }} />
+                          </button>
+                        }
+                      />
+                    </div>
+                    <a
+                      href={getTimerLink(task)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="h-5 w-5 flex items-center justify-center rounded transition-colors flex-shrink-0"
+                      aria-label="Start a timer for this task"
+                    >
+                      <Timer className="h-4 w-4" style={{ color: textColor }} />
+                    </a>
                     <button
                       onClick={(e) => {
                         e.stopPropagation()
@@ -547,6 +627,60 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
             )}
           </div>
           
+          {/* Recurrence row */}
+          {task.recurrence && (
+            <p
+              className="font-mono text-xs flex items-center gap-1.5"
+              style={{ color: textColor, opacity: 0.6, marginLeft: '34px' }}
+            >
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(task.recurrence)}
+            </p>
+          )}
+
+          {/* Overdue / postponed row */}
+          {(isPastDue || (task.postponeCount ?? 0) > 0) && (
+            <p
+              className="font-mono text-xs flex items-center gap-1.5"
+              style={{ color: textColor, opacity: 0.6, marginLeft: '34px' }}
+            >
+              <CalendarClock className="h-3 w-3" />
+              {[
+                isPastDue && `Due ${formatDueDate(task.dueDate)}`,
+                task.postponeCount && `Postponed ${task.postponeCount} time${task.postponeCount === 1 ? "" : "s"}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          )}
+
+          {/* Focus time row */}
+          {focusTime !== undefined && focusTime > 0 && (
+            <p
+              className="font-mono text-xs flex items-center gap-1.5"
+              style={{ color: textColor, opacity: 0.6, marginLeft: '34px' }}
+            >
+              <Timer className="h-3 w-3" />
+              {formatFocusTime(focusTime)} focused
+            </p>
+          )}
+
+          {/* Tags row */}
+          {taskTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 font-mono text-xs" style={{ marginLeft: '34px' }}>
+              {taskTags.map((tag) => (
+                <span
+                  key={tag.id}
+                  className="flex items-center gap-1 rounded-full border px-2 py-0.5"
+                  style={{ color: textColor, borderColor: textColor === "#000000" ? "rgba(0,0,0,0.2)" : "rgba(255,255,255,0.3)" }}
+                >
+                  <span className="h-2 w-2 rounded-full border border-black/20" style={{ backgroundColor: tag.color }} />
+                  #{tag.name}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Description row */}
           {task.description ? (
             editingField === 'description' ? (
@@ -736,6 +870,15 @@ export function TaskCard({ task, onDragStart, onDragEnd, onMoveToSection, onTogg
               )
             )
           )}
+
+          {/* Subtasks row */}
+          <SubtaskList
+            subtasks={task.subtasks ?? []}
+            textColor={textColor}
+            onChange={(subtasks) => onUpdateTask(task.id, { subtasks })}
+            showAddInput={isHovered && !isSelectMode}
+            disabled={isSelectMode}
+          />
         </div>
       </div>
     </Reorder.Item>
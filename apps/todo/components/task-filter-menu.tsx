@@ -0,0 +1,119 @@
+"use client"
+
+import { Check, Filter, Trash2 } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { COLORS } from "@/lib/colors"
+import { EMPTY_TASK_FILTER, isTaskFilterActive, type Tag, type TaskFilter } from "@/lib/tags"
+import { cn } from "@/lib/utils"
+
+interface TaskFilterMenuProps {
+  filter: TaskFilter
+  tags: Tag[]
+  onChange: (filter: TaskFilter) => void
+  onDeleteTag: (tagId: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+function toggleValue(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+}
+
+export function TaskFilterMenu({ filter, tags, onChange, onDeleteTag, disabled = false, className }: TaskFilterMenuProps) {
+  const activeCount = filter.tagIds.length + filter.colors.length + (filter.status !== "all" ? 1 : 0)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            "rounded-lg border border-border p-2 pr-[0.75rem] hover:bg-accent transition-colors flex items-center gap-2 font-mono text-sm",
+            activeCount > 0 && "bg-accent",
+            className
+          )}
+          aria-label="Filter tasks"
+          disabled={disabled}
+        >
+          <Filter className="h-4 w-4" />
+          Filter{activeCount > 0 ? ` (${activeCount})` : ""}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="end" className="w-60 font-mono">
+        <DropdownMenuLabel className="text-xs">Status</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={filter.status}
+          onValueChange={(status) => onChange({ ...filter, status: status as TaskFilter["status"] })}
+        >
+          <DropdownMenuRadioItem value="all" className="text-sm">All tasks</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="open" className="text-sm">Open</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="completed" className="text-sm">Completed</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Color</DropdownMenuLabel>
+        <div className="grid grid-cols-8 gap-1.5 px-2 pb-1">
+          {COLORS.map((color) => (
+            <button
+              key={color.value}
+              type="button"
+              onClick={() => onChange({ ...filter, colors: toggleValue(filter.colors, color.value) })}
+              className="h-5 w-5 rounded-md border-2 flex items-center justify-center transition-all hover:scale-110 border-gray-300 dark:border-gray-600"
+              style={{ backgroundColor: color.value }}
+              title={color.name}
+            >
+              {filter.colors.includes(color.value) && <Check className="h-3 w-3" style={{ color: color.textColor }} />}
+            </button>
+          ))}
+        </div>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Tags</DropdownMenuLabel>
+        {tags.length === 0 && (
+          <p className="px-2 pb-1 text-xs text-muted-foreground">Type #tag in a task title to create one</p>
+        )}
+        {tags.map((tag) => (
+          <DropdownMenuCheckboxItem
+            key={tag.id}
+            checked={filter.tagIds.includes(tag.id)}
+            onCheckedChange={() => onChange({ ...filter, tagIds: toggleValue(filter.tagIds, tag.id) })}
+            onSelect={(e) => e.preventDefault()}
+            className="group text-sm"
+          >
+            <span className="h-2.5 w-2.5 rounded-full border border-border" style={{ backgroundColor: tag.color }} />
+            <span className="flex-1">#{tag.name}</span>
+            <span
+              role="button"
+              aria-label={`Delete tag ${tag.name}`}
+              className="opacity-0 group-hover:opacity-100 transition-opacity"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDeleteTag(tag.id)
+              }}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </span>
+          </DropdownMenuCheckboxItem>
+        ))}
+
+        {isTaskFilterActive(filter) && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onChange(EMPTY_TASK_FILTER)} className="text-sm">
+              Clear filters
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -4,26 +4,62 @@ import type React from "react"
 
 import { useState } from "react"
 import { motion } from "framer-motion"
-import { Plus } from "lucide-react"
+import { CalendarDays, Plus, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { RecurrencePicker } from "@/components/recurrence-picker"
 import { COLORS } from "@/lib/colors"
+import { describeRecurrence, type RecurrenceRule } from "@/lib/recurrence"
+import { extractTags } from "@/lib/tags"
+import { parseQuickAdd } from "@/convex/quickAdd"
 
 interface TaskFormProps {
-  onSubmit: (task: { title: string; description: string; color: string }) => void
+  onSubmit: (task: {
+    title: string
+    description: string
+    color: string
+    dueDate?: string
+    recurrence?: RecurrenceRule
+    tagNames?: string[]
+  }) => void
 }
 
 const MAX_TITLE_LENGTH = 200
 const MAX_DESCRIPTION_LENGTH = 5000
 
+function getTodayKey(): string {
+  const date = new Date()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function describeDueDate(dueDate: string, today: string): string {
+  const [year, month, day] = dueDate.split("-").map(Number)
+  const date = new Date(year, month - 1, day)
+  const label = date.toLocaleDateString("en-US", { weekday: "short", day: "numeric", month: "short" })
+  const [todayYear, todayMonth, todayDay] = today.split("-").map(Number)
+  const daysAway = Math.round((date.getTime() - new Date(todayYear, todayMonth - 1, todayDay).getTime()) / 86_400_000)
+  if (daysAway === 0) return `Today, ${label}`
+  if (daysAway === 1) return `Tomorrow, ${label}`
+  return label
+}
+
 export function TaskForm({ onSubmit }: TaskFormProps) {
   const [title, setTitle] = useState("")
   const [description, setDescription] = useState("")
   const [selectedColor, setSelectedColor] = useState(COLORS[0].value)
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined)
+  // Date phrases the user undid; they stay in the title as typed
+  const [dismissedPhrases, setDismissedPhrases] = useState<string[]>([])
   const [titleError, setTitleError] = useState("")
   const [descriptionError, setDescriptionError] = useState("")
 
+  const today = getTodayKey()
+  const { title: titleWithoutTags, tagNames: titleTagNames } = extractTags(title)
+  const quickAdd = parseQuickAdd(titleWithoutTags, today, { ignore: dismissedPhrases })
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -31,8 +67,8 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
     setTitleError("")
     setDescriptionError("")
     
-    // Validation
-    const trimmedTitle = title.trim()
+    // Validation; `#tag` words and the recognized date phrase are pulled out of the title
+    const trimmedTitle = quickAdd.title
     if (!trimmedTitle) {
       setTitleError("Title is required")
       return
@@ -52,11 +88,16 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
       title: trimmedTitle,
       description: description.trim(),
       color: selectedColor,
+      dueDate: quickAdd.dueDate,
+      recurrence: recurrence ?? quickAdd.recurrence,
+      tagNames: titleTagNames,
     })
 
     setTitle("")
     setDescription("")
     setSelectedColor(COLORS[0].value)
+    setRecurrence(undefined)
+    setDismissedPhrases([])
   }
   
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -98,7 +139,7 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
               id="title"
               value={title}
               onChange={handleTitleChange}
-              placeholder="Enter task title"
+              placeholder="e.g. Call mom tomorrow #family"
               className="font-mono text-base"
               style={{ fontSize: '16px' }}
               maxLength={MAX_TITLE_LENGTH}
@@ -106,6 +147,31 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
             {titleError && (
               <p className="text-xs text-red-600 font-mono">{titleError}</p>
             )}
+            {(quickAdd.match || titleTagNames.length > 0) && (
+              <div className="flex flex-wrap gap-1.5 font-mono text-xs text-muted-foreground">
+                {quickAdd.match && quickAdd.dueDate && (
+                  <span className="flex items-center gap-1.5 rounded-full border border-border px-2 py-0.5">
+                    <CalendarDays className="h-3 w-3" />
+                    {describeDueDate(quickAdd.dueDate, today)}
+                    {quickAdd.recurrence && !recurrence && ` · ${describeRecurrence(quickAdd.recurrence)}`}
+                    <button
+                      type="button"
+                      onClick={() => setDismissedPhrases((prev) => [...prev, quickAdd.match!.text])}
+                      className="hover:text-foreground"
+                      aria-label={`Keep "${quickAdd.match.text}" in the title`}
+                      title={`Keep "${quickAdd.match.text}" in the title`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
+                {titleTagNames.map((name) => (
+                  <span key={name} className="rounded-full border border-border px-2 py-0.5">
+                    #{name}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="space-y-1.5">
@@ -127,10 +193,18 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
             )}
           </div>
 
-          <Button type="submit" className="px-4 py-2 font-mono text-sm flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            Add Task
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button type="submit" className="px-4 py-2 font-mono text-sm flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Add Task
+            </Button>
+            <RecurrencePicker
+              value={recurrence}
+              dueDate={quickAdd.dueDate ?? today}
+              onChange={setRecurrence}
+              align="start"
+            />
+          </div>
         </div>
 
         <div className="flex flex-col gap-2">
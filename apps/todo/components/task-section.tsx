@@ -2,13 +2,21 @@
 
 import { Reorder } from "framer-motion"
 import { useState, useMemo, useCallback, useRef, useEffect } from "react"
+import { Repeat } from "lucide-react"
 import type { Task } from "@/app/page"
 import { TaskCard } from "@/components/task-card"
+import { COLORS } from "@/lib/colors"
+import { describeRecurrence } from "@/lib/recurrence"
+import type { Tag } from "@/lib/tags"
 
 interface TaskSectionProps {
   title: string
   tasks: Task[]
+  upcomingTasks?: Task[] // Projected occurrences of recurring tasks (read-only)
   section: string
+  tags: Tag[]
+  focusTimeByTask?: Map<string, number> // Focused milliseconds by task clientId
+  onCreateTag: (name: string) => Promise<string | null>
   onReorder: (section: string, newOrder: Task[]) => void
   onDragStart: (taskSection: string) => void
   onDragEnd: () => void
@@ -29,7 +37,11 @@ interface TaskSectionProps {
 export function TaskSection({
   title,
   tasks,
+  upcomingTasks = [],
   section,
+  tags,
+  focusTimeByTask,
+  onCreateTag,
   onReorder,
   onDragStart,
   onDragEnd,
@@ -133,6 +145,9 @@ export function TaskSection({
           <TaskCard
             key={task.id}
             task={task}
+            tags={tags}
+            focusTime={focusTimeByTask?.get(task.clientId)}
+            onCreateTag={onCreateTag}
             onDragStart={() => onDragStart(section)}
             onDragEnd={onDragEnd}
             onMoveToSection={onMoveToSection}
@@ -145,7 +160,28 @@ export function TaskSection({
           />
         ))}
       </Reorder.Group>
-      {tasks.length === 0 && (
+      {upcomingTasks.length > 0 && (
+        <ul className={`space-y-3 ${tasks.length > 0 ? "mt-3" : ""}`}>
+          {upcomingTasks.map((task) => {
+            const textColor = COLORS.find((c) => c.value.toLowerCase() === task.color.toLowerCase())?.textColor || "#000000"
+            return (
+              <li
+                key={task.id}
+                className="flex items-center gap-3 rounded-lg border border-dashed border-border px-4 py-4 opacity-50"
+                style={{ backgroundColor: task.color, color: textColor }}
+                title="Upcoming occurrence — created when the previous one is completed"
+              >
+                <Repeat className="h-4 w-4 flex-shrink-0" />
+                <span className="font-mono font-medium text-[18px] sm:text-base flex-1 min-w-0 truncate">{task.title}</span>
+                {task.recurrence && (
+                  <span className="font-mono text-xs flex-shrink-0">{describeRecurrence(task.recurrence)}</span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {tasks.length === 0 && upcomingTasks.length === 0 && (
         <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
           <p className="font-mono text-sm text-muted-foreground">
             {isDragging
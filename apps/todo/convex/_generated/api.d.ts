@@ -9,13 +9,28 @@
  */
 
 import type * as auth from "../auth.js";
+import type * as colors from "../colors.js";
+import type * as crons from "../crons.js";
+import type * as customers from "../customers.js";
 import type * as email from "../email.js";
 import type * as http from "../http.js";
+import type * as journalAttachments from "../journalAttachments.js";
+import type * as journalNoteRevisions from "../journalNoteRevisions.js";
+import type * as journalNotebooks from "../journalNotebooks.js";
 import type * as journalNotes from "../journalNotes.js";
 import type * as leadsEmail from "../leadsEmail.js";
+import type * as monthRollovers from "../monthRollovers.js";
 import type * as notes from "../notes.js";
+import type * as ordering from "../ordering.js";
+import type * as overdue from "../overdue.js";
+import type * as quickAdd from "../quickAdd.js";
+import type * as recurrence from "../recurrence.js";
 import type * as subscriptions from "../subscriptions.js";
+import type * as tags from "../tags.js";
 import type * as tasks from "../tasks.js";
+import type * as timerPresets from "../timerPresets.js";
+import type * as timers from "../timers.js";
+import type * as userSettings from "../userSettings.js";
 
 import type {
   ApiFromModules,
@@ -33,13 +48,28 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  colors: typeof colors;
+  crons: typeof crons;
+  customers: typeof customers;
   email: typeof email;
   http: typeof http;
+  journalAttachments: typeof journalAttachments;
+  journalNoteRevisions: typeof journalNoteRevisions;
+  journalNotebooks: typeof journalNotebooks;
   journalNotes: typeof journalNotes;
   leadsEmail: typeof leadsEmail;
+  monthRollovers: typeof monthRollovers;
   notes: typeof notes;
+  ordering: typeof ordering;
+  overdue: typeof overdue;
+  quickAdd: typeof quickAdd;
+  recurrence: typeof recurrence;
   subscriptions: typeof subscriptions;
+  tags: typeof tags;
   tasks: typeof tasks;
+  timerPresets: typeof timerPresets;
+  timers: typeof timers;
+  userSettings: typeof userSettings;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -5,6 +5,9 @@ import { useQuery as useRQ, useQueryClient } from "@tanstack/react-query"
 import { api } from "@/convex/_generated/api"
 import { Doc, Id } from "@/convex/_generated/dataModel"
 import { useEffect, useMemo } from "react"
+import type { RecurrenceRule } from "@/convex/recurrence"
+import { compareTaskOrder } from "@/convex/ordering"
+import type { Tag } from "@/lib/tags"
 
 export interface Task {
   id: string;
@@ -17,10 +20,18 @@ export interface Task {
   completed: boolean;
   createdAt: number;
   updatedAt: number;
+  recurrence?: RecurrenceRule;
+  recurrenceSeriesId?: string;
+  recurrenceIndex?: number;
+  order?: string;
+  subtasks?: Array<{ id: string; title: string; completed: boolean }>;
+  tagIds?: string[];
+  postponeCount?: number;
 }
 
 // Last Known Good cache using localStorage
 const LKG_CACHE_PREFIX = "todo:tasks:lkg"
+const TAGS_LKG_CACHE_PREFIX = "todo:tags:lkg"
 const ANONYMOUS_CACHE_KEY = "anonymous"
 
 const buildCacheKey = (identifier?: string | null) =>
@@ -34,7 +45,7 @@ function getCachedTasks(cacheKey: string): Task[] {
     const parsed = JSON.parse(cached)
     // Validate cache age (max 24 hours)
     if (parsed.timestamp && Date.now() - parsed.timestamp < 24 * 60 * 60 * 1000) {
-      return parsed.tasks || []
+      return ((parsed.tasks || []) as Task[]).sort(compareTaskOrder)
     }
     return []
   } catch {
@@ -94,6 +105,25 @@ function fromConvexTask(task: Doc<"tasks">): Task {
     completed: task.completed,
     createdAt: task.createdAt,
     updatedAt: task.updatedAt,
+    recurrence: task.recurrence,
+    recurrenceSeriesId: task.recurrenceSeriesId,
+    recurrenceIndex: task.recurrenceIndex,
+    order: task.order,
+    subtasks: task.subtasks,
+    tagIds: task.tagIds,
+    postponeCount: task.postponeCount,
+  }
+}
+
+function fromConvexTag(tag: Doc<"tags">): Tag {
+  return {
+    id: tag._id,
+    _id: tag._id,
+    clientId: tag.clientId,
+    name: tag.name,
+    color: tag.color,
+    createdAt: tag.createdAt,
+    updatedAt: tag.updatedAt,
   }
 }
 
@@ -105,6 +135,7 @@ export function clearCachedTasks(identifier?: string | null): void {
   if (typeof window === "undefined") return
   try {
     localStorage.removeItem(buildCacheKey(identifier))
+    localStorage.removeItem(`${TAGS_LKG_CACHE_PREFIX}:${identifier ?? ANONYMOUS_CACHE_KEY}`)
   } catch {
     // Ignore storage errors
   }
@@ -120,7 +151,8 @@ export function useTasks(userIdentifier?: string | null) {
   // Convert Convex docs to Task format
   const convexTasks = useMemo(() => {
     if (!convexTaskDocs) return null
-    return convexTaskDocs.map(fromConvexTask)
+    // Re-sort so optimistic reorders are reflected before the server responds
+    return convexTaskDocs.map(fromConvexTask).sort(compareTaskOrder)
   }, [convexTaskDocs])
 
   // 2) Get cached tasks from localStorage (Last Known Good)
@@ -162,3 +194,40 @@ export function useTasks(userIdentifier?: string | null) {
   }
 }
 
+
+/**
+ * Live tags from Convex, falling back to the last known good list while the query loads
+ */
+export function useTags(userIdentifier?: string | null) {
+  const cacheKey = `${TAGS_LKG_CACHE_PREFIX}:${userIdentifier ?? ANONYMOUS_CACHE_KEY}`
+  const convexTagDocs = useQuery(api.tags.getTags) as Doc<"tags">[] | undefined
+
+  const convexTags = useMemo(() => {
+    if (!convexTagDocs) return null
+    return convexTagDocs.map(fromConvexTag).sort((a, b) => a.name.localeCompare(b.name))
+  }, [convexTagDocs])
+
+  const cachedTags = useMemo(() => {
+    if (typeof window === "undefined") return []
+    try {
+      const cached = localStorage.getItem(cacheKey)
+      return cached ? (JSON.parse(cached) as Tag[]) : []
+    } catch {
+      return []
+    }
+  }, [cacheKey])
+
+  useEffect(() => {
+    if (!convexTags) return
+    try {
+      localStorage.setItem(cacheKey, JSON.stringify(convexTags))
+    } catch {
+      // Ignore storage errors
+    }
+  }, [cacheKey, convexTags])
+
+  return {
+    tags: convexTags ?? cachedTags,
+    isRealtime: convexTags !== null,
+  }
+}
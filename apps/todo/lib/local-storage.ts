@@ -1,7 +1,9 @@
 import type { Task } from "@/app/page";
 import type { Id } from "@/convex/_generated/dataModel";
+import type { Tag } from "@/lib/tags";
 
 const STORAGE_KEY = "todo-tasks-local";
+const TAGS_STORAGE_KEY = "todo-tags-local";
 const DELETED_TASKS_KEY = "todo-deleted-tasks";
 
 export interface DeletedTask {
@@ -71,6 +73,35 @@ export function clearLocalTasks(): void {
   }
 }
 
+export function loadLocalTags(): Tag[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data = localStorage.getItem(TAGS_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Failed to load local tags:", error);
+    return [];
+  }
+}
+
+export function saveLocalTags(tags: Tag[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(tags));
+  } catch (error) {
+    console.error("Failed to save local tags:", error);
+  }
+}
+
+export function clearLocalTags(): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.removeItem(TAGS_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear local tags:", error);
+  }
+}
+
 export function replaceTaskIds(tasks: Task[], replacements: Record<string, string>): Task[] {
   const updated = tasks.map((task) => {
     const newId = replacements[task.id];
@@ -0,0 +1,45 @@
+import type { Task } from "@/app/page"
+
+export type OverduePolicy = "rollover" | "overdue" | "ask"
+
+export const OVERDUE_POLICIES: Array<{ value: OverduePolicy; label: string; description: string }> = [
+  { value: "rollover", label: "Roll over", description: "Move overdue tasks to today" },
+  { value: "overdue", label: "Keep overdue", description: "Keep them in an Overdue section" },
+  { value: "ask", label: "Ask me", description: "Keep them and offer to move them" },
+]
+
+const POLICY_STORAGE_KEY = "todo:overduePolicy"
+
+// Anonymous users keep the policy on this device only
+export function loadLocalOverduePolicy(): OverduePolicy {
+  if (typeof window === "undefined") return "rollover"
+  const stored = localStorage.getItem(POLICY_STORAGE_KEY)
+  return OVERDUE_POLICIES.some((policy) => policy.value === stored) ? (stored as OverduePolicy) : "rollover"
+}
+
+export function saveLocalOverduePolicy(policy: OverduePolicy): void {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, policy)
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+export function isOverdue(task: Task, today: string): boolean {
+  return !task.completed && task.dueDate < today
+}
+
+/**
+ * Move overdue tasks to today (local-only mode). Mirrors rolloverTasks in convex/overdue.ts.
+ */
+export function rolloverLocalTasks(tasks: Task[], today: string): { tasks: Task[]; moved: number } {
+  const now = Date.now()
+  let moved = 0
+  const next = tasks.map((task) => {
+    if (!isOverdue(task, today)) return task
+    moved++
+    return { ...task, dueDate: today, postponeCount: (task.postponeCount ?? 0) + 1, updatedAt: now }
+  })
+  return { tasks: next, moved }
+}
@@ -0,0 +1,153 @@
+import type { Task } from "@/app/page"
+import {
+  getNextOccurrence,
+  getOccurrencesUntil,
+  getOccurrenceClientId,
+  type RecurrenceRule,
+} from "@/convex/recurrence"
+
+export type { RecurrenceRule }
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const POSITION_NAMES: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" }
+
+function getWeekday(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+function getSeriesId(task: Task): string {
+  return task.recurrenceSeriesId ?? task.clientId
+}
+
+export function getRecurrencePresets(dueDate: string): Array<{ label: string; rule: RecurrenceRule }> {
+  const weekday = getWeekday(dueDate)
+  const monthDay = Number(dueDate.split("-")[2])
+  const weekdayName = WEEKDAY_NAMES[weekday]
+
+  return [
+    { label: "Daily", rule: { frequency: "daily", interval: 1 } },
+    { label: "Every weekday", rule: { frequency: "weekdays", interval: 1 } },
+    { label: `Weekly on ${weekdayName}`, rule: { frequency: "weekly", interval: 1, byWeekday: [weekday] } },
+    { label: `Every 2 weeks on ${weekdayName}`, rule: { frequency: "weekly", interval: 2, byWeekday: [weekday] } },
+    { label: `Monthly on day ${monthDay}`, rule: { frequency: "monthly", interval: 1, monthDay } },
+    {
+      label: "Monthly on the last weekday",
+      rule: { frequency: "monthly", interval: 1, byWeekday: [1, 2, 3, 4, 5], setPosition: -1 },
+    },
+  ]
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let description: string
+
+  switch (rule.frequency) {
+    case "daily":
+      description = rule.interval === 1 ? "Daily" : `Every ${rule.interval} days`
+      break
+    case "weekdays":
+      description = "Every weekday"
+      break
+    case "weekly": {
+      const days = (rule.byWeekday ?? []).map((day) => WEEKDAY_NAMES[day].slice(0, 3)).join(", ")
+      description = rule.interval === 1 ? "Weekly" : `Every ${rule.interval} weeks`
+      if (days) description += ` on ${days}`
+      break
+    }
+    case "monthly": {
+      description = rule.interval === 1 ? "Monthly" : `Every ${rule.interval} months`
+      if (rule.setPosition !== undefined) {
+        const weekdays = rule.byWeekday ?? [1, 2, 3, 4, 5]
+        const dayLabel =
+          weekdays.length === 1
+            ? WEEKDAY_NAMES[weekdays[0]]
+            : weekdays.length === 5 && [1, 2, 3, 4, 5].every((day) => weekdays.includes(day))
+              ? "weekday"
+              : "day"
+        description += ` on the ${POSITION_NAMES[rule.setPosition] ?? rule.setPosition} ${dayLabel}`
+      } else {
+        description += ` on day ${rule.monthDay ?? 1}`
+      }
+      break
+    }
+  }
+
+  if (rule.count !== undefined) {
+    description += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`
+  } else if (rule.until !== undefined) {
+    description += `, until ${rule.until}`
+  }
+
+  return description
+}
+
+/**
+ * Build the follow-up task for a completed recurring task (local-only mode).
+ * Mirrors createNextOccurrence in convex/tasks.ts.
+ */
+export function buildNextOccurrence(task: Task): Task | null {
+  if (!task.recurrence) return null
+
+  const seriesId = getSeriesId(task)
+  const index = task.recurrenceIndex ?? 1
+  const dueDate = getNextOccurrence(task.recurrence, task.dueDate, index)
+  if (!dueDate) return null
+
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    clientId: getOccurrenceClientId(seriesId, index + 1),
+    title: task.title,
+    description: task.description,
+    color: task.color,
+    dueDate,
+    completed: false,
+    createdAt: now,
+    updatedAt: now,
+    recurrence: task.recurrence,
+    recurrenceSeriesId: seriesId,
+    recurrenceIndex: index + 1,
+    // The checklist carries over, unchecked
+    subtasks: task.subtasks?.map((subtask) => ({ ...subtask, completed: false })),
+    tagIds: task.tagIds,
+  }
+}
+
+/**
+ * Project upcoming occurrences of every open recurring series up to `endDate`.
+ * Projected tasks are display-only: they are never saved locally or in Convex.
+ */
+export function projectUpcomingOccurrences(tasks: Task[], endDate: string): Task[] {
+  const latestBySeries = new Map<string, Task>()
+  const existingClientIds = new Set(tasks.map((task) => task.clientId))
+
+  for (const task of tasks) {
+    if (!task.recurrence || task.completed) continue
+    const seriesId = getSeriesId(task)
+    const current = latestBySeries.get(seriesId)
+    if (!current || (task.recurrenceIndex ?? 1) > (current.recurrenceIndex ?? 1)) {
+      latestBySeries.set(seriesId, task)
+    }
+  }
+
+  const projected: Task[] = []
+  latestBySeries.forEach((task, seriesId) => {
+    const occurrences = getOccurrencesUntil(task.recurrence!, task.dueDate, task.recurrenceIndex ?? 1, endDate)
+    for (const occurrence of occurrences) {
+      const clientId = getOccurrenceClientId(seriesId, occurrence.index)
+      if (existingClientIds.has(clientId)) continue
+      projected.push({
+        ...task,
+        id: `projected:${clientId}`,
+        clientId,
+        _id: undefined,
+        dueDate: occurrence.dueDate,
+        completed: false,
+        recurrenceSeriesId: seriesId,
+        recurrenceIndex: occurrence.index,
+      })
+    }
+  })
+
+  return projected
+}
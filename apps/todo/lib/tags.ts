@@ -0,0 +1,84 @@
+import type { Task } from "@/app/page"
+import type { Id } from "@/convex/_generated/dataModel"
+import { COLORS } from "@/lib/colors"
+
+export interface Tag {
+  id: string; // Convex ID for synced tags, clientId for local-only tags
+  clientId: string;
+  _id?: Id<"tags">;
+  name: string;
+  color: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TaskFilter {
+  tagIds: string[];
+  colors: string[];
+  status: "all" | "open" | "completed";
+}
+
+export const EMPTY_TASK_FILTER: TaskFilter = { tagIds: [], colors: [], status: "all" }
+
+// Same rule as normalizeTagName in convex/tags.ts
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]{1,32})(?=\s|$)/gu
+
+/**
+ * Split `#tag` quick-add syntax out of a task title.
+ * "Call mom #family #phone" -> { title: "Call mom", tagNames: ["family", "phone"] }
+ */
+export function extractTags(input: string): { title: string; tagNames: string[] } {
+  const tagNames: string[] = []
+  const title = input.replace(TAG_PATTERN, (_match, leading: string, name: string) => {
+    const normalized = name.toLowerCase()
+    if (!tagNames.includes(normalized)) tagNames.push(normalized)
+    return leading
+  })
+  return { title: title.replace(/\s+/g, " ").trim(), tagNames }
+}
+
+export function createLocalTag(name: string, existingTags: Tag[]): Tag {
+  const now = Date.now()
+  const clientId = crypto.randomUUID()
+  return {
+    id: clientId,
+    clientId,
+    name: name.toLowerCase(),
+    // Rotate through the palette like the server does
+    color: COLORS[existingTags.length % COLORS.length].value,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Resolve tag names to local tags, creating the missing ones (local-only mode).
+ */
+export function resolveLocalTags(names: string[], existingTags: Tag[]): { tagIds: string[]; tags: Tag[] } {
+  const tags = existingTags.slice()
+  const tagIds: string[] = []
+  for (const name of names) {
+    let tag = tags.find((candidate) => candidate.name === name.toLowerCase())
+    if (!tag) {
+      tag = createLocalTag(name, tags)
+      tags.push(tag)
+    }
+    if (!tagIds.includes(tag.id)) tagIds.push(tag.id)
+  }
+  return { tagIds, tags }
+}
+
+export function isTaskFilterActive(filter: TaskFilter): boolean {
+  return filter.tagIds.length > 0 || filter.colors.length > 0 || filter.status !== "all"
+}
+
+// A task matches when it has any of the selected tags and any of the selected colors
+export function matchesTaskFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.status === "open" && task.completed) return false
+  if (filter.status === "completed" && !task.completed) return false
+  if (filter.colors.length > 0 && !filter.colors.includes(task.color)) return false
+  if (filter.tagIds.length > 0 && !(task.tagIds ?? []).some((tagId) => filter.tagIds.includes(tagId))) {
+    return false
+  }
+  return true
+}
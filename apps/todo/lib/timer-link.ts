@@ -0,0 +1,22 @@
+import type { Task } from "@/app/page"
+
+const TIMER_APP_URL = process.env.NEXT_PUBLIC_TIMER_APP_URL ?? "https://timer.caalm.app"
+
+// Opens the timer app set up for this task; sessions it records point back at the task
+export function getTimerLink(task: Pick<Task, "clientId" | "_id" | "title">): string {
+  const params = new URLSearchParams({ task: task.clientId, title: task.title })
+  if (task._id) {
+    params.set("taskId", task._id)
+  }
+  return `${TIMER_APP_URL}/?${params.toString()}`
+}
+
+// "1h 25m", "40m" or "<1m"
+export function formatFocusTime(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000)
+  if (totalMinutes < 1) return "<1m"
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  if (hours === 0) return `${minutes}m`
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`
+}
@@ -5,6 +5,7 @@ import { Analytics } from "@vercel/analytics/next"
 import { Suspense } from "react"
 import { ThemeProvider } from "next-themes"
 import { ConvexClientProvider } from "@/lib/convex-provider"
+import { SettingsProvider } from "@/components/settings-provider"
 import "./globals.css"
 
 const geistSans = Geist({
@@ -36,7 +37,9 @@ export default function RootLayout({
       <body className="font-sans">
         <ConvexClientProvider>
           <ThemeProvider attribute="class" defaultTheme="light" enableSystem={false}>
-            <Suspense fallback={<div>Loading...</div>}>{children}</Suspense>
+            <SettingsProvider>
+              <Suspense fallback={<div>Loading...</div>}>{children}</Suspense>
+            </SettingsProvider>
           </ThemeProvider>
         </ConvexClientProvider>
         <Analytics />
@@ -1,15 +1,31 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useQuery, useMutation } from "convex/react"
 import { api } from "../convex/_generated/api"
 import { authClient } from "@/lib/auth-client"
-import { loadLocalSubscriptions, saveLocalSubscriptions, debugLocalStorage, clearLocalSubscriptions } from "@/lib/local-storage"
+import {
+  loadLocalMonthConfig,
+  saveLocalMonthConfig,
+  migrateLocalSlotsToCustomers,
+  saveLocalCustomers,
+  loadLocalRollover,
+  startLocalMonthFromPrevious,
+} from "@/lib/local-storage"
 import { Card } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
-import { TrendingUp, Users, Euro, ChevronLeft, ChevronRight } from "lucide-react"
+import { TrendingUp, Users, Banknote, ChevronLeft, ChevronRight, SlidersHorizontal } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { SignInDialog } from "@/components/sign-in-dialog"
+import { AuthButton } from "@/components/auth-button"
+import { useSettings } from "@/components/settings-provider"
+import { MonthConfigDialog } from "@/components/month-config-dialog"
+import { CustomerDialog } from "@/components/customer-dialog"
+import { RevenueHistory } from "@/components/revenue-history"
+import { MonthRollover } from "@/components/month-rollover"
+import { formatCurrency, getDefaultTrackerConfig, type TrackerConfig } from "@/lib/tracker-config"
+import { createCustomer, getActiveCustomers, type Customer, type CustomerFields } from "@/lib/customers"
+import { buildSubscriptionHistory, type HistoryEntry, type HistoryRange } from "@/lib/history"
+import type { MonthRollover as MonthRolloverLog } from "@/lib/rollover"
 import { SyncStatus } from "@/components/sync-status"
 import { Button } from "@/components/ui/button"
 
@@ -46,65 +62,121 @@ function getNextMonth(monthString: string): string {
 }
 
 export default function SubscriptionTracker() {
-  const TOTAL_SLOTS = 1000
-  const GOAL_SLOTS = 400
-  const PRICE_PER_CUSTOMER = 6
-  const GOAL_AMOUNT = GOAL_SLOTS * PRICE_PER_CUSTOMER
-
+  const { settings, updateSettings } = useSettings()
   const { data: session, isPending: sessionLoading } = authClient.useSession()
   const [syncStatus, setSyncStatus] = useState<"local-only" | "syncing" | "synced" | "error">("local-only")
   const [hasInitialized, setHasInitialized] = useState(false)
   const [currentMonth, setCurrentMonth] = useState<string>(() => getCurrentMonthString())
 
-  // Focus mode state
-  const [isFocusMode, setIsFocusMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('focusMode') === 'true'
-    }
-    return false
-  })
+  // Focus mode is a synced setting
+  const isFocusMode = settings.general.focusMode
 
-  // Initialize from localStorage or default to empty array
-  const [checkedBoxes, setCheckedBoxes] = useState<Set<number>>(() => {
-    if (typeof window !== "undefined") {
-      return loadLocalSubscriptions(currentMonth)
-    }
-    return new Set()
-  })
+  // Customers saved on this device: the only copy for anonymous users, uploaded on sign-in
+  const [localCustomers, setLocalCustomers] = useState<Customer[]>(() =>
+    migrateLocalSlotsToCustomers(
+      (month) => loadLocalMonthConfig(month)?.pricePerCustomer ?? settings.tracker.pricePerCustomer
+    )
+  )
+  const [historyRange, setHistoryRange] = useState<HistoryRange>(6)
+  const [editingCustomer, setEditingCustomer] = useState<{ customer: Customer | null; fields: CustomerFields } | null>(null)
+
+  // Month configuration saved while signed out (signed-in users read it from Convex)
+  const [localMonthConfig, setLocalMonthConfig] = useState<TrackerConfig | null>(() => loadLocalMonthConfig(currentMonth))
+  const [localRollover, setLocalRollover] = useState<MonthRolloverLog | null>(() => loadLocalRollover(currentMonth))
 
   // Convex queries and mutations
   const subscriptionData = useQuery(api.subscriptions.getSubscriptions as any, { month: currentMonth })
+  const convexCustomers = useQuery(api.customers.getCustomers as any, session?.user ? {} : "skip") as Customer[] | null | undefined
   const syncLocalSubscriptions = useMutation(api.subscriptions.syncLocalSubscriptions as any)
-  const updateSubscription = useMutation(api.subscriptions.updateSubscription as any)
-  const batchUpdateSubscriptions = useMutation(api.subscriptions.batchUpdateSubscriptions as any)
+  const updateMonthConfig = useMutation(api.subscriptions.updateMonthConfig as any)
+  const syncLocalCustomers = useMutation(api.customers.syncLocalCustomers as any)
+  const addCustomerMutation = useMutation(api.customers.addCustomer as any)
+  const updateCustomerMutation = useMutation(api.customers.updateCustomer as any)
+  const deleteCustomerMutation = useMutation(api.customers.deleteCustomer as any)
+  const convexRollover = useQuery(
+    api.monthRollovers.getMonthRollover as any,
+    session?.user ? { month: currentMonth } : "skip"
+  ) as MonthRolloverLog | null | undefined
+  const startMonthMutation = useMutation(api.monthRollovers.startMonthFromPrevious as any)
+  const convexHistory = useQuery(
+    api.subscriptions.getSubscriptionHistory as any,
+    session?.user ? { endMonth: currentMonth, months: historyRange } : "skip"
+  ) as HistoryEntry[] | null | undefined
+
+  // Months that were never customized use the goal and price from settings
+  const monthConfig: TrackerConfig | null = session?.user && subscriptionData
+    ? subscriptionData.config ?? null
+    : localMonthConfig
+  const config = monthConfig ?? getDefaultTrackerConfig(settings.tracker.goalSlots, settings.tracker.pricePerCustomer)
+  const { totalSlots, goalSlots, pricePerCustomer, currency, milestones } = config
+  const goalAmount = goalSlots * pricePerCustomer
+
+  const customers = session?.user ? convexCustomers ?? [] : localCustomers
+  const activeCustomers = getActiveCustomers(customers, currentMonth)
+
+  // Anonymous users get the same history, computed from the customers on this device
+  const localHistory = useMemo(
+    () =>
+      buildSubscriptionHistory(
+        localCustomers,
+        currentMonth,
+        historyRange,
+        (month) => (month === currentMonth ? localMonthConfig : loadLocalMonthConfig(month))?.currency ?? "EUR"
+      ),
+    [localCustomers, currentMonth, historyRange, localMonthConfig]
+  )
+  const history = session?.user ? convexHistory ?? undefined : localHistory
 
-  // Focus mode persistence
-  useEffect(() => {
-    localStorage.setItem('focusMode', isFocusMode.toString())
-  }, [isFocusMode])
+  const rollover = session?.user ? convexRollover ?? null : localRollover
+  // Months with their own settings were already set up; wait for Convex before offering the action
+  const canStartMonth = session?.user
+    ? subscriptionData !== undefined && convexRollover !== undefined && !monthConfig && !subscriptionData?.checkedSlots?.length
+    : !localMonthConfig
 
   // Focus mode keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
-        setIsFocusMode(prev => !prev)
+        updateSettings({ general: { focusMode: !isFocusMode } })
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [])
+  }, [isFocusMode, updateSettings])
 
   // Initialize sync when user logs in
   useEffect(() => {
     if (session?.user && !hasInitialized) {
       setHasInitialized(true)
       setSyncStatus("syncing")
-      
-      // Sync local data to Convex
-      const localData = Array.from(checkedBoxes)
-      syncLocalSubscriptions({ month: currentMonth, checkedSlots: localData })
+
+      // The server also turns any checked slots it still has into placeholder customers
+      const syncs: Promise<unknown>[] = [
+        syncLocalCustomers({
+          customers: localCustomers.map((customer) => ({
+            clientId: customer.clientId,
+            name: customer.name,
+            email: customer.email,
+            notes: customer.notes,
+            price: customer.price,
+            startDate: customer.startDate,
+            cancelDate: customer.cancelDate,
+            isPlaceholder: customer.isPlaceholder,
+            createdAt: customer.createdAt,
+            updatedAt: customer.updatedAt,
+          })),
+        }),
+      ]
+      if (localMonthConfig) {
+        syncs.push(syncLocalSubscriptions({ month: currentMonth, config: localMonthConfig }))
+      }
+
+      Promise.all(syncs)
         .then(() => {
+          // Uploaded customers now live on the server; don't upload them into another account later
+          setLocalCustomers([])
+          saveLocalCustomers([])
           setSyncStatus("synced")
         })
         .catch((error) => {
@@ -115,116 +187,172 @@ export default function SubscriptionTracker() {
       setHasInitialized(false)
       setSyncStatus("local-only")
     }
-  }, [session?.user, hasInitialized, checkedBoxes, syncLocalSubscriptions, currentMonth])
+  }, [session?.user, hasInitialized, localCustomers, syncLocalCustomers, syncLocalSubscriptions, currentMonth, localMonthConfig])
 
   // Update local state when Convex data changes
   useEffect(() => {
     if (subscriptionData && session?.user) {
-      const convexData = new Set<number>(subscriptionData.checkedSlots)
-      setCheckedBoxes(convexData)
-      saveLocalSubscriptions(currentMonth, convexData)
+      if (subscriptionData.config) {
+        setLocalMonthConfig(subscriptionData.config)
+        saveLocalMonthConfig(currentMonth, subscriptionData.config)
+      }
       setSyncStatus("synced")
     }
   }, [subscriptionData, session?.user, currentMonth])
 
-
   // Load data when month changes
   useEffect(() => {
-    console.log(`Loading data for month: ${currentMonth}`)
-    const monthData = loadLocalSubscriptions(currentMonth)
-    console.log(`Loaded data for ${currentMonth}:`, Array.from(monthData))
-    setCheckedBoxes(monthData)
+    setLocalMonthConfig(loadLocalMonthConfig(currentMonth))
+    setLocalRollover(loadLocalRollover(currentMonth))
   }, [currentMonth])
 
-  const toggleCheckbox = async (index: number) => {
-    const newSet = new Set(checkedBoxes)
-    const isChecked = newSet.has(index)
-    
-    if (isChecked) {
-      newSet.delete(index)
-    } else {
-      newSet.add(index)
+  const openNewCustomer = () => {
+    const today = new Date().toISOString().slice(0, 10)
+    setEditingCustomer({
+      customer: null,
+      fields: {
+        name: "",
+        price: pricePerCustomer,
+        // New customers in the current month start today, otherwise at the start of the month
+        startDate: today.startsWith(currentMonth) ? today : `${currentMonth}-01`,
+      },
+    })
+  }
+
+  const openCustomer = (customer: Customer) => {
+    setEditingCustomer({
+      customer,
+      fields: {
+        name: customer.name,
+        email: customer.email,
+        notes: customer.notes,
+        price: customer.price,
+        startDate: customer.startDate,
+        cancelDate: customer.cancelDate,
+      },
+    })
+  }
+
+  // Throws on failure so the dialog can show the error
+  const runCustomerMutation = async (mutation: () => Promise<unknown>) => {
+    setSyncStatus("syncing")
+    try {
+      await mutation()
+      setSyncStatus("synced")
+    } catch (error) {
+      setSyncStatus("error")
+      throw error
     }
-    
-    setCheckedBoxes(newSet)
-    
-    // Always save to localStorage immediately
-    saveLocalSubscriptions(currentMonth, newSet)
+  }
+
+  const saveCustomer = async (fields: CustomerFields) => {
+    const customer = editingCustomer?.customer ?? null
 
-    // If user is logged in, sync to Convex
     if (session?.user) {
+      await runCustomerMutation(() =>
+        customer?._id
+          ? updateCustomerMutation({ id: customer._id, ...fields })
+          : addCustomerMutation({ clientId: createCustomer(fields).clientId, ...fields })
+      )
+      return
+    }
+
+    const next = customer
+      ? localCustomers.map((c) =>
+          c.clientId === customer.clientId ? { ...c, ...fields, isPlaceholder: false, updatedAt: Date.now() } : c
+        )
+      : [...localCustomers, createCustomer(fields)]
+    setLocalCustomers(next)
+    saveLocalCustomers(next)
+  }
+
+  const deleteCustomer = async () => {
+    const customer = editingCustomer?.customer
+    if (!customer) return
+
+    if (session?.user) {
+      if (customer._id) await runCustomerMutation(() => deleteCustomerMutation({ id: customer._id }))
+      return
+    }
+
+    const next = localCustomers.filter((c) => c.clientId !== customer.clientId)
+    setLocalCustomers(next)
+    saveLocalCustomers(next)
+  }
+
+  const saveMonthConfig = async (nextConfig: TrackerConfig) => {
+    // Signed-in users only keep the local copy once Convex accepts it
+    if (session?.user) {
+      setSyncStatus("syncing")
       try {
-        setSyncStatus("syncing")
-        await updateSubscription({ 
-          month: currentMonth,
-          slotIndex: index, 
-          isChecked: !isChecked 
-        })
+        await updateMonthConfig({ month: currentMonth, config: nextConfig })
+        setSyncStatus("synced")
+      } catch (error) {
+        setSyncStatus("error")
+        throw error
+      }
+    }
+    setLocalMonthConfig(nextConfig)
+    saveLocalMonthConfig(currentMonth, nextConfig)
+  }
+
+  const startMonthFromPrevious = async () => {
+    if (session?.user) {
+      setSyncStatus("syncing")
+      try {
+        await startMonthMutation({ month: currentMonth })
         setSyncStatus("synced")
       } catch (error) {
-        console.error("Failed to update subscription:", error)
         setSyncStatus("error")
-        // Revert the change on error
-        setCheckedBoxes(checkedBoxes)
-        // Also revert localStorage
-        saveLocalSubscriptions(currentMonth, checkedBoxes)
+        throw error
       }
+      return
     }
+    setLocalRollover(startLocalMonthFromPrevious(currentMonth, localCustomers))
+    setLocalMonthConfig(loadLocalMonthConfig(currentMonth))
   }
 
   // Month navigation functions
   const goToPreviousMonth = () => {
-    console.log(`Switching from ${currentMonth} to previous month. Current data:`, Array.from(checkedBoxes))
-    // Only save current data if it's not empty
-    if (checkedBoxes.size > 0) {
-      console.log(`Saving non-empty data for ${currentMonth}`)
-      saveLocalSubscriptions(currentMonth, checkedBoxes)
-    } else {
-      console.log(`Skipping save for ${currentMonth} - data is empty`)
-    }
-    
-    const previousMonth = getPreviousMonth(currentMonth)
-    console.log(`Switching to month: ${previousMonth}`)
-    setCurrentMonth(previousMonth)
+    setCurrentMonth(getPreviousMonth(currentMonth))
   }
 
   const goToNextMonth = () => {
-    console.log(`Switching from ${currentMonth} to next month. Current data:`, Array.from(checkedBoxes))
-    // Only save current data if it's not empty
-    if (checkedBoxes.size > 0) {
-      console.log(`Saving non-empty data for ${currentMonth}`)
-      saveLocalSubscriptions(currentMonth, checkedBoxes)
-    } else {
-      console.log(`Skipping save for ${currentMonth} - data is empty`)
-    }
-    
-    const nextMonth = getNextMonth(currentMonth)
-    console.log(`Switching to month: ${nextMonth}`)
-    setCurrentMonth(nextMonth)
+    setCurrentMonth(getNextMonth(currentMonth))
   }
 
-  const activeCount = checkedBoxes.size
-  const currentRevenue = activeCount * PRICE_PER_CUSTOMER
-  const progressPercentage = (activeCount / GOAL_SLOTS) * 100
+  const activeCount = activeCustomers.length
+  const currentRevenue = activeCustomers.reduce((sum, customer) => sum + customer.price, 0)
+  const progressPercentage = (activeCount / goalSlots) * 100
 
   const getMilestoneStatus = (milestone: number) => {
     if (activeCount >= milestone) return "complete"
     return "incomplete"
   }
 
-  const milestones = [
-    { count: 200, label: "Sustainable", dotColor: "#ffb3ba" },
-    { count: 300, label: "Growth", dotColor: "#ffdfba" },
-    { count: 400, label: "Made it", dotColor: "#baffc9" },
-  ]
+  // Slot index (0-based) -> color of the milestone reached at that slot
+  const milestoneColors = new Map(milestones.map((milestone) => [milestone.count - 1, milestone.color]))
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8 pb-24">
       <div className="mx-auto max-w-2xl space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div className="space-y-2">
+          <div className="flex items-center gap-2">
             <h1 className="text-2xl font-bold tracking-tight text-balance font-mono">{formatMonthDisplay(currentMonth)}</h1>
+            <MonthConfigDialog
+              monthLabel={formatMonthDisplay(currentMonth)}
+              config={config}
+              activeCustomers={activeCount}
+              onSave={saveMonthConfig}
+            >
+              <button
+                className="rounded-lg p-2 text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                aria-label="Edit goal and pricing for this month"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+              </button>
+            </MonthConfigDialog>
           </div>
           <div 
             className={`transition-transform duration-300 ease-in-out ${
@@ -232,23 +360,7 @@ export default function SubscriptionTracker() {
             }`}
           >
             <div className="flex items-center gap-2">
-              {session?.user ? (
-                <div className="flex items-center gap-2">
-                  <span className="font-mono text-sm text-muted-foreground">{session.user.email}</span>
-                  <button
-                    onClick={() => authClient.signOut()}
-                    className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm"
-                  >
-                    Sign out
-                  </button>
-                </div>
-              ) : (
-                <SignInDialog>
-                  <button className="rounded-lg border border-border p-2 hover:bg-accent transition-colors font-mono text-sm">
-                    Sign in
-                  </button>
-                </SignInDialog>
-              )}
+              <AuthButton />
               <ThemeToggle />
             </div>
           </div>
@@ -261,6 +373,13 @@ export default function SubscriptionTracker() {
           </div>
         )}
 
+        <MonthRollover
+          rollover={rollover}
+          canStart={canStartMonth}
+          formatMonth={formatMonthDisplay}
+          onStart={startMonthFromPrevious}
+        />
+
         {/* Stats Cards */}
         <div className="grid gap-4 md:grid-cols-3">
           <Card className="p-6">
@@ -268,7 +387,7 @@ export default function SubscriptionTracker() {
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground font-mono">Active Customers</p>
                 <p className="text-3xl font-bold font-mono">{activeCount}</p>
-                <p className="text-xs text-muted-foreground font-mono">of {GOAL_SLOTS} goal</p>
+                <p className="text-xs text-muted-foreground font-mono">of {goalSlots} goal</p>
               </div>
               <Users className="h-10 w-10 text-primary opacity-20" />
             </div>
@@ -278,10 +397,10 @@ export default function SubscriptionTracker() {
             <div className="flex items-center justify-between">
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground font-mono">Current Revenue</p>
-                <p className="text-3xl font-bold font-mono">€{currentRevenue}</p>
-                <p className="text-xs text-muted-foreground font-mono">of €{GOAL_AMOUNT} goal</p>
+                <p className="text-3xl font-bold font-mono">{formatCurrency(currentRevenue, currency)}</p>
+                <p className="text-xs text-muted-foreground font-mono">of {formatCurrency(goalAmount, currency)} goal</p>
               </div>
-              <Euro className="h-10 w-10 text-primary opacity-20" />
+              <Banknote className="h-10 w-10 text-primary opacity-20" />
             </div>
           </Card>
 
@@ -303,21 +422,21 @@ export default function SubscriptionTracker() {
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold font-mono">Overall Progress</h2>
               <span className="text-sm font-mono text-muted-foreground">
-                €{currentRevenue} / €{GOAL_AMOUNT}
+                {formatCurrency(currentRevenue, currency)} / {formatCurrency(goalAmount, currency)}
               </span>
             </div>
             <Progress value={Math.min(progressPercentage, 100)} className="h-3" />
 
             {/* Milestones */}
             <div className="flex items-center justify-between pt-2">
-              {milestones.map((milestone) => (
-                <div key={milestone.count} className="flex flex-col items-center gap-1">
+              {milestones.map((milestone, index) => (
+                <div key={`${milestone.label}-${index}`} className="flex flex-col items-center gap-1">
                   <div className="flex items-center gap-1.5">
                   <div
                     className="h-3 w-3"
                     style={{
                       backgroundColor: getMilestoneStatus(milestone.count) === "complete"
-                        ? milestone.dotColor
+                        ? milestone.color
                         : "hsl(var(--muted-foreground) / 0.2)"
                     }}
                   />
@@ -343,28 +462,24 @@ export default function SubscriptionTracker() {
           <div className="space-y-4">
             <h2 className="text-lg font-semibold font-mono">Customer Slots</h2>
             <div className="grid grid-cols-10 sm:grid-cols-15 md:grid-cols-20 lg:grid-cols-25 gap-1 w-full">
-              {Array.from({ length: TOTAL_SLOTS }, (_, i) => i).map((index) => {
-                const isChecked = checkedBoxes.has(index)
-                const isMilestone = index + 1 === 200 || index + 1 === 300 || index + 1 === 400
-
-                let milestoneColor = ""
-                if (isMilestone) {
-                  if (index + 1 === 200) milestoneColor = "#ffb3ba"
-                  else if (index + 1 === 300) milestoneColor = "#ffdfba"
-                  else if (index + 1 === 400) milestoneColor = "#baffc9"
-                }
+              {Array.from({ length: totalSlots }, (_, i) => i).map((index) => {
+                // Active customers fill the first slots, in the order they joined
+                const customer = activeCustomers[index]
+                const isChecked = customer !== undefined
+                const milestoneColor = milestoneColors.get(index)
+                const isMilestone = milestoneColor !== undefined
 
                 return (
                   <button
                     key={index}
-                    onClick={() => toggleCheckbox(index)}
+                    onClick={() => (customer ? openCustomer(customer) : openNewCustomer())}
                     className="relative aspect-square border transition-colors duration-200 hover:bg-green-300/30 min-h-[32px] sm:min-h-[28px] md:min-h-[24px]"
                     style={{
                       backgroundColor: isChecked ? "rgb(186, 255, 201)" : undefined,
                       borderColor: isChecked ? "rgb(186, 255, 201)" : undefined,
                     }}
-                    title={`Customer ${index + 1} - €${PRICE_PER_CUSTOMER}`}
-                    aria-label={`Customer slot ${index + 1}`}
+                    title={customer ? `${customer.name} - ${formatCurrency(customer.price, currency)}` : "Add a customer"}
+                    aria-label={customer ? customer.name : `Empty slot ${index + 1}`}
                   >
                     {isMilestone && (
                       <div
@@ -389,12 +504,25 @@ export default function SubscriptionTracker() {
               })}
             </div>
             <p className="text-xs text-muted-foreground text-center font-mono">
-              Click any box to toggle customer subscription status • Each customer = €{PRICE_PER_CUSTOMER} •{" "}
-              {TOTAL_SLOTS} total slots available
+              Click an empty box to add a customer or a filled one to edit it • Default price {formatCurrency(pricePerCustomer, currency)} •{" "}
+              {totalSlots} total slots available
             </p>
           </div>
         </Card>
 
+        <RevenueHistory history={history} range={historyRange} onRangeChange={setHistoryRange} />
+
+        <CustomerDialog
+          open={editingCustomer !== null}
+          onOpenChange={(open) => !open && setEditingCustomer(null)}
+          initialFields={editingCustomer?.fields ?? { name: "", price: pricePerCustomer, startDate: `${currentMonth}-01` }}
+          isNew={!editingCustomer?.customer}
+          isPlaceholder={editingCustomer?.customer?.isPlaceholder}
+          currency={currency}
+          onSave={saveCustomer}
+          onDelete={editingCustomer?.customer ? deleteCustomer : undefined}
+        />
+
         {/* Sticky Bottom Navigation */}
         <div 
           className={`fixed bottom-0 left-0 right-0 bg-background/95 backdrop-blur-sm border-t border-border p-4 z-40 transition-transform duration-300 ease-in-out ${
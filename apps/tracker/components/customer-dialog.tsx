@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { CustomerFields } from "@/lib/customers"
+
+interface CustomerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The customer being edited, or the prefilled fields of a new one
+  initialFields: CustomerFields
+  isNew: boolean
+  isPlaceholder?: boolean
+  currency: string
+  onSave: (fields: CustomerFields) => Promise<void>
+  onDelete?: () => Promise<void>
+}
+
+export function CustomerDialog({
+  open,
+  onOpenChange,
+  initialFields,
+  isNew,
+  isPlaceholder = false,
+  currency,
+  onSave,
+  onDelete,
+}: CustomerDialogProps) {
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [notes, setNotes] = useState("")
+  const [price, setPrice] = useState("")
+  const [startDate, setStartDate] = useState("")
+  const [cancelDate, setCancelDate] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the given fields each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setName(initialFields.name)
+    setEmail(initialFields.email ?? "")
+    setNotes(initialFields.notes ?? "")
+    setPrice(String(initialFields.price))
+    setStartDate(initialFields.startDate)
+    setCancelDate(initialFields.cancelDate ?? "")
+    setError("")
+  }, [open, initialFields])
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Failed to save customer:", error)
+      setError(error instanceof Error ? error.message : "Failed to save. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const priceValue = Number(price)
+    if (!name.trim()) {
+      setError("Name is required")
+      return
+    }
+    if (!Number.isFinite(priceValue) || priceValue < 0) {
+      setError("Price can't be negative")
+      return
+    }
+    if (!startDate) {
+      setError("Start date is required")
+      return
+    }
+    if (cancelDate && cancelDate < startDate) {
+      setError("Cancel date must be on or after the start date")
+      return
+    }
+
+    run(() =>
+      onSave({
+        name: name.trim(),
+        email: email.trim() || undefined,
+        notes: notes.trim() || undefined,
+        price: priceValue,
+        startDate,
+        cancelDate: cancelDate || undefined,
+      })
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{isNew ? "New customer" : name || initialFields.name}</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            {isPlaceholder
+              ? "Created from a checked slot. Give it a name to keep track of who it is."
+              : "Customers count toward every month between their start and cancel dates."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 font-mono text-sm">
+          <label className="block space-y-2">
+            <span className="block text-xs text-muted-foreground">Name</span>
+            <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} className="font-mono" autoFocus />
+          </label>
+          <label className="block space-y-2">
+            <span className="block text-xs text-muted-foreground">Email (optional)</span>
+            <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className="font-mono" />
+          </label>
+          <div className="grid grid-cols-3 gap-4">
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Price ({currency})</span>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="font-mono"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Started</span>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="font-mono" />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Cancelled</span>
+              <Input type="date" value={cancelDate} onChange={(e) => setCancelDate(e.target.value)} className="font-mono" />
+            </label>
+          </div>
+          <label className="block space-y-2">
+            <span className="block text-xs text-muted-foreground">Notes (optional)</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm"
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter className="gap-2">
+            {onDelete && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isSaving}
+                onClick={() => run(onDelete)}
+                className="font-mono sm:mr-auto"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            <Button type="submit" variant="secondary" disabled={isSaving} className="font-mono">
+              {isSaving ? "Saving..." : isNew ? "Add customer" : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
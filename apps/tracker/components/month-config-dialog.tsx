@@ -0,0 +1,259 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  CURRENCIES,
+  MAX_MILESTONES,
+  MILESTONE_COLORS,
+  validateTrackerConfig,
+  type TrackerConfig,
+} from "@/lib/tracker-config"
+
+interface MonthConfigDialogProps {
+  monthLabel: string
+  config: TrackerConfig
+  activeCustomers: number
+  onSave: (config: TrackerConfig) => Promise<void>
+  children: React.ReactNode
+}
+
+// Number fields are edited as text so they can be cleared while typing
+interface MilestoneDraft {
+  label: string
+  count: string
+  color: string
+}
+
+interface ConfigDraft {
+  totalSlots: string
+  goalSlots: string
+  pricePerCustomer: string
+  currency: string
+  milestones: MilestoneDraft[]
+}
+
+function toDraft(config: TrackerConfig): ConfigDraft {
+  return {
+    totalSlots: String(config.totalSlots),
+    goalSlots: String(config.goalSlots),
+    pricePerCustomer: String(config.pricePerCustomer),
+    currency: config.currency,
+    milestones: config.milestones.map((milestone) => ({ ...milestone, count: String(milestone.count) })),
+  }
+}
+
+function fromDraft(draft: ConfigDraft): TrackerConfig {
+  return {
+    totalSlots: Number(draft.totalSlots),
+    goalSlots: Number(draft.goalSlots),
+    pricePerCustomer: Number(draft.pricePerCustomer),
+    currency: draft.currency,
+    milestones: draft.milestones
+      .map((milestone) => ({ ...milestone, label: milestone.label.trim(), count: Number(milestone.count) }))
+      .sort((a, b) => a.count - b.count),
+  }
+}
+
+export function MonthConfigDialog({ monthLabel, config, activeCustomers, onSave, children }: MonthConfigDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<ConfigDraft>(() => toDraft(config))
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(toDraft(config))
+      setError("")
+    }
+    setOpen(nextOpen)
+  }
+
+  const updateMilestone = (index: number, values: Partial<MilestoneDraft>) => {
+    setDraft((prev) => ({
+      ...prev,
+      milestones: prev.milestones.map((milestone, i) => (i === index ? { ...milestone, ...values } : milestone)),
+    }))
+  }
+
+  const addMilestone = () => {
+    setDraft((prev) => ({
+      ...prev,
+      milestones: [
+        ...prev.milestones,
+        {
+          label: "",
+          count: prev.goalSlots,
+          color: MILESTONE_COLORS[prev.milestones.length % MILESTONE_COLORS.length],
+        },
+      ],
+    }))
+  }
+
+  const removeMilestone = (index: number) => {
+    setDraft((prev) => ({ ...prev, milestones: prev.milestones.filter((_, i) => i !== index) }))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const nextConfig = fromDraft(draft)
+    const validationError = validateTrackerConfig(nextConfig, activeCustomers)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await onSave(nextConfig)
+      setOpen(false)
+    } catch (error) {
+      console.error("Failed to save month settings:", error)
+      setError(error instanceof Error ? error.message : "Failed to save. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const currencies = CURRENCIES.includes(draft.currency) ? CURRENCIES : [draft.currency, ...CURRENCIES]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{monthLabel}</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Goal, pricing and milestones for this month. Customers stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-6 font-mono text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Slots</span>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={draft.totalSlots}
+                onChange={(e) => setDraft({ ...draft, totalSlots: e.target.value })}
+                className="font-mono"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Goal (customers)</span>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={draft.goalSlots}
+                onChange={(e) => setDraft({ ...draft, goalSlots: e.target.value })}
+                className="font-mono"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Price per customer</span>
+              <Input
+                type="number"
+                min={0.01}
+                step={0.01}
+                value={draft.pricePerCustomer}
+                onChange={(e) => setDraft({ ...draft, pricePerCustomer: e.target.value })}
+                className="font-mono"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Currency</span>
+              <select
+                value={draft.currency}
+                onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                className="h-9 w-full rounded-md border border-input bg-transparent px-3 font-mono text-sm"
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Milestones</p>
+            {draft.milestones.map((milestone, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={milestone.label}
+                  onChange={(e) => updateMilestone(index, { label: e.target.value })}
+                  placeholder="Label"
+                  maxLength={40}
+                  className="font-mono"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={milestone.count}
+                  onChange={(e) => updateMilestone(index, { count: e.target.value })}
+                  aria-label="Customers"
+                  className="w-24 font-mono"
+                />
+                <div className="flex items-center gap-1">
+                  {MILESTONE_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => updateMilestone(index, { color })}
+                      className={`h-4 w-4 border ${milestone.color === color ? "border-foreground" : "border-transparent"}`}
+                      style={{ backgroundColor: color }}
+                      aria-label={`Color ${color}`}
+                    />
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeMilestone(index)}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                  aria-label="Remove milestone"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            {draft.milestones.length < MAX_MILESTONES && (
+              <button
+                type="button"
+                onClick={addMilestone}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+              >
+                <Plus className="h-3 w-3" />
+                Add milestone
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" variant="secondary" disabled={isSaving} className="font-mono">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
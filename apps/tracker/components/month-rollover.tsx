@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { CopyPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { MonthRollover as MonthRolloverLog, RolloverCustomer } from "@/lib/rollover"
+
+interface MonthRolloverProps {
+  rollover: MonthRolloverLog | null
+  // Only months without their own settings can be started from a previous one
+  canStart: boolean
+  formatMonth: (month: string) => string
+  onStart: () => Promise<void>
+}
+
+function CustomerList({ label, customers }: { label: string; customers: RolloverCustomer[] }) {
+  if (customers.length === 0) return null
+  return (
+    <p>
+      <span className="text-foreground">{label}:</span> {customers.map((customer) => customer.name).join(", ")}
+    </p>
+  )
+}
+
+export function MonthRollover({ rollover, canStart, formatMonth, onStart }: MonthRolloverProps) {
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    setError("")
+    try {
+      await onStart()
+    } catch (error) {
+      console.error("Failed to start month:", error)
+      setError(error instanceof Error ? error.message : "Failed to start the month. Please try again.")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  if (rollover) {
+    return (
+      <details className="text-xs font-mono text-muted-foreground">
+        <summary className="cursor-pointer text-center">
+          {rollover.source === "cron" ? "Started automatically" : "Started"} from {formatMonth(rollover.fromMonth)} •{" "}
+          {rollover.carried.length} carried • +{rollover.added.length} added • -{rollover.removed.length} removed
+        </summary>
+        <div className="mt-2 space-y-1">
+          <CustomerList label="Added" customers={rollover.added} />
+          <CustomerList label="Removed" customers={rollover.removed} />
+          <CustomerList label="Carried" customers={rollover.carried} />
+        </div>
+      </details>
+    )
+  }
+
+  if (!canStart) return null
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Button variant="outline" size="sm" onClick={handleStart} disabled={isStarting} className="font-mono">
+        <CopyPlus className="h-4 w-4 mr-2" />
+        {isStarting ? "Starting..." : "Start month from previous"}
+      </Button>
+      {error && <p className="text-xs text-red-600 font-mono">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Card } from "@/components/ui/card"
+import { formatCurrency } from "@/lib/tracker-config"
+import { formatPercent, HISTORY_RANGES, type HistoryEntry, type HistoryRange } from "@/lib/history"
+
+interface RevenueHistoryProps {
+  history: HistoryEntry[] | undefined
+  range: HistoryRange
+  onRangeChange: (range: HistoryRange) => void
+}
+
+function formatMonthShort(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: "short", year: "2-digit" })
+}
+
+export function RevenueHistory({ history, range, onRangeChange }: RevenueHistoryProps) {
+  const latest = history?.[history.length - 1]
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold font-mono">History</h2>
+          <div className="flex items-center gap-1">
+            {HISTORY_RANGES.map((option) => (
+              <button
+                key={option}
+                onClick={() => onRangeChange(option)}
+                className={`px-2 py-1 text-xs font-mono border transition-colors ${
+                  range === option ? "border-foreground text-foreground" : "border-transparent text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {option}m
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!history ? (
+          <p className="py-16 text-center text-sm text-muted-foreground font-mono">Loading...</p>
+        ) : (
+          <>
+            <div className="h-64 w-full font-mono text-xs">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={history} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" vertical={false} />
+                  <XAxis dataKey="month" tickFormatter={formatMonthShort} tickLine={false} axisLine={false} />
+                  <YAxis
+                    yAxisId="revenue"
+                    tickFormatter={(value: number) => formatCurrency(value, latest?.currency ?? "EUR")}
+                    tickLine={false}
+                    axisLine={false}
+                    width={80}
+                  />
+                  <YAxis yAxisId="customers" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <Tooltip
+                    labelFormatter={(month) => formatMonthShort(String(month))}
+                    formatter={(value, name, item) =>
+                      name === "MRR" ? formatCurrency(Number(value), item.payload.currency) : value
+                    }
+                    contentStyle={{ backgroundColor: "hsl(var(--background))", borderColor: "hsl(var(--border))" }}
+                  />
+                  <Bar yAxisId="revenue" dataKey="revenue" name="MRR" fill="rgb(186, 255, 201)" />
+                  <Line
+                    yAxisId="customers"
+                    dataKey="activeCount"
+                    name="Customers"
+                    stroke="#bae1ff"
+                    strokeWidth={2}
+                    dot={false}
+                    type="monotone"
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b">
+                    <th className="py-2 text-left font-medium">Month</th>
+                    <th className="py-2 text-right font-medium">Customers</th>
+                    <th className="py-2 text-right font-medium">New</th>
+                    <th className="py-2 text-right font-medium">Lost</th>
+                    <th className="py-2 text-right font-medium">Churn</th>
+                    <th className="py-2 text-right font-medium">MRR</th>
+                    <th className="py-2 text-right font-medium">Growth</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...history].reverse().map((entry) => (
+                    <tr key={entry.month} className="border-b last:border-0">
+                      <td className="py-2">{formatMonthShort(entry.month)}</td>
+                      <td className="py-2 text-right">{entry.activeCount}</td>
+                      <td className="py-2 text-right">{entry.newCount > 0 ? `+${entry.newCount}` : 0}</td>
+                      <td className="py-2 text-right">{entry.lostCount > 0 ? `-${entry.lostCount}` : 0}</td>
+                      <td className="py-2 text-right">{formatPercent(entry.churnRate)}</td>
+                      <td className="py-2 text-right">{formatCurrency(entry.revenue, entry.currency)}</td>
+                      <td className="py-2 text-right">
+                        {entry.mrrGrowth === null ? "-" : `${entry.mrrGrowth > 0 ? "+" : ""}${formatPercent(entry.mrrGrowth)}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { useTheme } from "next-themes"
+import { authClient } from "@/lib/auth-client"
+import { THEME_OPTIONS, TOTAL_SLOTS } from "@/lib/settings"
+import { useSettings } from "@/components/settings-provider"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Kbd } from "@/components/ui/kbd"
+
+interface SettingsDialogProps {
+  children: React.ReactNode
+}
+
+function optionClassName(selected: boolean): string {
+  return `flex-1 rounded-lg border p-2 transition-colors ${
+    selected ? "border-foreground bg-accent" : "border-border hover:bg-accent"
+  }`
+}
+
+export function SettingsDialog({ children }: SettingsDialogProps) {
+  const { data: session } = authClient.useSession()
+  const { themes } = useTheme()
+  const { settings, updateSettings } = useSettings()
+  const [goalSlots, setGoalSlots] = useState("")
+  const [pricePerCustomer, setPricePerCustomer] = useState("")
+
+  // Start editing from the saved values each time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return
+    setGoalSlots(String(settings.tracker.goalSlots))
+    setPricePerCustomer(String(settings.tracker.pricePerCustomer))
+  }
+
+  const saveGoalSlots = () => {
+    const value = Number(goalSlots)
+    if (!Number.isInteger(value) || value < 1 || value > TOTAL_SLOTS) {
+      setGoalSlots(String(settings.tracker.goalSlots))
+      return
+    }
+    if (value !== settings.tracker.goalSlots) updateSettings({ tracker: { goalSlots: value } })
+  }
+
+  const savePricePerCustomer = () => {
+    const value = Number(pricePerCustomer)
+    if (!Number.isFinite(value) || value <= 0) {
+      setPricePerCustomer(String(settings.tracker.pricePerCustomer))
+      return
+    }
+    if (value !== settings.tracker.pricePerCustomer) updateSettings({ tracker: { pricePerCustomer: value } })
+  }
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Settings</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            {session?.user
+              ? "Synced across your devices."
+              : "Saved on this device. Sign in to sync them across devices."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 font-mono text-sm">
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Theme</p>
+            <div className="flex gap-2">
+              {THEME_OPTIONS.filter((option) => themes.includes(option.value)).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateSettings({ general: { theme: option.value } })}
+                  className={optionClassName(settings.general.theme === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Focus mode hides the toolbars. Toggle it anytime with <Kbd>⌘K</Kbd>
+            </p>
+            <div className="flex gap-2">
+              {[false, true].map((focusMode) => (
+                <button
+                  key={String(focusMode)}
+                  type="button"
+                  onClick={() => updateSettings({ general: { focusMode } })}
+                  className={optionClassName(settings.general.focusMode === focusMode)}
+                >
+                  {focusMode ? "On" : "Off"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Default goal (customers)</span>
+              <Input
+                type="number"
+                min={1}
+                max={TOTAL_SLOTS}
+                step={1}
+                value={goalSlots}
+                onChange={(e) => setGoalSlots(e.target.value)}
+                onBlur={saveGoalSlots}
+                onKeyDown={(e) => e.key === "Enter" && saveGoalSlots()}
+                className="font-mono"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-xs text-muted-foreground">Default price per customer</span>
+              <Input
+                type="number"
+                min={0.01}
+                step={0.01}
+                value={pricePerCustomer}
+                onChange={(e) => setPricePerCustomer(e.target.value)}
+                onBlur={savePricePerCustomer}
+                onKeyDown={(e) => e.key === "Enter" && savePricePerCustomer()}
+                className="font-mono"
+              />
+            </label>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              New months start from the previous month&apos;s settings.{" "}
+              {session?.user ? "Automatic runs on the first of each month." : "Automatic needs an account."}
+            </p>
+            <div className="flex gap-2">
+              {[false, true].map((autoRollover) => (
+                <button
+                  key={String(autoRollover)}
+                  type="button"
+                  onClick={() => updateSettings({ tracker: { autoRollover } })}
+                  disabled={autoRollover && !session?.user}
+                  className={`${optionClassName(settings.tracker.autoRollover === autoRollover)} disabled:opacity-50`}
+                >
+                  {autoRollover ? "Automatic" : "Manual"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react"
+import { useMutation, useQuery } from "convex/react"
+import { useTheme } from "next-themes"
+import { api } from "../convex/_generated/api"
+import { authClient } from "@/lib/auth-client"
+import {
+  DEFAULT_SETTINGS,
+  loadLocalSettings,
+  mergeSettings,
+  saveLocalSettings,
+  type Settings,
+  type SettingsUpdate,
+} from "@/lib/settings"
+
+interface SettingsContextValue {
+  settings: Settings
+  updateSettings: (update: SettingsUpdate) => void
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null)
+
+/**
+ * Signed-in users read and write settings through Convex so they follow them between
+ * devices; anonymous users keep them in localStorage.
+ */
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { data: session } = authClient.useSession()
+  const isAuthenticated = Boolean(session?.user)
+  const { themes, setTheme } = useTheme()
+
+  const [localSettings, setLocalSettings] = useState<Settings>(() => loadLocalSettings())
+  const remoteSettings = useQuery(api.userSettings.getSettings, isAuthenticated ? {} : "skip")
+  const updateSettingsMutation = useMutation(api.userSettings.updateSettings).withOptimisticUpdate(
+    (local, args) => {
+      const current = local.getQuery(api.userSettings.getSettings, {})
+      if (!current) return
+      local.setQuery(api.userSettings.getSettings, {}, {
+        ...current,
+        ...(args.general && { general: { ...DEFAULT_SETTINGS.general, ...current.general, ...args.general } }),
+        ...(args.tracker && { tracker: { ...DEFAULT_SETTINGS.tracker, ...current.tracker, ...args.tracker } }),
+      })
+    }
+  )
+
+  const settings = isAuthenticated && remoteSettings ? mergeSettings(localSettings, remoteSettings) : localSettings
+
+  // Keep the device copy current so the next visit starts from the synced values
+  useEffect(() => {
+    if (!isAuthenticated || !remoteSettings) return
+    setLocalSettings((prev) => {
+      const next = mergeSettings(prev, remoteSettings)
+      saveLocalSettings(next)
+      return next
+    })
+  }, [isAuthenticated, remoteSettings])
+
+  // The first sign-in keeps what was chosen on this device
+  useEffect(() => {
+    if (!isAuthenticated || !remoteSettings) return
+    if (remoteSettings.general && remoteSettings.tracker) return
+    updateSettingsMutation({
+      ...(!remoteSettings.general && { general: localSettings.general }),
+      ...(!remoteSettings.tracker && { tracker: localSettings.tracker }),
+    }).catch((error) => {
+      console.error("Failed to upload settings:", error)
+    })
+  }, [isAuthenticated, remoteSettings, localSettings.general, localSettings.tracker, updateSettingsMutation])
+
+  const theme = settings.general.theme
+  const canApplyTheme = themes.includes(theme)
+  useEffect(() => {
+    if (canApplyTheme) setTheme(theme)
+  }, [theme, canApplyTheme, setTheme])
+
+  const updateSettings = useCallback((update: SettingsUpdate) => {
+    const next = mergeSettings(localSettings, update)
+    setLocalSettings(next)
+    saveLocalSettings(next)
+
+    if (isAuthenticated) {
+      updateSettingsMutation(update).catch((error) => {
+        console.error("Failed to save settings:", error)
+      })
+    }
+  }, [localSettings, isAuthenticated, updateSettingsMutation])
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
+
+export function useSettings(): SettingsContextValue {
+  const context = useContext(SettingsContext)
+  if (!context) {
+    throw new Error("useSettings must be used within a SettingsProvider")
+  }
+  return context
+}
@@ -0,0 +1,104 @@
+// Mirrors the customers table in convex/schema.ts
+export interface Customer {
+  _id?: string // Convex id, set once synced
+  clientId: string
+  name: string
+  email?: string
+  notes?: string
+  price: number // Monthly plan price
+  startDate: string // YYYY-MM-DD
+  cancelDate?: string // YYYY-MM-DD, last day the customer pays for
+  isPlaceholder?: boolean // Created from a legacy checked slot
+  createdAt: number
+  updatedAt: number
+}
+
+export type CustomerFields = Pick<Customer, "name" | "email" | "notes" | "price" | "startDate" | "cancelDate">
+
+/**
+ * Whether the customer pays for the given month (YYYY-MM). Mirrors isActiveInMonth in
+ * convex/customers.ts: a customer who cancels during a month still counts for it.
+ */
+export function isActiveInMonth(customer: Pick<Customer, "startDate" | "cancelDate">, month: string): boolean {
+  return customer.startDate.slice(0, 7) <= month && (!customer.cancelDate || customer.cancelDate.slice(0, 7) >= month)
+}
+
+export function compareCustomers(a: Customer, b: Customer): number {
+  return a.startDate.localeCompare(b.startDate) || a.createdAt - b.createdAt
+}
+
+export function getActiveCustomers(customers: Customer[], month: string): Customer[] {
+  return customers.filter((customer) => isActiveInMonth(customer, month)).sort(compareCustomers)
+}
+
+function generateId(): string {
+  return typeof crypto !== "undefined" ? crypto.randomUUID() : Math.random().toString(36).slice(2)
+}
+
+export function createCustomer(fields: CustomerFields): Customer {
+  const now = Date.now()
+  return { ...fields, clientId: generateId(), createdAt: now, updatedAt: now }
+}
+
+function getNextMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 7)
+}
+
+function getLastDayOfMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10)
+}
+
+/**
+ * Turn the legacy `subscription-tracker` slots into placeholder customers. Mirrors
+ * placeholderCustomersFromSlots in convex/customers.ts: a slot checked in consecutive
+ * months is one customer, and customers checked in the last tracked month stay active.
+ */
+export function placeholderCustomersFromSlots(
+  slotsByMonth: Record<string, number[]>,
+  getPrice: (month: string) => number
+): Customer[] {
+  const months = Object.keys(slotsByMonth).sort()
+  if (months.length === 0) return []
+  const lastMonth = months[months.length - 1]
+
+  const customers: Array<Customer & { slot: number }> = []
+  const openRuns = new Map<number, { firstMonth: string; lastMonth: string }>()
+
+  const closeRun = (slot: number) => {
+    const run = openRuns.get(slot)
+    if (!run) return
+    customers.push({
+      ...createCustomer({
+        name: `Customer ${slot + 1}`,
+        price: getPrice(run.firstMonth),
+        startDate: `${run.firstMonth}-01`,
+        cancelDate: run.lastMonth === lastMonth ? undefined : getLastDayOfMonth(run.lastMonth),
+      }),
+      isPlaceholder: true,
+      slot,
+    })
+    openRuns.delete(slot)
+  }
+
+  for (const month of months) {
+    const checked = new Set(slotsByMonth[month])
+    for (const [slot, run] of [...openRuns]) {
+      if (!checked.has(slot) || getNextMonth(run.lastMonth) !== month) closeRun(slot)
+    }
+    for (const slot of checked) {
+      const run = openRuns.get(slot)
+      if (run) {
+        run.lastMonth = month
+      } else {
+        openRuns.set(slot, { firstMonth: month, lastMonth: month })
+      }
+    }
+  }
+  for (const slot of [...openRuns.keys()]) closeRun(slot)
+
+  return customers
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.slot - b.slot)
+    .map(({ slot: _slot, ...customer }) => customer)
+}
@@ -0,0 +1,64 @@
+import { isActiveInMonth, type Customer } from "@/lib/customers"
+
+export const HISTORY_RANGES = [6, 12, 24] as const
+export type HistoryRange = (typeof HISTORY_RANGES)[number]
+
+// Mirrors historyEntryValidator in convex/subscriptions.ts
+export interface HistoryEntry {
+  month: string
+  activeCount: number
+  revenue: number
+  currency: string
+  newCount: number
+  lostCount: number
+  churnRate: number
+  mrrGrowth: number | null
+}
+
+export function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(Date.UTC(year, monthIndex - 1 + offset, 1)).toISOString().slice(0, 7)
+}
+
+/**
+ * Per-month metrics for the `count` months ending with `endMonth`, oldest first.
+ * Mirrors buildSubscriptionHistory in convex/subscriptions.ts for anonymous users.
+ */
+export function buildSubscriptionHistory(
+  customers: Customer[],
+  endMonth: string,
+  count: number,
+  getCurrency: (month: string) => string
+): HistoryEntry[] {
+  const entries: HistoryEntry[] = []
+  let previous = customers.filter((customer) => isActiveInMonth(customer, shiftMonth(endMonth, -count)))
+  let previousRevenue = previous.reduce((sum, customer) => sum + customer.price, 0)
+
+  for (let offset = count - 1; offset >= 0; offset--) {
+    const month = shiftMonth(endMonth, -offset)
+    const active = customers.filter((customer) => isActiveInMonth(customer, month))
+    const activeIds = new Set(active.map((customer) => customer.clientId))
+    const previousIds = new Set(previous.map((customer) => customer.clientId))
+    const revenue = active.reduce((sum, customer) => sum + customer.price, 0)
+    const lostCount = previous.filter((customer) => !activeIds.has(customer.clientId)).length
+
+    entries.push({
+      month,
+      activeCount: active.length,
+      revenue,
+      currency: getCurrency(month),
+      newCount: active.filter((customer) => !previousIds.has(customer.clientId)).length,
+      lostCount,
+      churnRate: previous.length > 0 ? lostCount / previous.length : 0,
+      mrrGrowth: previousRevenue > 0 ? (revenue - previousRevenue) / previousRevenue : null,
+    })
+
+    previous = active
+    previousRevenue = revenue
+  }
+  return entries
+}
+
+export function formatPercent(value: number): string {
+  return new Intl.NumberFormat(undefined, { style: "percent", maximumFractionDigits: 1 }).format(value)
+}
@@ -1,4 +1,13 @@
+import type { TrackerConfig } from "@/lib/tracker-config";
+import { placeholderCustomersFromSlots, type Customer } from "@/lib/customers";
+import { shiftMonth } from "@/lib/history";
+import { buildMonthRollover, type MonthRollover } from "@/lib/rollover";
+
 const STORAGE_KEY = "subscription-tracker";
+const CONFIG_STORAGE_KEY = "subscription-tracker-config";
+const CUSTOMERS_STORAGE_KEY = "tracker-customers";
+const CUSTOMERS_MIGRATED_KEY = "tracker-customers-migrated";
+const ROLLOVERS_STORAGE_KEY = "tracker-rollovers";
 
 export function loadLocalSubscriptions(month: string): Set<number> {
   if (typeof window === "undefined") return new Set();
@@ -84,10 +93,129 @@ export function saveLocalSubscriptions(month: string, checkedSlots: Set<number>)
   }
 }
 
+// Month configurations are kept apart from checked slots so editing one never touches the other
+export function loadLocalMonthConfig(month: string): TrackerConfig | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const data = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!data) return null;
+    const parsed = JSON.parse(data) as Record<string, TrackerConfig>;
+    return parsed[month] ?? null;
+  } catch (error) {
+    console.error("Failed to load local month config:", error);
+    return null;
+  }
+}
+
+export function saveLocalMonthConfig(month: string, config: TrackerConfig): void {
+  if (typeof window === "undefined") return;
+  try {
+    const data = localStorage.getItem(CONFIG_STORAGE_KEY);
+    const parsed = data ? (JSON.parse(data) as Record<string, TrackerConfig>) : {};
+    parsed[month] = config;
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(parsed));
+  } catch (error) {
+    console.error("Failed to save local month config:", error);
+  }
+}
+
+export function loadLocalCustomers(): Customer[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data = localStorage.getItem(CUSTOMERS_STORAGE_KEY);
+    return data ? (JSON.parse(data) as Customer[]) : [];
+  } catch (error) {
+    console.error("Failed to load local customers:", error);
+    return [];
+  }
+}
+
+export function saveLocalCustomers(customers: Customer[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(CUSTOMERS_STORAGE_KEY, JSON.stringify(customers));
+  } catch (error) {
+    console.error("Failed to save local customers:", error);
+  }
+}
+
+/**
+ * Turn the checked slots saved on this device into placeholder customers, once. The
+ * slots themselves are kept. Returns the updated local customers.
+ */
+export function migrateLocalSlotsToCustomers(getPrice: (month: string) => number): Customer[] {
+  const customers = loadLocalCustomers();
+  if (typeof window === "undefined" || localStorage.getItem(CUSTOMERS_MIGRATED_KEY)) return customers;
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    const parsed = data ? JSON.parse(data) : {};
+    const slotsByMonth: Record<string, number[]> =
+      typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+
+    const migrated = [...customers, ...placeholderCustomersFromSlots(slotsByMonth, getPrice)];
+    saveLocalCustomers(migrated);
+    localStorage.setItem(CUSTOMERS_MIGRATED_KEY, "true");
+    return migrated;
+  } catch (error) {
+    console.error("Failed to migrate local subscriptions:", error);
+    return customers;
+  }
+}
+
+function loadLocalRollovers(): Record<string, MonthRollover> {
+  const data = localStorage.getItem(ROLLOVERS_STORAGE_KEY);
+  return data ? (JSON.parse(data) as Record<string, MonthRollover>) : {};
+}
+
+export function loadLocalRollover(month: string): MonthRollover | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return loadLocalRollovers()[month] ?? null;
+  } catch (error) {
+    console.error("Failed to load local month rollover:", error);
+    return null;
+  }
+}
+
+function readMonthRecord(key: string): Record<string, unknown> {
+  const data = localStorage.getItem(key);
+  const parsed = data ? JSON.parse(data) : {};
+  return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+}
+
+/**
+ * Seed `month` on this device from the last earlier month with settings or checked
+ * slots, and record the change log. Mirrors startMonthFromPrevious in convex/monthRollovers.ts.
+ */
+export function startLocalMonthFromPrevious(month: string, customers: Customer[]): MonthRollover {
+  const configs = readMonthRecord(CONFIG_STORAGE_KEY) as Record<string, TrackerConfig>;
+  const slots = readMonthRecord(STORAGE_KEY) as Record<string, number[]>;
+  const earlierMonths = [...Object.keys(configs), ...Object.keys(slots)].filter((key) => key < month).sort();
+  const fromMonth = earlierMonths[earlierMonths.length - 1] ?? shiftMonth(month, -1);
+
+  if (configs[fromMonth]) {
+    configs[month] = configs[fromMonth];
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(configs));
+  }
+  if (slots[fromMonth]) {
+    slots[month] = slots[fromMonth];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+  }
+
+  const rollover = buildMonthRollover(customers, fromMonth, month);
+  const rollovers = loadLocalRollovers();
+  rollovers[month] = rollover;
+  localStorage.setItem(ROLLOVERS_STORAGE_KEY, JSON.stringify(rollovers));
+  return rollover;
+}
+
 export function clearLocalSubscriptions(): void {
   if (typeof window === "undefined") return;
   try {
     localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    localStorage.removeItem(ROLLOVERS_STORAGE_KEY);
     console.log("Cleared all localStorage data");
   } catch (error) {
     console.error("Failed to clear local subscriptions:", error);
@@ -0,0 +1,43 @@
+import { isActiveInMonth, type Customer } from "@/lib/customers"
+
+// Mirrors rolloverCustomerValidator in convex/schema.ts
+export interface RolloverCustomer {
+  clientId: string
+  name: string
+}
+
+// Mirrors the monthRollovers table in convex/schema.ts
+export interface MonthRollover {
+  month: string
+  fromMonth: string
+  source: "manual" | "cron"
+  carried: RolloverCustomer[]
+  added: RolloverCustomer[]
+  removed: RolloverCustomer[]
+  createdAt: number
+}
+
+/**
+ * Change log for starting `month` from `fromMonth`. Mirrors startMonth in
+ * convex/monthRollovers.ts for anonymous users.
+ */
+export function buildMonthRollover(customers: Customer[], fromMonth: string, month: string): MonthRollover {
+  const rollover: MonthRollover = {
+    month,
+    fromMonth,
+    source: "manual",
+    carried: [],
+    added: [],
+    removed: [],
+    createdAt: Date.now(),
+  }
+  for (const customer of customers) {
+    const wasActive = isActiveInMonth(customer, fromMonth)
+    const isActive = isActiveInMonth(customer, month)
+    const entry = { clientId: customer.clientId, name: customer.name }
+    if (wasActive && isActive) rollover.carried.push(entry)
+    else if (isActive) rollover.added.push(entry)
+    else if (wasActive) rollover.removed.push(entry)
+  }
+  return rollover
+}
@@ -0,0 +1,99 @@
+export type Theme = "light" | "dark" | "system"
+
+export interface GeneralSettings {
+  theme: Theme
+  focusMode: boolean
+}
+
+export interface TrackerSettings {
+  goalSlots: number
+  pricePerCustomer: number
+  autoRollover: boolean // Start each new month from the previous one on the server
+}
+
+// The sections this app reads; mirrors the userSettings table in convex/schema.ts
+export interface Settings {
+  general: GeneralSettings
+  tracker: TrackerSettings
+}
+
+export interface SettingsUpdate {
+  general?: Partial<GeneralSettings>
+  tracker?: Partial<TrackerSettings>
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: { theme: "light", focusMode: false },
+  tracker: { goalSlots: 400, pricePerCustomer: 6, autoRollover: false },
+}
+
+// Mirrors MAX_GOAL_SLOTS in convex/userSettings.ts
+export const TOTAL_SLOTS = 1000
+
+export const THEME_OPTIONS: Array<{ value: Theme; label: string }> = [
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+  { value: "system", label: "System" },
+]
+
+// Mirrors SETTINGS_VERSION in convex/userSettings.ts
+const SETTINGS_VERSION = 1
+const STORAGE_KEY = "settings"
+// Keys used before preferences were grouped into settings
+const LEGACY_FOCUS_MODE_KEY = "focusMode"
+const LEGACY_THEME_KEY = "theme" // Written by next-themes
+
+function isTheme(value: unknown): value is Theme {
+  return THEME_OPTIONS.some((option) => option.value === value)
+}
+
+export function mergeSettings(settings: Settings, update: SettingsUpdate): Settings {
+  return {
+    general: { ...settings.general, ...update.general },
+    tracker: { ...settings.tracker, ...update.tracker },
+  }
+}
+
+/**
+ * Settings saved on this device: the only copy for anonymous users and a cache of the
+ * synced copy for signed-in users.
+ */
+export function loadLocalSettings(): Settings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as SettingsUpdate & { version?: number }
+      return {
+        general: {
+          theme: isTheme(parsed.general?.theme) ? parsed.general.theme : DEFAULT_SETTINGS.general.theme,
+          focusMode: parsed.general?.focusMode ?? DEFAULT_SETTINGS.general.focusMode,
+        },
+        tracker: { ...DEFAULT_SETTINGS.tracker, ...parsed.tracker },
+      }
+    }
+
+    const legacyTheme = localStorage.getItem(LEGACY_THEME_KEY)
+    return {
+      general: {
+        theme: isTheme(legacyTheme) ? legacyTheme : DEFAULT_SETTINGS.general.theme,
+        focusMode: localStorage.getItem(LEGACY_FOCUS_MODE_KEY) === "true",
+      },
+      tracker: DEFAULT_SETTINGS.tracker,
+    }
+  } catch (error) {
+    console.error("Failed to load settings from localStorage:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveLocalSettings(settings: Settings): void {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }))
+    localStorage.removeItem(LEGACY_FOCUS_MODE_KEY)
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,95 @@
+import { TOTAL_SLOTS } from "@/lib/settings"
+
+export interface Milestone {
+  label: string
+  count: number
+  color: string
+}
+
+// Mirrors trackerConfigValidator in convex/schema.ts
+export interface TrackerConfig {
+  totalSlots: number
+  goalSlots: number
+  pricePerCustomer: number
+  currency: string
+  milestones: Milestone[]
+}
+
+// Mirrors the limits in convex/subscriptions.ts
+export const MAX_TOTAL_SLOTS = 2000
+export const MAX_MILESTONES = 10
+const MAX_MILESTONE_LABEL_LENGTH = 40
+
+export const MILESTONE_COLORS = ["#ffb3ba", "#ffdfba", "#ffffba", "#baffc9", "#bae1ff", "#e0bbff"]
+
+export const CURRENCIES = ["EUR", "USD", "GBP", "CHF", "SEK", "NOK", "DKK", "PLN", "CAD", "AUD", "JPY", "INR", "BRL"]
+
+/**
+ * Configuration for a month that hasn't been customized, built from the user's
+ * default goal and price. Milestones sit at half, three quarters and all of the goal.
+ */
+export function getDefaultTrackerConfig(goalSlots: number, pricePerCustomer: number): TrackerConfig {
+  return {
+    totalSlots: TOTAL_SLOTS,
+    goalSlots,
+    pricePerCustomer,
+    currency: "EUR",
+    milestones: [
+      { label: "Sustainable", count: Math.round(goalSlots * 0.5), color: "#ffb3ba" },
+      { label: "Growth", count: Math.round(goalSlots * 0.75), color: "#ffdfba" },
+      { label: "Made it", count: goalSlots, color: "#baffc9" },
+    ],
+  }
+}
+
+/**
+ * Format an amount in the month's currency using the browser's locale.
+ */
+export function formatCurrency(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      // Whole amounts read better without cents
+      ...(Number.isInteger(amount) && { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+    }).format(amount)
+  } catch {
+    return `${amount} ${currency}`
+  }
+}
+
+function isWholeNumberInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max
+}
+
+/**
+ * Check a configuration before saving it. Returns an error message, or null when valid.
+ * `activeCustomers` is the number of customers active in the month, which all need a slot.
+ */
+export function validateTrackerConfig(config: TrackerConfig, activeCustomers: number): string | null {
+  if (!isWholeNumberInRange(config.totalSlots, 1, MAX_TOTAL_SLOTS)) {
+    return `Slot count must be a whole number between 1 and ${MAX_TOTAL_SLOTS}`
+  }
+  if (activeCustomers > config.totalSlots) {
+    return `${activeCustomers} customers are active this month, so the slot count can't be lower than that`
+  }
+  if (!isWholeNumberInRange(config.goalSlots, 1, config.totalSlots)) {
+    return "Goal must be a whole number between 1 and the slot count"
+  }
+  if (!Number.isFinite(config.pricePerCustomer) || config.pricePerCustomer <= 0) {
+    return "Price must be greater than zero"
+  }
+  if (config.milestones.length > MAX_MILESTONES) {
+    return `A month can have at most ${MAX_MILESTONES} milestones`
+  }
+  for (const milestone of config.milestones) {
+    const label = milestone.label.trim()
+    if (!label || label.length > MAX_MILESTONE_LABEL_LENGTH) {
+      return `Milestone labels must be 1-${MAX_MILESTONE_LABEL_LENGTH} characters`
+    }
+    if (!isWholeNumberInRange(milestone.count, 1, config.totalSlots)) {
+      return "Milestone counts must be whole numbers between 1 and the slot count"
+    }
+  }
+  return null
+}
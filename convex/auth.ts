@@ -95,6 +95,21 @@ export const getUser = async (ctx: QueryCtx) => {
   return authComponent.getAuthUser(ctx);
 };
 
+// Any user, signed in or not, for crons and migrations. Tracker rows refer to users by id
+// and settings by email, so either can be looked up.
+export const findUser = async (
+  ctx: GenericCtx<DataModel>,
+  field: "_id" | "email",
+  value: string,
+): ReturnType<typeof authComponent.getAnyUserById> => {
+  return field === "_id"
+    ? authComponent.getAnyUserById(ctx, value)
+    : ctx.runQuery(components.betterAuth.adapter.findOne, {
+        model: "user",
+        where: [{ field, value }],
+      });
+};
+
 export const getCurrentUser = query({
   args: {},
   handler: async (ctx) => {
@@ -0,0 +1,17 @@
+// Allowed color values (must match frontend COLORS array)
+export const ALLOWED_COLORS = [
+  "#ffb3ba",
+  "#ffdfba",
+  "#ffffba",
+  "#baffc9",
+  "#bae1ff",
+  "#e0bbff",
+  "#ffffff",
+  "#000000",
+];
+
+export function validateColor(color: string): void {
+  if (!ALLOWED_COLORS.includes(color.toLowerCase())) {
+    throw new Error("Invalid color value. Color must be from the allowed set.");
+  }
+}
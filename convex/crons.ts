@@ -0,0 +1,15 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Runs often enough to catch midnight in every time zone shortly after it passes
+crons.interval("roll over overdue tasks", { minutes: 15 }, internal.overdue.rolloverAllUsers, {});
+
+// Daily rather than monthly so a missed run is picked up the next day
+crons.daily("start tracker months", { hourUTC: 0, minuteUTC: 5 }, internal.monthRollovers.rolloverAllUsers, {});
+
+// Frees the quota held by uploads that no journal note refers to any more
+crons.daily("sweep unreferenced attachments", { hourUTC: 3, minuteUTC: 0 }, internal.journalAttachments.sweepAllAttachments, {});
+
+export default crons;
@@ -0,0 +1,410 @@
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { authComponent, findUser } from "./auth";
+import { DEFAULT_TRACKER_SETTINGS, getSettingsDoc } from "./userSettings";
+import { DEFAULT_TOTAL_SLOTS } from "./subscriptions";
+
+const MAX_CUSTOMERS = 5000;
+const MAX_NAME_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_NOTES_LENGTH = 2000;
+
+const customerDocValidator = v.object({
+  _id: v.id("customers"),
+  _creationTime: v.number(),
+  userId: v.id("user"),
+  clientId: v.string(),
+  name: v.string(),
+  email: v.optional(v.string()),
+  notes: v.optional(v.string()),
+  price: v.number(),
+  startDate: v.string(),
+  cancelDate: v.optional(v.string()),
+  isPlaceholder: v.optional(v.boolean()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+const customerFieldsValidator = {
+  name: v.string(),
+  email: v.optional(v.string()),
+  notes: v.optional(v.string()),
+  price: v.number(),
+  startDate: v.string(),
+  cancelDate: v.optional(v.string()),
+};
+
+interface CustomerFields {
+  name: string;
+  email?: string;
+  notes?: string;
+  price: number;
+  startDate: string;
+  cancelDate?: string;
+}
+
+function isValidDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+/**
+ * Trim the optional fields (empty means unset) and check every field.
+ */
+function normalizeCustomerFields(fields: CustomerFields): CustomerFields {
+  const name = fields.name.trim();
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+
+  const email = fields.email?.trim() || undefined;
+  if (email && (email.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+$/.test(email))) {
+    throw new Error("Invalid email address");
+  }
+
+  const notes = fields.notes?.trim() || undefined;
+  if (notes && notes.length > MAX_NOTES_LENGTH) {
+    throw new Error(`Notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  }
+
+  if (!Number.isFinite(fields.price) || fields.price < 0) {
+    throw new Error("Price can't be negative");
+  }
+  if (!isValidDate(fields.startDate)) {
+    throw new Error("Invalid start date");
+  }
+  const cancelDate = fields.cancelDate || undefined;
+  if (cancelDate && (!isValidDate(cancelDate) || cancelDate < fields.startDate)) {
+    throw new Error("Cancel date must be a valid date on or after the start date");
+  }
+
+  return { name, email, notes, price: fields.price, startDate: fields.startDate, cancelDate };
+}
+
+/**
+ * Whether the customer pays for the given month (YYYY-MM). A customer who cancels
+ * during a month still counts for that month.
+ */
+export function isActiveInMonth(customer: { startDate: string; cancelDate?: string }, month: string): boolean {
+  return customer.startDate.slice(0, 7) <= month && (!customer.cancelDate || customer.cancelDate.slice(0, 7) >= month);
+}
+
+function getNextMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthIndex, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function getLastDayOfMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10);
+}
+
+export interface PlaceholderCustomer {
+  slot: number;
+  price: number;
+  startDate: string;
+  cancelDate?: string;
+}
+
+/**
+ * Turn legacy checked slots into placeholder customers. A slot checked in consecutive
+ * months is one customer; a gap ends that customer and a later check starts a new one.
+ * Customers still checked in the last tracked month stay active.
+ */
+export function placeholderCustomersFromSlots(
+  months: Array<{ month: string; checkedSlots: number[]; price: number }>,
+): PlaceholderCustomer[] {
+  const sorted = [...months].sort((a, b) => a.month.localeCompare(b.month));
+  if (sorted.length === 0) return [];
+  const lastMonth = sorted[sorted.length - 1].month;
+
+  const customers: PlaceholderCustomer[] = [];
+  const openRuns = new Map<number, { firstMonth: string; lastMonth: string; price: number }>();
+
+  const closeRun = (slot: number) => {
+    const run = openRuns.get(slot);
+    if (!run) return;
+    customers.push({
+      slot,
+      price: run.price,
+      startDate: `${run.firstMonth}-01`,
+      cancelDate: run.lastMonth === lastMonth ? undefined : getLastDayOfMonth(run.lastMonth),
+    });
+    openRuns.delete(slot);
+  };
+
+  for (const { month, checkedSlots, price } of sorted) {
+    const checked = new Set(checkedSlots);
+    for (const [slot, run] of [...openRuns]) {
+      if (!checked.has(slot) || getNextMonth(run.lastMonth) !== month) closeRun(slot);
+    }
+    for (const slot of checked) {
+      const run = openRuns.get(slot);
+      if (run) {
+        run.lastMonth = month;
+      } else {
+        openRuns.set(slot, { firstMonth: month, lastMonth: month, price });
+      }
+    }
+  }
+  for (const slot of [...openRuns.keys()]) closeRun(slot);
+
+  return customers.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.slot - b.slot);
+}
+
+/**
+ * Convert the user's not yet migrated subscription months into placeholder customers.
+ * Returns the number of customers created.
+ */
+async function migrateCheckedSlotsForUser(
+  ctx: MutationCtx,
+  userId: Id<"user">,
+  defaultPrice: number,
+): Promise<number> {
+  const subscriptions = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const pending = subscriptions.filter((subscription) => !subscription.migratedToCustomers);
+  if (pending.length === 0) return 0;
+
+  const placeholders = placeholderCustomersFromSlots(
+    pending.map((subscription) => ({
+      month: subscription.month,
+      checkedSlots: subscription.checkedSlots,
+      price: subscription.config?.pricePerCustomer ?? defaultPrice,
+    })),
+  );
+
+  const now = Date.now();
+  for (const placeholder of placeholders) {
+    await ctx.db.insert("customers", {
+      userId,
+      clientId: crypto.randomUUID(),
+      name: `Customer ${placeholder.slot + 1}`,
+      price: placeholder.price,
+      startDate: placeholder.startDate,
+      cancelDate: placeholder.cancelDate,
+      isPlaceholder: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  // checkedSlots are kept as they were so the migration can be checked against them
+  for (const subscription of pending) {
+    await ctx.db.patch(subscription._id, { migratedToCustomers: true });
+  }
+  return placeholders.length;
+}
+
+// The price placeholders get when a month has no price of its own, as for new customers
+async function getDefaultPrice(ctx: MutationCtx, userEmail: string): Promise<number> {
+  const settings = await getSettingsDoc(ctx, userEmail);
+  return settings?.tracker?.pricePerCustomer ?? DEFAULT_TRACKER_SETTINGS.pricePerCustomer;
+}
+
+/**
+ * Throw when the month a new customer starts in has no free slot left.
+ */
+async function checkMonthHasRoom(ctx: MutationCtx, userId: Id<"user">, startDate: string): Promise<void> {
+  const month = startDate.slice(0, 7);
+  const subscription = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_user_and_month", (q) => q.eq("userId", userId).eq("month", month))
+    .first();
+  const totalSlots = subscription?.config?.totalSlots ?? DEFAULT_TOTAL_SLOTS;
+
+  const customers = await ctx.db
+    .query("customers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  if (customers.filter((customer) => isActiveInMonth(customer, month)).length >= totalSlots) {
+    throw new Error(`All ${totalSlots} slots of ${month} are taken. Add slots to the month first.`);
+  }
+}
+
+async function countCustomers(ctx: MutationCtx, userId: Id<"user">): Promise<number> {
+  const customers = await ctx.db
+    .query("customers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return customers.length;
+}
+
+async function getOwnedCustomer(
+  ctx: MutationCtx,
+  userId: Id<"user">,
+  customerId: Id<"customers">,
+): Promise<Doc<"customers">> {
+  const customer = await ctx.db.get(customerId);
+  if (!customer || customer.userId !== userId) {
+    throw new Error("Customer not found or access denied");
+  }
+  return customer;
+}
+
+export const getCustomers = query({
+  args: {},
+  returns: v.union(v.array(customerDocValidator), v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    const customers = await ctx.db
+      .query("customers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return customers.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.createdAt - b.createdAt);
+  },
+});
+
+export const addCustomer = mutation({
+  args: {
+    clientId: v.string(),
+    ...customerFieldsValidator,
+  },
+  returns: v.id("customers"),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const { clientId, ...fields } = args;
+    const normalized = normalizeCustomerFields(fields);
+    if ((await countCustomers(ctx, user._id)) >= MAX_CUSTOMERS) {
+      throw new Error(`You can have at most ${MAX_CUSTOMERS} customers`);
+    }
+    await checkMonthHasRoom(ctx, user._id, normalized.startDate);
+
+    const now = Date.now();
+    return await ctx.db.insert("customers", {
+      userId: user._id,
+      clientId,
+      ...normalized,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateCustomer = mutation({
+  args: {
+    id: v.id("customers"),
+    ...customerFieldsValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const { id, ...fields } = args;
+    await getOwnedCustomer(ctx, user._id, id);
+    const normalized = normalizeCustomerFields(fields);
+
+    // Editing a placeholder means it now describes a real customer
+    await ctx.db.patch(id, { ...normalized, isPlaceholder: false, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+export const deleteCustomer = mutation({
+  args: {
+    id: v.id("customers"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    await getOwnedCustomer(ctx, user._id, args.id);
+    await ctx.db.delete(args.id);
+    return null;
+  },
+});
+
+/**
+ * Sign-in sync: migrate the user's legacy checked slots, then upload customers kept on
+ * this device. Local placeholders are skipped when the server already has some, since
+ * both were made from the same synced slots.
+ */
+export const syncLocalCustomers = mutation({
+  args: {
+    customers: v.array(
+      v.object({
+        clientId: v.string(),
+        ...customerFieldsValidator,
+        isPlaceholder: v.optional(v.boolean()),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+      }),
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    await migrateCheckedSlotsForUser(ctx, user._id, await getDefaultPrice(ctx, user.email));
+
+    const existing = await ctx.db
+      .query("customers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const byClientId = new Map(existing.map((customer) => [customer.clientId, customer]));
+    const hasPlaceholders = existing.some((customer) => customer.isPlaceholder);
+    let count = existing.length;
+
+    for (const localCustomer of args.customers) {
+      const { clientId, isPlaceholder, createdAt, updatedAt, ...fields } = localCustomer;
+      const normalized = normalizeCustomerFields(fields);
+      const current = byClientId.get(clientId);
+
+      if (current) {
+        // Last write wins
+        if (updatedAt > current.updatedAt) {
+          await ctx.db.patch(current._id, { ...normalized, isPlaceholder, updatedAt });
+        }
+        continue;
+      }
+      if (isPlaceholder && hasPlaceholders) continue;
+      if (count >= MAX_CUSTOMERS) break;
+
+      await ctx.db.insert("customers", {
+        userId: user._id,
+        clientId,
+        ...normalized,
+        isPlaceholder,
+        createdAt,
+        updatedAt,
+      });
+      count++;
+    }
+    return null;
+  },
+});
+
+/**
+ * One-off migration for every user, e.g. `npx convex run customers:migrateAllCheckedSlots`.
+ * Users who sign in are migrated by syncLocalCustomers anyway.
+ */
+export const migrateAllCheckedSlots = internalMutation({
+  args: {},
+  returns: v.number(), // Number of customers created
+  handler: async (ctx) => {
+    const subscriptions = await ctx.db.query("subscriptions").collect();
+    const userIds = new Set(
+      subscriptions.filter((subscription) => !subscription.migratedToCustomers).map((subscription) => subscription.userId),
+    );
+
+    let created = 0;
+    for (const userId of userIds) {
+      const user = await findUser(ctx, "_id", userId);
+      const defaultPrice = user ? await getDefaultPrice(ctx, user.email) : DEFAULT_TRACKER_SETTINGS.pricePerCustomer;
+      created += await migrateCheckedSlotsForUser(ctx, userId, defaultPrice);
+    }
+    return created;
+  },
+});
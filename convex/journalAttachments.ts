@@ -0,0 +1,270 @@
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+
+// Mirrors the limits in apps/notes/lib/attachments.ts
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const MAX_ATTACHMENT_BYTES_PER_USER = 200 * 1024 * 1024;
+const ATTACHMENT_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+]);
+
+// Uploads no note refers to are swept once they're older than this, which leaves time for
+// the note that embeds them to be saved, or synced after sign-in
+const UNREFERENCED_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Notes refer to attachments as markdown links or images to "attachment:<clientId>"
+const ATTACHMENT_LINK = /\]\(attachment:([^)\s]+)\)/g;
+
+const attachmentValidator = v.object({
+  clientId: v.string(),
+  name: v.string(),
+  contentType: v.string(),
+  size: v.number(),
+  url: v.union(v.string(), v.null()),
+  createdAt: v.number(),
+});
+
+export function getAttachmentIds(content: string): string[] {
+  return Array.from(content.matchAll(ATTACHMENT_LINK), (match) => match[1]);
+}
+
+async function getUsedBytes(ctx: MutationCtx, userEmail: string): Promise<number> {
+  const attachments = await ctx.db
+    .query("journalAttachments")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  return attachments.reduce((total, attachment) => total + attachment.size, 0);
+}
+
+// Why a file can't be attached, or null when it can
+async function getAttachmentError(
+  ctx: MutationCtx,
+  userEmail: string,
+  contentType: string | undefined,
+  size: number,
+): Promise<string | null> {
+  if (!contentType || !ATTACHMENT_TYPES.has(contentType)) {
+    return "Only images, PDFs and text files can be attached";
+  }
+  if (size > MAX_ATTACHMENT_SIZE) {
+    return `Attachments can be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`;
+  }
+  if ((await getUsedBytes(ctx, userEmail)) + size > MAX_ATTACHMENT_BYTES_PER_USER) {
+    return `Attachment storage is full. You can store up to ${MAX_ATTACHMENT_BYTES_PER_USER / 1024 / 1024} MB of attachments.`;
+  }
+  return null;
+}
+
+async function deleteAttachment(ctx: MutationCtx, attachment: Doc<"journalAttachments">): Promise<void> {
+  await ctx.storage.delete(attachment.storageId);
+  await ctx.db.delete(attachment._id);
+}
+
+// The attachments the user's notes refer to, in their text or their history (restoring an
+// old version brings its attachments back), leaving out one note's
+async function getReferencedAttachmentIds(
+  ctx: MutationCtx,
+  userEmail: string,
+  exceptNoteId?: Id<"journalNotes">,
+): Promise<Set<string>> {
+  const notes = await ctx.db
+    .query("journalNotes")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  const revisions = await ctx.db
+    .query("journalNoteRevisions")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  const versions = [
+    ...notes.filter((note) => note._id !== exceptNoteId),
+    ...revisions.filter((revision) => revision.noteId !== exceptNoteId),
+  ];
+  return new Set(versions.flatMap((version) => getAttachmentIds(version.content)));
+}
+
+/**
+ * Delete the attachments a note used, in its text or its history, that no other note of
+ * the user refers to in its text or history. Call before the note and its revisions are deleted.
+ */
+export async function deleteNoteAttachments(ctx: MutationCtx, note: Doc<"journalNotes">): Promise<void> {
+  const revisions = await ctx.db
+    .query("journalNoteRevisions")
+    .withIndex("by_note_created", (q) => q.eq("noteId", note._id))
+    .collect();
+  const ids = new Set([note, ...revisions].flatMap((version) => getAttachmentIds(version.content)));
+  if (ids.size === 0) return;
+
+  for (const id of await getReferencedAttachmentIds(ctx, note.userEmail, note._id)) {
+    ids.delete(id);
+  }
+
+  for (const clientId of ids) {
+    const attachment = await ctx.db
+      .query("journalAttachments")
+      .withIndex("by_user_client", (q) => q.eq("userEmail", note.userEmail).eq("clientId", clientId))
+      .unique();
+    if (attachment) {
+      await deleteAttachment(ctx, attachment);
+    }
+  }
+}
+
+export const getAttachments = query({
+  args: {},
+  returns: v.array(attachmentValidator),
+  handler: async (ctx) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const attachments = await ctx.db
+      .query("journalAttachments")
+      .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+      .collect();
+    return Promise.all(
+      attachments.map(async (attachment) => ({
+        clientId: attachment.clientId,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        url: await ctx.storage.getUrl(attachment.storageId),
+        createdAt: attachment.createdAt,
+      })),
+    );
+  },
+});
+
+/**
+ * A URL to upload one file to. The type, size and quota are checked here so a file that
+ * would be refused isn't uploaded first; saveAttachment checks them again on the stored file.
+ */
+export const generateAttachmentUploadUrl = mutation({
+  args: {
+    contentType: v.string(),
+    size: v.number(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const error = await getAttachmentError(ctx, user.email, args.contentType, args.size);
+    if (error) {
+      throw new Error(error);
+    }
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Record an uploaded file as an attachment. Safe to repeat for the same clientId: the
+ * second upload is dropped. A file that fails the checks is deleted from storage and false
+ * returned, since throwing would roll the deletion back.
+ */
+export const saveAttachment = mutation({
+  args: {
+    clientId: v.string(),
+    storageId: v.id("_storage"),
+    name: v.string(),
+    createdAt: v.number(),
+  },
+  returns: v.boolean(), // Whether the file was kept
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) {
+      throw new Error("Uploaded file not found");
+    }
+
+    const existing = await ctx.db
+      .query("journalAttachments")
+      .withIndex("by_user_client", (q) => q.eq("userEmail", user.email).eq("clientId", args.clientId))
+      .unique();
+    if (existing) {
+      await ctx.storage.delete(args.storageId);
+      return true;
+    }
+
+    const contentType = file.contentType;
+    if (!contentType || (await getAttachmentError(ctx, user.email, contentType, file.size))) {
+      await ctx.storage.delete(args.storageId);
+      return false;
+    }
+
+    await ctx.db.insert("journalAttachments", {
+      userEmail: user.email,
+      clientId: args.clientId,
+      storageId: args.storageId,
+      name: args.name.trim() || "Attachment",
+      contentType,
+      size: file.size,
+      createdAt: args.createdAt,
+    });
+    return true;
+  },
+});
+
+/**
+ * Delete the user's attachments that no note or revision refers to, such as a file whose
+ * link was removed from its note or one uploaded from an editor that was closed before saving.
+ */
+export const sweepUserAttachments = internalMutation({
+  args: {
+    userEmail: v.string(),
+  },
+  returns: v.number(), // Number of attachments deleted
+  handler: async (ctx, args) => {
+    // _creationTime rather than createdAt: files added offline are uploaded long after
+    const cutoff = Date.now() - UNREFERENCED_GRACE_MS;
+    const attachments = (
+      await ctx.db
+        .query("journalAttachments")
+        .withIndex("by_user", (q) => q.eq("userEmail", args.userEmail))
+        .collect()
+    ).filter((attachment) => attachment._creationTime < cutoff);
+    if (attachments.length === 0) return 0;
+
+    const referenced = await getReferencedAttachmentIds(ctx, args.userEmail);
+    let deleted = 0;
+    for (const attachment of attachments) {
+      if (referenced.has(attachment.clientId)) continue;
+      await deleteAttachment(ctx, attachment);
+      deleted++;
+    }
+    return deleted;
+  },
+});
+
+/**
+ * Cron entry point: schedule a sweep of unreferenced attachments for every user who has any.
+ */
+export const sweepAllAttachments = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const attachments = await ctx.db.query("journalAttachments").collect();
+    const userEmails = new Set(attachments.map((attachment) => attachment.userEmail));
+
+    for (const userEmail of userEmails) {
+      await ctx.scheduler.runAfter(0, internal.journalAttachments.sweepUserAttachments, { userEmail });
+    }
+    return null;
+  },
+});
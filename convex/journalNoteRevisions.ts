@@ -0,0 +1,130 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+import { journalNoteFormatValidator } from "./schema";
+
+// Snapshots are taken at most once per interval while a note is being edited (before the
+// save that overwrites the older version), and whenever the editor loses focus.
+export const REVISION_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_REVISIONS_PER_NOTE = 50;
+
+const revisionDocValidator = v.object({
+  _id: v.id("journalNoteRevisions"),
+  _creationTime: v.number(),
+  noteId: v.id("journalNotes"),
+  userEmail: v.string(),
+  title: v.string(),
+  content: v.string(),
+  format: v.optional(journalNoteFormatValidator),
+  createdAt: v.number(),
+});
+
+const snapshotValidator = v.object({
+  title: v.string(),
+  content: v.string(),
+  format: v.optional(journalNoteFormatValidator),
+});
+
+type Snapshot = Infer<typeof snapshotValidator>;
+
+/**
+ * Store a version of a note unless it matches the newest revision, or that revision is
+ * younger than minInterval. Older revisions past the per-note cap are pruned.
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  note: Doc<"journalNotes">,
+  snapshot: Snapshot,
+  minInterval: number,
+): Promise<boolean> {
+  const now = Date.now();
+  const latest = await ctx.db
+    .query("journalNoteRevisions")
+    .withIndex("by_note_created", (q) => q.eq("noteId", note._id))
+    .order("desc")
+    .first();
+  if (latest && latest.title === snapshot.title && latest.content === snapshot.content) return false;
+  if (latest && now - latest.createdAt < minInterval) return false;
+
+  await ctx.db.insert("journalNoteRevisions", {
+    noteId: note._id,
+    userEmail: note.userEmail,
+    title: snapshot.title,
+    content: snapshot.content,
+    format: snapshot.format,
+    createdAt: now,
+  });
+
+  const revisions = await ctx.db
+    .query("journalNoteRevisions")
+    .withIndex("by_note_created", (q) => q.eq("noteId", note._id))
+    .order("desc")
+    .collect();
+  for (const revision of revisions.slice(MAX_REVISIONS_PER_NOTE)) {
+    await ctx.db.delete(revision._id);
+  }
+  return true;
+}
+
+export async function deleteRevisions(ctx: MutationCtx, noteId: Id<"journalNotes">): Promise<void> {
+  const revisions = await ctx.db
+    .query("journalNoteRevisions")
+    .withIndex("by_note_created", (q) => q.eq("noteId", noteId))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
+
+export const getRevisions = query({
+  args: {
+    noteId: v.id("journalNotes"),
+  },
+  returns: v.array(revisionDocValidator),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const note = await ctx.db.get(args.noteId);
+    if (!note || note.userEmail !== user.email) {
+      return [];
+    }
+
+    return ctx.db
+      .query("journalNoteRevisions")
+      .withIndex("by_note_created", (q) => q.eq("noteId", args.noteId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Snapshot the editor's current version, e.g. when it loses focus or before a restore.
+ */
+export const saveRevision = mutation({
+  args: {
+    noteId: v.id("journalNotes"),
+    snapshot: snapshotValidator,
+  },
+  returns: v.boolean(), // Whether a revision was stored
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const note = await ctx.db.get(args.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
+    if (note.userEmail !== user.email) {
+      throw new Error("Unauthorized");
+    }
+
+    return await recordRevision(ctx, note, args.snapshot, 0);
+  },
+});
@@ -0,0 +1,214 @@
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+
+const MAX_NOTEBOOKS_PER_USER = 100;
+const MAX_NOTEBOOK_NAME_LENGTH = 100;
+
+const notebookDocValidator = v.object({
+  _id: v.id("journalNotebooks"),
+  _creationTime: v.number(),
+  userEmail: v.string(),
+  clientId: v.string(),
+  name: v.string(),
+  parentId: v.optional(v.string()),
+  createdAt: v.number(),
+});
+
+const notebookPayloadValidator = v.object({
+  clientId: v.string(),
+  name: v.string(),
+  parentId: v.optional(v.string()),
+  createdAt: v.number(),
+});
+
+type NotebookPayload = Infer<typeof notebookPayloadValidator>;
+
+function validateNotebookName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Notebook name is required");
+  }
+  if (trimmed.length > MAX_NOTEBOOK_NAME_LENGTH) {
+    throw new Error(`Notebook names can be at most ${MAX_NOTEBOOK_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+export async function getNotebook(
+  ctx: QueryCtx | MutationCtx,
+  userEmail: string,
+  clientId: string,
+): Promise<Doc<"journalNotebooks"> | null> {
+  return await ctx.db
+    .query("journalNotebooks")
+    .withIndex("by_user_client", (q) => q.eq("userEmail", userEmail).eq("clientId", clientId))
+    .unique();
+}
+
+/**
+ * Insert a notebook unless one with the same clientId exists. Notebooks nest one level, so
+ * the parent has to be a top-level notebook; with lenient set, a bad parent makes the
+ * notebook top-level instead of failing, for uploads of older local data.
+ */
+async function insertNotebook(
+  ctx: MutationCtx,
+  userEmail: string,
+  notebook: NotebookPayload,
+  lenient: boolean,
+): Promise<"inserted" | "skipped"> {
+  const name = validateNotebookName(notebook.name);
+
+  const existing = await getNotebook(ctx, userEmail, notebook.clientId);
+  if (existing) return "skipped";
+
+  let parentId = notebook.parentId;
+  if (parentId !== undefined) {
+    const parent = await getNotebook(ctx, userEmail, parentId);
+    if (!parent || parent.parentId !== undefined || parentId === notebook.clientId) {
+      if (!lenient) {
+        throw new Error("Notebooks can only be nested inside a top-level notebook");
+      }
+      parentId = undefined;
+    }
+  }
+
+  const notebooks = await ctx.db
+    .query("journalNotebooks")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  if (notebooks.length >= MAX_NOTEBOOKS_PER_USER) {
+    throw new Error(`Maximum notebook limit reached. You can have up to ${MAX_NOTEBOOKS_PER_USER} notebooks.`);
+  }
+
+  await ctx.db.insert("journalNotebooks", { userEmail, ...notebook, name, parentId });
+  return "inserted";
+}
+
+export const getNotebooks = query({
+  args: {},
+  returns: v.array(notebookDocValidator),
+  handler: async (ctx) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    return ctx.db
+      .query("journalNotebooks")
+      .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+      .collect();
+  },
+});
+
+export const addNotebook = mutation({
+  args: notebookPayloadValidator,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    await insertNotebook(ctx, user.email, args, false);
+    return null;
+  },
+});
+
+export const renameNotebook = mutation({
+  args: {
+    clientId: v.string(),
+    name: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const notebook = await getNotebook(ctx, user.email, args.clientId);
+    if (!notebook) {
+      throw new Error("Notebook not found");
+    }
+
+    await ctx.db.patch(notebook._id, { name: validateNotebookName(args.name) });
+    return null;
+  },
+});
+
+/**
+ * Delete a notebook and the notebooks inside it. Their notes aren't deleted: they move up
+ * to the deleted notebook's parent, or out of any notebook.
+ */
+export const deleteNotebook = mutation({
+  args: {
+    clientId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const notebook = await getNotebook(ctx, user.email, args.clientId);
+    if (!notebook) {
+      return null;
+    }
+
+    const children = (
+      await ctx.db
+        .query("journalNotebooks")
+        .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+        .collect()
+    ).filter((child) => child.parentId === notebook.clientId);
+
+    for (const deleted of [notebook, ...children]) {
+      const notes = await ctx.db
+        .query("journalNotes")
+        .withIndex("by_user_notebook", (q) => q.eq("userEmail", user.email).eq("notebookId", deleted.clientId))
+        .collect();
+      for (const note of notes) {
+        await ctx.db.patch(note._id, { notebookId: notebook.parentId });
+      }
+      await ctx.db.delete(deleted._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Upload the notebooks created on this device before signing in. Safe to repeat: notebooks
+ * already on the server are skipped. Runs before syncLocalJournalNotes so notes can be
+ * filed into them.
+ */
+export const syncLocalNotebooks = mutation({
+  args: {
+    notebooks: v.array(notebookPayloadValidator),
+  },
+  returns: v.object({ inserted: v.number(), skipped: v.number() }),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    if (args.notebooks.length > MAX_NOTEBOOKS_PER_USER) {
+      throw new Error(`Cannot sync more than ${MAX_NOTEBOOKS_PER_USER} notebooks at once`);
+    }
+
+    // Parents first, so their children find them
+    const ordered = [...args.notebooks].sort((a, b) => Number(a.parentId !== undefined) - Number(b.parentId !== undefined));
+
+    let inserted = 0;
+    let skipped = 0;
+    for (const notebook of ordered) {
+      const result = await insertNotebook(ctx, user.email, notebook, true);
+      if (result === "inserted") inserted++;
+      else skipped++;
+    }
+    return { inserted, skipped };
+  },
+});
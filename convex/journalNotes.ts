@@ -1,7 +1,12 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
 import { authComponent } from "./auth";
 import { Id } from "./_generated/dataModel";
+import { journalNoteFormatValidator } from "./schema";
+import { deleteRevisions, recordRevision, REVISION_INTERVAL_MS } from "./journalNoteRevisions";
+import { getNotebook } from "./journalNotebooks";
+import { deleteNoteAttachments } from "./journalAttachments";
 
 function isLikelyConvexId(value: string): boolean {
   // Convex IDs are lowercase base32 strings with no separators.
@@ -15,20 +20,119 @@ function isInvalidConvexIdError(error: unknown): boolean {
   );
 }
 
+const journalNoteDocValidator = v.object({
+  _id: v.id("journalNotes"),
+  _creationTime: v.number(),
+  title: v.string(),
+  content: v.string(),
+  format: v.optional(journalNoteFormatValidator),
+  searchText: v.optional(v.string()),
+  notebookId: v.optional(v.string()),
+  pinned: v.optional(v.boolean()),
+  entryDate: v.optional(v.string()),
+  userEmail: v.string(),
+  clientId: v.string(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  isDeleted: v.optional(v.boolean()),
+  deletedAt: v.optional(v.number()),
+});
+
+const MAX_SEARCH_RESULTS = 50;
+
+// How long a deleted note can be restored before it's purged. Mirrors the restore toast in
+// apps/notes/app/page.tsx.
+const RESTORE_WINDOW_MS = 60 * 1000;
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: " ", amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'" };
+
+// Plain text for the search index. Mirrors stripMarkdown in apps/notes/lib/blocks.ts, and
+// notes from the old editor are HTML, so their tags are dropped instead.
+function toSearchText(title: string, content: string, format?: "markdown"): string {
+  const body =
+    format === "markdown"
+      ? content
+          .replace(/^```.*$/gm, "")
+          .replace(/^(#{1,3} |[-*] \[[ xX]\] |[-*] |\d+\. |> |\\)/gm, "")
+          .replace(/^(-{3,}|\*{3,})$/gm, "")
+          .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+          .replace(/(\*\*|__)(.+?)\1/g, "$2")
+          .replace(/(\*|_)(.+?)\1/g, "$2")
+          .replace(/`([^`]+)`/g, "$1")
+      : content
+          .replace(/<[^>]*>/g, " ")
+          .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (_, entity: string) => HTML_ENTITIES[entity]);
+  return `${title}\n${body}`.replace(/\s+/g, " ").trim();
+}
+
+// Links between notes are markdown links to "note:<id>". Mirrors apps/notes/lib/note-links.ts.
+const NOTE_LINK = /\[([^\]]*)\]\(note:([^)\s]+)\)/g;
+
+function toLinkText(title: string): string {
+  return title.replace(/[[\]]/g, "").trim() || "Untitled";
+}
+
+/**
+ * Point links at notes' Convex ids. A note linked before it was synced, or in the moment
+ * before its id came back from addJournalNote, is linked by its clientId.
+ */
+async function resolveNoteLinks(ctx: MutationCtx, userEmail: string, content: string): Promise<string> {
+  const targets = new Set(Array.from(content.matchAll(NOTE_LINK), (match) => match[2]));
+  const resolved = new Map<string, string>();
+  for (const target of targets) {
+    if (ctx.db.normalizeId("journalNotes", target)) continue;
+    const note = await ctx.db
+      .query("journalNotes")
+      .withIndex("by_user_client", (q) => q.eq("userEmail", userEmail).eq("clientId", target))
+      .unique();
+    if (note) resolved.set(target, note._id);
+  }
+  if (resolved.size === 0) return content;
+  return content.replace(NOTE_LINK, (link, linkText: string, target: string) =>
+    resolved.has(target) ? `[${linkText}](note:${resolved.get(target)})` : link,
+  );
+}
+
+// Give the links to a renamed note its new title. The linking notes keep their updatedAt,
+// since nobody edited them.
+async function renameInboundLinks(ctx: MutationCtx, userEmail: string, noteId: Id<"journalNotes">, title: string) {
+  const notes = await ctx.db
+    .query("journalNotes")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  const newLink = `[${toLinkText(title)}](note:${noteId})`;
+  for (const note of notes) {
+    if (note._id === noteId || !note.content.includes(`(note:${noteId})`)) continue;
+    const content = note.content.replace(NOTE_LINK, (link, _text: string, target: string) =>
+      target === noteId ? newLink : link,
+    );
+    if (content !== note.content) {
+      await ctx.db.patch(note._id, { content, searchText: toSearchText(note.title, content, note.format) });
+    }
+  }
+}
+
+// Entry dates are the user's local date, worked out by the client: the server can't know
+// which day it is for them
+function validateEntryDate(entryDate: string): void {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(entryDate);
+  const date = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (!date || date.toISOString().slice(0, 10) !== entryDate) {
+    throw new Error("entryDate must be a valid date in YYYY-MM-DD format");
+  }
+}
+
+async function getEntryForDate(ctx: MutationCtx, userEmail: string, entryDate: string) {
+  return await ctx.db
+    .query("journalNotes")
+    .withIndex("by_user_entry_date", (q) => q.eq("userEmail", userEmail).eq("entryDate", entryDate))
+    .filter((q) => q.neq(q.field("isDeleted"), true))
+    .first();
+}
+
 export const getJournalNotes = query({
   args: {},
-  returns: v.array(
-    v.object({
-      _id: v.id("journalNotes"),
-      _creationTime: v.number(),
-      title: v.string(),
-      content: v.string(),
-      userEmail: v.string(),
-      clientId: v.string(),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    })
-  ),
+  returns: v.array(journalNoteDocValidator),
   handler: async (ctx) => {
     const user = await authComponent.safeGetAuthUser(ctx);
     if (!user) {
@@ -38,15 +142,41 @@ export const getJournalNotes = query({
     return ctx.db
       .query("journalNotes")
       .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
       .order("desc")
       .collect();
   },
 });
 
+// Best matches first. The last word matches as a prefix, so results update while typing.
+export const searchJournalNotes = query({
+  args: {
+    query: v.string(),
+  },
+  returns: v.array(journalNoteDocValidator),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    const search = args.query.trim();
+    if (!user || !search) {
+      return [];
+    }
+
+    return ctx.db
+      .query("journalNotes")
+      .withSearchIndex("search_text", (q) => q.search("searchText", search).eq("userEmail", user.email))
+      .filter((q) => q.neq(q.field("isDeleted"), true))
+      .take(MAX_SEARCH_RESULTS);
+  },
+});
+
 export const addJournalNote = mutation({
   args: {
     title: v.string(),
     content: v.string(),
+    format: v.optional(journalNoteFormatValidator),
+    notebookId: v.optional(v.string()),
+    pinned: v.optional(v.boolean()),
+    entryDate: v.optional(v.string()),
     clientId: v.optional(v.string()), // Optional clientId for migration mapping
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -58,9 +188,26 @@ export const addJournalNote = mutation({
       throw new Error("Not authenticated");
     }
 
+    if (args.notebookId !== undefined && !(await getNotebook(ctx, user.email, args.notebookId))) {
+      throw new Error("Notebook not found");
+    }
+
+    if (args.entryDate !== undefined) {
+      validateEntryDate(args.entryDate);
+      if (await getEntryForDate(ctx, user.email, args.entryDate)) {
+        throw new Error("There is already an entry for this day");
+      }
+    }
+
+    const content = await resolveNoteLinks(ctx, user.email, args.content);
     return await ctx.db.insert("journalNotes", {
       title: args.title,
-      content: args.content,
+      content,
+      format: args.format,
+      searchText: toSearchText(args.title, content, args.format),
+      notebookId: args.notebookId,
+      pinned: args.pinned,
+      entryDate: args.entryDate,
       userEmail: user.email,
       clientId: args.clientId || crypto.randomUUID(), // Use provided clientId or generate one
       createdAt: args.createdAt,
@@ -69,11 +216,55 @@ export const addJournalNote = mutation({
   },
 });
 
+/**
+ * The daily entry for a date, created empty with the given title if there isn't one yet.
+ * Every device opening the same day gets the same note, with whatever was already written.
+ */
+export const openJournalEntry = mutation({
+  args: {
+    entryDate: v.string(), // The user's local date (YYYY-MM-DD)
+    title: v.string(),
+    clientId: v.string(),
+    createdAt: v.number(),
+  },
+  returns: journalNoteDocValidator,
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    validateEntryDate(args.entryDate);
+    const existing = await getEntryForDate(ctx, user.email, args.entryDate);
+    if (existing) {
+      return existing;
+    }
+
+    const id = await ctx.db.insert("journalNotes", {
+      title: args.title,
+      content: "",
+      format: "markdown",
+      searchText: toSearchText(args.title, "", "markdown"),
+      entryDate: args.entryDate,
+      userEmail: user.email,
+      clientId: args.clientId,
+      createdAt: args.createdAt,
+      updatedAt: args.createdAt,
+    });
+    const entry = await ctx.db.get(id);
+    if (!entry) {
+      throw new Error("Note not found");
+    }
+    return entry;
+  },
+});
+
 export const updateJournalNote = mutation({
   args: {
     id: v.id("journalNotes"),
     title: v.string(),
     content: v.string(),
+    format: v.optional(journalNoteFormatValidator),
     updatedAt: v.number(),
   },
   returns: v.null(),
@@ -92,12 +283,88 @@ export const updateJournalNote = mutation({
       throw new Error("Unauthorized");
     }
 
+    // A save that was still on its way when the note was deleted. Restoring the note brings
+    // back the version it was deleted with.
+    if (note.isDeleted) {
+      return null;
+    }
+
+    const content = await resolveNoteLinks(ctx, user.email, args.content);
+
+    // Keep the version being overwritten, at most once per interval of editing
+    if (note.title !== args.title || note.content !== content) {
+      await recordRevision(ctx, note, note, REVISION_INTERVAL_MS);
+    }
+
     await ctx.db.patch(args.id, {
       title: args.title,
-      content: args.content,
+      content,
+      format: args.format,
+      searchText: toSearchText(args.title, content, args.format),
       updatedAt: args.updatedAt,
     });
 
+    if (note.title !== args.title) {
+      await renameInboundLinks(ctx, user.email, args.id, args.title);
+    }
+
+    return null;
+  },
+});
+
+export const moveJournalNote = mutation({
+  args: {
+    id: v.id("journalNotes"),
+    notebookId: v.optional(v.string()), // Missing to take the note out of its notebook
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const note = await ctx.db.get(args.id);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
+    if (note.userEmail !== user.email) {
+      throw new Error("Unauthorized");
+    }
+
+    if (args.notebookId !== undefined && !(await getNotebook(ctx, user.email, args.notebookId))) {
+      throw new Error("Notebook not found");
+    }
+
+    // Filing a note isn't an edit, so updatedAt stays
+    await ctx.db.patch(args.id, { notebookId: args.notebookId });
+    return null;
+  },
+});
+
+export const setJournalNotePinned = mutation({
+  args: {
+    id: v.id("journalNotes"),
+    pinned: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const note = await ctx.db.get(args.id);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
+    if (note.userEmail !== user.email) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.patch(args.id, { pinned: args.pinned || undefined });
     return null;
   },
 });
@@ -122,6 +389,72 @@ export const deleteJournalNote = mutation({
       throw new Error("Unauthorized");
     }
 
+    // Kept for the restore window, and purged with its history and attachments after it
+    const deletedAt = Date.now();
+    await ctx.db.patch(args.id, { isDeleted: true, deletedAt });
+    await ctx.scheduler.runAfter(RESTORE_WINDOW_MS, internal.journalNotes.purgeJournalNote, {
+      id: args.id,
+      deletedAt,
+    });
+    return null;
+  },
+});
+
+export const restoreJournalNote = mutation({
+  args: {
+    id: v.id("journalNotes"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const note = await ctx.db.get(args.id);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
+    if (note.userEmail !== user.email) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!note.isDeleted || note.deletedAt === undefined) {
+      throw new Error("Note is not deleted");
+    }
+
+    if (Date.now() - note.deletedAt > RESTORE_WINDOW_MS) {
+      throw new Error("Note cannot be restored after 60 seconds");
+    }
+
+    // A day opened again since keeps its new entry, and this one becomes a plain note
+    const entryDate =
+      note.entryDate !== undefined && (await getEntryForDate(ctx, user.email, note.entryDate))
+        ? undefined
+        : note.entryDate;
+
+    await ctx.db.patch(args.id, { isDeleted: undefined, deletedAt: undefined, entryDate });
+    return null;
+  },
+});
+
+/**
+ * Scheduled by deleteJournalNote. A note restored in the meantime is kept, and one deleted
+ * again is left to the purge scheduled by that deletion.
+ */
+export const purgeJournalNote = internalMutation({
+  args: {
+    id: v.id("journalNotes"),
+    deletedAt: v.number(), // The deletion this purge was scheduled for
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const note = await ctx.db.get(args.id);
+    if (!note?.isDeleted || note.deletedAt !== args.deletedAt) return null;
+
+    await deleteNoteAttachments(ctx, note);
+    await deleteRevisions(ctx, args.id);
     await ctx.db.delete(args.id);
     return null;
   },
@@ -134,6 +467,10 @@ export const syncLocalJournalNotes = mutation({
         id: v.string(), // Local UUID (clientId)
         title: v.string(),
         content: v.string(),
+        format: v.optional(journalNoteFormatValidator),
+        notebookId: v.optional(v.string()),
+        pinned: v.optional(v.boolean()),
+        entryDate: v.optional(v.string()),
         createdAt: v.number(),
         updatedAt: v.number(),
       })
@@ -147,11 +484,19 @@ export const syncLocalJournalNotes = mutation({
     }
 
     const idMapping: Record<string, string> = {};
+    const written: Id<"journalNotes">[] = [];
+    const renamed: Array<{ id: Id<"journalNotes">; title: string }> = [];
 
     // Process each local note
     for (const localNote of args.notes) {
       const clientId = localNote.id; // The local UUID or Convex _id
 
+      // Notebooks are synced first; a note filed in one that didn't make it stays unfiled
+      const notebookId =
+        localNote.notebookId !== undefined && (await getNotebook(ctx, user.email, localNote.notebookId))
+          ? localNote.notebookId
+          : undefined;
+
       let existingNote = null;
 
       // 1. Try to treat the incoming id as a Convex document id (skip obvious non-Convex IDs)
@@ -180,31 +525,95 @@ export const syncLocalJournalNotes = mutation({
           .unique();
       }
 
+      if (existingNote?.isDeleted) {
+        // Waiting out the restore window: left alone until it's restored or purged
+        continue;
+      }
+
       if (existingNote) {
         // Update if local note is newer
         if (localNote.updatedAt > existingNote.updatedAt) {
+          if (existingNote.title !== localNote.title || existingNote.content !== localNote.content) {
+            await recordRevision(ctx, existingNote, existingNote, REVISION_INTERVAL_MS);
+          }
           await ctx.db.patch(existingNote._id, {
             title: localNote.title,
             content: localNote.content,
+            format: localNote.format,
+            searchText: toSearchText(localNote.title, localNote.content, localNote.format),
+            notebookId,
+            pinned: localNote.pinned,
             updatedAt: localNote.updatedAt,
           });
+          written.push(existingNote._id);
+          if (existingNote.title !== localNote.title) {
+            renamed.push({ id: existingNote._id, title: localNote.title });
+          }
         }
         idMapping[clientId] = existingNote._id;
       } else {
+        // A day written on another device keeps its entry, and this one becomes a plain note
+        let entryDate = localNote.entryDate;
+        if (entryDate !== undefined) {
+          validateEntryDate(entryDate);
+          if (await getEntryForDate(ctx, user.email, entryDate)) {
+            entryDate = undefined;
+          }
+        }
+
         // Create new note with clientId (which may already be a Convex id string)
         const convexId = await ctx.db.insert("journalNotes", {
           title: localNote.title,
           content: localNote.content,
+          format: localNote.format,
+          searchText: toSearchText(localNote.title, localNote.content, localNote.format),
+          notebookId,
+          pinned: localNote.pinned,
+          entryDate,
           userEmail: user.email,
           clientId,
           createdAt: localNote.createdAt,
           updatedAt: localNote.updatedAt,
         });
         idMapping[clientId] = convexId;
+        written.push(convexId);
       }
     }
 
+    // Links between the uploaded notes can only be resolved once they all have ids
+    for (const id of written) {
+      const note = await ctx.db.get(id);
+      if (!note) continue;
+      const content = await resolveNoteLinks(ctx, user.email, note.content);
+      if (content !== note.content) {
+        await ctx.db.patch(id, { content, searchText: toSearchText(note.title, content, note.format) });
+      }
+    }
+    for (const { id, title } of renamed) {
+      await renameInboundLinks(ctx, user.email, id, title);
+    }
+
     return idMapping;
   },
 });
 
+
+/**
+ * One-off backfill for notes saved before search, e.g. `npx convex run journalNotes:backfillSearchText`.
+ * Notes get their search text on their next save anyway.
+ */
+export const backfillSearchText = internalMutation({
+  args: {},
+  returns: v.number(), // Number of notes updated
+  handler: async (ctx) => {
+    const notes = await ctx.db.query("journalNotes").collect();
+
+    let updated = 0;
+    for (const note of notes) {
+      if (note.searchText !== undefined) continue;
+      await ctx.db.patch(note._id, { searchText: toSearchText(note.title, note.content, note.format) });
+      updated++;
+    }
+    return updated;
+  },
+});
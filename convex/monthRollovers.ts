@@ -0,0 +1,200 @@
+import { internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { authComponent, findUser } from "./auth";
+import { rolloverCustomerValidator, rolloverSourceValidator } from "./schema";
+import { isActiveInMonth } from "./customers";
+import { isValidMonth, shiftMonth } from "./subscriptions";
+
+// Starting a month copies the last month with data (its settings and legacy checked
+// slots) and records how the active customers changed in between. Customers carry
+// over on their own, since they stay active until their cancel date.
+
+type RolloverCustomer = Infer<typeof rolloverCustomerValidator>;
+type RolloverSource = Infer<typeof rolloverSourceValidator>;
+
+const monthRolloverDocValidator = v.object({
+  _id: v.id("monthRollovers"),
+  _creationTime: v.number(),
+  userId: v.id("user"),
+  month: v.string(),
+  fromMonth: v.string(),
+  source: rolloverSourceValidator,
+  carried: v.array(rolloverCustomerValidator),
+  added: v.array(rolloverCustomerValidator),
+  removed: v.array(rolloverCustomerValidator),
+  createdAt: v.number(),
+});
+
+function getCurrentMonth(now: number): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+async function getRollover(
+  ctx: QueryCtx,
+  userId: Id<"user">,
+  month: string,
+): Promise<Doc<"monthRollovers"> | null> {
+  return ctx.db
+    .query("monthRollovers")
+    .withIndex("by_user_and_month", (q) => q.eq("userId", userId).eq("month", month))
+    .first();
+}
+
+async function getMonth(ctx: QueryCtx, userId: Id<"user">, month: string): Promise<Doc<"subscriptions"> | null> {
+  return ctx.db
+    .query("subscriptions")
+    .withIndex("by_user_and_month", (q) => q.eq("userId", userId).eq("month", month))
+    .first();
+}
+
+function hasData(subscription: Doc<"subscriptions"> | null): boolean {
+  return Boolean(subscription && (subscription.config || subscription.checkedSlots.length > 0));
+}
+
+/**
+ * Seed `month` from the last earlier month with data, or from the month before when
+ * there is none, and log the customer changes. Callers check the month is still empty.
+ */
+async function startMonth(
+  ctx: MutationCtx,
+  userId: Id<"user">,
+  month: string,
+  source: RolloverSource,
+): Promise<Id<"monthRollovers">> {
+  const previous = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_user_and_month", (q) => q.eq("userId", userId).lt("month", month))
+    .order("desc")
+    .first();
+  const fromMonth = previous?.month ?? shiftMonth(month, -1);
+
+  const customers = await ctx.db
+    .query("customers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const carried: RolloverCustomer[] = [];
+  const added: RolloverCustomer[] = [];
+  const removed: RolloverCustomer[] = [];
+  for (const customer of customers) {
+    const wasActive = isActiveInMonth(customer, fromMonth);
+    const isActive = isActiveInMonth(customer, month);
+    const entry = { clientId: customer.clientId, name: customer.name };
+    if (wasActive && isActive) carried.push(entry);
+    else if (isActive) added.push(entry);
+    else if (wasActive) removed.push(entry);
+  }
+
+  const now = Date.now();
+  const seed = {
+    checkedSlots: previous?.checkedSlots ?? [],
+    ...(previous?.config && { config: previous.config }),
+    // Slots copied from a migrated month are already covered by its customers
+    ...(previous?.migratedToCustomers && { migratedToCustomers: true }),
+    updatedAt: now,
+  };
+  const existing = await getMonth(ctx, userId, month);
+  if (existing) {
+    await ctx.db.patch(existing._id, seed);
+  } else {
+    await ctx.db.insert("subscriptions", { userId, month, ...seed });
+  }
+
+  return ctx.db.insert("monthRollovers", {
+    userId,
+    month,
+    fromMonth,
+    source,
+    carried,
+    added,
+    removed,
+    createdAt: now,
+  });
+}
+
+export const getMonthRollover = query({
+  args: {
+    month: v.string(),
+  },
+  returns: v.union(monthRolloverDocValidator, v.null()),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+    return getRollover(ctx, user._id, args.month);
+  },
+});
+
+/**
+ * The "start month from previous" action. Only empty months can be started, so a
+ * month that was already set up is never overwritten.
+ */
+export const startMonthFromPrevious = mutation({
+  args: {
+    month: v.string(),
+  },
+  returns: monthRolloverDocValidator,
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    if (!isValidMonth(args.month)) {
+      throw new Error("Invalid month");
+    }
+    if (await getRollover(ctx, user._id, args.month)) {
+      throw new Error("This month was already started from a previous one");
+    }
+    if (hasData(await getMonth(ctx, user._id, args.month))) {
+      throw new Error("This month already has its own settings");
+    }
+
+    const rolloverId = await startMonth(ctx, user._id, args.month, "manual");
+    const rollover = await ctx.db.get(rolloverId);
+    if (!rollover) throw new Error("Rollover not found");
+    return rollover;
+  },
+});
+
+export const rolloverUser = internalMutation({
+  args: {
+    settingsId: v.id("userSettings"),
+    month: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    // Automatic rollover may have been turned off since the run was scheduled
+    const settings = await ctx.db.get(args.settingsId);
+    if (!settings?.tracker?.autoRollover) return null;
+
+    // The tracker keys its rows by auth user id, settings by email
+    const user = await findUser(ctx, "email", settings.userEmail);
+    if (!user) return null;
+    const userId = user._id;
+
+    // Another run may have handled this user already, or they set the month up themselves
+    if (await getRollover(ctx, userId, args.month)) return null;
+    if (hasData(await getMonth(ctx, userId, args.month))) return null;
+
+    await startMonth(ctx, userId, args.month, "cron");
+    return null;
+  },
+});
+
+/**
+ * Cron entry point: schedule a rollover of the current month (UTC) for every user who
+ * turned on automatic rollover.
+ */
+export const rolloverAllUsers = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const month = getCurrentMonth(Date.now());
+    const allSettings = await ctx.db.query("userSettings").collect();
+
+    for (const settings of allSettings) {
+      if (!settings.tracker?.autoRollover) continue;
+      await ctx.scheduler.runAfter(0, internal.monthRollovers.rolloverUser, { settingsId: settings._id, month });
+    }
+    return null;
+  },
+});
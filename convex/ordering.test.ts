@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { compareTaskOrder, generateOrderKeyBetween, getTaskOrderKey, isValidOrderKey } from "./ordering";
+
+function expectBetween(key: string, before: string | null, after: string | null) {
+  expect(isValidOrderKey(key)).toBe(true);
+  if (before !== null) expect(key > before).toBe(true);
+  if (after !== null) expect(key < after).toBe(true);
+}
+
+describe("generateOrderKeyBetween", () => {
+  it("generates a key for an empty list", () => {
+    expectBetween(generateOrderKeyBetween(null, null), null, null);
+  });
+
+  it("generates a key between two keys", () => {
+    for (const [before, after] of [
+      ["A", "z"],
+      ["a", "b"], // Adjacent digits
+      ["a", "a1"], // One a prefix of the other
+      ["aZzz", "ab"],
+      ["0V", "1"],
+    ]) {
+      expectBetween(generateOrderKeyBetween(before, after), before, after);
+    }
+  });
+
+  it("generates a key before the first and after the last", () => {
+    for (const key of ["1", "0V", "V", "zzz"]) {
+      expectBetween(generateOrderKeyBetween(null, key), null, key);
+      expectBetween(generateOrderKeyBetween(key, null), key, null);
+    }
+  });
+
+  it("keeps keys short and valid over repeated inserts at the same gap", () => {
+    // Always right after the first task, pushing the rest down
+    let after = "b";
+    for (let i = 0; i < 100; i++) {
+      const key = generateOrderKeyBetween("a", after);
+      expectBetween(key, "a", after);
+      after = key;
+    }
+    expect(after.length).toBeLessThan(30);
+
+    // Always right before the last task
+    let before = "a";
+    for (let i = 0; i < 100; i++) {
+      const key = generateOrderKeyBetween(before, "b");
+      expectBetween(key, before, "b");
+      before = key;
+    }
+    expect(before.length).toBeLessThan(30);
+  });
+
+  it("keeps the keys of a list in order when each is added at the end or the start", () => {
+    const keys = [generateOrderKeyBetween(null, null)];
+    for (let i = 0; i < 50; i++) {
+      keys.push(generateOrderKeyBetween(keys[keys.length - 1], null));
+      keys.unshift(generateOrderKeyBetween(null, keys[0]));
+    }
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys.every(isValidOrderKey)).toBe(true);
+  });
+
+  it("places a key after the first of two identical or inverted neighbors", () => {
+    expectBetween(generateOrderKeyBetween("a", "a"), "a", null);
+    expectBetween(generateOrderKeyBetween("b", "a"), "b", null);
+  });
+});
+
+describe("legacy keys", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const legacyTask = (createdAt: number, clientId = String(createdAt)) => ({ createdAt, clientId });
+
+  it("are derived from createdAt in creation order", () => {
+    const keys = [0, 1, 61, 62, 1_700_000_000_000, 1_700_000_000_001, 4_000_000_000_000].map((createdAt) =>
+      getTaskOrderKey({ createdAt }),
+    );
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys.every(isValidOrderKey)).toBe(true);
+  });
+
+  it("give way to a stored key", () => {
+    expect(getTaskOrderKey({ order: "a", createdAt: 1_700_000_000_000 })).toBe("a");
+  });
+
+  it("sort together with keys generated between them", () => {
+    const first = legacyTask(1_700_000_000_000);
+    const second = legacyTask(1_700_000_100_000);
+    const third = legacyTask(1_700_000_200_000);
+    // The third task is moved between the first two, and the first after the third
+    const moved = {
+      ...third,
+      order: generateOrderKeyBetween(getTaskOrderKey(first), getTaskOrderKey(second)),
+    };
+    const movedAgain = {
+      ...first,
+      order: generateOrderKeyBetween(getTaskOrderKey(moved), getTaskOrderKey(second)),
+    };
+
+    expect([second, movedAgain, moved].sort(compareTaskOrder)).toEqual([moved, movedAgain, second]);
+  });
+
+  it("of tasks created later still sort after a task moved to the end", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_500_000);
+    const last = legacyTask(1_700_000_000_000);
+    const moved = { ...legacyTask(1_600_000_000_000), order: generateOrderKeyBetween(getTaskOrderKey(last), null) };
+    const created = legacyTask(1_700_000_500_001);
+
+    expect([created, moved, last].sort(compareTaskOrder)).toEqual([last, moved, created]);
+  });
+
+  it("of tasks created in the same millisecond fall back to clientId", () => {
+    const a = legacyTask(1_700_000_000_000, "a");
+    const b = legacyTask(1_700_000_000_000, "b");
+    expect([b, a].sort(compareTaskOrder)).toEqual([a, b]);
+    expect(compareTaskOrder(a, { ...a })).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+// Fractional order keys for manually sorted tasks, shared by the Convex functions and the todo app.
+// Keys are base62 strings compared lexicographically, so a key can always be generated
+// between two neighbors and a reorder only has to write the task that moved.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+const MAX_ORDER_KEY_LENGTH = 64;
+const LEGACY_KEY_LENGTH = 8; // 62^8 covers millisecond timestamps for millennia
+const LEGACY_KEY_SUFFIX = "V"; // Keys must never end in "0"
+
+export function isValidOrderKey(key: string): boolean {
+  return (
+    key.length > 0 &&
+    key.length <= MAX_ORDER_KEY_LENGTH &&
+    /^[0-9A-Za-z]+$/.test(key) &&
+    !key.endsWith("0")
+  );
+}
+
+// Midpoint of two keys read as base62 fractions; `b === null` means "after everything"
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function keyAfter(before: string): string {
+  // Stay below the derived keys of tasks created from now on, so they still appear after this one
+  const ceiling = getTaskOrderKey({ createdAt: Date.now() });
+  return before < ceiling ? midpoint(before, ceiling) : midpoint(before, null);
+}
+
+/**
+ * Generate an order key that sorts strictly between `before` and `after`.
+ * Pass null for either side to place the key at the start or the end.
+ */
+export function generateOrderKeyBetween(before: string | null, after: string | null): string {
+  if (before === null) {
+    return midpoint("", after);
+  }
+  // Identical or inverted neighbors (e.g. two legacy tasks created in the same millisecond)
+  // cannot have a key between them, so fall back to placing right after `before`.
+  if (after === null || after <= before) {
+    return keyAfter(before);
+  }
+  return midpoint(before, after);
+}
+
+/**
+ * The effective order key of a task. Tasks that were never reordered have no stored key,
+ * so one is derived from `createdAt` to keep them in insertion order.
+ */
+export function getTaskOrderKey(task: { order?: string; createdAt: number }): string {
+  if (task.order) return task.order;
+
+  let value = Math.max(0, Math.floor(task.createdAt));
+  let key = "";
+  for (let i = 0; i < LEGACY_KEY_LENGTH; i++) {
+    key = DIGITS[value % BASE] + key;
+    value = Math.floor(value / BASE);
+  }
+  return key + LEGACY_KEY_SUFFIX;
+}
+
+export function compareTaskOrder(
+  a: { order?: string; createdAt: number; clientId: string },
+  b: { order?: string; createdAt: number; clientId: string },
+): number {
+  const keyA = getTaskOrderKey(a);
+  const keyB = getTaskOrderKey(b);
+  if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+  if (a.createdAt !== b.createdAt) return a.createdAt - b.createdAt;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
@@ -0,0 +1,85 @@
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { authComponent } from "./auth";
+import { getLocalDate, getSettingsDoc } from "./userSettings";
+
+// Overdue tasks are rolled over once per user per local day, on the server,
+// so every device sees the same result without issuing its own updates.
+
+async function rolloverTasks(ctx: MutationCtx, userEmail: string, today: string): Promise<number> {
+  const overdueTasks = await ctx.db
+    .query("tasks")
+    .withIndex("by_user_date", (q) => q.eq("userEmail", userEmail).lt("dueDate", today))
+    .filter((q) => q.and(q.eq(q.field("completed"), false), q.neq(q.field("isDeleted"), true)))
+    .collect();
+
+  const now = Date.now();
+  for (const task of overdueTasks) {
+    await ctx.db.patch(task._id, {
+      dueDate: today,
+      postponeCount: (task.postponeCount ?? 0) + 1,
+      updatedAt: now,
+    });
+  }
+  return overdueTasks.length;
+}
+
+/**
+ * Move the user's overdue tasks to today. Used by the "ask" policy when the user accepts.
+ */
+export const rolloverOverdueTasks = mutation({
+  args: {},
+  returns: v.number(), // Number of tasks moved
+  handler: async (ctx) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const settings = await getSettingsDoc(ctx, user.email);
+    if (!settings?.todo) {
+      throw new Error("Todo settings not found");
+    }
+
+    const today = getLocalDate(settings.todo.timeZone, Date.now());
+    return rolloverTasks(ctx, user.email, today);
+  },
+});
+
+export const rolloverUser = internalMutation({
+  args: {
+    settingsId: v.id("userSettings"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const settings = await ctx.db.get(args.settingsId);
+    if (!settings?.todo || settings.todo.overduePolicy !== "rollover") return null;
+
+    const today = getLocalDate(settings.todo.timeZone, Date.now());
+    // Another run may have handled this user already
+    if (settings.lastRolloverDate === today) return null;
+
+    await rolloverTasks(ctx, settings.userEmail, today);
+    await ctx.db.patch(settings._id, { lastRolloverDate: today });
+    return null;
+  },
+});
+
+/**
+ * Cron entry point: schedule a rollover for every user whose local day has changed
+ * since their last one.
+ */
+export const rolloverAllUsers = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const allSettings = await ctx.db.query("userSettings").collect();
+
+    for (const settings of allSettings) {
+      if (!settings.todo || settings.todo.overduePolicy !== "rollover") continue;
+      if (settings.lastRolloverDate === getLocalDate(settings.todo.timeZone, now)) continue;
+      await ctx.scheduler.runAfter(0, internal.overdue.rolloverUser, { settingsId: settings._id });
+    }
+    return null;
+  },
+});
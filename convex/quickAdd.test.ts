@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickAdd } from "./quickAdd";
+
+// A Monday
+const TODAY = "2026-10-19";
+
+describe("parseQuickAdd", () => {
+  it("leaves a title without a date phrase alone", () => {
+    expect(parseQuickAdd("  Water the plants ", TODAY)).toEqual({ title: "Water the plants" });
+  });
+
+  it("parses tomorrow and removes it from the title", () => {
+    expect(parseQuickAdd("Call the bank tomorrow", TODAY)).toEqual({
+      title: "Call the bank",
+      dueDate: "2026-10-20",
+      match: { text: "tomorrow", start: 14, end: 22 },
+    });
+  });
+
+  it("parses today and the day after tomorrow", () => {
+    expect(parseQuickAdd("Pay rent today", TODAY).dueDate).toBe("2026-10-19");
+    expect(parseQuickAdd("Pay rent the day after tomorrow", TODAY)).toMatchObject({
+      title: "Pay rent",
+      dueDate: "2026-10-21",
+    });
+  });
+
+  describe("weekdays", () => {
+    it("parses next fri as the coming Friday", () => {
+      expect(parseQuickAdd("Send invoices next fri", TODAY)).toMatchObject({
+        title: "Send invoices",
+        dueDate: "2026-10-23",
+      });
+    });
+
+    it("never puts a weekday on today unless asked with this", () => {
+      expect(parseQuickAdd("Standup next mon", TODAY).dueDate).toBe("2026-10-26");
+      expect(parseQuickAdd("Standup monday", TODAY).dueDate).toBe("2026-10-26");
+      expect(parseQuickAdd("Standup this mon", TODAY).dueDate).toBe("2026-10-19");
+    });
+
+    it("parses full weekday names anywhere in the title", () => {
+      expect(parseQuickAdd("Saturday market run", TODAY)).toMatchObject({
+        title: "market run",
+        dueDate: "2026-10-24",
+      });
+    });
+
+    it("parses short forms after a qualifier", () => {
+      expect(parseQuickAdd("Dentist on wed at noon", TODAY)).toMatchObject({
+        title: "Dentist at noon",
+        dueDate: "2026-10-21",
+      });
+    });
+
+    it("parses a short form on its own only at the end of the title", () => {
+      expect(parseQuickAdd("Call mom sun", TODAY)).toMatchObject({ title: "Call mom", dueDate: "2026-10-25" });
+      expect(parseQuickAdd("Call mom sat.", TODAY)).toMatchObject({ title: "Call mom.", dueDate: "2026-10-24" });
+      expect(parseQuickAdd("Buy sun cream", TODAY)).toEqual({ title: "Buy sun cream" });
+      expect(parseQuickAdd("Wed invitations for sat", TODAY)).toMatchObject({
+        title: "Wed invitations for",
+        dueDate: "2026-10-24",
+      });
+    });
+  });
+
+  describe("offsets", () => {
+    it("parses in 3 days", () => {
+      expect(parseQuickAdd("Follow up in 3 days", TODAY)).toMatchObject({
+        title: "Follow up",
+        dueDate: "2026-10-22",
+      });
+    });
+
+    it("parses number words, weeks and months", () => {
+      expect(parseQuickAdd("Review in two weeks", TODAY).dueDate).toBe("2026-11-02");
+      expect(parseQuickAdd("Renew in a month", TODAY).dueDate).toBe("2026-11-19");
+      expect(parseQuickAdd("Renew in 1 month", "2027-01-31").dueDate).toBe("2027-02-28");
+    });
+  });
+
+  describe("calendar dates", () => {
+    it("parses on 12 nov in the current year", () => {
+      expect(parseQuickAdd("Book flights on 12 nov", TODAY)).toMatchObject({
+        title: "Book flights",
+        dueDate: "2026-11-12",
+      });
+    });
+
+    it("rolls a date that has passed this year over into next year", () => {
+      expect(parseQuickAdd("Book flights on 12 oct", TODAY).dueDate).toBe("2027-10-12");
+      expect(parseQuickAdd("Taxes on 3 jan", "2026-12-20").dueDate).toBe("2027-01-03");
+    });
+
+    it("keeps a date that is today in the current year", () => {
+      expect(parseQuickAdd("Party on 19 oct", TODAY).dueDate).toBe("2026-10-19");
+    });
+
+    it("parses month-first dates and ISO dates", () => {
+      expect(parseQuickAdd("Launch nov 3rd", TODAY).dueDate).toBe("2026-11-03");
+      expect(parseQuickAdd("Launch 2026-12-01", TODAY).dueDate).toBe("2026-12-01");
+    });
+
+    it("ignores dates that don't exist or have passed", () => {
+      expect(parseQuickAdd("Report on 31 nov", TODAY).dueDate).toBeUndefined();
+      expect(parseQuickAdd("Report 2026-10-01", TODAY).dueDate).toBeUndefined();
+    });
+  });
+
+  describe("recurrence", () => {
+    it("parses every monday as a weekly rule starting on the next Monday, today included", () => {
+      expect(parseQuickAdd("Team sync every monday", TODAY)).toMatchObject({
+        title: "Team sync",
+        dueDate: "2026-10-19",
+        recurrence: { frequency: "weekly", interval: 1, byWeekday: [1] },
+      });
+    });
+
+    it("parses every weekday and intervals", () => {
+      expect(parseQuickAdd("Journal every weekday", "2026-10-24")).toMatchObject({
+        dueDate: "2026-10-26",
+        recurrence: { frequency: "weekdays", interval: 1 },
+      });
+      expect(parseQuickAdd("Water plants every other day", TODAY).recurrence).toEqual({
+        frequency: "daily",
+        interval: 2,
+      });
+    });
+  });
+
+  describe("undo", () => {
+    it("leaves an ignored phrase in the title", () => {
+      expect(parseQuickAdd("Read tomorrow's paper tomorrow", TODAY, { ignore: ["TOMORROW"] })).toEqual({
+        title: "Read tomorrow's paper tomorrow",
+      });
+    });
+
+    it("falls back to another phrase that doesn't overlap the ignored one", () => {
+      expect(parseQuickAdd("Move today's meeting to friday", TODAY, { ignore: ["today"] })).toMatchObject({
+        title: "Move today's meeting to",
+        dueDate: "2026-10-23",
+      });
+    });
+
+    it("doesn't fall back to the weekday inside an ignored every monday", () => {
+      expect(parseQuickAdd("Book every monday", TODAY, { ignore: ["every monday"] })).toEqual({
+        title: "Book every monday",
+      });
+    });
+  });
+
+  it("leaves #tag text alone", () => {
+    expect(parseQuickAdd("Plan #friday party", TODAY)).toEqual({ title: "Plan #friday party" });
+    expect(parseQuickAdd("Ship #tomorrow-list tomorrow", TODAY)).toMatchObject({
+      title: "Ship #tomorrow-list",
+      dueDate: "2026-10-20",
+    });
+  });
+
+  it("doesn't parse times of day", () => {
+    expect(parseQuickAdd("Call at 3pm tomorrow", TODAY)).toMatchObject({
+      title: "Call at 3pm",
+      dueDate: "2026-10-20",
+    });
+  });
+
+  it("keeps a title made only of a date phrase as typed", () => {
+    expect(parseQuickAdd("Tomorrow", TODAY)).toEqual({ title: "Tomorrow" });
+  });
+});
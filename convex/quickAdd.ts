@@ -0,0 +1,247 @@
+import { RecurrenceRule, addDays, formatDateKey, parseDateKey } from "./recurrence";
+
+// Natural-language quick add, shared by the Convex functions and the todo app.
+// Recognizes one date phrase in a task title ("tomorrow", "next fri", "in 3 days",
+// "on 12 nov", "every monday") relative to the caller's today. Pure: no clock access.
+// Times of day ("at 3pm") are not parsed: tasks have a due date but no time, so they stay
+// in the title.
+
+export interface QuickAddMatch {
+  text: string; // The phrase as typed, e.g. "next fri"
+  start: number;
+  end: number;
+}
+
+export interface QuickAddResult {
+  title: string; // Title with the recognized phrase removed
+  dueDate?: string; // YYYY-MM-DD
+  recurrence?: RecurrenceRule;
+  match?: QuickAddMatch;
+}
+
+interface Candidate {
+  match: QuickAddMatch;
+  dueDate: string;
+  recurrence?: RecurrenceRule;
+}
+
+const WEEKDAY_PATTERN =
+  "(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:s|nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?)";
+// Short forms are also words ("buy sun cream"), so only full names count anywhere in a title
+const WEEKDAY_NAME_PATTERN = "(sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const NUMBER_PATTERN = "(\\d{1,2}|an?|one|two|three|four|five|six|seven|eight|nine|ten)";
+const UNIT_PATTERN = "(days?|weeks?|months?)";
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const MAX_OFFSET_DAYS = 366 * 2;
+
+// Phrases must stand alone: not inside a word, a number or a `#tag`
+function phrase(pattern: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}#])${pattern}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+function toWeekday(token: string): number {
+  return ["sun", "mon", "tue", "wed", "thu", "fri", "sat"].indexOf(token.slice(0, 3).toLowerCase());
+}
+
+function toMonth(token: string): number {
+  return ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"].indexOf(
+    token.slice(0, 3).toLowerCase()
+  );
+}
+
+function toNumber(token: string): number {
+  return NUMBER_WORDS[token.toLowerCase()] ?? parseInt(token, 10);
+}
+
+// Upcoming date with the given weekday; `includeToday` allows a distance of zero
+function nextWeekday(today: Date, weekday: number, includeToday: boolean): Date {
+  const distance = (weekday - today.getUTCDay() + 7) % 7;
+  return addDays(today, distance === 0 && !includeToday ? 7 : distance);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+function offset(today: Date, amount: number, unit: string): Date {
+  if (unit.startsWith("week")) return addDays(today, amount * 7);
+  if (unit.startsWith("month")) return addMonths(today, amount);
+  return addDays(today, amount);
+}
+
+// Calendar date without a year: this year, or next year once it has passed
+function calendarDate(today: Date, month: number, day: number, year?: number): Date | null {
+  const resolvedYear = year ?? today.getUTCFullYear();
+  const date = new Date(Date.UTC(resolvedYear, month, day));
+  if (date.getUTCMonth() !== month) return null; // e.g. 31 nov
+  if (year === undefined && date < today) {
+    return calendarDate(today, month, day, resolvedYear + 1);
+  }
+  return date;
+}
+
+type Rule = {
+  pattern: RegExp;
+  resolve: (groups: string[], today: Date) => { dueDate: Date; recurrence?: RecurrenceRule } | null;
+};
+
+// Ordered by priority: "every monday" must win over "monday"
+const RULES: Rule[] = [
+  {
+    pattern: phrase(`every\\s+${WEEKDAY_PATTERN}`),
+    resolve: ([weekday], today) => {
+      const day = toWeekday(weekday);
+      return {
+        dueDate: nextWeekday(today, day, true),
+        recurrence: { frequency: "weekly", interval: 1, byWeekday: [day] },
+      };
+    },
+  },
+  {
+    pattern: phrase("every\\s+weekday"),
+    resolve: (_groups, today) => {
+      const weekday = today.getUTCDay();
+      return {
+        dueDate: weekday === 0 || weekday === 6 ? nextWeekday(today, 1, false) : today,
+        recurrence: { frequency: "weekdays", interval: 1 },
+      };
+    },
+  },
+  {
+    pattern: phrase(`every\\s+(?:(\\d{1,2}|other)\\s+)?${UNIT_PATTERN}`),
+    resolve: ([amount, unit], today) => {
+      const interval = amount === undefined ? 1 : amount.toLowerCase() === "other" ? 2 : parseInt(amount, 10);
+      if (interval < 1) return null;
+      const recurrence: RecurrenceRule = unit.startsWith("week")
+        ? { frequency: "weekly", interval, byWeekday: [today.getUTCDay()] }
+        : unit.startsWith("month")
+          ? { frequency: "monthly", interval, monthDay: today.getUTCDate() }
+          : { frequency: "daily", interval };
+      return { dueDate: today, recurrence };
+    },
+  },
+  {
+    pattern: phrase("(?:the\\s+)?day\\s+after\\s+tomorrow"),
+    resolve: (_groups, today) => ({ dueDate: addDays(today, 2) }),
+  },
+  {
+    pattern: phrase("(today|tonight|tomorrow|tmrw?)"),
+    resolve: ([word], today) => ({
+      dueDate: ["today", "tonight"].includes(word.toLowerCase()) ? today : addDays(today, 1),
+    }),
+  },
+  {
+    pattern: phrase(`in\\s+${NUMBER_PATTERN}\\s+${UNIT_PATTERN}`),
+    resolve: ([amount, unit], today) => ({ dueDate: offset(today, toNumber(amount), unit) }),
+  },
+  {
+    pattern: phrase("next\\s+(week|month)"),
+    resolve: ([unit], today) => ({ dueDate: offset(today, 1, unit) }),
+  },
+  {
+    pattern: phrase("(\\d{4})-(\\d{2})-(\\d{2})"),
+    resolve: ([year, month, day], today) => {
+      const date = calendarDate(today, Number(month) - 1, Number(day), Number(year));
+      return date && date >= today ? { dueDate: date } : null;
+    },
+  },
+  {
+    pattern: phrase(`(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?`),
+    resolve: ([day, month, year], today) => {
+      const date = calendarDate(today, toMonth(month), Number(day), year ? Number(year) : undefined);
+      return date && date >= today ? { dueDate: date } : null;
+    },
+  },
+  {
+    pattern: phrase(`(?:on\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`),
+    resolve: ([month, day, year], today) => {
+      const date = calendarDate(today, toMonth(month), Number(day), year ? Number(year) : undefined);
+      return date && date >= today ? { dueDate: date } : null;
+    },
+  },
+  {
+    // "next fri" means the coming Friday, like "friday"; "this fri" may also be today
+    pattern: phrase(`(on|next|this)\\s+${WEEKDAY_PATTERN}`),
+    resolve: ([qualifier, weekday], today) => ({
+      dueDate: nextWeekday(today, toWeekday(weekday), qualifier.toLowerCase() === "this"),
+    }),
+  },
+  {
+    pattern: phrase(WEEKDAY_NAME_PATTERN),
+    resolve: ([weekday], today) => ({ dueDate: nextWeekday(today, toWeekday(weekday), false) }),
+  },
+  {
+    // A short form on its own only as the last word: "call mom sat"
+    pattern: phrase(`${WEEKDAY_PATTERN}(?=[\\s.!?]*$)`),
+    resolve: ([weekday], today) => ({ dueDate: nextWeekday(today, toWeekday(weekday), false) }),
+  },
+];
+
+function findCandidates(input: string, today: Date): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    for (const found of Array.from(input.matchAll(rule.pattern))) {
+      const resolved = rule.resolve(found.slice(1), today);
+      if (!resolved) continue;
+      const distance = (resolved.dueDate.getTime() - today.getTime()) / 86_400_000;
+      if (distance < 0 || distance > MAX_OFFSET_DAYS) continue;
+      candidates.push({
+        match: { text: found[0], start: found.index ?? 0, end: (found.index ?? 0) + found[0].length },
+        dueDate: formatDateKey(resolved.dueDate),
+        recurrence: resolved.recurrence,
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Parse the first recognized date phrase out of a task title.
+ * `today` is the caller's local date (YYYY-MM-DD). Phrases listed in `ignore`
+ * (compared case-insensitively) are left in the title, so a user can undo a match.
+ */
+export function parseQuickAdd(
+  input: string,
+  today: string,
+  options: { ignore?: string[] } = {},
+): QuickAddResult {
+  const ignored = new Set((options.ignore ?? []).map((text) => text.toLowerCase()));
+  const candidates = findCandidates(input, parseDateKey(today));
+  // Undoing "every monday" must not fall back to the "monday" inside it
+  const ignoredMatches = candidates
+    .filter((found) => ignored.has(found.match.text.toLowerCase()))
+    .map((found) => found.match);
+  const candidate = candidates.find(
+    (found) => !ignoredMatches.some((match) => found.match.start < match.end && match.start < found.match.end)
+  );
+  if (!candidate) {
+    return { title: input.trim() };
+  }
+
+  const title = (input.slice(0, candidate.match.start) + input.slice(candidate.match.end))
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.!?;:])/g, "$1")
+    .trim();
+  // A title made only of a date phrase stays as typed
+  if (!title) {
+    return { title: input.trim() };
+  }
+
+  return {
+    title,
+    dueDate: candidate.dueDate,
+    recurrence: candidate.recurrence,
+    match: candidate.match,
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { getNextOccurrence, getOccurrencesUntil, validateRecurrence, type RecurrenceRule } from "./recurrence";
+
+function rule(overrides: Partial<RecurrenceRule> & Pick<RecurrenceRule, "frequency">): RecurrenceRule {
+  return { interval: 1, ...overrides };
+}
+
+// Follow a series from dueDate, returning the next `length` due dates
+function series(recurrence: RecurrenceRule, dueDate: string, length: number): string[] {
+  const dates: string[] = [];
+  let current = dueDate;
+  for (let index = 1; index <= length; index++) {
+    const next = getNextOccurrence(recurrence, current, index);
+    if (!next) break;
+    dates.push(next);
+    current = next;
+  }
+  return dates;
+}
+
+describe("validateRecurrence", () => {
+  it("accepts a valid rule", () => {
+    expect(() =>
+      validateRecurrence(rule({ frequency: "monthly", interval: 2, byWeekday: [5], setPosition: -1, until: "2027-01-01" })),
+    ).not.toThrow();
+  });
+
+  it("rejects intervals that aren't whole numbers from 1 to 99", () => {
+    for (const interval of [0, 1.5, 100]) {
+      expect(() => validateRecurrence(rule({ frequency: "daily", interval }))).toThrow(/interval/);
+    }
+  });
+
+  it("rejects weekdays, days of the month and positions out of range", () => {
+    expect(() => validateRecurrence(rule({ frequency: "weekly", byWeekday: [7] }))).toThrow(/weekdays/);
+    expect(() => validateRecurrence(rule({ frequency: "monthly", monthDay: 32 }))).toThrow(/day of month/);
+    for (const setPosition of [0, -2, 5]) {
+      expect(() => validateRecurrence(rule({ frequency: "monthly", setPosition }))).toThrow(/position/);
+    }
+  });
+
+  it("rejects a malformed end date and a count below 1", () => {
+    expect(() => validateRecurrence(rule({ frequency: "daily", until: "2026-1-5" }))).toThrow(/end date/);
+    expect(() => validateRecurrence(rule({ frequency: "daily", count: 0 }))).toThrow(/count/);
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("steps daily rules by their interval", () => {
+    expect(series(rule({ frequency: "daily", interval: 3 }), "2026-12-30", 2)).toEqual(["2027-01-02", "2027-01-05"]);
+  });
+
+  it("skips the weekend for weekday rules", () => {
+    expect(series(rule({ frequency: "weekdays" }), "2026-10-22", 3)).toEqual(["2026-10-23", "2026-10-26", "2026-10-27"]);
+  });
+
+  describe("weekly", () => {
+    it("repeats on the due date's weekday without byWeekday", () => {
+      expect(series(rule({ frequency: "weekly", interval: 3 }), "2026-10-19", 2)).toEqual(["2026-11-09", "2026-11-30"]);
+    });
+
+    it("visits every weekday in a week before skipping the interval", () => {
+      // Monday and Wednesday every other week
+      const recurrence = rule({ frequency: "weekly", interval: 2, byWeekday: [1, 3] });
+      expect(series(recurrence, "2026-10-19", 4)).toEqual(["2026-10-21", "2026-11-02", "2026-11-04", "2026-11-16"]);
+    });
+
+    it("treats Sunday as the end of the week", () => {
+      // Friday and Sunday every other week, starting on a Friday
+      const recurrence = rule({ frequency: "weekly", interval: 2, byWeekday: [0, 5] });
+      expect(series(recurrence, "2026-10-23", 3)).toEqual(["2026-10-25", "2026-11-06", "2026-11-08"]);
+    });
+  });
+
+  describe("monthly", () => {
+    it("clamps the 31st to short months without drifting", () => {
+      const recurrence = rule({ frequency: "monthly", monthDay: 31 });
+      expect(series(recurrence, "2026-01-31", 4)).toEqual(["2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31"]);
+      expect(getNextOccurrence(recurrence, "2028-01-31")).toBe("2028-02-29");
+    });
+
+    it("steps by the interval across the end of the year", () => {
+      expect(getNextOccurrence(rule({ frequency: "monthly", interval: 3, monthDay: 15 }), "2026-11-15")).toBe("2027-02-15");
+    });
+
+    it("finds the last weekday of the month", () => {
+      const recurrence = rule({ frequency: "monthly", setPosition: -1 });
+      // October 31 is a Saturday
+      expect(series(recurrence, "2026-10-30", 2)).toEqual(["2026-11-30", "2026-12-31"]);
+    });
+
+    it("finds the last or nth given weekday of the month", () => {
+      expect(getNextOccurrence(rule({ frequency: "monthly", setPosition: -1, byWeekday: [5] }), "2026-10-30")).toBe(
+        "2026-11-27",
+      );
+      expect(getNextOccurrence(rule({ frequency: "monthly", setPosition: 2, byWeekday: [2] }), "2026-10-01")).toBe(
+        "2026-10-13",
+      );
+    });
+  });
+
+  describe("end conditions", () => {
+    it("stops once count occurrences exist", () => {
+      const recurrence = rule({ frequency: "daily", count: 3 });
+      expect(getNextOccurrence(recurrence, "2026-10-19", 2)).toBe("2026-10-20");
+      expect(getNextOccurrence(recurrence, "2026-10-20", 3)).toBeNull();
+      expect(series(recurrence, "2026-10-19", 10)).toEqual(["2026-10-20", "2026-10-21"]);
+    });
+
+    it("includes the until date and stops after it", () => {
+      const recurrence = rule({ frequency: "weekly", until: "2026-11-02" });
+      expect(getNextOccurrence(recurrence, "2026-10-26")).toBe("2026-11-02");
+      expect(getNextOccurrence(recurrence, "2026-11-02")).toBeNull();
+    });
+  });
+});
+
+describe("getOccurrencesUntil", () => {
+  it("lists the occurrences up to and including the end date with their indexes", () => {
+    expect(getOccurrencesUntil(rule({ frequency: "weekly" }), "2026-10-19", 1, "2026-11-02")).toEqual([
+      { dueDate: "2026-10-26", index: 2 },
+      { dueDate: "2026-11-02", index: 3 },
+    ]);
+  });
+
+  it("stops at the count, counting from the given index", () => {
+    expect(getOccurrencesUntil(rule({ frequency: "daily", count: 5 }), "2026-10-19", 3, "2026-12-31")).toEqual([
+      { dueDate: "2026-10-20", index: 4 },
+      { dueDate: "2026-10-21", index: 5 },
+    ]);
+  });
+
+  it("stops at until before the end date", () => {
+    const recurrence = rule({ frequency: "monthly", monthDay: 31, until: "2026-04-01" });
+    expect(getOccurrencesUntil(recurrence, "2026-01-31", 1, "2026-12-31").map(({ dueDate }) => dueDate)).toEqual([
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+
+  it("is empty when the next occurrence is after the end date", () => {
+    expect(getOccurrencesUntil(rule({ frequency: "monthly", monthDay: 1 }), "2026-10-01", 1, "2026-10-31")).toEqual([]);
+  });
+});
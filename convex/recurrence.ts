@@ -0,0 +1,193 @@
+import { v, Infer } from "convex/values";
+
+// Recurrence rules are plain data shared by the Convex functions and the todo app,
+// so everything in this file must stay free of database access and side effects.
+
+const MAX_INTERVAL = 99;
+const MAX_COUNT = 1000;
+const WEEKDAYS = [1, 2, 3, 4, 5]; // Monday - Friday
+
+export const recurrenceValidator = v.object({
+  frequency: v.union(
+    v.literal("daily"),
+    v.literal("weekdays"),
+    v.literal("weekly"),
+    v.literal("monthly"),
+  ),
+  interval: v.number(), // Every N days / weeks / months
+  byWeekday: v.optional(v.array(v.number())), // 0 = Sunday ... 6 = Saturday
+  monthDay: v.optional(v.number()), // 1-31, clamped to the length of the month
+  setPosition: v.optional(v.number()), // 1-4 or -1 (last) occurrence of byWeekday in the month
+  until: v.optional(v.string()), // Inclusive end date (YYYY-MM-DD)
+  count: v.optional(v.number()), // Total number of occurrences in the series
+});
+
+export type RecurrenceRule = Infer<typeof recurrenceValidator>;
+
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getTime());
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  const offset = (date.getUTCDay() + 6) % 7;
+  return addDays(date, -offset);
+}
+
+function getMonthlyOccurrence(rule: RecurrenceRule, year: number, month: number): Date | null {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.setPosition !== undefined) {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : WEEKDAYS;
+    const matches: number[] = [];
+    for (let day = 1; day <= lastDay; day++) {
+      if (weekdays.includes(new Date(Date.UTC(year, month, day)).getUTCDay())) {
+        matches.push(day);
+      }
+    }
+    const day = rule.setPosition < 0 ? matches[matches.length + rule.setPosition] : matches[rule.setPosition - 1];
+    return day ? new Date(Date.UTC(year, month, day)) : null;
+  }
+
+  const day = Math.min(rule.monthDay ?? 1, lastDay);
+  return new Date(Date.UTC(year, month, day));
+}
+
+function getCandidateAfter(rule: RecurrenceRule, from: Date): Date | null {
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(from, rule.interval);
+
+    case "weekdays": {
+      let next = addDays(from, 1);
+      while (!WEEKDAYS.includes(next.getUTCDay())) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+
+    case "weekly": {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [from.getUTCDay()];
+      // Order days Monday-first so they line up with startOfWeek
+      const offsets = weekdays.map((day) => (day + 6) % 7).sort((a, b) => a - b);
+      const weekStart = startOfWeek(from);
+
+      for (const offset of offsets) {
+        const candidate = addDays(weekStart, offset);
+        if (candidate > from) return candidate;
+      }
+      return addDays(weekStart, rule.interval * 7 + offsets[0]);
+    }
+
+    case "monthly": {
+      const year = from.getUTCFullYear();
+      const month = from.getUTCMonth();
+
+      const sameMonth = getMonthlyOccurrence(rule, year, month);
+      if (sameMonth && sameMonth > from) return sameMonth;
+
+      // Skip months where the rule has no match (e.g. a 5th Monday) instead of giving up
+      for (let step = 1; step <= 12; step++) {
+        const target = new Date(Date.UTC(year, month + rule.interval * step, 1));
+        const candidate = getMonthlyOccurrence(rule, target.getUTCFullYear(), target.getUTCMonth());
+        if (candidate) return candidate;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate a recurrence rule received from a client. Throws with a user-facing message.
+ */
+export function validateRecurrence(rule: RecurrenceRule): void {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+    throw new Error(`Recurrence interval must be a whole number between 1 and ${MAX_INTERVAL}`);
+  }
+  if (rule.byWeekday && rule.byWeekday.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error("Recurrence weekdays must be between 0 (Sunday) and 6 (Saturday)");
+  }
+  if (rule.monthDay !== undefined && (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31)) {
+    throw new Error("Recurrence day of month must be between 1 and 31");
+  }
+  if (
+    rule.setPosition !== undefined &&
+    (!Number.isInteger(rule.setPosition) || rule.setPosition === 0 || rule.setPosition < -1 || rule.setPosition > 4)
+  ) {
+    throw new Error("Recurrence position must be 1-4 or -1 (last)");
+  }
+  if (rule.until !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) {
+    throw new Error("Recurrence end date must be in YYYY-MM-DD format");
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_COUNT)) {
+    throw new Error(`Recurrence count must be between 1 and ${MAX_COUNT}`);
+  }
+}
+
+/**
+ * Get the due date of the occurrence that follows `dueDate`.
+ * `index` is the 1-based position of the `dueDate` occurrence in its series.
+ * Returns null once the series has ended (by `until` or `count`).
+ */
+export function getNextOccurrence(rule: RecurrenceRule, dueDate: string, index = 1): string | null {
+  if (rule.count !== undefined && index >= rule.count) return null;
+
+  const next = getCandidateAfter(rule, parseDateKey(dueDate));
+  if (!next) return null;
+
+  const nextKey = formatDateKey(next);
+  if (rule.until !== undefined && nextKey > rule.until) return null;
+
+  return nextKey;
+}
+
+/**
+ * List the occurrences that follow `dueDate` up to and including `endDate`.
+ * Used to project upcoming instances without storing them.
+ */
+export function getOccurrencesUntil(
+  rule: RecurrenceRule,
+  dueDate: string,
+  index: number,
+  endDate: string,
+): Array<{ dueDate: string; index: number }> {
+  const occurrences: Array<{ dueDate: string; index: number }> = [];
+  let current = dueDate;
+  let currentIndex = index;
+
+  while (true) {
+    const next = getNextOccurrence(rule, current, currentIndex);
+    if (!next || next > endDate) break;
+    currentIndex++;
+    occurrences.push({ dueDate: next, index: currentIndex });
+    current = next;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Deterministic clientId for an occurrence, so completing the same instance twice
+ * (or on two devices) never creates duplicate follow-ups.
+ */
+export function getOccurrenceClientId(seriesId: string, index: number): string {
+  return `${seriesId}#${index}`;
+}
@@ -1,5 +1,131 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { recurrenceValidator } from "./recurrence";
+
+// Checklist items stored inline on a task, in display order
+export const subtaskValidator = v.object({
+  id: v.string(), // Client-generated UUID
+  title: v.string(),
+  completed: v.boolean(),
+});
+
+// What happens to incomplete tasks whose due date has passed
+export const overduePolicyValidator = v.union(
+  v.literal("rollover"), // Move them to today (default)
+  v.literal("overdue"), // Keep them in an "Overdue" section
+  v.literal("ask"), // Keep them in the "Overdue" section and offer to move them
+);
+
+export const todoSettingsValidator = v.object({
+  overduePolicy: overduePolicyValidator,
+  timeZone: v.string(), // IANA time zone, used to find the user's "today" on the server
+});
+
+export const themeValidator = v.union(v.literal("light"), v.literal("dark"), v.literal("system"));
+
+// Preferences shared by every app
+export const generalSettingsValidator = v.object({
+  theme: themeValidator,
+  focusMode: v.boolean(),
+});
+
+export const journalSettingsValidator = v.object({
+  dailyNotes: v.boolean(), // Open today's entry when the journal starts
+});
+
+export const trackerSettingsValidator = v.object({
+  goalSlots: v.number(), // Customers needed to reach the monthly goal
+  pricePerCustomer: v.number(), // Monthly price in euros
+  autoRollover: v.optional(v.boolean()), // Start each new month from the previous one on the server
+});
+
+export const milestoneValidator = v.object({
+  label: v.string(),
+  count: v.number(), // Customers needed to reach it
+  color: v.string(), // Hex color of the milestone dot
+});
+
+// Per-month tracker configuration, stored with the month's subscriptions
+export const trackerConfigValidator = v.object({
+  totalSlots: v.number(),
+  goalSlots: v.number(),
+  pricePerCustomer: v.number(),
+  currency: v.string(), // ISO 4217 code, e.g. "EUR"
+  milestones: v.array(milestoneValidator),
+});
+
+// A customer named in a month rollover's change log; names are copied so the log
+// still reads well after a customer is renamed or deleted
+export const rolloverCustomerValidator = v.object({
+  clientId: v.string(),
+  name: v.string(),
+});
+
+export const rolloverSourceValidator = v.union(v.literal("manual"), v.literal("cron"));
+
+export const pomodoroPhaseValidator = v.union(
+  v.literal("focus"),
+  v.literal("shortBreak"),
+  v.literal("longBreak"),
+);
+
+export const completionSoundValidator = v.union(
+  v.literal("alarm"),
+  v.literal("chime"),
+  v.literal("beep"),
+  v.literal("none"),
+);
+
+// What a new pomodoro starts with and how a finished timer is announced
+export const timerSettingsValidator = v.object({
+  focusDuration: v.number(), // Milliseconds
+  shortBreakDuration: v.number(),
+  longBreakDuration: v.number(),
+  longBreakEvery: v.number(), // Focus phases before each long break
+  autoAdvance: v.boolean(), // Start the next phase without asking
+  sound: completionSoundValidator,
+  notifications: v.boolean(), // Only shown where the browser allows them
+});
+
+// Pomodoro settings and progress, stored with the timer they drive
+export const pomodoroValidator = v.object({
+  focusDuration: v.number(), // Milliseconds
+  shortBreakDuration: v.number(),
+  longBreakDuration: v.number(),
+  longBreakEvery: v.number(), // Focus phases before each long break
+  autoAdvance: v.boolean(), // Start the next phase without asking
+  phase: pomodoroPhaseValidator,
+  cycle: v.number(), // 1-based focus phase within the current set
+});
+
+// A timer counting up instead of down. `elapsed` is the time counted when it was last
+// started or paused; while running it's elapsed + (now - startedAt).
+export const stopwatchValidator = v.object({
+  elapsed: v.number(), // Milliseconds
+  laps: v.array(v.number()), // Split times, milliseconds since the stopwatch started
+});
+
+// What a preset starts; missing for a plain countdown
+export const timerPresetModeValidator = v.union(v.literal("pomodoro"), v.literal("stopwatch"));
+
+// A countdown planned to run after the current one
+export const timerQueueItemValidator = v.object({
+  id: v.string(), // Client-generated, for editing the queue
+  name: v.string(),
+  duration: v.number(), // Milliseconds
+});
+
+// The todo task a timer was started for. The title is a copy, so sessions still read
+// well after the task is renamed or deleted.
+export const timerTaskValidator = v.object({
+  clientId: v.string(), // Task clientId, the same on every device
+  id: v.optional(v.id("tasks")), // Set when the task lives in Convex
+  title: v.string(),
+});
+
+// How a journal note's content is stored. Notes without a format were saved as HTML by the
+// old contentEditable editor and are converted to markdown when they're next opened.
+export const journalNoteFormatValidator = v.literal("markdown");
 
 export default defineSchema({
   // Our tasks table
@@ -15,16 +141,118 @@ export default defineSchema({
     updatedAt: v.number(),
     isDeleted: v.optional(v.boolean()),
     deletedAt: v.optional(v.number()),
+    recurrence: v.optional(recurrenceValidator),
+    recurrenceSeriesId: v.optional(v.string()), // clientId of the first task in the series
+    recurrenceIndex: v.optional(v.number()), // 1-based position of this occurrence in the series
+    order: v.optional(v.string()), // Fractional order key within a day (see ordering.ts)
+    subtasks: v.optional(v.array(subtaskValidator)),
+    tagIds: v.optional(v.array(v.id("tags"))),
+    postponeCount: v.optional(v.number()), // How many times the task was rolled over to a later day
   }).index("by_user", ["userEmail"]).index("by_user_client", ["userEmail", "clientId"]).index("by_user_date", ["userEmail", "dueDate"]).index("by_user_deleted", ["userEmail", "isDeleted"]),
 
+  // Per-user preferences, one row per user
+  userSettings: defineTable({
+    userEmail: v.string(),
+    version: v.optional(v.number()), // SETTINGS_VERSION the sections were written with; missing for version 0
+    general: v.optional(generalSettingsValidator),
+    todo: v.optional(todoSettingsValidator),
+    tracker: v.optional(trackerSettingsValidator),
+    journal: v.optional(journalSettingsValidator),
+    timer: v.optional(timerSettingsValidator),
+    lastRolloverDate: v.optional(v.string()), // User's local date of the last overdue rollover (YYYY-MM-DD)
+    updatedAt: v.number(),
+  }).index("by_user", ["userEmail"]),
+
+  // User-defined tags for todo tasks
+  tags: defineTable({
+    name: v.string(), // Lowercase, unique per user
+    color: v.string(),
+    userEmail: v.string(),
+    clientId: v.string(), // Local UUID for mapping during migration
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userEmail"]).index("by_user_name", ["userEmail", "name"]).index("by_user_client", ["userEmail", "clientId"]),
+
+  // One row per task/tag pair, so all tasks with a tag can be read through an index
+  taskTags: defineTable({
+    userEmail: v.string(),
+    taskId: v.id("tasks"),
+    tagId: v.id("tags"),
+  }).index("by_task", ["taskId"]).index("by_tag", ["tagId"]),
+
   // Subscriptions table for tracker app
   subscriptions: defineTable({
     userId: v.id("user"),
     month: v.string(),
     checkedSlots: v.array(v.number()),
+    config: v.optional(trackerConfigValidator), // Missing until the month is customized
+    migratedToCustomers: v.optional(v.boolean()), // checkedSlots were turned into placeholder customers
     updatedAt: v.number(),
   }).index("by_user", ["userId"]).index("by_user_and_month", ["userId", "month"]),
 
+  // Paying customers for the tracker app
+  customers: defineTable({
+    userId: v.id("user"),
+    clientId: v.string(), // Local UUID for mapping during sync
+    name: v.string(),
+    email: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    price: v.number(), // Monthly plan price in the month's currency
+    startDate: v.string(), // YYYY-MM-DD
+    cancelDate: v.optional(v.string()), // YYYY-MM-DD, last day the customer pays for
+    isPlaceholder: v.optional(v.boolean()), // Created from a legacy checked slot
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]).index("by_user_client", ["userId", "clientId"]),
+
+  // Change log of tracker months started from the month before
+  monthRollovers: defineTable({
+    userId: v.id("user"),
+    month: v.string(), // YYYY-MM that was started
+    fromMonth: v.string(), // Last month with data before it
+    source: rolloverSourceValidator,
+    carried: v.array(rolloverCustomerValidator), // Active in both months
+    added: v.array(rolloverCustomerValidator), // Active this month but not in fromMonth
+    removed: v.array(rolloverCustomerValidator), // Active in fromMonth but not this month
+    createdAt: v.number(),
+  }).index("by_user_and_month", ["userId", "month"]),
+
+  // Completed timer sessions for the timer app
+  timerSessions: defineTable({
+    userId: v.id("user"),
+    clientId: v.string(), // Local session id for mapping during sync
+    name: v.string(),
+    duration: v.number(), // Milliseconds
+    completedAt: v.number(),
+    phase: v.optional(pomodoroPhaseValidator), // Missing for plain countdowns
+    task: v.optional(timerTaskValidator), // Missing when not started from a task
+    laps: v.optional(v.array(v.number())), // Set for stopwatch sessions, empty without laps
+  }).index("by_user_completed", ["userId", "completedAt"]).index("by_user_client", ["userId", "clientId"]),
+
+  // The timer each user has set up, one per user, shared by all their devices
+  activeTimers: defineTable({
+    userId: v.id("user"),
+    name: v.string(),
+    duration: v.number(), // Full length of the countdown in milliseconds
+    remaining: v.number(), // Milliseconds left when the timer was last started or paused
+    startedAt: v.optional(v.number()), // Set while running; time left is remaining - (now - startedAt)
+    pomodoro: v.optional(pomodoroValidator), // Missing for a plain countdown
+    task: v.optional(timerTaskValidator), // Copied onto the sessions it records
+    stopwatch: v.optional(stopwatchValidator), // Set in stopwatch mode; duration and remaining keep the countdown
+    queue: v.optional(v.array(timerQueueItemValidator)), // Countdowns that start when this one ends
+    updatedAt: v.number(), // Client time of the change, so devices can ignore their own echoes
+  }).index("by_user", ["userId"]),
+
+  // Saved timer setups, started with one click or a number key in their order
+  timerPresets: defineTable({
+    userId: v.id("user"),
+    clientId: v.string(), // Local preset id for mapping during sync
+    name: v.string(),
+    duration: v.number(), // Milliseconds; the focus length for a pomodoro
+    mode: v.optional(timerPresetModeValidator),
+    createdAt: v.number(),
+  }).index("by_user_created", ["userId", "createdAt"]).index("by_user_client", ["userId", "clientId"]),
+
   // Notes table for ide-board app
   notes: defineTable({
     content: v.string(),
@@ -41,10 +269,50 @@ export default defineSchema({
   journalNotes: defineTable({
     title: v.string(),
     content: v.string(),
+    format: v.optional(journalNoteFormatValidator),
+    searchText: v.optional(v.string()), // Title and content as plain text, for the search index
+    notebookId: v.optional(v.string()), // clientId of the journalNotebooks entry; missing when unfiled
+    pinned: v.optional(v.boolean()), // Pinned notes are listed first
+    entryDate: v.optional(v.string()), // Set on daily entries: the user's local date (YYYY-MM-DD), one entry per date
     userEmail: v.string(),
     clientId: v.string(), // Local UUID for mapping during migration
     createdAt: v.number(),
     updatedAt: v.number(),
+    isDeleted: v.optional(v.boolean()), // Deleted notes are kept for the restore window, then purged
+    deletedAt: v.optional(v.number()),
+  }).index("by_user", ["userEmail"]).index("by_user_client", ["userEmail", "clientId"])
+    .index("by_user_notebook", ["userEmail", "notebookId"])
+    .index("by_user_entry_date", ["userEmail", "entryDate"])
+    .searchIndex("search_text", { searchField: "searchText", filterFields: ["userEmail"] }),
+
+  // Notebooks group journal notes, and can sit inside one other notebook
+  journalNotebooks: defineTable({
+    userEmail: v.string(),
+    clientId: v.string(), // Client-generated UUID; notes and child notebooks refer to this
+    name: v.string(),
+    parentId: v.optional(v.string()), // clientId of a top-level notebook
+    createdAt: v.number(),
+  }).index("by_user", ["userEmail"]).index("by_user_client", ["userEmail", "clientId"]),
+
+  // Earlier versions of a journal note, newest kept; see convex/journalNoteRevisions.ts
+  journalNoteRevisions: defineTable({
+    noteId: v.id("journalNotes"),
+    userEmail: v.string(),
+    title: v.string(),
+    content: v.string(),
+    format: v.optional(journalNoteFormatValidator),
+    createdAt: v.number(), // When the snapshot was taken
+  }).index("by_note_created", ["noteId", "createdAt"]).index("by_user", ["userEmail"]),
+
+  // Files pasted or dropped into journal notes, which refer to them by clientId
+  journalAttachments: defineTable({
+    userEmail: v.string(),
+    clientId: v.string(), // Client-generated UUID, also the key of a local copy in IndexedDB
+    storageId: v.id("_storage"),
+    name: v.string(),
+    contentType: v.string(),
+    size: v.number(), // Bytes, counted towards the per-user quota
+    createdAt: v.number(),
   }).index("by_user", ["userEmail"]).index("by_user_client", ["userEmail", "clientId"]),
 
   // BetterAuth tables (merged from betterAuth/schema.ts)
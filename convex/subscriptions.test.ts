@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildSubscriptionHistory, type HistoryEntry } from "./subscriptions";
+import { placeholderCustomersFromSlots } from "./customers";
+
+// Only the Convex functions use auth, and its better-auth packages are installed in the apps
+vi.mock("./auth", () => ({}));
+
+const MONTHS = ["2026-01", "2026-02", "2026-03", "2026-04", "2026-05", "2026-06"];
+
+// January to June 2026, measured against December 2025
+function history(customers: Parameters<typeof buildSubscriptionHistory>[0]): HistoryEntry[] {
+  return buildSubscriptionHistory(customers, "2026-06", MONTHS.length, (month) => (month < "2026-04" ? "EUR" : "USD"));
+}
+
+// Legacy checked slots as the migration turns them into customers
+function customersFromSlots(slotsByMonth: number[][], priceByMonth: number[]) {
+  return placeholderCustomersFromSlots(
+    MONTHS.map((month, index) => ({ month, checkedSlots: slotsByMonth[index], price: priceByMonth[index] })),
+  ).map(({ slot, ...customer }, index) => ({ clientId: `${slot}-${index}`, ...customer }));
+}
+
+describe("buildSubscriptionHistory", () => {
+  it("counts a customer who cancels and resubscribes as lost, then new", () => {
+    const entries = history([
+      { clientId: "steady", price: 10, startDate: "2025-11-01" },
+      { clientId: "first", price: 10, startDate: "2026-01-05", cancelDate: "2026-02-20" },
+      { clientId: "again", price: 10, startDate: "2026-04-01" }, // The same person, back in April
+    ]);
+
+    expect(entries.map((entry) => entry.month)).toEqual(MONTHS);
+    expect(entries.map((entry) => entry.activeCount)).toEqual([2, 2, 1, 2, 2, 2]);
+    expect(entries.map((entry) => entry.newCount)).toEqual([1, 0, 0, 1, 0, 0]);
+    expect(entries.map((entry) => entry.lostCount)).toEqual([0, 0, 1, 0, 0, 0]);
+    expect(entries[2]).toMatchObject({ churnRate: 0.5, revenue: 10, mrrGrowth: -0.5 });
+    expect(entries[3]).toMatchObject({ churnRate: 0, revenue: 20, mrrGrowth: 1 });
+  });
+
+  it("gives the same history for a resubscribed legacy slot", () => {
+    const customers = customersFromSlots(
+      [[1, 2], [1, 2], [2], [1, 2], [1, 2], [1, 2]],
+      [10, 10, 10, 10, 10, 10],
+    );
+
+    expect(customers).toHaveLength(3);
+    const entries = history(customers);
+    expect(entries.map((entry) => entry.activeCount)).toEqual([2, 2, 1, 2, 2, 2]);
+    expect(entries.map((entry) => entry.newCount)).toEqual([2, 0, 0, 1, 0, 0]);
+    expect(entries.map((entry) => entry.lostCount)).toEqual([0, 0, 1, 0, 0, 0]);
+  });
+
+  it("keeps each customer's price across a price change", () => {
+    // The price went up from 10 to 12 in April; earlier customers keep paying 10
+    const entries = history(
+      customersFromSlots([[1], [1], [1], [1, 2], [1, 2], [2]], [10, 10, 10, 12, 12, 12]),
+    );
+
+    expect(entries.map((entry) => entry.revenue)).toEqual([10, 10, 10, 22, 22, 12]);
+    expect(entries.map((entry) => entry.currency)).toEqual(["EUR", "EUR", "EUR", "USD", "USD", "USD"]);
+    expect(entries[0].mrrGrowth).toBeNull(); // Nothing in December to grow from
+    expect(entries[1].mrrGrowth).toBe(0);
+    expect(entries[3].mrrGrowth).toBeCloseTo(1.2);
+    expect(entries[5]).toMatchObject({ lostCount: 1, churnRate: 0.5 });
+    expect(entries[5].mrrGrowth).toBeCloseTo(-10 / 22);
+  });
+
+  it("leaves out a slot that was never checked", () => {
+    const customers = customersFromSlots([[1], [1], [1], [1], [1], [1]], [10, 10, 10, 10, 10, 10]);
+
+    expect(customers).toEqual([{ clientId: "1-0", price: 10, startDate: "2026-01-01", cancelDate: undefined }]);
+    const entries = history(customers);
+    expect(entries.map((entry) => entry.activeCount)).toEqual([1, 1, 1, 1, 1, 1]);
+    expect(entries.map((entry) => entry.revenue)).toEqual([10, 10, 10, 10, 10, 10]);
+  });
+
+  it("reports nothing for customers outside the range", () => {
+    const entries = history([
+      { clientId: "gone", price: 10, startDate: "2025-01-01", cancelDate: "2025-11-30" },
+      { clientId: "later", price: 10, startDate: "2026-07-01" },
+    ]);
+
+    for (const entry of entries) {
+      expect(entry).toMatchObject({ activeCount: 0, revenue: 0, newCount: 0, lostCount: 0, churnRate: 0, mrrGrowth: null });
+    }
+  });
+});
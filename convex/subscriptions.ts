@@ -1,6 +1,53 @@
 import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { v, Infer } from "convex/values";
 import { authComponent } from "./auth";
+import { trackerConfigValidator } from "./schema";
+import { isActiveInMonth } from "./customers";
+import { Doc } from "./_generated/dataModel";
+
+export type TrackerConfig = Infer<typeof trackerConfigValidator>;
+
+export const MAX_TOTAL_SLOTS = 2000;
+export const DEFAULT_TOTAL_SLOTS = 1000; // Mirrors TOTAL_SLOTS in apps/tracker/lib/settings.ts
+export const MAX_HISTORY_MONTHS = 36;
+export const MAX_MILESTONES = 10;
+const MAX_MILESTONE_LABEL_LENGTH = 40;
+
+function isWholeNumberInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+export function validateTrackerConfig(config: TrackerConfig): void {
+  if (!isWholeNumberInRange(config.totalSlots, 1, MAX_TOTAL_SLOTS)) {
+    throw new Error(`Slot count must be a whole number between 1 and ${MAX_TOTAL_SLOTS}`);
+  }
+  if (!isWholeNumberInRange(config.goalSlots, 1, config.totalSlots)) {
+    throw new Error("Goal must be a whole number between 1 and the slot count");
+  }
+  if (!Number.isFinite(config.pricePerCustomer) || config.pricePerCustomer <= 0) {
+    throw new Error("Price must be greater than zero");
+  }
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency: config.currency });
+  } catch {
+    throw new Error("Invalid currency code");
+  }
+  if (config.milestones.length > MAX_MILESTONES) {
+    throw new Error(`A month can have at most ${MAX_MILESTONES} milestones`);
+  }
+  for (const milestone of config.milestones) {
+    const label = milestone.label.trim();
+    if (!label || label.length > MAX_MILESTONE_LABEL_LENGTH) {
+      throw new Error(`Milestone labels must be 1-${MAX_MILESTONE_LABEL_LENGTH} characters`);
+    }
+    if (!isWholeNumberInRange(milestone.count, 1, config.totalSlots)) {
+      throw new Error("Milestone counts must be whole numbers between 1 and the slot count");
+    }
+    if (!/^#[0-9a-f]{6}$/i.test(milestone.color)) {
+      throw new Error("Milestone colors must be hex colors like #baffc9");
+    }
+  }
+}
 
 export const getSubscriptions = query({
   args: {
@@ -22,7 +69,8 @@ export const getSubscriptions = query({
 export const syncLocalSubscriptions = mutation({
   args: {
     month: v.string(),
-    checkedSlots: v.array(v.number()),
+    checkedSlots: v.optional(v.array(v.number())), // Legacy clients only; customers replaced slots
+    config: v.optional(trackerConfigValidator), // Month settings made while signed out
   },
   handler: async (ctx, args) => {
     const user = await authComponent.getAuthUser(ctx);
@@ -36,10 +84,15 @@ export const syncLocalSubscriptions = mutation({
       .withIndex("by_user_and_month", (q) => q.eq("userId", user._id).eq("month", args.month))
       .first();
 
+    if (args.config) {
+      validateTrackerConfig(args.config);
+    }
+
     if (existingSubscription) {
-      // Update existing subscription
+      // Update existing subscription; a month already customized on the server keeps its settings
       return await ctx.db.patch(existingSubscription._id, {
-        checkedSlots: args.checkedSlots,
+        ...(args.checkedSlots && { checkedSlots: args.checkedSlots }),
+        ...(!existingSubscription.config && args.config && { config: args.config }),
         updatedAt: now,
       });
     } else {
@@ -47,7 +100,8 @@ export const syncLocalSubscriptions = mutation({
       return await ctx.db.insert("subscriptions", {
         userId: user._id,
         month: args.month,
-        checkedSlots: args.checkedSlots,
+        checkedSlots: args.checkedSlots ?? [],
+        ...(args.config && { config: args.config }),
         updatedAt: now,
       });
     }
@@ -131,3 +185,155 @@ export const batchUpdateSubscriptions = mutation({
     });
   },
 });
+
+/**
+ * Save the month's goal, price, slot count, currency and milestones. The month's
+ * checked slots are left as they are, and the slot count can't drop below the number
+ * of customers active that month.
+ */
+export const updateMonthConfig = mutation({
+  args: {
+    month: v.string(),
+    config: trackerConfigValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const config: TrackerConfig = {
+      ...args.config,
+      currency: args.config.currency.toUpperCase(),
+      milestones: [...args.config.milestones]
+        .map((milestone) => ({ ...milestone, label: milestone.label.trim() }))
+        .sort((a, b) => a.count - b.count),
+    };
+    validateTrackerConfig(config);
+
+    const customers = await ctx.db
+      .query("customers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const activeCount = customers.filter((customer) => isActiveInMonth(customer, args.month)).length;
+    if (activeCount > config.totalSlots) {
+      throw new Error(`${activeCount} customers are active this month, so the slot count can't be lower than that`);
+    }
+
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_user_and_month", (q) => q.eq("userId", user._id).eq("month", args.month))
+      .first();
+
+    const now = Date.now();
+
+    if (!subscription) {
+      await ctx.db.insert("subscriptions", {
+        userId: user._id,
+        month: args.month,
+        checkedSlots: [],
+        config,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(subscription._id, { config, updatedAt: now });
+    return null;
+  },
+});
+
+const historyEntryValidator = v.object({
+  month: v.string(), // YYYY-MM
+  activeCount: v.number(),
+  revenue: v.number(), // Sum of active customers' prices (MRR)
+  currency: v.string(),
+  newCount: v.number(), // Active this month but not the month before
+  lostCount: v.number(), // Active the month before but not this month
+  churnRate: v.number(), // lostCount / previous activeCount, 0 when there was nobody to lose
+  mrrGrowth: v.union(v.number(), v.null()), // Revenue change vs. the month before; null when it was 0
+});
+
+export type HistoryEntry = Infer<typeof historyEntryValidator>;
+
+export function isValidMonth(month: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
+export function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + offset, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Per-month metrics for the `count` months ending with `endMonth`, oldest first.
+ * New and lost customers are the difference between consecutive months' active sets.
+ */
+export function buildSubscriptionHistory(
+  customers: Array<Pick<Doc<"customers">, "clientId" | "price" | "startDate" | "cancelDate">>,
+  endMonth: string,
+  count: number,
+  getCurrency: (month: string) => string,
+): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  let previous = customers.filter((customer) => isActiveInMonth(customer, shiftMonth(endMonth, -count)));
+  let previousRevenue = previous.reduce((sum, customer) => sum + customer.price, 0);
+
+  for (let offset = count - 1; offset >= 0; offset--) {
+    const month = shiftMonth(endMonth, -offset);
+    const active = customers.filter((customer) => isActiveInMonth(customer, month));
+    const activeIds = new Set(active.map((customer) => customer.clientId));
+    const previousIds = new Set(previous.map((customer) => customer.clientId));
+    const revenue = active.reduce((sum, customer) => sum + customer.price, 0);
+    const lostCount = previous.filter((customer) => !activeIds.has(customer.clientId)).length;
+
+    entries.push({
+      month,
+      activeCount: active.length,
+      revenue,
+      currency: getCurrency(month),
+      newCount: active.filter((customer) => !previousIds.has(customer.clientId)).length,
+      lostCount,
+      churnRate: previous.length > 0 ? lostCount / previous.length : 0,
+      mrrGrowth: previousRevenue > 0 ? (revenue - previousRevenue) / previousRevenue : null,
+    });
+
+    previous = active;
+    previousRevenue = revenue;
+  }
+  return entries;
+}
+
+export const getSubscriptionHistory = query({
+  args: {
+    endMonth: v.string(), // YYYY-MM, the last month included
+    months: v.number(), // How many months to return
+  },
+  returns: v.union(v.array(historyEntryValidator), v.null()),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    if (!isValidMonth(args.endMonth)) {
+      throw new Error("Invalid month");
+    }
+    if (!Number.isInteger(args.months) || args.months < 1 || args.months > MAX_HISTORY_MONTHS) {
+      throw new Error(`Months must be a whole number between 1 and ${MAX_HISTORY_MONTHS}`);
+    }
+
+    const customers = await ctx.db
+      .query("customers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const currencies = new Map(
+      subscriptions.flatMap((subscription) =>
+        subscription.config ? [[subscription.month, subscription.config.currency] as const] : [],
+      ),
+    );
+
+    return buildSubscriptionHistory(customers, args.endMonth, args.months, (month) => currencies.get(month) ?? "EUR");
+  },
+});
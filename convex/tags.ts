@@ -0,0 +1,298 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+import { ALLOWED_COLORS, validateColor } from "./colors";
+
+const MAX_TAGS_PER_USER = 100;
+const MAX_TAGS_PER_TASK = 20;
+const TAG_NAME_PATTERN = /^[\p{L}\p{N}_-]{1,32}$/u;
+
+// Tag names are stored lowercase so "#Work" and "#work" are the same tag
+export function normalizeTagName(name: string): string {
+  const normalized = name.trim().replace(/^#/, "").toLowerCase();
+  if (!TAG_NAME_PATTERN.test(normalized)) {
+    throw new Error("Tag names must be 1-32 letters, numbers, dashes or underscores");
+  }
+  return normalized;
+}
+
+async function countTags(ctx: MutationCtx, userEmail: string): Promise<number> {
+  const tags = await ctx.db
+    .query("tags")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .collect();
+  return tags.length;
+}
+
+/**
+ * Look up tags by name, creating the missing ones with a rotating color.
+ * Used by the `#tag` quick-add syntax.
+ */
+export async function getOrCreateTags(
+  ctx: MutationCtx,
+  userEmail: string,
+  names: string[],
+): Promise<Id<"tags">[]> {
+  const tagIds: Id<"tags">[] = [];
+  let tagCount = await countTags(ctx, userEmail);
+
+  for (const name of Array.from(new Set(names.map(normalizeTagName)))) {
+    const existing = await ctx.db
+      .query("tags")
+      .withIndex("by_user_name", (q) => q.eq("userEmail", userEmail).eq("name", name))
+      .unique();
+
+    if (existing) {
+      tagIds.push(existing._id);
+      continue;
+    }
+
+    if (tagCount >= MAX_TAGS_PER_USER) {
+      throw new Error(`Maximum tag limit reached. You can have up to ${MAX_TAGS_PER_USER} tags.`);
+    }
+
+    const now = Date.now();
+    tagIds.push(
+      await ctx.db.insert("tags", {
+        name,
+        color: ALLOWED_COLORS[tagCount % ALLOWED_COLORS.length],
+        userEmail,
+        clientId: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    tagCount++;
+  }
+
+  return tagIds;
+}
+
+/**
+ * Check that every tag exists and belongs to the user. Returns the ids without duplicates.
+ */
+export async function validateTagIds(
+  ctx: MutationCtx,
+  userEmail: string,
+  tagIds: Id<"tags">[],
+): Promise<Id<"tags">[]> {
+  const unique = Array.from(new Set(tagIds));
+  if (unique.length > MAX_TAGS_PER_TASK) {
+    throw new Error(`A task can have up to ${MAX_TAGS_PER_TASK} tags`);
+  }
+  for (const tagId of unique) {
+    const tag = await ctx.db.get(tagId);
+    if (!tag || tag.userEmail !== userEmail) {
+      throw new Error("Tag not found");
+    }
+  }
+  return unique;
+}
+
+/**
+ * Keep the taskTags index table in line with a task's `tagIds`.
+ */
+export async function syncTaskTags(
+  ctx: MutationCtx,
+  userEmail: string,
+  taskId: Id<"tasks">,
+  tagIds: Id<"tags">[],
+): Promise<void> {
+  const wanted = new Set<Id<"tags">>(tagIds);
+  const links = await ctx.db
+    .query("taskTags")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+
+  for (const link of links) {
+    if (wanted.has(link.tagId)) {
+      wanted.delete(link.tagId);
+    } else {
+      await ctx.db.delete(link._id);
+    }
+  }
+
+  for (const tagId of Array.from(wanted)) {
+    await ctx.db.insert("taskTags", { userEmail, taskId, tagId });
+  }
+}
+
+export const getTags = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("tags"),
+      _creationTime: v.number(),
+      name: v.string(),
+      color: v.string(),
+      userEmail: v.string(),
+      clientId: v.string(),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+    })
+  ),
+  handler: async (ctx) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    return ctx.db
+      .query("tags")
+      .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+      .collect();
+  },
+});
+
+export const createTag = mutation({
+  args: {
+    name: v.string(),
+  },
+  returns: v.id("tags"), // Existing tag with the same name is returned as-is
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const [tagId] = await getOrCreateTags(ctx, user.email, [args.name]);
+    return tagId;
+  },
+});
+
+export const updateTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const existing = await ctx.db.get(args.tagId);
+    if (!existing || existing.userEmail !== user.email) {
+      throw new Error("Tag not found");
+    }
+
+    const name = args.name !== undefined ? normalizeTagName(args.name) : existing.name;
+    if (name !== existing.name) {
+      const duplicate = await ctx.db
+        .query("tags")
+        .withIndex("by_user_name", (q) => q.eq("userEmail", user.email).eq("name", name))
+        .unique();
+      if (duplicate) {
+        throw new Error("A tag with this name already exists");
+      }
+    }
+
+    const color = args.color ?? existing.color;
+    validateColor(color);
+
+    await ctx.db.patch(args.tagId, {
+      name,
+      color,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const deleteTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const existing = await ctx.db.get(args.tagId);
+    if (!existing || existing.userEmail !== user.email) {
+      throw new Error("Tag not found");
+    }
+
+    // Detach the tag from every task that uses it
+    const links = await ctx.db
+      .query("taskTags")
+      .withIndex("by_tag", (q) => q.eq("tagId", args.tagId))
+      .collect();
+    for (const link of links) {
+      const task = await ctx.db.get(link.taskId);
+      if (task) {
+        await ctx.db.patch(task._id, {
+          tagIds: (task.tagIds ?? []).filter((tagId) => tagId !== args.tagId),
+        });
+      }
+      await ctx.db.delete(link._id);
+    }
+
+    await ctx.db.delete(args.tagId);
+    return null;
+  },
+});
+
+export const syncLocalTags = mutation({
+  args: {
+    tags: v.array(
+      v.object({
+        clientId: v.string(),
+        name: v.string(),
+        color: v.string(),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+      })
+    ),
+  },
+  returns: v.record(v.string(), v.id("tags")), // Return mapping: clientId -> Convex ID
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    if (args.tags.length > MAX_TAGS_PER_USER) {
+      throw new Error(`Cannot sync more than ${MAX_TAGS_PER_USER} tags at once`);
+    }
+
+    const idMapping: Record<string, Id<"tags">> = {};
+    let tagCount = await countTags(ctx, user.email);
+
+    for (const localTag of args.tags) {
+      const name = normalizeTagName(localTag.name);
+      validateColor(localTag.color);
+
+      // A tag with the same name already in the cloud absorbs the local one
+      const existing =
+        (await ctx.db
+          .query("tags")
+          .withIndex("by_user_client", (q) =>
+            q.eq("userEmail", user.email).eq("clientId", localTag.clientId)
+          )
+          .unique()) ??
+        (await ctx.db
+          .query("tags")
+          .withIndex("by_user_name", (q) => q.eq("userEmail", user.email).eq("name", name))
+          .unique());
+
+      if (existing) {
+        idMapping[localTag.clientId] = existing._id;
+        continue;
+      }
+
+      if (tagCount >= MAX_TAGS_PER_USER) {
+        throw new Error(`Maximum tag limit reached. You can have up to ${MAX_TAGS_PER_USER} tags.`);
+      }
+
+      idMapping[localTag.clientId] = await ctx.db.insert("tags", {
+        name,
+        color: localTag.color,
+        userEmail: user.email,
+        clientId: localTag.clientId,
+        createdAt: localTag.createdAt,
+        updatedAt: localTag.updatedAt,
+      });
+      tagCount++;
+    }
+
+    return idMapping;
+  },
+});
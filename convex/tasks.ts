@@ -1,34 +1,56 @@
 import { mutation, query, MutationCtx } from "./_generated/server";
 import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 import { authComponent } from "./auth";
+import {
+  recurrenceValidator,
+  validateRecurrence,
+  getNextOccurrence,
+  getOccurrenceClientId,
+} from "./recurrence";
+import { isValidOrderKey, compareTaskOrder } from "./ordering";
+import { parseQuickAdd } from "./quickAdd";
+import { subtaskValidator } from "./schema";
+import { validateColor } from "./colors";
+import { getOrCreateTags, validateTagIds, syncTaskTags } from "./tags";
 
 const MAX_TITLE_LENGTH = 200;
 const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_SUBTASKS = 100;
+const MAX_SUBTASK_TITLE_LENGTH = 200;
 const MAX_TASKS_PER_USER = 10000; // Maximum tasks a user can have
 
 // Rate limiting configuration
 const RATE_LIMITS = {
   addTask: { maxRequests: 60, windowMs: 60000 }, // 60 requests per minute
   updateTask: { maxRequests: 120, windowMs: 60000 }, // 120 requests per minute
+  reorderTasks: { maxRequests: 120, windowMs: 60000 }, // 120 requests per minute
   deleteTask: { maxRequests: 30, windowMs: 60000 }, // 30 requests per minute
   syncLocalTasks: { maxRequests: 10, windowMs: 60000 }, // 10 requests per minute (bulk operation)
 };
 
-// Allowed color values (must match frontend COLORS array)
-const ALLOWED_COLORS = [
-  "#ffb3ba",
-  "#ffdfba",
-  "#ffffba",
-  "#baffc9",
-  "#bae1ff",
-  "#e0bbff",
-  "#ffffff",
-  "#000000",
-];
-
-function validateColor(color: string): void {
-  if (!ALLOWED_COLORS.includes(color.toLowerCase())) {
-    throw new Error("Invalid color value. Color must be from the allowed set.");
+function validateSubtasks(subtasks: Infer<typeof subtaskValidator>[]): void {
+  if (subtasks.length > MAX_SUBTASKS) {
+    throw new Error(`A task can have up to ${MAX_SUBTASKS} subtasks`);
+  }
+  const ids = new Set<string>();
+  for (const subtask of subtasks) {
+    if (!subtask.title.trim()) {
+      throw new Error("Subtask title is required");
+    }
+    if (subtask.title.length > MAX_SUBTASK_TITLE_LENGTH) {
+      throw new Error(`Subtask title must be ${MAX_SUBTASK_TITLE_LENGTH} characters or less`);
+    }
+    if (ids.has(subtask.id)) {
+      throw new Error("Subtask ids must be unique");
+    }
+    ids.add(subtask.id);
+  }
+}
+
+function validateOrder(order: string): void {
+  if (!isValidOrderKey(order)) {
+    throw new Error("Invalid order key.");
   }
 }
 
@@ -113,6 +135,13 @@ const taskPayloadValidator = v.object({
   completed: v.boolean(),
   createdAt: v.number(),
   updatedAt: v.number(),
+  recurrence: v.optional(recurrenceValidator),
+  recurrenceSeriesId: v.optional(v.string()),
+  recurrenceIndex: v.optional(v.number()),
+  order: v.optional(v.string()),
+  subtasks: v.optional(v.array(subtaskValidator)),
+  tagIds: v.optional(v.array(v.id("tags"))),
+  postponeCount: v.optional(v.number()),
 });
 
 type TaskPayload = Infer<typeof taskPayloadValidator>;
@@ -131,6 +160,9 @@ async function upsertTask(
   if (task.description.length > MAX_DESCRIPTION_LENGTH) {
     throw new Error(`Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`);
   }
+  if (task.subtasks) {
+    validateSubtasks(task.subtasks);
+  }
   
   // Validate color
   validateColor(task.color);
@@ -139,6 +171,16 @@ async function upsertTask(
   if (task.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate)) {
     throw new Error("dueDate must be in YYYY-MM-DD format");
   }
+
+  if (task.recurrence) {
+    validateRecurrence(task.recurrence);
+  }
+
+  if (task.order !== undefined) {
+    validateOrder(task.order);
+  }
+
+  const tagIds = task.tagIds ? await validateTagIds(ctx, userEmail, task.tagIds) : undefined;
   
   const existing = await ctx.db
     .query("tasks")
@@ -148,10 +190,12 @@ async function upsertTask(
     .unique();
 
   if (!existing) {
-    await ctx.db.insert("tasks", {
+    const taskId = await ctx.db.insert("tasks", {
       ...task,
+      tagIds,
       userEmail,
     });
+    await syncTaskTags(ctx, userEmail, taskId, tagIds ?? []);
     return "inserted";
   }
 
@@ -178,40 +222,135 @@ async function upsertTask(
     dueDate: dueDate,
     completed: task.completed,
     updatedAt: task.updatedAt,
+    recurrence: task.recurrence,
+    recurrenceSeriesId: task.recurrenceSeriesId,
+    recurrenceIndex: task.recurrenceIndex,
+    order: task.order,
+    subtasks: task.subtasks,
+    // Callers that don't send tags leave them as they are
+    tagIds: tagIds ?? existing.tagIds,
+    postponeCount: task.postponeCount,
   });
+  if (tagIds) {
+    await syncTaskTags(ctx, userEmail, existing._id, tagIds);
+  }
   return "updated";
 }
 
+// Create the follow-up occurrence of a completed recurring task.
+// Safe to call more than once: the next occurrence has a deterministic clientId.
+async function createNextOccurrence(
+  ctx: MutationCtx,
+  userEmail: string,
+  task: Doc<"tasks">,
+): Promise<void> {
+  if (!task.recurrence || !task.completed || task.isDeleted) return;
+
+  const seriesId = task.recurrenceSeriesId ?? task.clientId;
+  const index = task.recurrenceIndex ?? 1;
+  const nextDueDate = getNextOccurrence(task.recurrence, task.dueDate, index);
+  if (!nextDueDate) return; // Series has ended
+
+  const clientId = getOccurrenceClientId(seriesId, index + 1);
+  const existing = await ctx.db
+    .query("tasks")
+    .withIndex("by_user_client", (q) =>
+      q.eq("userEmail", userEmail).eq("clientId", clientId)
+    )
+    .unique();
+  if (existing) return;
+
+  await checkTaskLimit(ctx, userEmail);
+
+  const now = Date.now();
+  const nextTaskId = await ctx.db.insert("tasks", {
+    clientId,
+    title: task.title,
+    description: task.description,
+    color: task.color,
+    dueDate: nextDueDate,
+    completed: false,
+    userEmail,
+    createdAt: now,
+    updatedAt: now,
+    recurrence: task.recurrence,
+    recurrenceSeriesId: seriesId,
+    recurrenceIndex: index + 1,
+    // The checklist carries over, unchecked
+    subtasks: task.subtasks?.map((subtask) => ({ ...subtask, completed: false })),
+    tagIds: task.tagIds,
+  });
+  await syncTaskTags(ctx, userEmail, nextTaskId, task.tagIds ?? []);
+}
+
+const taskDocValidator = v.object({
+  _id: v.id("tasks"),
+  _creationTime: v.number(),
+  clientId: v.string(),
+  title: v.string(),
+  description: v.string(),
+  color: v.string(),
+  dueDate: v.string(),
+  completed: v.boolean(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  userEmail: v.string(),
+  isDeleted: v.optional(v.boolean()),
+  deletedAt: v.optional(v.number()),
+  recurrence: v.optional(recurrenceValidator),
+  recurrenceSeriesId: v.optional(v.string()),
+  recurrenceIndex: v.optional(v.number()),
+  order: v.optional(v.string()),
+  subtasks: v.optional(v.array(subtaskValidator)),
+  tagIds: v.optional(v.array(v.id("tags"))),
+  postponeCount: v.optional(v.number()),
+});
+
 export const getTasks = query({
   args: {},
-  returns: v.array(
-    v.object({
-      _id: v.id("tasks"),
-      _creationTime: v.number(),
-      clientId: v.string(),
-      title: v.string(),
-      description: v.string(),
-      color: v.string(),
-      dueDate: v.string(),
-      completed: v.boolean(),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-      userEmail: v.string(),
-      isDeleted: v.optional(v.boolean()),
-      deletedAt: v.optional(v.number()),
-    })
-  ),
+  returns: v.array(taskDocValidator),
   handler: async (ctx) => {
     const user = await authComponent.safeGetAuthUser(ctx);
     if (!user) {
       return [];
     }
 
-    return ctx.db
+    const tasks = await ctx.db
       .query("tasks")
       .withIndex("by_user", (q) => q.eq("userEmail", user.email))
       .filter((q) => q.neq(q.field("isDeleted"), true))
       .collect();
+
+    return tasks.sort(compareTaskOrder);
+  },
+});
+
+export const getTasksByTag = query({
+  args: {
+    tagId: v.id("tags"),
+  },
+  returns: v.array(taskDocValidator),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const links = await ctx.db
+      .query("taskTags")
+      .withIndex("by_tag", (q) => q.eq("tagId", args.tagId))
+      .collect();
+
+    const tasks: Doc<"tasks">[] = [];
+    for (const link of links) {
+      if (link.userEmail !== user.email) continue;
+      const task = await ctx.db.get(link.taskId);
+      if (task && !task.isDeleted) {
+        tasks.push(task);
+      }
+    }
+
+    return tasks.sort(compareTaskOrder);
   },
 });
 
@@ -225,6 +364,15 @@ export const addTask = mutation({
     completed: v.boolean(),
     createdAt: v.optional(v.number()),
     updatedAt: v.optional(v.number()),
+    recurrence: v.optional(recurrenceValidator),
+    recurrenceSeriesId: v.optional(v.string()),
+    recurrenceIndex: v.optional(v.number()),
+    order: v.optional(v.string()),
+    subtasks: v.optional(v.array(subtaskValidator)),
+    tagIds: v.optional(v.array(v.id("tags"))),
+    tagNames: v.optional(v.array(v.string())), // From the `#tag` quick-add syntax; missing tags are created
+    parseTitle: v.optional(v.boolean()), // Read a date phrase from the title, relative to `dueDate` as today
+    postponeCount: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const user = await authComponent.safeGetAuthUser(ctx);
@@ -246,19 +394,45 @@ export const addTask = mutation({
       await checkTaskLimit(ctx, user.email);
     }
 
+    // Quick add: "Call mom tomorrow" becomes "Call mom", due the day after `dueDate`
+    let { title, dueDate, recurrence, recurrenceSeriesId, recurrenceIndex } = args;
+    if (args.parseTitle) {
+      const parsed = parseQuickAdd(args.title, args.dueDate);
+      title = parsed.title;
+      dueDate = parsed.dueDate ?? dueDate;
+      if (parsed.recurrence && !recurrence) {
+        recurrence = parsed.recurrence;
+        recurrenceSeriesId = args.clientId;
+        recurrenceIndex = 1;
+      }
+    }
+
+    let tagIds = args.tagIds;
+    if (args.tagNames && args.tagNames.length > 0) {
+      const namedTagIds = await getOrCreateTags(ctx, user.email, args.tagNames);
+      tagIds = [...(tagIds ?? []), ...namedTagIds];
+    }
+
     const now = Date.now();
     const createdAt = args.createdAt ?? now;
     const updatedAt = args.updatedAt ?? now;
 
     await upsertTask(ctx, user.email, {
       clientId: args.clientId,
-      title: args.title,
+      title,
       description: args.description,
       color: args.color,
-      dueDate: args.dueDate,
+      dueDate,
       completed: args.completed,
       createdAt,
       updatedAt,
+      recurrence,
+      recurrenceSeriesId,
+      recurrenceIndex,
+      order: args.order,
+      subtasks: args.subtasks,
+      tagIds,
+      postponeCount: args.postponeCount,
     });
 
     const insertedTask = await ctx.db
@@ -267,6 +441,9 @@ export const addTask = mutation({
         q.eq("userEmail", user.email).eq("clientId", args.clientId)
       )
       .unique();
+    if (insertedTask) {
+      await createNextOccurrence(ctx, user.email, insertedTask);
+    }
     return insertedTask?._id ?? null;
   },
 });
@@ -279,6 +456,9 @@ export const updateTask = mutation({
     color: v.optional(v.string()),
     dueDate: v.optional(v.string()),
     completed: v.optional(v.boolean()),
+    recurrence: v.optional(v.union(recurrenceValidator, v.null())), // null removes the rule
+    subtasks: v.optional(v.array(subtaskValidator)),
+    tagIds: v.optional(v.array(v.id("tags"))),
   },
   handler: async (ctx, args) => {
     const user = await authComponent.safeGetAuthUser(ctx);
@@ -302,6 +482,10 @@ export const updateTask = mutation({
     if (descriptionToUpdate.length > MAX_DESCRIPTION_LENGTH) {
       throw new Error(`Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`);
     }
+    const subtasksToUpdate = args.subtasks ?? existing.subtasks;
+    if (subtasksToUpdate) {
+      validateSubtasks(subtasksToUpdate);
+    }
     
     // Validate color if provided
     const colorToUpdate = args.color ?? existing.color;
@@ -313,6 +497,25 @@ export const updateTask = mutation({
       throw new Error("dueDate must be in YYYY-MM-DD format");
     }
 
+    // Validate recurrence if provided; a task that gains a rule starts a new series
+    let recurrenceFields: Partial<Doc<"tasks">> = {};
+    if (args.recurrence === null) {
+      recurrenceFields = { recurrence: undefined, recurrenceSeriesId: undefined, recurrenceIndex: undefined };
+    } else if (args.recurrence) {
+      validateRecurrence(args.recurrence);
+      recurrenceFields = {
+        recurrence: args.recurrence,
+        recurrenceSeriesId: existing.recurrenceSeriesId ?? existing.clientId,
+        recurrenceIndex: existing.recurrenceIndex ?? 1,
+      };
+    }
+
+    let tagIdsToUpdate: Id<"tags">[] | undefined = existing.tagIds;
+    if (args.tagIds) {
+      tagIdsToUpdate = await validateTagIds(ctx, user.email, args.tagIds);
+      await syncTaskTags(ctx, user.email, args.taskId, tagIdsToUpdate);
+    }
+
     const now = Date.now();
     await ctx.db.patch(args.taskId, {
       title: titleToUpdate,
@@ -320,8 +523,46 @@ export const updateTask = mutation({
       color: args.color ?? existing.color,
       dueDate: args.dueDate ?? existing.dueDate,
       completed: args.completed ?? existing.completed,
+      subtasks: subtasksToUpdate,
+      tagIds: tagIdsToUpdate,
+      ...recurrenceFields,
       updatedAt: now,
     });
+
+    // Completing a recurring task schedules its next occurrence
+    if (args.completed && !existing.completed) {
+      const updated = await ctx.db.get(args.taskId);
+      if (updated) {
+        await createNextOccurrence(ctx, user.email, updated);
+      }
+    }
+  },
+});
+
+export const reorderTasks = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    order: v.string(), // New order key, generated between the task's new neighbors
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    // Check rate limit
+    await checkRateLimit(ctx, user.email, "reorderTasks");
+
+    const existing = await ctx.db.get(args.taskId);
+    if (!existing || existing.userEmail !== user.email) {
+      throw new Error("Task not found");
+    }
+
+    validateOrder(args.order);
+
+    // Only the moved task is written; its neighbors keep their keys
+    await ctx.db.patch(args.taskId, {
+      order: args.order,
+      updatedAt: Date.now(),
+    });
   },
 });
 
@@ -438,7 +679,8 @@ export const permanentlyDeleteTask = mutation({
       throw new Error("Task not found");
     }
 
-    // Actually delete the task from database
+    // Actually delete the task from database, along with its tag links
+    await syncTaskTags(ctx, user.email, args.taskId, []);
     await ctx.db.delete(args.taskId);
   },
 });
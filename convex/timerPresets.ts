@@ -0,0 +1,138 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+import { timerPresetModeValidator } from "./schema";
+import { validateDuration, validateName } from "./timers";
+
+const MAX_PRESETS_PER_USER = 50;
+
+const timerPresetDocValidator = v.object({
+  _id: v.id("timerPresets"),
+  _creationTime: v.number(),
+  userId: v.id("user"),
+  clientId: v.string(),
+  name: v.string(),
+  duration: v.number(),
+  mode: v.optional(timerPresetModeValidator),
+  createdAt: v.number(),
+});
+
+const timerPresetPayloadValidator = v.object({
+  clientId: v.string(),
+  name: v.string(),
+  duration: v.number(),
+  mode: v.optional(timerPresetModeValidator),
+  createdAt: v.number(),
+});
+
+type TimerPresetPayload = Infer<typeof timerPresetPayloadValidator>;
+
+/**
+ * Insert a preset unless one with the same clientId exists.
+ */
+async function insertPreset(
+  ctx: MutationCtx,
+  userId: Id<"user">,
+  preset: TimerPresetPayload,
+): Promise<"inserted" | "skipped"> {
+  validateName(preset.name);
+  validateDuration(preset.duration, "Duration");
+  if (preset.mode !== "stopwatch" && preset.duration < 1000) {
+    throw new Error("Presets must be at least 1 second");
+  }
+
+  const existing = await ctx.db
+    .query("timerPresets")
+    .withIndex("by_user_client", (q) => q.eq("userId", userId).eq("clientId", preset.clientId))
+    .unique();
+  if (existing) return "skipped";
+
+  const presets = await ctx.db
+    .query("timerPresets")
+    .withIndex("by_user_created", (q) => q.eq("userId", userId))
+    .collect();
+  if (presets.length >= MAX_PRESETS_PER_USER) {
+    throw new Error(`Maximum preset limit reached. You can have up to ${MAX_PRESETS_PER_USER} presets.`);
+  }
+
+  await ctx.db.insert("timerPresets", { userId, ...preset });
+  return "inserted";
+}
+
+/**
+ * Presets in the order they were saved, which is the order of their number keys.
+ */
+export const getPresets = query({
+  args: {},
+  returns: v.union(v.array(timerPresetDocValidator), v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    return ctx.db
+      .query("timerPresets")
+      .withIndex("by_user_created", (q) => q.eq("userId", user._id))
+      .collect();
+  },
+});
+
+export const addPreset = mutation({
+  args: timerPresetPayloadValidator,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    await insertPreset(ctx, user._id, args);
+    return null;
+  },
+});
+
+export const deletePreset = mutation({
+  args: {
+    clientId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const preset = await ctx.db
+      .query("timerPresets")
+      .withIndex("by_user_client", (q) => q.eq("userId", user._id).eq("clientId", args.clientId))
+      .unique();
+    if (preset) {
+      await ctx.db.delete(preset._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Upload the presets saved on this device before signing in. Safe to repeat: presets
+ * already on the server are skipped.
+ */
+export const syncLocalPresets = mutation({
+  args: {
+    presets: v.array(timerPresetPayloadValidator),
+  },
+  returns: v.object({ inserted: v.number(), skipped: v.number() }),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    if (args.presets.length > MAX_PRESETS_PER_USER) {
+      throw new Error(`Cannot sync more than ${MAX_PRESETS_PER_USER} presets at once`);
+    }
+
+    let inserted = 0;
+    let skipped = 0;
+    for (const preset of args.presets) {
+      const result = await insertPreset(ctx, user._id, preset);
+      if (result === "inserted") inserted++;
+      else skipped++;
+    }
+    return { inserted, skipped };
+  },
+});
@@ -0,0 +1,421 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+import { pomodoroPhaseValidator, pomodoroValidator, stopwatchValidator, timerQueueItemValidator, timerTaskValidator } from "./schema";
+
+type PomodoroPhase = Infer<typeof pomodoroPhaseValidator>;
+type Pomodoro = Infer<typeof pomodoroValidator>;
+type TimerTask = Infer<typeof timerTaskValidator>;
+type Stopwatch = Infer<typeof stopwatchValidator>;
+type TimerQueueItem = Infer<typeof timerQueueItemValidator>;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DURATION = 100 * 60 * 60 * 1000; // The timer input goes up to 99:59 hours
+const MAX_SYNC_SESSIONS = 1000;
+const MAX_LONG_BREAK_EVERY = 12;
+const MAX_LAPS = 99;
+const MAX_QUEUE_LENGTH = 50;
+
+const timerSessionDocValidator = v.object({
+  _id: v.id("timerSessions"),
+  _creationTime: v.number(),
+  userId: v.id("user"),
+  clientId: v.string(),
+  name: v.string(),
+  duration: v.number(),
+  completedAt: v.number(),
+  phase: v.optional(pomodoroPhaseValidator),
+  task: v.optional(timerTaskValidator),
+  laps: v.optional(v.array(v.number())),
+});
+
+const timerSessionPayloadValidator = v.object({
+  clientId: v.string(),
+  name: v.string(),
+  duration: v.number(),
+  completedAt: v.number(),
+  phase: v.optional(pomodoroPhaseValidator),
+  task: v.optional(timerTaskValidator),
+  laps: v.optional(v.array(v.number())),
+});
+
+const activeTimerDocValidator = v.object({
+  _id: v.id("activeTimers"),
+  _creationTime: v.number(),
+  userId: v.id("user"),
+  name: v.string(),
+  duration: v.number(),
+  remaining: v.number(),
+  startedAt: v.optional(v.number()),
+  pomodoro: v.optional(pomodoroValidator),
+  task: v.optional(timerTaskValidator),
+  stopwatch: v.optional(stopwatchValidator),
+  queue: v.optional(v.array(timerQueueItemValidator)),
+  updatedAt: v.number(),
+});
+
+export function validateName(name: string): void {
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Name must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+}
+
+export function validateDuration(duration: number, label: string): void {
+  if (!Number.isFinite(duration) || duration < 0 || duration > MAX_DURATION) {
+    throw new Error(`${label} must be between 0 and 100 hours`);
+  }
+}
+
+function validateTask(task: TimerTask): void {
+  if (task.title.length > MAX_NAME_LENGTH) {
+    throw new Error(`Task title must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+}
+
+// Splits can't go backwards or past the end of the stopwatch
+function validateLaps(laps: number[], end: number): void {
+  if (laps.length > MAX_LAPS) {
+    throw new Error(`A stopwatch can have at most ${MAX_LAPS} laps`);
+  }
+  let previous = 0;
+  for (const lap of laps) {
+    if (!Number.isFinite(lap) || lap < previous || lap > end) {
+      throw new Error("Invalid lap times");
+    }
+    previous = lap;
+  }
+}
+
+function validateStopwatch(stopwatch: Stopwatch): void {
+  validateDuration(stopwatch.elapsed, "Elapsed time");
+  validateLaps(stopwatch.laps, MAX_DURATION);
+}
+
+function validateQueue(queue: TimerQueueItem[]): void {
+  if (queue.length > MAX_QUEUE_LENGTH) {
+    throw new Error(`A queue can have at most ${MAX_QUEUE_LENGTH} timers`);
+  }
+  for (const item of queue) {
+    validateName(item.name);
+    validateDuration(item.duration, "Duration");
+    if (item.duration < 1000) {
+      throw new Error("Queued timers must be at least 1 second");
+    }
+  }
+}
+
+export function validatePomodoroDuration(duration: number): void {
+  if (!Number.isFinite(duration) || duration < 1000 || duration > MAX_DURATION) {
+    throw new Error("Pomodoro phases must be between 1 second and 100 hours");
+  }
+}
+
+export function validateLongBreakEvery(longBreakEvery: number): void {
+  if (!Number.isInteger(longBreakEvery) || longBreakEvery < 1 || longBreakEvery > MAX_LONG_BREAK_EVERY) {
+    throw new Error(`Long breaks must come every 1-${MAX_LONG_BREAK_EVERY} cycles`);
+  }
+}
+
+function validatePomodoro(pomodoro: Pomodoro): void {
+  for (const duration of [pomodoro.focusDuration, pomodoro.shortBreakDuration, pomodoro.longBreakDuration]) {
+    validatePomodoroDuration(duration);
+  }
+  validateLongBreakEvery(pomodoro.longBreakEvery);
+  if (!Number.isInteger(pomodoro.cycle) || pomodoro.cycle < 1 || pomodoro.cycle > pomodoro.longBreakEvery) {
+    throw new Error("Invalid pomodoro cycle");
+  }
+}
+
+export function getPhaseDuration(pomodoro: Pomodoro, phase: PomodoroPhase): number {
+  if (phase === "focus") return pomodoro.focusDuration;
+  return phase === "shortBreak" ? pomodoro.shortBreakDuration : pomodoro.longBreakDuration;
+}
+
+/**
+ * The phase after the current one: a break after each focus phase, long after the
+ * last focus phase of a set, and the next focus phase after a break.
+ */
+export function advancePomodoro(pomodoro: Pomodoro): Pomodoro {
+  if (pomodoro.phase === "focus") {
+    return { ...pomodoro, phase: pomodoro.cycle >= pomodoro.longBreakEvery ? "longBreak" : "shortBreak" };
+  }
+  return { ...pomodoro, phase: "focus", cycle: pomodoro.phase === "longBreak" ? 1 : pomodoro.cycle + 1 };
+}
+
+async function getActiveTimerDoc(ctx: MutationCtx, userId: Id<"user">): Promise<Doc<"activeTimers"> | null> {
+  return ctx.db
+    .query("activeTimers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+/**
+ * Insert a session unless one with the same clientId exists. Sessions never change
+ * after they're recorded, so an existing one is left as it is.
+ */
+async function insertSession(
+  ctx: MutationCtx,
+  userId: Id<"user">,
+  session: {
+    clientId: string;
+    name: string;
+    duration: number;
+    completedAt: number;
+    phase?: PomodoroPhase;
+    task?: TimerTask;
+    laps?: number[];
+  },
+): Promise<"inserted" | "skipped"> {
+  validateName(session.name);
+  validateDuration(session.duration, "Duration");
+  if (session.task) {
+    validateTask(session.task);
+  }
+  if (session.laps) {
+    validateLaps(session.laps, session.duration);
+  }
+
+  const existing = await ctx.db
+    .query("timerSessions")
+    .withIndex("by_user_client", (q) => q.eq("userId", userId).eq("clientId", session.clientId))
+    .unique();
+  if (existing) return "skipped";
+
+  await ctx.db.insert("timerSessions", { userId, ...session });
+  return "inserted";
+}
+
+/**
+ * Completed sessions, newest first.
+ */
+export const getSessions = query({
+  args: {},
+  returns: v.union(v.array(timerSessionDocValidator), v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    return ctx.db
+      .query("timerSessions")
+      .withIndex("by_user_completed", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Focused time per todo task, by the task's clientId. Breaks don't count.
+ */
+export const getFocusTimeByTask = query({
+  args: {},
+  returns: v.union(v.array(v.object({ taskClientId: v.string(), duration: v.number() })), v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    const sessions = await ctx.db
+      .query("timerSessions")
+      .withIndex("by_user_completed", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // Task clientIds aren't safe as record keys, so total them in a Map
+    const totals = new Map<string, number>();
+    for (const session of sessions) {
+      if (!session.task || (session.phase && session.phase !== "focus")) continue;
+      totals.set(session.task.clientId, (totals.get(session.task.clientId) ?? 0) + session.duration);
+    }
+    return Array.from(totals, ([taskClientId, duration]) => ({ taskClientId, duration }));
+  },
+});
+
+export const addSession = mutation({
+  args: timerSessionPayloadValidator,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    await insertSession(ctx, user._id, args);
+    return null;
+  },
+});
+
+export const deleteSession = mutation({
+  args: {
+    clientId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const session = await ctx.db
+      .query("timerSessions")
+      .withIndex("by_user_client", (q) => q.eq("userId", user._id).eq("clientId", args.clientId))
+      .unique();
+    if (session) {
+      await ctx.db.delete(session._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Upload the sessions recorded on this device before signing in. Safe to repeat:
+ * sessions already on the server are skipped.
+ */
+export const syncLocalSessions = mutation({
+  args: {
+    sessions: v.array(timerSessionPayloadValidator),
+  },
+  returns: v.object({ inserted: v.number(), skipped: v.number() }),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    if (args.sessions.length > MAX_SYNC_SESSIONS) {
+      throw new Error(`Cannot sync more than ${MAX_SYNC_SESSIONS} sessions at once`);
+    }
+
+    let inserted = 0;
+    let skipped = 0;
+    for (const session of args.sessions) {
+      const result = await insertSession(ctx, user._id, session);
+      if (result === "inserted") inserted++;
+      else skipped++;
+    }
+    return { inserted, skipped };
+  },
+});
+
+export const getActiveTimer = query({
+  args: {},
+  returns: v.union(activeTimerDocValidator, v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) return null;
+
+    return ctx.db
+      .query("activeTimers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+  },
+});
+
+/**
+ * Replace the user's timer. Starting sends `startedAt`; pausing sends the time left as
+ * `remaining` without it. Changes older than the saved one are ignored, so a slow
+ * device can't undo a newer change from another one.
+ */
+export const saveActiveTimer = mutation({
+  args: {
+    name: v.string(),
+    duration: v.number(),
+    remaining: v.number(),
+    startedAt: v.optional(v.number()),
+    pomodoro: v.optional(pomodoroValidator),
+    task: v.optional(timerTaskValidator),
+    stopwatch: v.optional(stopwatchValidator),
+    queue: v.optional(v.array(timerQueueItemValidator)),
+    updatedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    validateName(args.name);
+    validateDuration(args.duration, "Duration");
+    validateDuration(args.remaining, "Remaining time");
+    if (args.remaining > args.duration) {
+      throw new Error("Remaining time can't be longer than the timer");
+    }
+    if (args.pomodoro) {
+      validatePomodoro(args.pomodoro);
+    }
+    if (args.task) {
+      validateTask(args.task);
+    }
+    if (args.stopwatch) {
+      validateStopwatch(args.stopwatch);
+    }
+    if (args.queue) {
+      validateQueue(args.queue);
+    }
+
+    const existing = await getActiveTimerDoc(ctx, user._id);
+    if (!existing) {
+      await ctx.db.insert("activeTimers", { userId: user._id, ...args });
+      return null;
+    }
+    if (existing.updatedAt > args.updatedAt) return null;
+
+    await ctx.db.replace(existing._id, { userId: user._id, ...args });
+    return null;
+  },
+});
+
+/**
+ * Record the running timer as a completed session. A plain countdown starts the next one
+ * in its queue, or is left paused at zero; a pomodoro moves on to its next phase, which
+ * starts right away with autoAdvance.
+ * Every device sees the countdown end and calls this, so only the call whose `startedAt`
+ * still matches the saved run records the session.
+ */
+export const completeActiveTimer = mutation({
+  args: {
+    clientId: v.string(), // For the new session
+    startedAt: v.number(),
+  },
+  returns: v.boolean(), // Whether this call recorded the session
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    const timer = await getActiveTimerDoc(ctx, user._id);
+    // A stopwatch has no end; it's recorded with addSession when stopped
+    if (!timer || timer.stopwatch || timer.startedAt !== args.startedAt) return false;
+
+    const completedAt = timer.startedAt + timer.remaining;
+    await insertSession(ctx, user._id, {
+      clientId: args.clientId,
+      name: timer.name,
+      duration: timer.duration,
+      completedAt,
+      ...(timer.pomodoro && { phase: timer.pomodoro.phase }),
+      ...(timer.task && { task: timer.task }),
+    });
+
+    if (!timer.pomodoro) {
+      const [next, ...queue] = timer.queue ?? [];
+      if (next) {
+        // The next queued countdown starts where this one ended, like an auto-advanced phase
+        await ctx.db.patch(timer._id, {
+          name: next.name,
+          duration: next.duration,
+          remaining: next.duration,
+          startedAt: completedAt,
+          task: undefined,
+          queue,
+          updatedAt: Date.now(),
+        });
+        return true;
+      }
+      await ctx.db.patch(timer._id, { remaining: 0, startedAt: undefined, updatedAt: Date.now() });
+      return true;
+    }
+
+    const pomodoro = advancePomodoro(timer.pomodoro);
+    const duration = getPhaseDuration(pomodoro, pomodoro.phase);
+    await ctx.db.patch(timer._id, {
+      duration,
+      remaining: duration,
+      // Counting from the end of the last phase keeps every device on the same countdown
+      startedAt: pomodoro.autoAdvance ? completedAt : undefined,
+      pomodoro,
+      updatedAt: Date.now(),
+    });
+    return true;
+  },
+});
@@ -0,0 +1,255 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { authComponent } from "./auth";
+import {
+  completionSoundValidator,
+  generalSettingsValidator,
+  journalSettingsValidator,
+  overduePolicyValidator,
+  themeValidator,
+  timerSettingsValidator,
+  todoSettingsValidator,
+  trackerSettingsValidator,
+} from "./schema";
+import { validateLongBreakEvery, validatePomodoroDuration } from "./timers";
+
+// Bump when a section changes shape, and teach migrateSettings to upgrade older rows
+export const SETTINGS_VERSION = 1;
+
+export const MAX_GOAL_SLOTS = 1000;
+
+export type GeneralSettings = Infer<typeof generalSettingsValidator>;
+export type TodoSettings = Infer<typeof todoSettingsValidator>;
+export type TrackerSettings = Infer<typeof trackerSettingsValidator>;
+export type JournalSettings = Infer<typeof journalSettingsValidator>;
+export type TimerSettings = Infer<typeof timerSettingsValidator>;
+
+export const DEFAULT_GENERAL_SETTINGS: GeneralSettings = {
+  theme: "system",
+  focusMode: false,
+};
+
+export const DEFAULT_TODO_SETTINGS: TodoSettings = {
+  overduePolicy: "rollover",
+  timeZone: "UTC",
+};
+
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+  goalSlots: 400,
+  pricePerCustomer: 6,
+  autoRollover: false,
+};
+
+export const DEFAULT_JOURNAL_SETTINGS: JournalSettings = {
+  dailyNotes: false,
+};
+
+// Mirrors DEFAULT_POMODORO_SETTINGS and DEFAULT_ALERT_SETTINGS in apps/timer/lib
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  focusDuration: 25 * 60 * 1000,
+  shortBreakDuration: 5 * 60 * 1000,
+  longBreakDuration: 15 * 60 * 1000,
+  longBreakEvery: 4,
+  autoAdvance: true,
+  sound: "alarm",
+  notifications: false,
+};
+
+export function validateTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error("Invalid time zone");
+  }
+}
+
+export function validateGoalSlots(goalSlots: number): void {
+  if (!Number.isInteger(goalSlots) || goalSlots < 1 || goalSlots > MAX_GOAL_SLOTS) {
+    throw new Error(`Goal must be a whole number between 1 and ${MAX_GOAL_SLOTS}`);
+  }
+}
+
+export function validatePrice(price: number): void {
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error("Price must be greater than zero");
+  }
+}
+
+// Drop keys explicitly set to undefined so they don't override stored values when spread
+function withoutUndefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * The user's local date (YYYY-MM-DD) at `now` in the given time zone.
+ */
+export function getLocalDate(timeZone: string, now: number): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(now));
+}
+
+export async function getSettingsDoc(
+  ctx: MutationCtx,
+  userEmail: string,
+): Promise<Doc<"userSettings"> | null> {
+  return ctx.db
+    .query("userSettings")
+    .withIndex("by_user", (q) => q.eq("userEmail", userEmail))
+    .unique();
+}
+
+const settingsValidator = v.object({
+  version: v.number(),
+  general: v.optional(generalSettingsValidator),
+  todo: v.optional(todoSettingsValidator),
+  tracker: v.optional(trackerSettingsValidator),
+  journal: v.optional(journalSettingsValidator),
+  timer: v.optional(timerSettingsValidator),
+});
+
+export type Settings = Infer<typeof settingsValidator>;
+
+/**
+ * Bring a stored row up to SETTINGS_VERSION. Sections missing from the row are left
+ * out so clients can tell "never saved" apart from a saved default.
+ */
+function migrateSettings(doc: Doc<"userSettings">): Settings {
+  // Version 0 rows predate versioning and only hold the todo section, whose shape is unchanged
+  return {
+    version: SETTINGS_VERSION,
+    ...(doc.general && { general: doc.general }),
+    ...(doc.todo && { todo: doc.todo }),
+    ...(doc.tracker && { tracker: doc.tracker }),
+    ...(doc.journal && { journal: doc.journal }),
+    ...(doc.timer && { timer: doc.timer }),
+  };
+}
+
+/**
+ * The signed-in user's settings, or null when signed out.
+ */
+export const getSettings = query({
+  args: {},
+  returns: v.union(settingsValidator, v.null()),
+  handler: async (ctx) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const settings = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userEmail", user.email))
+      .unique();
+
+    return settings ? migrateSettings(settings) : { version: SETTINGS_VERSION };
+  },
+});
+
+/**
+ * Update one or more sections. Only the given fields change; a section that was never
+ * saved starts from its defaults.
+ */
+export const updateSettings = mutation({
+  args: {
+    general: v.optional(
+      v.object({
+        theme: v.optional(themeValidator),
+        focusMode: v.optional(v.boolean()),
+      }),
+    ),
+    todo: v.optional(
+      v.object({
+        overduePolicy: v.optional(overduePolicyValidator),
+        timeZone: v.optional(v.string()),
+      }),
+    ),
+    tracker: v.optional(
+      v.object({
+        goalSlots: v.optional(v.number()),
+        pricePerCustomer: v.optional(v.number()),
+        autoRollover: v.optional(v.boolean()),
+      }),
+    ),
+    journal: v.optional(
+      v.object({
+        dailyNotes: v.optional(v.boolean()),
+      }),
+    ),
+    timer: v.optional(
+      v.object({
+        focusDuration: v.optional(v.number()),
+        shortBreakDuration: v.optional(v.number()),
+        longBreakDuration: v.optional(v.number()),
+        longBreakEvery: v.optional(v.number()),
+        autoAdvance: v.optional(v.boolean()),
+        sound: v.optional(completionSoundValidator),
+        notifications: v.optional(v.boolean()),
+      }),
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await authComponent.safeGetAuthUser(ctx);
+    if (!user) throw new Error("Not authenticated");
+
+    if (args.todo?.timeZone !== undefined) {
+      validateTimeZone(args.todo.timeZone);
+    }
+    if (args.tracker?.goalSlots !== undefined) {
+      validateGoalSlots(args.tracker.goalSlots);
+    }
+    if (args.tracker?.pricePerCustomer !== undefined) {
+      validatePrice(args.tracker.pricePerCustomer);
+    }
+    if (args.timer) {
+      for (const duration of [args.timer.focusDuration, args.timer.shortBreakDuration, args.timer.longBreakDuration]) {
+        if (duration !== undefined) validatePomodoroDuration(duration);
+      }
+      if (args.timer.longBreakEvery !== undefined) {
+        validateLongBreakEvery(args.timer.longBreakEvery);
+      }
+    }
+
+    const existing = await getSettingsDoc(ctx, user.email);
+    const current = existing ? migrateSettings(existing) : null;
+
+    const sections: Partial<Omit<Settings, "version">> = {};
+    if (args.general) {
+      sections.general = { ...DEFAULT_GENERAL_SETTINGS, ...current?.general, ...withoutUndefined(args.general) };
+    }
+    if (args.todo) {
+      sections.todo = { ...DEFAULT_TODO_SETTINGS, ...current?.todo, ...withoutUndefined(args.todo) };
+    }
+    if (args.tracker) {
+      sections.tracker = { ...DEFAULT_TRACKER_SETTINGS, ...current?.tracker, ...withoutUndefined(args.tracker) };
+    }
+    if (args.journal) {
+      sections.journal = { ...DEFAULT_JOURNAL_SETTINGS, ...current?.journal, ...withoutUndefined(args.journal) };
+    }
+    if (args.timer) {
+      sections.timer = { ...DEFAULT_TIMER_SETTINGS, ...current?.timer, ...withoutUndefined(args.timer) };
+    }
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...sections, version: SETTINGS_VERSION, updatedAt: now });
+    } else {
+      await ctx.db.insert("userSettings", {
+        userEmail: user.email,
+        ...sections,
+        version: SETTINGS_VERSION,
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
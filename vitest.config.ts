@@ -0,0 +1,24 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+// Each app resolves "@/" against its own root, as in its tsconfig
+const appRoot = (app: string) => fileURLToPath(new URL(`./apps/${app}`, import.meta.url))
+
+export default defineConfig({
+  test: {
+    projects: [
+      {
+        test: { name: "convex", include: ["convex/**/*.test.ts"] },
+      },
+      {
+        resolve: { alias: { "@": appRoot("timer") } },
+        test: { name: "timer", include: ["apps/timer/**/*.test.ts"] },
+      },
+      {
+        resolve: { alias: { "@": appRoot("notes") } },
+        // The legacy note migration parses HTML with the browser's DOM
+        test: { name: "notes", include: ["apps/notes/**/*.test.ts"], environment: "jsdom" },
+      },
+    ],
+  },
+})